@@ -6,7 +6,7 @@
 
 import { basename } from 'node:path';
 
-import type { VibeValidateConfig } from '@vibe-validate/config';
+import type { ResolvedConfigChain, VibeValidateConfig } from '@vibe-validate/config';
 import chalk from 'chalk';
 import type { Command } from 'commander';
 
@@ -18,7 +18,11 @@ import { loadConfigWithErrors, findConfigPath } from '../utils/config-loader.js'
  * Load and validate configuration, exiting on error
  * @returns Config file path and loaded configuration
  */
-async function loadAndValidateConfig(): Promise<{ configPath: string; config: VibeValidateConfig }> {
+async function loadAndValidateConfig(): Promise<{
+  configPath: string;
+  config: VibeValidateConfig;
+  chain?: ResolvedConfigChain;
+}> {
   // Find config file
   const configPath = findConfigPath();
   if (!configPath) {
@@ -44,7 +48,7 @@ async function loadAndValidateConfig(): Promise<{ configPath: string; config: Vi
     process.exit(1);
   }
 
-  return { configPath, config };
+  return { configPath, config, chain: result.chain };
 }
 
 export function configCommand(program: Command): void {
@@ -55,7 +59,7 @@ export function configCommand(program: Command): void {
     .option('-v, --verbose', 'Show detailed configuration with explanations')
     .action(async (options) => {
       try {
-        const { configPath, config } = await loadAndValidateConfig();
+        const { configPath, config, chain } = await loadAndValidateConfig();
 
         // If validate-only mode, exit here
         if (options.validate) {
@@ -66,7 +70,7 @@ export function configCommand(program: Command): void {
         // Output YAML format (always)
         if (options.verbose) {
           // Verbose mode: show with colors and explanations
-          displayVerboseConfig(config, configPath);
+          displayVerboseConfig(config, configPath, chain);
         } else {
           // Minimal mode: just the YAML
           displayYamlConfig(config);
@@ -89,10 +93,31 @@ export function configCommand(program: Command): void {
     });
 }
 
+/**
+ * Display where each value of an inherited config came from
+ *
+ * Only shown when the config uses `extends`; otherwise every value comes
+ * from the config file itself.
+ */
+function displayValueSources(chain: ResolvedConfigChain | undefined): void {
+  if (!chain || chain.layers.length < 2) {
+    return;
+  }
+
+  console.log(chalk.blue('Extends:'));
+  console.log(chalk.gray(`  ${chain.layers.map(layer => layer.source).join(' → ')}`));
+  console.log();
+  console.log(chalk.blue('Value sources:'));
+  for (const [path, source] of chain.sources) {
+    console.log(chalk.gray(`  ${path} ← ${source}`));
+  }
+  console.log();
+}
+
 /**
  * Display configuration in verbose format with colors and explanations
  */
-function displayVerboseConfig(config: VibeValidateConfig, configPath: string): void {
+function displayVerboseConfig(config: VibeValidateConfig, configPath: string, chain?: ResolvedConfigChain): void {
   // First show YAML
   displayYamlConfig(config);
 
@@ -129,6 +154,8 @@ function displayVerboseConfig(config: VibeValidateConfig, configPath: string): v
     console.log();
   }
 
+  displayValueSources(chain);
+
   console.log(chalk.gray('─'.repeat(50)));
   console.log(chalk.green('✅ Configuration is valid'));
 }
@@ -173,7 +200,7 @@ The \`config\` command displays your resolved vibe-validate configuration and va
 ## How It Works
 
 1. Locates vibe-validate.config.yaml in the current directory
-2. Loads and parses the YAML configuration
+2. Loads and parses the YAML configuration, merging the configs it \`extends\`
 3. Validates against the vibe-validate schema
 4. Displays the configuration in YAML format
 5. Optionally shows verbose details with explanations
@@ -181,7 +208,7 @@ The \`config\` command displays your resolved vibe-validate configuration and va
 ## Options
 
 - \`--validate\` - Validate configuration only (exit 0 if valid, 1 if invalid)
-- \`-v, --verbose\` - Show detailed configuration with colored explanations
+- \`-v, --verbose\` - Show detailed configuration with colored explanations, and which file each inherited value came from
 
 ## Exit Codes
 
@@ -2,6 +2,7 @@
  * History command - View and manage validation history
  */
 
+import { formatResourceUsage, type StepResult } from '@vibe-validate/core';
 import { getGitTreeHash } from '@vibe-validate/git';
 import {
   readHistoryNote,
@@ -9,23 +10,52 @@ import {
   getAllRunCacheForTree,
   getAllRunCacheEntries,
   pruneHistoryByAge,
+  pruneHistoryByPolicy,
   pruneAllHistory,
   pruneLegacyNotes,
   pruneAllRunCache,
   checkHistoryHealth,
+  buildFlakyTestIndex,
+  buildHistoryExport,
+  computeHistoryStats,
+  diffValidationRuns,
+  getBlobStorageStats,
+  findDefaultDiffRuns,
+  getRunDiffStat,
+  parseStatsPeriod,
+  searchHistory,
+  verifyRunSignature,
+  type FlakyTestRecord,
   type HistoryNote,
+  type HistoryStats,
   type RunCacheNote,
+  type RunDiff,
+  type RunRef,
+  type SearchMatch,
+  type SearchQuery,
+  type StepStats,
 } from '@vibe-validate/history';
 import { type Command } from 'commander';
 import { stringify as stringifyYaml } from 'yaml';
 
+import { GitHubActionsProvider } from '../services/ci-providers/github-actions.js';
 import { getCommandName } from '../utils/command-name.js';
-import { findConfigPath } from '../utils/config-loader.js';
+import { findConfigPath, loadConfig } from '../utils/config-loader.js';
+import { HISTORY_EXPORT_FORMATS, isHistoryExportFormat, writeHistoryExport } from '../utils/history-export.js';
+import { importCIHistory, type HistoryImportSource } from '../utils/history-import.js';
+import { resolveHistoryRetention } from '../utils/history-retention.js';
+import { getHistoryRemote, syncHistory, type HistorySyncDirection } from '../utils/history-sync.js';
+import { formatBytes } from '../utils/temp-files.js';
 import { cleanRunCacheEntries } from '../utils/tree-hash-output.js';
 
 // Type for flattened validation run with tree hash
 type ValidationRun = HistoryNote['runs'][0] & { treeHash: string };
 
+const YAML_TABLE_OPTION_DESCRIPTION = 'Output in YAML format (default: table)';
+const BRANCH_OPTION = '-b, --branch <name>';
+const LIMIT_OPTION = '-l, --limit <number>';
+const LIMIT_OPTION_DESCRIPTION = 'Limit number of results';
+
 /**
  * Display error samples from extraction result
  *
@@ -51,16 +81,74 @@ function displayErrorSamples(extraction: RunCacheNote['extraction']): void {
 /**
  * Display phases from a validation run
  *
+ * Steps reused from the step cache are listed under their phase with the
+ * input hash that was hit.
+ *
  * @param phases - The phases from a validation result
  */
-function displayRunPhases(phases: Array<{ name: string; passed: boolean; durationSecs: number }> | undefined): void {
+function displayRunPhases(phases: ValidationRun['result']['phases']): void {
   if (!phases) return;
 
   console.log(`  Phases:`);
   for (const phase of phases) {
     const phaseStatus = phase.passed ? '✓' : '✗';
     console.log(`    ${phaseStatus} ${phase.name} (${phase.durationSecs.toFixed(1)}s)`);
+
+    for (const step of phase.steps) {
+      displayStepNotes(step);
+    }
+  }
+}
+
+/**
+ * Display the notable facts about a step: cached, flaky, skipped or timed
+ * out, and the resources it used
+ *
+ * @param step - Step result from a history run
+ */
+function displayStepNotes(step: StepResult): void {
+  if (step.isCachedResult && step.inputsHash) {
+    console.log(`      ⚡ ${step.name} (cached, inputs ${step.inputsHash.slice(0, 12)})`);
+  }
+  if (step.flaky) {
+    console.log(`      🔁 ${step.name} (flaky: passed on attempt ${step.attempts?.length ?? 2})`);
+  }
+  if (step.skipped) {
+    console.log(`      ⏭️  ${step.name} (skipped: ${step.skipped.reason})`);
+  }
+  if (step.timedOut) {
+    console.log(`      ⏱️  ${step.name} (timed out)`);
+  }
+  if (step.resources) {
+    console.log(`      📊 ${step.name} (${formatResourceUsage(step.resources)})`);
+  }
+  if (step.budgetExceeded) {
+    console.log(`      ⚠️  ${step.name} (over resource budget: ${step.budgetExceeded.join('; ')})`);
+  }
+}
+
+/**
+ * Display a run's signature and whether it verifies here
+ *
+ * @param treeHash - Tree hash the run is recorded under
+ * @param run - Validation run from history
+ */
+function displayRunSignature(treeHash: string, run: HistoryNote['runs'][0]): void {
+  if (!run.signature) {
+    return;
   }
+  const verified = verifyRunSignature(treeHash, run) === null ? 'not verified' : 'verified';
+  console.log(`  Signature: ${run.signature.method} (${verified})`);
+}
+
+/**
+ * Names of the steps of a run that passed only after a retry
+ *
+ * @param run - Validation run from history
+ * @returns Flaky step names, in config order
+ */
+function getFlakyStepNames(run: ValidationRun): string[] {
+  return (run.result.phases ?? []).flatMap(phase => phase.steps.filter(step => step.flaky).map(step => step.name));
 }
 
 /**
@@ -133,14 +221,83 @@ export function historyCommand(program: Command): void {
   history
     .command('list')
     .description('List validation history')
-    .option('-l, --limit <number>', 'Limit number of results', '20')
-    .option('-b, --branch <name>', 'Filter by branch name')
+    .option(LIMIT_OPTION, LIMIT_OPTION_DESCRIPTION, '20')
+    .option(BRANCH_OPTION, 'Filter by branch name')
     .option('-r, --run [command]', 'List run cache entries, optionally filtered by command pattern')
-    .option('--yaml', 'Output in YAML format (default: table)')
+    .option('--yaml', YAML_TABLE_OPTION_DESCRIPTION)
     .action(async (options) => {
       await listHistory(options);
     });
 
+  // history stats
+  history
+    .command('stats')
+    .description('Show pass rates, durations and top failures per step')
+    .option('--since <period>', 'Period to cover: 30d, 12h, 2w or a date', '30d')
+    .option(BRANCH_OPTION, 'Only count runs on this branch')
+    .option('--yaml', YAML_TABLE_OPTION_DESCRIPTION)
+    .action(async (options) => {
+      await showHistoryStats(options);
+    });
+
+  // history flaky
+  history
+    .command('flaky')
+    .description('List tests that failed and passed on the same code, or fail intermittently')
+    .option(LIMIT_OPTION, LIMIT_OPTION_DESCRIPTION, '20')
+    .option('--yaml', YAML_TABLE_OPTION_DESCRIPTION)
+    .action(async (options) => {
+      await listFlakyTests(options);
+    });
+
+  // history diff
+  history
+    .command('diff [tree-a] [tree-b]')
+    .description('Show what changed between two validation runs as YAML (default: latest passing run vs latest run)')
+    .option(BRANCH_OPTION, 'Only consider runs on this branch for the defaults')
+    .action(async (treeA, treeB, options) => {
+      await diffHistory(treeA, treeB, options);
+    });
+
+  // history search
+  history
+    .command('search')
+    .description('Find runs by branch, step, outcome, error code, file and date')
+    .option('-b, --branch <glob>', 'Branch glob, e.g. "feature/*"')
+    .option('--step <glob>', 'Step name glob')
+    .option('--status <status>', 'passed or failed (of the matching step when step filters are given, else of the run)')
+    .option('--error-code <code>', 'Error code reported by a step, e.g. TS2322')
+    .option('--file <glob>', 'Glob on the file of an error reported by a step')
+    .option('--since <period>', 'Only runs since: 7d, 12h, 2w or a date')
+    .option('--until <period>', 'Only runs until: 7d, 12h, 2w or a date')
+    .option('--uncommitted', 'Only runs with uncommitted changes')
+    .option('--no-uncommitted', 'Only runs without uncommitted changes')
+    .option(LIMIT_OPTION, LIMIT_OPTION_DESCRIPTION, '20')
+    .option('--yaml', YAML_TABLE_OPTION_DESCRIPTION)
+    .action(async (options) => {
+      await searchValidationHistory(options);
+    });
+
+  // history export
+  history
+    .command('export')
+    .description('Export validation and run cache history as JUnit XML, JSON Lines or SQLite')
+    .requiredOption('--format <format>', `Export format: ${HISTORY_EXPORT_FORMATS.join(', ')}`)
+    .requiredOption('--out <path>', 'File to write (replaced if it exists)')
+    .action(async (options) => {
+      await exportHistory(options);
+    });
+
+  // history import
+  history
+    .command('import')
+    .description('Import validation results from CI runs into local history')
+    .option('--from-pr <number>', 'Import the CI runs of a pull request')
+    .option('--run-id <id>', 'Import a single CI run')
+    .action(async (options) => {
+      await importHistory(options);
+    });
+
   // history show
   history
     .command('show [tree-hash]')
@@ -157,6 +314,7 @@ export function historyCommand(program: Command): void {
     .description('Prune old validation history')
     .option('--older-than <days>', 'Remove notes older than N days (e.g., "90")', '90')
     .option('--all', 'Remove all history')
+    .option('--policy', 'Apply the history.retention policy from the config')
     .option('--run', 'Prune run cache entries instead of validation history')
     .option('--dry-run', 'Show what would be deleted without actually deleting')
     .action(async (options) => {
@@ -170,6 +328,24 @@ export function historyCommand(program: Command): void {
     .action(async () => {
       await healthCheck();
     });
+
+  // history push
+  history
+    .command('push')
+    .description('Push validation history to the remote, merging runs recorded there')
+    .option('--remote <name>', 'Remote to push to (default: history.remote, else git.remoteOrigin)')
+    .action(async (options) => {
+      await syncHistoryWithRemote('push', options);
+    });
+
+  // history pull
+  history
+    .command('pull')
+    .description('Pull validation history from the remote, merging it with local runs')
+    .option('--remote <name>', 'Remote to pull from (default: history.remote, else git.remoteOrigin)')
+    .action(async (options) => {
+      await syncHistoryWithRemote('pull', options);
+    });
 }
 
 /**
@@ -204,6 +380,21 @@ async function outputHistoryYaml(runs: ValidationRun[]): Promise<void> {
   });
 }
 
+/**
+ * Format a run's status, noting its profile and whether it was partial
+ *
+ * @param run - Validation run
+ * @returns e.g. "✓ PASSED" or "✗ FAILED (profile: quick, partial)"
+ */
+function formatRunStatus(run: HistoryNote['runs'][0]): string {
+  const status = run.passed ? '✓ PASSED' : '✗ FAILED';
+  const notes = [
+    ...(run.result.profile ? [`profile: ${run.result.profile}`] : []),
+    ...(run.result.partial ? ['partial'] : []),
+  ];
+  return notes.length > 0 ? `${status} (${notes.join(', ')})` : status;
+}
+
 /**
  * Output history in pretty table format
  */
@@ -219,10 +410,12 @@ function outputHistoryTable(
   for (const run of runs) {
     const timestamp = new Date(run.timestamp).toLocaleString();
     const hash = run.treeHash.slice(0, 7);
-    const status = run.passed ? '✓ PASSED' : '✗ FAILED';
+    const status = formatRunStatus(run);
     const duration = (run.duration / 1000).toFixed(1);
+    const flakySteps = getFlakyStepNames(run);
+    const flaky = flakySteps.length > 0 ? `  🔁 flaky: ${flakySteps.join(', ')}` : '';
 
-    console.log(`${timestamp}  ${hash}  ${run.branch.padEnd(20)}  ${status}  (${duration}s)`);
+    console.log(`${timestamp}  ${hash}  ${run.branch.padEnd(20)}  ${status}  (${duration}s)${flaky}`);
   }
 
   console.log(`\nTotal validation runs: ${allRunsCount}`);
@@ -540,7 +733,7 @@ async function showHistory(
         for (let i = 0; i < note.runs.length; i++) {
           const run = note.runs[i];
           const timestamp = new Date(run.timestamp).toLocaleString();
-          const status = run.passed ? '✓ PASSED' : '✗ FAILED';
+          const status = formatRunStatus(run);
           const duration = (run.duration / 1000).toFixed(1);
 
           console.log(`Run #${i + 1} (${run.id}):`);
@@ -550,6 +743,7 @@ async function showHistory(
           console.log(`  Branch: ${run.branch}`);
           console.log(`  Commit: ${run.headCommit}`);
           console.log(`  Uncommitted Changes: ${run.uncommittedChanges ? 'yes' : 'no'}`);
+          displayRunSignature(note.treeHash ?? treeHash, run);
 
           displayRunPhases(run.result.phases);
 
@@ -584,12 +778,18 @@ async function showHistory(
 async function pruneHistory(options: {
   olderThan?: string;
   all?: boolean;
+  policy?: boolean;
   run?: boolean;
   dryRun?: boolean;
 }): Promise<void> {
   try {
     const dryRun = options.dryRun ?? false;
 
+    if (options.policy) {
+      await pruneHistoryWithPolicy(dryRun);
+      return;
+    }
+
     // If --run flag is provided, prune run cache instead
     if (options.run) {
       console.log(dryRun ? 'Pruning run cache (DRY RUN)...\n' : 'Pruning run cache...\n');
@@ -664,6 +864,40 @@ async function pruneHistory(options: {
   }
 }
 
+/**
+ * Prune validation history by the configured retention policy
+ */
+async function pruneHistoryWithPolicy(dryRun: boolean): Promise<void> {
+  const config = await loadConfig();
+  if (!config?.history?.retention) {
+    throw new Error('No history.retention policy in the config');
+  }
+  const retention = resolveHistoryRetention(config);
+  if (!retention) {
+    return;
+  }
+
+  console.log(dryRun ? 'Applying retention policy (DRY RUN)...\n' : 'Applying retention policy...\n');
+
+  const result = await pruneHistoryByPolicy({ retention }, dryRun);
+
+  if (result.runsPruned === 0) {
+    console.log('Retention policy keeps all history');
+    return;
+  }
+
+  displayPruneResults(result, dryRun, true);
+
+  if (dryRun) {
+    console.log('\nTree hashes affected:');
+    for (const treeHash of result.prunedTreeHashes) {
+      console.log(`  ${treeHash.slice(0, 12)}`);
+    }
+    const cmd = getCommandName();
+    console.log(`\nRun without --dry-run to execute: ${cmd} history prune --policy`);
+  }
+}
+
 /**
  * Check history health
  */
@@ -675,6 +909,14 @@ async function healthCheck(): Promise<void> {
     console.log(`Total tree hashes: ${health.totalNotes}`);
     console.log(`Old notes (>90 days): ${health.oldNotesCount}`);
 
+    const storage = getBlobStorageStats();
+    if (storage.blobs > 0) {
+      console.log(
+        `Compressed extractions: ${storage.references} in ${storage.blobs} blob(s), ` +
+          `${formatBytes(storage.storedBytes)} stored, ${formatBytes(Math.max(storage.savedBytes, 0))} saved`
+      );
+    }
+
     if (health.shouldWarn) {
       console.log('');
       console.log(health.warningMessage);
@@ -688,6 +930,389 @@ async function healthCheck(): Promise<void> {
   }
 }
 
+/**
+ * Format a step's change against the previous period
+ *
+ * @returns e.g. "-5 pts, +1.2s", or "-" without a previous period
+ */
+function formatStepTrend(step: StepStats): string {
+  if (!step.trend) {
+    return '-';
+  }
+  const points = Math.round(step.trend.passRate * 100);
+  const secs = step.trend.p50Secs.toFixed(1);
+  return `${points >= 0 ? '+' : ''}${points} pts, ${step.trend.p50Secs >= 0 ? '+' : ''}${secs}s`;
+}
+
+/**
+ * Output history statistics as a table
+ */
+function outputStatsTable(stats: HistoryStats, branchFilter?: string): void {
+  const since = stats.period.since.slice(0, 10);
+  const until = stats.period.until.slice(0, 10);
+  const branch = branchFilter ? `, branch: ${branchFilter}` : '';
+  console.log(`\nValidation Stats (${since} to ${until}${branch})\n`);
+  console.log(`Runs: ${stats.period.runs} (${Math.round(stats.period.passRate * 100)}% passed)`);
+  console.log(`Previous period: ${stats.previousPeriod.runs} runs\n`);
+
+  if (stats.steps.length === 0) {
+    console.log('No steps ran in this period');
+    return;
+  }
+
+  console.log(`${'Step'.padEnd(30)}  ${'Runs'.padStart(5)}  ${'Pass'.padStart(5)}  ${'p50'.padStart(8)}  ${'p95'.padStart(8)}  Trend`);
+  for (const step of stats.steps) {
+    const passRate = `${Math.round(step.passRate * 100)}%`;
+    const p50 = `${step.p50Secs.toFixed(1)}s`;
+    const p95 = `${step.p95Secs.toFixed(1)}s`;
+    console.log(`${step.name.padEnd(30)}  ${String(step.runs).padStart(5)}  ${passRate.padStart(5)}  ${p50.padStart(8)}  ${p95.padStart(8)}  ${formatStepTrend(step)}`);
+  }
+
+  if (stats.topFailures.length > 0) {
+    console.log('\nTop failures:');
+    for (const failure of stats.topFailures) {
+      const code = failure.code ? `${failure.code}  ` : '';
+      console.log(`  ${String(failure.count).padStart(4)}×  ${code}${failure.message}  (${failure.steps.join(', ')})`);
+    }
+  }
+}
+
+/**
+ * Output history statistics, the flaky test index, a run diff or search results as YAML
+ */
+async function outputAnalysisYaml(analysis: HistoryStats | FlakyTestRecord[] | RunDiff | SearchMatch[]): Promise<void> {
+  // Small delay to ensure stderr is flushed
+  await new Promise(resolve => setTimeout(resolve, 10));
+
+  // RFC 4627 separator
+  process.stdout.write('---\n');
+  process.stdout.write(stringifyYaml(analysis));
+
+  // CRITICAL: Wait for stdout to flush before exiting
+  await new Promise<void>(resolve => {
+    if (process.stdout.write('')) {
+      resolve();
+    } else {
+      process.stdout.once('drain', resolve);
+    }
+  });
+}
+
+/**
+ * Show pass rates, durations and top failures per step
+ */
+async function showHistoryStats(options: { since: string; branch?: string; yaml?: boolean }): Promise<void> {
+  try {
+    const since = parseStatsPeriod(options.since);
+    const notes = await getAllHistoryNotes();
+    const stats = computeHistoryStats(notes, { since, branch: options.branch });
+
+    if (options.yaml) {
+      await outputAnalysisYaml(stats);
+    } else {
+      outputStatsTable(stats, options.branch);
+    }
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error(`Error computing history stats: ${errorMessage}`);
+    process.exit(1);
+  }
+}
+
+/**
+ * Output the flaky test index as a table
+ */
+function outputFlakyTestsTable(records: FlakyTestRecord[], total: number): void {
+  console.log(`\nFlaky Tests (showing ${records.length} of ${total})\n`);
+  console.log(`${'Score'.padStart(5)}  ${'Fails'.padStart(5)}  ${'Runs'.padStart(5)}  ${'Same tree'.padStart(9)}  ${'Step'.padEnd(20)}  Test`);
+  for (const record of records) {
+    const columns = [
+      record.score.toFixed(2).padStart(5),
+      String(record.failures).padStart(5),
+      String(record.runs).padStart(5),
+      String(record.sameTreeFlips).padStart(9),
+      record.step.padEnd(20),
+      record.test,
+    ];
+    console.log(columns.join('  '));
+  }
+  console.log(`\nScore: 0.5 per tree where the test failed then passed, plus the share of failures that came back after a pass`);
+}
+
+/**
+ * List tests that history shows to be flaky
+ */
+async function listFlakyTests(options: { limit: string; yaml?: boolean }): Promise<void> {
+  try {
+    const index = buildFlakyTestIndex(await getAllHistoryNotes());
+    const records = index.slice(0, Number.parseInt(options.limit, 10));
+
+    if (options.yaml) {
+      await outputAnalysisYaml(records);
+    } else if (index.length === 0) {
+      console.log('No flaky tests found in validation history');
+    } else {
+      outputFlakyTestsTable(records, index.length);
+    }
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error(`Error listing flaky tests: ${errorMessage}`);
+    process.exit(1);
+  }
+}
+
+/**
+ * Find the latest run of a tree, given its full or abbreviated hash
+ */
+function findLatestTreeRun(notes: HistoryNote[], treeHash: string): RunRef {
+  const matches = notes.filter(note => note.treeHash?.startsWith(treeHash));
+  if (matches.length === 0) {
+    throw new Error(`No validation history found for tree hash: ${treeHash}`);
+  }
+  if (matches.length > 1) {
+    throw new Error(`Ambiguous tree hash ${treeHash} (matches ${matches.length} trees)`);
+  }
+
+  const [note] = matches;
+  const run = note.runs.toSorted((a, b) => a.timestamp.localeCompare(b.timestamp, 'en')).at(-1);
+  if (!run) {
+    throw new Error(`No validation runs recorded for tree hash: ${treeHash}`);
+  }
+  // treeHash is always populated by readHistoryNote (falls back to ref path)
+  // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+  return { treeHash: note.treeHash!, run };
+}
+
+/**
+ * Pick the two runs to diff from the arguments, or the defaults
+ */
+function resolveDiffRuns(
+  notes: HistoryNote[],
+  treeA: string | undefined,
+  treeB: string | undefined,
+  branch: string | undefined
+): { from: RunRef; to: RunRef } {
+  const defaults = findDefaultDiffRuns(notes, branch);
+  if (treeA === undefined) {
+    if (!defaults) {
+      throw new Error('Nothing to diff: no passing run followed by a later run in validation history');
+    }
+    return defaults;
+  }
+
+  const from = findLatestTreeRun(notes, treeA);
+  if (treeB !== undefined) {
+    return { from, to: findLatestTreeRun(notes, treeB) };
+  }
+  if (!defaults) {
+    throw new Error('No later run to diff against (pass a second tree hash)');
+  }
+  return { from, to: defaults.to };
+}
+
+/**
+ * Show what changed between two validation runs, as YAML
+ */
+async function diffHistory(
+  treeA: string | undefined,
+  treeB: string | undefined,
+  options: { branch?: string }
+): Promise<void> {
+  try {
+    const { from, to } = resolveDiffRuns(await getAllHistoryNotes(), treeA, treeB, options.branch);
+    const diff = diffValidationRuns(from, to);
+
+    try {
+      diff.diffstat = getRunDiffStat(from.run.headCommit, to.run.headCommit);
+    } catch (error) {
+      diff.diffstatError = error instanceof Error ? error.message : String(error);
+    }
+
+    await outputAnalysisYaml(diff);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error(`Error diffing history: ${errorMessage}`);
+    process.exit(1);
+  }
+}
+
+/**
+ * Options of `history search`, as parsed by commander
+ */
+interface SearchOptions {
+  branch?: string;
+  step?: string;
+  status?: string;
+  errorCode?: string;
+  file?: string;
+  since?: string;
+  until?: string;
+  uncommitted?: boolean;
+  limit: string;
+  yaml?: boolean;
+}
+
+/**
+ * Build the search query from the command options
+ */
+function buildSearchQuery(options: SearchOptions): SearchQuery {
+  const { status } = options;
+  if (status !== undefined && status !== 'passed' && status !== 'failed') {
+    throw new Error(`Invalid status "${status}": use passed or failed`);
+  }
+  return {
+    branch: options.branch,
+    step: options.step,
+    status,
+    errorCode: options.errorCode,
+    file: options.file,
+    since: options.since === undefined ? undefined : parseStatsPeriod(options.since),
+    until: options.until === undefined ? undefined : parseStatsPeriod(options.until),
+    uncommittedChanges: options.uncommitted,
+  };
+}
+
+/**
+ * Output search results as a table
+ */
+function outputSearchTable(matches: SearchMatch[], total: number): void {
+  console.log(`\nMatching Runs (showing ${matches.length} of ${total})\n`);
+  for (const match of matches) {
+    const columns = [
+      new Date(match.timestamp).toLocaleString(),
+      match.treeHash.slice(0, 7),
+      match.branch.padEnd(20),
+      (match.passed ? '✓ PASSED' : '✗ FAILED').padEnd(8),
+      [...match.steps, ...(match.source === 'ci' ? ['(CI)'] : [])].join(', '),
+    ];
+    console.log(columns.join('  ').trimEnd());
+  }
+}
+
+/**
+ * Search validation history
+ */
+async function searchValidationHistory(options: SearchOptions): Promise<void> {
+  try {
+    const matches = await searchHistory(buildSearchQuery(options));
+    const shown = matches.slice(0, Number.parseInt(options.limit, 10));
+
+    if (options.yaml) {
+      await outputAnalysisYaml(shown);
+    } else if (matches.length === 0) {
+      console.log('No runs match the search');
+    } else {
+      outputSearchTable(shown, matches.length);
+    }
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error(`Error searching history: ${errorMessage}`);
+    process.exit(1);
+  }
+}
+
+/**
+ * Export validation and run cache history to a file
+ */
+async function exportHistory(options: { format: string; out: string }): Promise<void> {
+  try {
+    const { format, out } = options;
+    if (!isHistoryExportFormat(format)) {
+      throw new Error(`Unknown format "${format}" (use ${HISTORY_EXPORT_FORMATS.join(', ')})`);
+    }
+
+    const data = buildHistoryExport(await getAllHistoryNotes(), await getAllRunCacheEntries());
+    writeHistoryExport(data, format, out);
+
+    console.log(`✓ Exported ${data.runs.length} runs, ${data.steps.length} steps and ${data.errors.length} errors to ${out} (${format})`);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error(`Error exporting history: ${errorMessage}`);
+    process.exit(1);
+  }
+}
+
+/**
+ * Parse a `--from-pr` or `--run-id` value
+ *
+ * @internal
+ */
+function parsePositiveId(value: string, label: string): number {
+  const id = Number(value);
+  if (!Number.isInteger(id) || id <= 0) {
+    throw new Error(`Invalid ${label}: ${value}. Must be a positive integer.`);
+  }
+  return id;
+}
+
+/**
+ * Resolve what `history import` imports
+ *
+ * @internal
+ */
+function resolveImportSource(options: { fromPr?: string; runId?: string }): HistoryImportSource {
+  if (options.fromPr !== undefined && options.runId === undefined) {
+    return { prNumber: parsePositiveId(options.fromPr, 'PR number') };
+  }
+  if (options.runId !== undefined && options.fromPr === undefined) {
+    return { runId: parsePositiveId(options.runId, 'run ID') };
+  }
+  throw new Error('Specify either --from-pr <number> or --run-id <id>');
+}
+
+/**
+ * Import validation results from CI runs
+ */
+async function importHistory(options: { fromPr?: string; runId?: string }): Promise<void> {
+  try {
+    const source = resolveImportSource(options);
+    const provider = new GitHubActionsProvider();
+    if (!(await provider.isAvailable())) {
+      throw new Error('GitHub Actions is not available (needs the gh CLI and a github.com origin remote)');
+    }
+
+    const trust = (await loadConfig())?.history?.trust ?? 'any';
+    const { imported, skipped } = await importCIHistory(source, provider, trust);
+
+    console.log(`✓ Imported ${imported.length} run(s) from CI`);
+    for (const run of imported) {
+      console.log(`  ${run.passed ? '✓' : '✗'} ${run.treeHash.slice(0, 12)}  ${run.job}  ${run.url}`);
+    }
+    const untrusted = imported.filter(run => !run.trusted);
+    if (untrusted.length > 0) {
+      console.log(`\n⚠️  history.trust is '${trust}': ${untrusted.length} imported run(s) have no signature it accepts, so the validation cache will not reuse them`);
+      console.log('   CI signs the result it prints with history.sign (hmac runs verify only where VV_HISTORY_SIGNING_KEY is set)');
+    }
+    if (skipped.length > 0) {
+      console.log(`\nSkipped ${skipped.length} job(s):`);
+      for (const job of skipped) {
+        console.log(`  ${job.job}: ${job.reason}`);
+      }
+    }
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error(`Error importing history: ${errorMessage}`);
+    process.exit(1);
+  }
+}
+
+/**
+ * Push or pull validation history
+ */
+async function syncHistoryWithRemote(direction: HistorySyncDirection, options: { remote?: string }): Promise<void> {
+  const remote = getHistoryRemote(await loadConfig(), options.remote);
+  const result = syncHistory(direction, remote);
+
+  if (!result.ok) {
+    console.error(`Error ${direction === 'pull' ? 'pulling' : 'pushing'} validation history (${remote}): ${result.error ?? 'unknown error'}`);
+    process.exit(1);
+  }
+
+  console.log(`✓ Validation history ${direction === 'pull' ? 'pulled from' : 'pushed to'} ${remote}`);
+  console.log(`  Refs updated: ${result.refsUpdated.length}`);
+  console.log(`  Notes merged: ${result.notesMerged}`);
+}
+
 /**
  * Show verbose help with detailed documentation
  */
@@ -742,6 +1367,140 @@ vibe-validate history list --run comprehensive --limit 100   # Last 100 matching
 
 ***
 
+### \`stats\` - Pass rates, durations and top failures
+
+Aggregate every recorded run in a period, per step: how often it passed, its
+median (p50) and 95th percentile (p95) duration, and the change against the
+previous period of the same length. Steps are listed slowest first, so the
+candidates for splitting are at the top. Failures are grouped by the extracted
+error code (e.g. \`TS2322\`), or by message when there is none.
+
+Skipped steps and steps reused from the step cache did not run and are not counted.
+
+**Options:**
+- \`--since <period>\` - Period to cover: \`30d\`, \`12h\`, \`2w\` or a date (default: 30d)
+- \`-b, --branch <name>\` - Only count runs on this branch
+- \`--yaml\` - Output as YAML
+
+**Examples:**
+\`\`\`bash
+vibe-validate history stats                          # Last 30 days vs the 30 before
+vibe-validate history stats --since 7d --branch main
+vibe-validate history stats --since 2026-01-01 --yaml
+\`\`\`
+
+***
+
+### \`flaky\` - Flaky tests across the history
+
+Follow every test that failed at least once (identified by the file and first
+line of its extracted error) through all recorded runs of its step. A test is
+flaky when it failed and then passed on the same tree hash, or when it keeps
+failing again after passing.
+
+**Score** (0 to 1): 0.5 per tree where the test failed and then passed, plus the
+share of its failures that came back after a pass. A test broken once and then
+fixed scores 0 and is not listed.
+
+When \`validate\` fails, steps whose errors include a test scoring 0.3 or more
+get a \`flakyTests\` list in the result, and the output says the failure is
+probably flaky.
+
+**Options:**
+- \`-l, --limit <number>\` - Limit results (default: 20)
+- \`--yaml\` - Output as YAML
+
+**Examples:**
+\`\`\`bash
+vibe-validate history flaky
+vibe-validate history flaky --limit 5 --yaml
+\`\`\`
+
+***
+
+### \`diff\` - What changed between two runs
+
+Compare two validation runs, by default the latest passing run and the latest
+run: what changed since the last green run? Each tree hash (full or
+abbreviated) stands for its latest run; with one tree hash, it is compared to
+the latest run. Output is always YAML:
+
+- \`newlyFailing\`, \`fixed\`, \`stillFailing\` - step names
+- \`errors.new\`, \`errors.resolved\`, \`errors.unchanged\` - errors matched by step, file, code and message (not line number)
+- \`diffstat\` - files changed between the two runs' \`headCommit\`s (\`diffstatError\` if git can't diff them, e.g. a commit not fetched)
+
+Changes that were uncommitted at the time of a run (\`uncommittedChanges: true\`)
+are not in the diffstat.
+
+**Arguments:**
+- \`[tree-a]\` - Earlier tree hash (default: latest passing run)
+- \`[tree-b]\` - Later tree hash (default: latest run)
+
+**Options:**
+- \`-b, --branch <name>\` - Only consider runs on this branch for the defaults
+
+**Examples:**
+\`\`\`bash
+vibe-validate history diff                    # Last green run vs latest run
+vibe-validate history diff --branch main
+vibe-validate history diff abc123d def456a
+\`\`\`
+
+***
+
+### \`search\` - Find runs across the history
+
+Find runs by branch, step, outcome, error and date, e.g. "runs on feature/*
+where Typecheck failed with TS2322 in the last week". A run matches when one of
+its steps matches every step filter (\`--step\`, \`--error-code\`, \`--file\`);
+\`--status\` then applies to that step, else to the run.
+
+The searched fields are cached in \`.git/vibe-validate/search-index.json\`.
+Only notes added or changed since the last search are read again, so repeated
+searches stay fast with thousands of notes.
+
+**Options:**
+- \`-b, --branch <glob>\` - Branch glob (\`*\` and \`?\`)
+- \`--step <glob>\` - Step name glob
+- \`--status <status>\` - \`passed\` or \`failed\`
+- \`--error-code <code>\` - Error code, e.g. \`TS2322\`
+- \`--file <glob>\` - Glob on the file of an error
+- \`--since <period>\` / \`--until <period>\` - 7d, 12h, 2w or a date
+- \`--uncommitted\` / \`--no-uncommitted\` - Runs with / without uncommitted changes
+- \`-l, --limit <number>\` - Limit results (default: 20)
+- \`--yaml\` - Output as YAML
+
+**Examples:**
+\`\`\`bash
+vibe-validate history search --branch 'feature/*' --step Typecheck --status failed --error-code TS2322 --since 7d
+vibe-validate history search --file 'src/auth/*' --yaml
+\`\`\`
+
+***
+
+### \`export\` - Export history for dashboards and test reports
+
+Write every validation run and cached \`run\` command as normalized rows: one
+per run, per step and per extracted error.
+
+- \`jsonl\` - JSON Lines, one object per row; \`type\` is \`run\`, \`step\` or \`error\`
+- \`sqlite\` - SQLite database with \`runs\`, \`steps\` and \`errors\` tables (needs the \`sqlite3\` command)
+- \`junit\` - JUnit XML, one test suite per run and one test case per step, for test-report tooling
+
+**Options:**
+- \`--format <format>\` - \`junit\`, \`jsonl\` or \`sqlite\` (required)
+- \`--out <path>\` - File to write, replaced if it exists (required)
+
+**Examples:**
+\`\`\`bash
+vibe-validate history export --format jsonl --out history.jsonl
+vibe-validate history export --format sqlite --out history.db
+sqlite3 history.db "SELECT name, AVG(duration_secs) FROM steps GROUP BY name"
+vibe-validate history export --format junit --out junit.xml
+\`\`\`
+
+***
+
 ### \`show\` - Show detailed history for a tree hash
 
 Display all validation runs for a specific git tree hash.
@@ -785,6 +1544,7 @@ Delete validation history to reduce git notes storage.
 **Options:**
 - \`--older-than <days>\` - Remove notes older than N days (default: 90)
 - \`--all\` - Remove ALL history (use with caution)
+- \`--policy\` - Apply the \`history.retention\` policy from the config
 - \`--run\` - Prune run cache entries instead of validation history (NEW in v0.15.0)
 - \`--dry-run\` - Preview what would be deleted
 
@@ -794,6 +1554,7 @@ vibe-validate history prune                           # Remove >90 day old
 vibe-validate history prune --older-than 30           # Remove >30 days
 vibe-validate history prune --dry-run                 # Preview only
 vibe-validate history prune --all --dry-run           # Preview full cleanup
+vibe-validate history prune --policy --dry-run        # Preview the retention policy
 vibe-validate history prune --run --all               # Remove ALL run cache (NEW)
 vibe-validate history prune --run --all --dry-run     # Preview run cache cleanup
 \`\`\`
@@ -802,12 +1563,63 @@ vibe-validate history prune --run --all --dry-run     # Preview run cache cleanu
 - Entire git notes (tree hash level) where ALL runs are older than threshold
 - Partial runs are NOT pruned (keeps notes with any recent runs)
 
+**What gets pruned (with --policy):**
+- Runs beyond the newest \`keepRunsPerBranch\` of their branch
+- Tree hashes older than \`pruneUnreachableAfterDays\` whose commits are on no branch
+- Never runs on commits reachable from \`keepReachableFrom\` (default: \`main\`)
+- The same policy is applied automatically after each recorded run
+
 **What gets pruned (run cache with --run):**
 - ALL run cache entries across all tree hashes
 - Use \`--dry-run\` to preview before deleting
 
 ***
 
+### \`push\` / \`pull\` - Share history with the remote
+
+Pull fetches the remote's notes and merges them into the local history: runs
+recorded on both sides for the same tree hash are combined. Push pulls first,
+then pushes every \`refs/notes/vibe-validate/*\` ref.
+
+**Options:**
+- \`--remote <name>\` - Remote to sync with (default: \`history.remote\`, else \`git.remoteOrigin\`)
+
+**Examples:**
+\`\`\`bash
+vibe-validate history pull                    # Reuse teammates' and CI's validation
+vibe-validate history push                    # Share local validation
+vibe-validate history push --remote upstream
+\`\`\`
+
+With \`history.sync: auto\` in the config, \`validate --check\` pulls first and a
+passing \`validate\` pushes afterwards.
+
+***
+
+### \`import\` - Import validation results from CI
+
+Read the validation result each GitHub Actions job printed (as \`watch-pr\`
+does) and record it as a run on the tree hash CI validated, with
+\`source: ci\` and the URL of the job. \`validate --check\` then recognises a
+tree CI already validated. Importing the same job twice records it once.
+
+Needs the \`gh\` CLI. Only jobs that print the validation result (\`validate\`
+with \`--yaml\`, or a failing \`validate\`) can be imported. A workflow that checks
+out the pull request's merge commit validates a different tree than the branch.
+
+**Options:**
+- \`--from-pr <number>\` - Import the latest workflow runs of a pull request's branch
+- \`--run-id <id>\` - Import a single workflow run
+
+**Examples:**
+\`\`\`bash
+vibe-validate history import --from-pr 42
+vibe-validate history import --run-id 19754182675
+vibe-validate validate --check               # Passes if CI validated this tree
+\`\`\`
+
+***
+
 ### \`health\` - Check history health
 
 Check for history storage bloat and maintenance recommendations.
@@ -820,6 +1632,7 @@ vibe-validate history health
 **Health indicators:**
 - Total tree hashes tracked
 - Notes older than 90 days
+- Space saved by compressed extraction blobs
 - Recommendations for pruning
 
 ## Storage Details
@@ -828,6 +1641,8 @@ vibe-validate history health
 - Git notes under \`refs/notes/vibe-validate/validate\`
 - Keyed by git tree hash (content-based)
 - Stored as YAML with full validation results
+- Large step extractions stored once as gzip-compressed blobs (kept reachable
+  by \`refs/notes/vibe-validate/blobs\`), referenced by hash from the run
 
 **Storage impact:**
 - Each tree hash: ~1-5KB (depends on validation detail)
@@ -876,13 +1691,15 @@ vibe-validate history health
 History is stored in git notes which are NOT pushed by default. To share validation history across team:
 
 \`\`\`bash
-# Push notes (one-time or in CI)
-git push origin refs/notes/vibe-validate/validate
+# Push notes (after validating, locally or in CI)
+vibe-validate history push
 
-# Fetch notes (team members)
-git fetch origin refs/notes/vibe-validate/validate:refs/notes/vibe-validate/validate
+# Pull notes (team members, or CI before validate --check)
+vibe-validate history pull
 \`\`\`
 
+Or set \`history.sync: auto\` to pull before \`validate --check\` and push after every passing run.
+
 **Recommendation:** Keep history local for development, don't push to remote unless team wants shared validation tracking.
 `);
 }
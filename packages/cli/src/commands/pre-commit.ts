@@ -444,6 +444,7 @@ export function preCommitCommand(program: Command): void {
                 verbose,
                 yaml: false, // Pre-commit uses human-readable output
                 check: false,
+                profile: config.hooks?.preCommit?.profile,
                 context: {
                   ...context,
                   isPreCommit: true, // Signal this is pre-commit workflow
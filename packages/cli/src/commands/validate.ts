@@ -9,6 +9,17 @@ import type { Command } from 'commander';
 import { runValidateWorkflow } from '../utils/validate-workflow.js';
 import { withValidationLock } from '../utils/validation-lock-wrapper.js';
 
+/**
+ * Collect the values of a repeatable option
+ *
+ * @param value - Value given this time
+ * @param previous - Values given so far
+ * @returns All values, in order
+ */
+function collectValues(value: string, previous: string[] | undefined): string[] {
+  return [...(previous ?? []), value];
+}
+
 export function validateCommand(program: Command): void {
   program
     .command('validate')
@@ -19,6 +30,10 @@ export function validateCommand(program: Command): void {
     .option('-c, --check', 'Check if validation has already passed (do not run)')
     .option('-d, --debug', 'Create output files for all steps (for debugging)')
     .option('--retry-failed', 'Retry only failed steps from previous validation')
+    .option('-j, --jobs <n>', 'Maximum number of steps to run at once (default: validation.maxConcurrency, or the number of CPUs)')
+    .option('-p, --profile <name>', 'Run only the steps of a profile defined under profiles (e.g. quick)')
+    .option('--only <step>', 'Run only this step or phase (name or glob; repeatable). The run is recorded as partial', collectValues)
+    .option('--skip <step>', 'Leave out this step or phase (name or glob; repeatable). The run is recorded as partial', collectValues)
     .option('--no-lock', 'Allow concurrent validation runs (disables single-instance mode)')
     .option('--no-wait', 'Exit immediately if validation is already running (for background hooks)')
     .option('--wait-timeout <seconds>', 'Maximum time to wait for running validation (default: 300)', '300')
@@ -33,6 +48,12 @@ export function validateCommand(program: Command): void {
           options.force = false;
         }
 
+        const jobs = options.jobs === undefined ? undefined : Number(options.jobs);
+        if (jobs !== undefined && (!Number.isInteger(jobs) || jobs < 1)) {
+          console.error(`Invalid --jobs value: ${String(options.jobs)}. Must be a positive integer.`);
+          process.exit(1);
+        }
+
         // Default behavior: lock is enabled (single-instance mode)
         // Users can opt out with --no-lock for concurrent runs
         if (options.lock === undefined) {
@@ -66,6 +87,10 @@ export function validateCommand(program: Command): void {
                 check: options.check,
                 debug: options.debug,
                 retryFailed: options.retryFailed,
+                jobs,
+                profile: options.profile,
+                only: options.only,
+                skip: options.skip,
                 context,
                 treeHashResult,
               });
@@ -127,6 +152,10 @@ The \`validate\` command is the core of vibe-validate. It executes your validati
 - \`-v, --verbose\` - Show detailed progress and output
 - \`-y, --yaml\` - Output validation result as YAML to stdout (LLM-friendly)
 - \`-c, --check\` - Check if validation has already passed without running
+- \`-j, --jobs <n>\` - Run at most n steps at once (overrides \`validation.maxConcurrency\`; default: number of CPUs)
+- \`-p, --profile <name>\` - Run only the steps of a profile from \`profiles\` (cached separately from full runs)
+- \`--only <step>\` - Run only matching steps: a step name, phase name or glob (\`"*Tests"\`); repeatable
+- \`--skip <step>\` - Leave out matching steps; repeatable. Runs with \`--only\`/\`--skip\` always run and are recorded as partial, never as a pass for the tree
 
 ## Exit Codes
 
@@ -149,6 +178,15 @@ vibe-validate validate --retry-failed
 # Check status without running
 vibe-validate validate --check
 
+# Limit parallel steps (e.g. on a memory-constrained CI runner)
+vibe-validate validate --jobs 2
+
+# Run only the steps of the "quick" profile
+vibe-validate validate --profile quick
+
+# Iterate on one failing step
+vibe-validate validate --only "Unit Tests" --only Lint --skip "E2E*"
+
 # YAML output for AI agents
 vibe-validate validate --yaml
 
@@ -101,6 +101,8 @@ export interface ValidationResultContents {
       extraction?: ErrorExtraction; // v0.15.0+
     }>;
   }>;
+  /** Signature CI printed with the result (with history.sign) */
+  signature?: unknown;
 }
 
 /**
@@ -45,11 +45,12 @@ function displayFailedPhaseInfo(phases: Array<{ name: string; passed: boolean; s
  *   2 = No history found (run validation)
  *   3 = Git tree hash changed (run validation)
  *
- * @param _config - vibe-validate configuration (unused, kept for API compatibility)
+ * @param config - vibe-validate configuration (`history.trust` decides which runs count)
  * @param yaml - If true, output YAML to stdout instead of human-readable text
+ * @param profile - Profile to check (undefined for a run of every step)
  */
 // eslint-disable-next-line sonarjs/cognitive-complexity -- Complexity 36 acceptable for validation state checking (handles multiple output formats, git state retrieval, and comprehensive error scenarios)
-export async function checkValidationStatus(_config: VibeValidateConfig, yaml = false): Promise<void> {
+export async function checkValidationStatus(config: VibeValidateConfig, yaml = false, profile?: string): Promise<void> {
   // Get current tree hash
   let treeHashResult;
   try {
@@ -75,7 +76,7 @@ export async function checkValidationStatus(_config: VibeValidateConfig, yaml =
   // Check for cached validation using submodule-aware lookup
   let cachedRun;
   try {
-    cachedRun = await findCachedValidation(treeHashResult);
+    cachedRun = await findCachedValidation(treeHashResult, undefined, profile, config.history?.trust);
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
     if (yaml) {
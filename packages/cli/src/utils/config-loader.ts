@@ -8,12 +8,23 @@ import { existsSync } from 'node:fs';
 import { join, dirname, resolve } from 'node:path';
 
 import { findAndLoadConfig } from '@vibe-validate/config';
-import type { VibeValidateConfig } from '@vibe-validate/config';
+import type { ConfigLoadOptions, ResolvedConfigChain, VibeValidateConfig } from '@vibe-validate/config';
 import chalk from 'chalk';
 
+import { getTemplatesDir } from './template-discovery.js';
+
 // Constants (extracted to avoid duplication warnings)
 const CONFIG_FILENAME = 'vibe-validate.config.yaml';
 
+/**
+ * Options for loading a config, so `extends` can name the built-in templates
+ *
+ * @returns Config load options
+ */
+function getConfigLoadOptions(): ConfigLoadOptions {
+  return { templatesDir: getTemplatesDir() };
+}
+
 /**
  * Find configuration file by walking up directory tree
  *
@@ -71,7 +82,7 @@ export async function loadConfig(cwd?: string): Promise<VibeValidateConfig | nul
     }
 
     // Use the config package's finder to load from the found directory
-    const config = await findAndLoadConfig(configDir);
+    const config = await findAndLoadConfig(configDir, getConfigLoadOptions());
     return config ?? null;
   } catch (error) {
     if (error instanceof Error) {
@@ -103,7 +114,7 @@ export async function loadConfigWithDir(cwd?: string): Promise<{
     }
 
     // Use the config package's finder to load from the found directory
-    const config = await findAndLoadConfig(configDir);
+    const config = await findAndLoadConfig(configDir, getConfigLoadOptions());
     if (!config) {
       return null;
     }
@@ -145,19 +156,60 @@ export function findConfigPath(cwd?: string): string | null {
   return join(configDir, CONFIG_FILENAME);
 }
 
+/**
+ * Find the extractors set on steps that are neither built in nor a local plugin
+ *
+ * The runner rejects them too, but only once validation starts. Plugins are
+ * discovered as the runner discovers them (see discoverLocalExtractorPlugins).
+ *
+ * @param config - Validated configuration
+ * @param configDir - Directory of the config file (where local plugins are discovered)
+ * @returns One error per unknown extractor, with the path of the step field
+ */
+async function findUnknownExtractors(config: VibeValidateConfig, configDir: string): Promise<string[]> {
+  const named = config.validation.phases.flatMap((phase, phaseIndex) =>
+    phase.steps.flatMap((step, stepIndex) => {
+      const field = step.extractors ? 'extractors' : 'extractor';
+      const names = step.extractors ?? (step.extractor === undefined ? [] : [step.extractor]);
+      return names.map(name => ({ name, path: `validation.phases.${phaseIndex}.steps.${stepIndex}.${field}` }));
+    })
+  );
+  if (named.length === 0) {
+    return [];
+  }
+
+  const { getExtractorByName } = await import('@vibe-validate/extractors');
+  const notBuiltIn = named.filter(({ name }) => !getExtractorByName(name));
+  if (notBuiltIn.length === 0) {
+    return [];
+  }
+
+  // Only load plugin code when a step needs one, and find the plugins a run would
+  const { discoverLocalExtractorPlugins } = await import('@vibe-validate/core');
+  const plugins = await discoverLocalExtractorPlugins(config.extractors, configDir);
+  const pluginNames = new Set(plugins.map(plugin => plugin.metadata.name));
+
+  return notBuiltIn
+    .filter(({ name }) => !pluginNames.has(name))
+    .map(({ name, path }) => `${path}: Unknown extractor "${name}"`);
+}
+
 /**
  * Load configuration with detailed validation errors
  *
  * When config loading fails, this function attempts to parse the file
- * and validate it to provide specific error messages.
+ * and validate it to provide specific error messages. Extractors that steps
+ * name must exist (built in, or a local plugin).
  *
  * @param cwd Current working directory (defaults to process.cwd())
- * @returns Object with config, errors, and file path
+ * @returns Object with config, errors, and file path (plus the resolved
+ *   `extends` chain when the config is valid)
  */
 export async function loadConfigWithErrors(cwd?: string): Promise<{
   config: VibeValidateConfig | null;
   errors: string[] | null;
   filePath: string | null;
+  chain?: ResolvedConfigChain;
 }> {
   const searchDir = cwd ?? process.cwd();
   const configPath = findConfigPath(searchDir);
@@ -168,19 +220,12 @@ export async function loadConfigWithErrors(cwd?: string): Promise<{
 
   // Always parse and validate to get detailed errors
   try {
-    const { readFileSync } = await import('node:fs');
-    const { parse: parseYaml } = await import('yaml');
-    const { safeValidateConfig } = await import('@vibe-validate/config');
+    const { resolveConfigChain, safeValidateConfig } = await import('@vibe-validate/config');
 
-    const content = readFileSync(configPath, 'utf-8');
-    const raw = parseYaml(content);
+    // Merge the configs it extends ($schema and markers are removed)
+    const chain = resolveConfigChain(configPath, getConfigLoadOptions());
 
-    // Remove $schema property if present (used for IDE support only)
-    if (raw && typeof raw === 'object' && '$schema' in raw) {
-      delete (raw as Record<string, unknown>)['$schema'];
-    }
-
-    const validation = safeValidateConfig(raw);
+    const validation = safeValidateConfig(chain.raw);
     if (!validation.success) {
       return {
         config: null,
@@ -189,13 +234,23 @@ export async function loadConfigWithErrors(cwd?: string): Promise<{
       };
     }
 
+    const unknownExtractors = validation.data ? await findUnknownExtractors(validation.data, dirname(configPath)) : [];
+    if (unknownExtractors.length > 0) {
+      return { config: null, errors: unknownExtractors, filePath: configPath };
+    }
+
     // Validation succeeded
     return {
       config: validation.data ?? null,
       errors: null,
-      filePath: configPath
+      filePath: configPath,
+      chain,
     };
   } catch (parseError) {
+    // Resolving extends failed (missing preset, circular extends, ...)
+    if (parseError instanceof Error && parseError.name !== 'YAMLParseError') {
+      return { config: null, errors: [parseError.message], filePath: configPath };
+    }
     // YAML parsing failed
     if (parseError instanceof Error) {
       return {
@@ -20,13 +20,16 @@ import { getCommandName } from './command-name.js';
  * the cause has no signal that the step never re-ran. Cached passes keep their
  * original wording - the happy path needs no caveat.
  *
+ * A run imported from CI (`history import`) says so and links its CI job.
+ *
  * @param cachedRun - The cached run to display (pass or fail)
  * @param treeHash - Git tree hash (will be truncated to 12 chars)
  */
 export function displayCachedResult(cachedRun: ValidationRun, treeHash: string): void {
   const durationSecs = (cachedRun.duration / 1000).toFixed(1);
   const truncatedHash = treeHash.substring(0, 12);
-  const provenance = `${cachedRun.timestamp} on branch ${cachedRun.branch}`;
+  const location = cachedRun.source === 'ci' ? ' in CI' : '';
+  const provenance = `${cachedRun.timestamp} on branch ${cachedRun.branch}${location}`;
 
   // Display status line (color and message vary by pass/fail)
   const statusLine = cachedRun.passed
@@ -41,6 +44,9 @@ export function displayCachedResult(cachedRun: ValidationRun, treeHash: string):
       ? `   Validated: ${provenance}`
       : `   Replayed from ${provenance} (not re-run just now)`
   ));
+  if (cachedRun.url) {
+    console.log(chalk.gray(`   CI job: ${cachedRun.url}`));
+  }
 
   if (cachedRun.result?.phases) {
     const totalSteps = cachedRun.result.phases.reduce((sum: number, phase: PhaseResult) => sum + (phase.steps?.length ?? 0), 0);
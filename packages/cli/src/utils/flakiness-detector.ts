@@ -3,10 +3,19 @@
  *
  * Detects when validation passes after previous failure on same tree hash.
  * Helps identify flaky tests that pass/fail on the same code.
+ *
+ * Failing results are also annotated with the tests the flaky test index
+ * (cached from the history) marks as probably flaky.
  */
 
 import type { ValidationResult, StepResult } from '@vibe-validate/core';
-import type { HistoryNote } from '@vibe-validate/history';
+import { annotateFlakyTests, loadFlakyTestIndex, type HistoryNote } from '@vibe-validate/history';
+
+/**
+ * Notes read at most per failed run to update the flaky test index, so a
+ * large history can't hold up the failure output (the rest is read by later runs)
+ */
+const MAX_FLAKY_INDEX_NOTE_READS = 200;
 
 /**
  * Flaky step information
@@ -143,3 +152,19 @@ function formatFlakinessWarning(flakySteps: FlakyStep[]): string {
 
   return lines.join('\n');
 }
+
+/**
+ * Annotate a failing result's steps with the tests history shows to be flaky
+ *
+ * @param result - Failing validation result
+ * @returns The annotated result, or the result unchanged if history can't be read
+ */
+export async function annotateFlakyFailures(result: ValidationResult): Promise<ValidationResult> {
+  try {
+    const index = await loadFlakyTestIndex(undefined, MAX_FLAKY_INDEX_NOTE_READS);
+    return index.length > 0 ? annotateFlakyTests(result, index) : result;
+  } catch {
+    // Silent failure - the annotation is a hint, not part of validation
+    return result;
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * Validation History Export
+ *
+ * Writes the normalized history (see `buildHistoryExport` in
+ * `@vibe-validate/history`) to a file for dashboards and test-report tooling.
+ * SQLite databases are created with the `sqlite3` command-line tool.
+ */
+
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+
+import {
+  formatHistoryJsonl,
+  formatHistoryJunit,
+  formatHistorySql,
+  type HistoryExport,
+  type HistoryExportFormat,
+} from '@vibe-validate/history';
+import { isToolAvailable, normalizedTmpdir, safeExecResult, toForwardSlash } from '@vibe-validate/utils';
+
+/** Formats accepted by `history export --format` */
+export const HISTORY_EXPORT_FORMATS: readonly HistoryExportFormat[] = ['junit', 'jsonl', 'sqlite'];
+
+/**
+ * Check a `--format` value
+ *
+ * @param format - Format given on the command line
+ * @returns true if it is a known export format
+ */
+export function isHistoryExportFormat(format: string): format is HistoryExportFormat {
+  return (HISTORY_EXPORT_FORMATS as readonly string[]).includes(format);
+}
+
+/**
+ * Create an SQLite database from an SQL script, replacing any existing file
+ *
+ * @internal
+ */
+function writeSqliteDatabase(outPath: string, sql: string): void {
+  if (!isToolAvailable('sqlite3')) {
+    throw new Error('sqlite3 is not installed (needed for --format sqlite)');
+  }
+
+  const scriptDir = mkdtempSync(join(normalizedTmpdir(), 'vibe-validate-export-'));
+  try {
+    const scriptPath = join(scriptDir, 'export.sql');
+    writeFileSync(scriptPath, sql, 'utf-8');
+    rmSync(outPath, { force: true });
+
+    const result = safeExecResult('sqlite3', ['-bail', outPath, `.read "${toForwardSlash(scriptPath)}"`], {
+      encoding: 'utf-8',
+    });
+    if (result.error !== undefined || result.status !== 0) {
+      const stderr = String(result.stderr).trim();
+      const detail = stderr === '' ? (result.error?.message ?? `exit code ${result.status}`) : stderr;
+      throw new Error(`sqlite3 failed: ${detail}`);
+    }
+  } finally {
+    rmSync(scriptDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Write exported history to a file
+ *
+ * @param data - Normalized history
+ * @param format - `junit` (XML), `jsonl` (JSON Lines) or `sqlite` (database)
+ * @param outPath - File to write (replaced if it exists)
+ * @throws Error if the file can't be written, or sqlite3 is missing or fails
+ */
+export function writeHistoryExport(data: HistoryExport, format: HistoryExportFormat, outPath: string): void {
+  switch (format) {
+    case 'junit':
+      writeFileSync(outPath, formatHistoryJunit(data), 'utf-8');
+      break;
+    case 'jsonl':
+      writeFileSync(outPath, formatHistoryJsonl(data), 'utf-8');
+      break;
+    case 'sqlite':
+      writeSqliteDatabase(outPath, formatHistorySql(data));
+      break;
+  }
+}
@@ -0,0 +1,205 @@
+/**
+ * Validation History Import
+ *
+ * Turns the validation results CI prints in its logs (found with
+ * `extractValidationResult` on the CI provider, as `watch-pr` does) into runs
+ * of the local history. Each run is recorded on the tree hash CI validated,
+ * with `source: ci` and the URL of its job, so `validate --check` recognises a
+ * tree CI already validated. The signature CI printed with the result (see
+ * `history.sign`) is carried over, so `history.trust` applies to imported runs
+ * as to any other.
+ */
+
+import { safeValidateResult, type ValidationResult } from '@vibe-validate/core';
+import {
+  fetchPRDetails,
+  fetchRunDetails,
+  fetchRunJobs,
+  fetchRunLogs,
+  listWorkflowRuns,
+  type GitHubJob,
+  type GitHubRun,
+} from '@vibe-validate/git';
+import {
+  isTrustedRun,
+  parseResultSignature,
+  recordImportedRun,
+  type HistoryTrust,
+  type RunSignature,
+  type ValidationRun,
+} from '@vibe-validate/history';
+
+import type { CIProvider } from '../services/ci-provider.js';
+import { GitHubActionsProvider } from '../services/ci-providers/github-actions.js';
+
+/** Workflow run fields needed to import a run */
+const RUN_FIELDS = ['databaseId', 'status', 'conclusion', 'createdAt', 'updatedAt', 'url', 'headBranch', 'headSha'];
+
+/** Workflow runs of a pull request considered (most recent first) */
+const PR_RUN_LIMIT = 20;
+
+/**
+ * CI runs to import: those of a pull request, or a single run
+ */
+export type HistoryImportSource = { prNumber: number } | { runId: number };
+
+/**
+ * A CI job whose validation result was recorded
+ */
+export interface ImportedRun {
+  /** Run ID in the history (`ci-<run id>-<job id>`) */
+  id: string;
+  treeHash: string;
+  passed: boolean;
+  job: string;
+  url: string;
+  /** Whether `history.trust` lets the validation cache reuse the run */
+  trusted: boolean;
+}
+
+/**
+ * A CI job that could not be imported
+ */
+export interface SkippedJob {
+  job: string;
+  url: string;
+  reason: string;
+}
+
+/**
+ * Outcome of an import
+ */
+export interface HistoryImportResult {
+  imported: ImportedRun[];
+  skipped: SkippedJob[];
+}
+
+/**
+ * List the workflow runs to import
+ *
+ * @internal
+ */
+function listRunsToImport(source: HistoryImportSource): GitHubRun[] {
+  if ('runId' in source) {
+    return [fetchRunDetails(source.runId, undefined, undefined, RUN_FIELDS)];
+  }
+  const pr = fetchPRDetails(source.prNumber, undefined, undefined, ['headRefName']);
+  return listWorkflowRuns(pr.headRefName, undefined, undefined, PR_RUN_LIMIT, RUN_FIELDS);
+}
+
+/**
+ * Build the history run of a CI job
+ *
+ * The ID is derived from the run and job, so importing the same job again
+ * records nothing new.
+ *
+ * @internal
+ */
+function toValidationRun(
+  result: ValidationResult,
+  run: GitHubRun,
+  job: GitHubJob,
+  signature: RunSignature | undefined
+): ValidationRun {
+  const durationSecs = (result.phases ?? []).reduce((total, phase) => total + phase.durationSecs, 0);
+  return {
+    id: `ci-${run.databaseId}-${job.id}`,
+    timestamp: result.timestamp,
+    duration: durationSecs * 1000,
+    passed: result.passed,
+    branch: run.headBranch ?? 'unknown',
+    headCommit: run.headSha ?? 'none',
+    uncommittedChanges: false,
+    result,
+    source: 'ci',
+    url: job.html_url,
+    ...(signature ? { signature } : {}),
+  };
+}
+
+/**
+ * Import the validation result of one job
+ *
+ * @returns The imported run, or why the job was skipped
+ * @internal
+ */
+async function importJob(
+  provider: CIProvider,
+  run: GitHubRun,
+  job: GitHubJob,
+  trust: HistoryTrust
+): Promise<ImportedRun | SkippedJob> {
+  const skip = (reason: string): SkippedJob => ({ job: job.name, url: job.html_url, reason });
+
+  let logs: string;
+  try {
+    logs = fetchRunLogs(run.databaseId, undefined, undefined, job.id);
+  } catch (error) {
+    return skip(`could not fetch the job log: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const contents = provider.extractValidationResult(logs);
+  if (!contents) {
+    return skip('no validation result in the job log');
+  }
+
+  const parsed = safeValidateResult(contents);
+  if (!parsed.success) {
+    return skip('the validation result in the job log is not valid');
+  }
+  const treeHash = parsed.data.treeHash;
+  if (!treeHash) {
+    return skip('the validation result has no tree hash');
+  }
+
+  const validationRun = toValidationRun(parsed.data, run, job, parseResultSignature(contents.signature));
+  const recorded = await recordImportedRun(treeHash, validationRun);
+  if (!recorded.recorded) {
+    return skip(`could not record the run: ${recorded.reason ?? 'unknown error'}`);
+  }
+
+  return {
+    id: validationRun.id,
+    treeHash,
+    passed: validationRun.passed,
+    job: job.name,
+    url: job.html_url,
+    trusted: isTrustedRun(treeHash, validationRun, trust),
+  };
+}
+
+/**
+ * Import the validation results of CI runs into the local history
+ *
+ * Only finished jobs that succeeded or failed are considered; a job that
+ * did not run `validate` is reported as skipped.
+ *
+ * @param source - Pull request or run to import
+ * @param provider - CI provider that reads validation results from logs
+ * @param trust - Trust policy (`history.trust`) the imported runs are checked against
+ * @returns Imported runs and skipped jobs
+ * @throws Error if the runs or their jobs can't be listed (e.g. gh not authenticated)
+ */
+export async function importCIHistory(
+  source: HistoryImportSource,
+  provider: CIProvider = new GitHubActionsProvider(),
+  trust: HistoryTrust = 'any'
+): Promise<HistoryImportResult> {
+  const result: HistoryImportResult = { imported: [], skipped: [] };
+
+  for (const run of listRunsToImport(source)) {
+    const jobs = fetchRunJobs(run.databaseId).filter(
+      job => job.status === 'completed' && (job.conclusion === 'success' || job.conclusion === 'failure')
+    );
+    for (const job of jobs) {
+      const outcome = await importJob(provider, run, job, trust);
+      if ('reason' in outcome) {
+        result.skipped.push(outcome);
+      } else {
+        result.imported.push(outcome);
+      }
+    }
+  }
+
+  return result;
+}
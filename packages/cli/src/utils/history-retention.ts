@@ -0,0 +1,42 @@
+/**
+ * Validation History Retention
+ *
+ * Resolves `history.retention` for the pruner, both after each recorded run
+ * and for `history prune --policy`.
+ */
+
+import { getMainBranch, getRemoteOrigin, type VibeValidateConfig } from '@vibe-validate/config';
+import { verifyRef } from '@vibe-validate/git';
+import chalk from 'chalk';
+
+/**
+ * Retention policy, as configured in `history.retention`
+ */
+type HistoryRetention = NonNullable<NonNullable<VibeValidateConfig['history']>['retention']>;
+
+/**
+ * Resolve the configured retention policy
+ *
+ * `keepReachableFrom` defaults to the remote-tracking ref of `git.mainBranch`
+ * (e.g. `origin/main`), which CI checkouts have too. A ref that does not
+ * exist protects nothing, so the policy is not applied until it does.
+ *
+ * @param config - Vibe validate configuration
+ * @returns The policy to prune by, or null if there is none or its ref is missing (warned)
+ */
+export function resolveHistoryRetention(config: VibeValidateConfig | null): HistoryRetention | null {
+  const retention = config?.history?.retention;
+  if (!retention) {
+    return null;
+  }
+
+  const keepReachableFrom = retention.keepReachableFrom
+    ?? `${getRemoteOrigin(config?.git)}/${getMainBranch(config?.git)}`;
+  if (!verifyRef(keepReachableFrom)) {
+    console.error(chalk.yellow(`⚠️  History retention skipped: keepReachableFrom ref '${keepReachableFrom}' not found`));
+    console.error(chalk.gray('   Fetch it, or set history.retention.keepReachableFrom to an existing ref'));
+    return null;
+  }
+
+  return { ...retention, keepReachableFrom };
+}
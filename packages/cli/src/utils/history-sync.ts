@@ -0,0 +1,63 @@
+/**
+ * Validation History Sync
+ *
+ * Shares the validation history (git notes) with the remote, either on demand
+ * (`history push` / `history pull`) or automatically with `history.sync: auto`:
+ * pull before `validate --check`, push after a passing run.
+ */
+
+import type { VibeValidateConfig } from '@vibe-validate/config';
+import { pullNotes, pushNotes, type NotesSyncResult } from '@vibe-validate/git';
+import chalk from 'chalk';
+
+/**
+ * Sync direction
+ */
+export type HistorySyncDirection = 'pull' | 'push';
+
+/**
+ * Resolve the remote to sync history with
+ *
+ * @param config - Vibe validate configuration
+ * @param override - Remote given on the command line, if any
+ * @returns `override`, else `history.remote`, else `git.remoteOrigin`, else `origin`
+ */
+export function getHistoryRemote(config: VibeValidateConfig | null, override?: string): string {
+  return override ?? config?.history?.remote ?? config?.git?.remoteOrigin ?? 'origin';
+}
+
+/**
+ * Pull or push the validation history
+ *
+ * @param direction - Pull or push
+ * @param remote - Remote name
+ * @returns The sync outcome (never throws)
+ */
+export function syncHistory(direction: HistorySyncDirection, remote: string): NotesSyncResult {
+  return direction === 'pull' ? pullNotes(remote) : pushNotes(remote);
+}
+
+/**
+ * Sync the validation history when `history.sync` is `auto`
+ *
+ * Being offline must not block validation, so failures only warn.
+ *
+ * @param config - Vibe validate configuration
+ * @param direction - Pull (before `--check`) or push (after a passing run)
+ * @param verbose - Log what was synced
+ */
+export function autoSyncHistory(config: VibeValidateConfig, direction: HistorySyncDirection, verbose = false): void {
+  if (config.history?.sync !== 'auto') {
+    return;
+  }
+
+  const remote = getHistoryRemote(config);
+  const result = syncHistory(direction, remote);
+  if (!result.ok) {
+    console.warn(chalk.yellow(`⚠️  Could not ${direction} validation history (${remote}): ${result.error ?? 'unknown error'}`));
+    return;
+  }
+  if (verbose) {
+    console.error(chalk.gray(`🔄 Validation history ${direction === 'pull' ? 'pulled from' : 'pushed to'} ${remote} (${result.refsUpdated.length} ref(s) updated)`));
+  }
+}
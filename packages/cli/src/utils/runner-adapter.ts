@@ -4,7 +4,9 @@
  * Adapts structured VibeValidateConfig to ValidationConfig for the core runner.
  */
 
-import type { VibeValidateConfig } from '@vibe-validate/config';
+import { availableParallelism } from 'node:os';
+
+import { getMainBranch, getRemoteBranch, type VibeValidateConfig } from '@vibe-validate/config';
 import type { ValidationConfig, ValidationPhase, ValidationStep, PhaseResult, StepResult } from '@vibe-validate/core';
 import { stripGitEnv } from '@vibe-validate/core';
 import chalk from 'chalk';
@@ -16,6 +18,8 @@ export interface RunnerOptions {
   verbose: boolean;
   yaml?: boolean;
   debug?: boolean;
+  /** Maximum number of steps running at once (--jobs); overrides validation.maxConcurrency */
+  jobs?: number;
   context: AgentContext;
 }
 
@@ -23,7 +27,7 @@ export interface RunnerOptions {
  * Create a runner configuration from loaded config
  *
  * @param config Loaded vibe-validate configuration
- * @param options Runner options (force, format, context)
+ * @param options Runner options (force, format, jobs, context)
  * @returns ValidationConfig ready for the runner
  */
 export function createRunnerConfig(
@@ -46,6 +50,9 @@ export function createRunnerConfig(
   return {
     phases: (config.validation?.phases ?? []) as ValidationPhase[],
     enableFailFast: true, // Default to fail-fast (individual phases can override)
+    maxConcurrency: options.jobs ?? config.validation?.maxConcurrency ?? availableParallelism(),
+    changedSince: [getRemoteBranch(config.git), getMainBranch(config.git)], // Base for when.changed
+    resourceBudget: config.validation?.resourceBudget, // Memory/CPU budgets by step name
     verbose: options.verbose, // Pass verbose flag to runner for output streaming
     yaml: options.yaml, // Pass yaml flag to runner for stdout/stderr routing
     debug: options.debug ?? false, // Enable debug mode to create output files for all steps
@@ -29,7 +29,7 @@ export interface TemplateMetadata {
  *
  * @returns Absolute path to config-templates directory
  */
-function getTemplatesDir(): string {
+export function getTemplatesDir(): string {
   // Templates are at packages/cli/config-templates (permanent location)
   const __filename = fileURLToPath(import.meta.url);
   const __dirname = dirname(__filename);
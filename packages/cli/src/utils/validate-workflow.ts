@@ -5,16 +5,27 @@
  * Handles caching, history recording, and output formatting.
  */
 
-import type { VibeValidateConfig } from '@vibe-validate/config';
-import type { ValidationResult } from '@vibe-validate/core';
-import { runValidation } from '@vibe-validate/core';
+import { applyProfile, type VibeValidateConfig } from '@vibe-validate/config';
+import {
+  isPartialSelection,
+  runValidation,
+  selectSteps,
+  type StepSelection,
+  type ValidationResult,
+} from '@vibe-validate/core';
 import { getGitTreeHash, getRepositoryRoot, type TreeHashResult } from '@vibe-validate/git';
 import {
   recordValidationHistory,
   checkWorktreeStability,
   checkHistoryHealth,
   findCachedValidation,
+  findCachedStepResult,
   readHistoryNote,
+  pruneHistoryByPolicyIfDue,
+  recordStepResults,
+  signResult,
+  type HistoryTrust,
+  type RunSignature,
   type ValidationRun,
 } from '@vibe-validate/history';
 import { runDependencyCheck } from '@vibe-validate/utils';
@@ -24,8 +35,10 @@ import { stringify as yamlStringify } from 'yaml';
 import { getCommandName } from './command-name.js';
 import type { AgentContext } from './context-detector.js';
 import { displayCachedFailureHint, displayCachedResult } from './display-cached-result.js';
-import { detectFlakiness } from './flakiness-detector.js';
+import { annotateFlakyFailures, detectFlakiness } from './flakiness-detector.js';
 import { formatWorktreeDisplay } from './format-worktree.js';
+import { resolveHistoryRetention } from './history-retention.js';
+import { autoSyncHistory } from './history-sync.js';
 import { createPerfTimer } from './logger.js';
 import { createRunnerConfig } from './runner-adapter.js';
 import { outputYamlResult } from './yaml-output.js';
@@ -37,6 +50,14 @@ export interface ValidateWorkflowOptions {
   check?: boolean;
   debug?: boolean;
   retryFailed?: boolean;
+  /** Maximum number of steps running at once (overrides validation.maxConcurrency) */
+  jobs?: number;
+  /** Run only the steps of this profile (from `profiles`) */
+  profile?: string;
+  /** Run only steps matching these step names, phase names or globs */
+  only?: string[];
+  /** Leave out steps matching these step names, phase names or globs */
+  skip?: string[];
   context: AgentContext;
   /** Pre-computed tree hash from lock wrapper (avoids redundant computation) */
   treeHashResult?: TreeHashResult;
@@ -146,6 +167,33 @@ async function runDependencyLockCheck(
   return null;
 }
 
+/**
+ * Limit the config to the steps of a profile, and check the step selection
+ *
+ * The runner applies `--only`/`--skip` itself; checking them here reports a
+ * pattern that matches nothing before the cache is consulted.
+ *
+ * @param config - Loaded configuration
+ * @param profile - Profile name (undefined for every step)
+ * @param selection - Steps selected with --only/--skip
+ * @returns The configuration to validate with
+ * @throws Error if the profile is not defined or the selection matches
+ *   nothing (already reported)
+ * @internal
+ */
+function selectRunConfig(config: VibeValidateConfig, profile: string | undefined, selection: StepSelection): VibeValidateConfig {
+  try {
+    const selected = profile ? applyProfile(config, profile) : config;
+    if (isPartialSelection(selection)) {
+      selectSteps(selected.validation.phases, selection);
+    }
+    return selected;
+  } catch (error) {
+    console.error(chalk.red(`❌ ${error instanceof Error ? error.message : String(error)}`));
+    throw error;
+  }
+}
+
 /**
  * Check cache for validation run (pass or fail)
  *
@@ -157,14 +205,18 @@ async function runDependencyLockCheck(
  * Display logic is handled by the caller to avoid duplication.
  *
  * @param treeHash - Git tree hash to check
+ * @param profile - Profile being validated (undefined for every step)
+ * @param trust - Which recorded runs may be reused (`history.trust`)
  * @returns Cached result with metadata if found, null otherwise
  * @internal
  */
 async function checkCache(
-  treeHashResult: TreeHashResult
+  treeHashResult: TreeHashResult,
+  profile: string | undefined,
+  trust: HistoryTrust | undefined
 ): Promise<{ result: ValidationResult; run: ValidationRun } | null> {
   try {
-    const cachedRun = await findCachedValidation(treeHashResult);
+    const cachedRun = await findCachedValidation(treeHashResult, undefined, profile, trust);
 
     if (cachedRun) {
       // Mark result as from cache (v0.15.0+ schema field)
@@ -180,17 +232,69 @@ async function checkCache(
   return null;
 }
 
+/**
+ * Record passing steps with `inputs` in the step cache
+ *
+ * @param config - Vibe validate configuration (step definitions)
+ * @param result - Validation result to record
+ * @param verbose - Whether verbose output is enabled
+ * @internal
+ */
+async function recordStepCache(
+  config: VibeValidateConfig,
+  result: ValidationResult,
+  verbose: boolean
+): Promise<void> {
+  const steps = config.validation.phases.flatMap(phase => phase.steps);
+  if (!steps.some(step => step.inputs)) {
+    return;
+  }
+
+  const recorded = await recordStepResults(steps, result, config.history?.sign);
+  if (verbose && recorded > 0) {
+    console.log(chalk.gray(`   ✓ Step cache recorded (${recorded} step${recorded === 1 ? '' : 's'})`));
+  }
+}
+
+/**
+ * Prune the history by the `history.retention` policy, if one is configured
+ * and it was not applied in the last day
+ *
+ * @param config - Vibe validate configuration
+ * @param verbose - Whether verbose output is enabled
+ * @internal
+ */
+async function applyHistoryRetention(config: VibeValidateConfig, verbose: boolean): Promise<void> {
+  const retention = resolveHistoryRetention(config);
+  if (!retention) {
+    return;
+  }
+
+  try {
+    const result = await pruneHistoryByPolicyIfDue({ retention });
+    if (verbose && result && result.runsPruned > 0) {
+      console.log(chalk.gray(`   ✓ Retention policy pruned ${result.runsPruned} run(s) from ${result.prunedTreeHashes.length} tree hash(es)`));
+    }
+  } catch (error) {
+    // Pruning is housekeeping - never block validation on it
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error(chalk.yellow(`⚠️  History retention failed: ${errorMessage}`));
+  }
+}
+
 /**
  * Record validation history with stability check
  *
  * @param treeHashResultBefore - Tree hash result before validation
  * @param result - Validation result to record
+ * @param config - Vibe validate configuration (for the step cache)
  * @param verbose - Whether verbose output is enabled
  * @internal
  */
 async function recordHistory(
   treeHashResultBefore: TreeHashResult,
   result: ValidationResult,
+  config: VibeValidateConfig,
   verbose: boolean
 ): Promise<void> {
   const treeHashShort = treeHashResultBefore.hash.slice(0, 12);
@@ -204,17 +308,25 @@ async function recordHistory(
 
     if (stability.stable) {
       // Record to git notes
-      const recordResult = await recordValidationHistory(treeHashResultBefore, result);
+      const recordResult = await recordValidationHistory(treeHashResultBefore, result, { sign: config.history?.sign });
 
       if (recordResult.recorded) {
         if (verbose) {
           console.log(chalk.gray(`   ✓ History recorded (tree: ${treeHashShort})`));
         }
+        if (recordResult.signingError) {
+          console.error(chalk.yellow(`⚠️  Run recorded unsigned: ${recordResult.signingError}`));
+        }
+        await applyHistoryRetention(config, verbose);
       } else {
         // Always warn on stderr when history recording fails (not just in verbose mode)
         console.error(chalk.yellow(`⚠️  History recording failed: ${recordResult.reason ?? 'Unknown reason'}`));
         console.error(chalk.gray(`   Tree hash: ${treeHashShort}`));
       }
+
+      // Input hashes were taken before the run, so they are only trustworthy
+      // when the worktree did not change while validating
+      await recordStepCache(config, result, verbose);
     } else {
       console.warn(chalk.yellow('\n⚠️  Worktree changed during validation'));
       console.warn(chalk.yellow(`   Before: ${stability.treeHashBefore.slice(0, 12)}...`));
@@ -252,6 +364,15 @@ function displayFailureInfo(result: ValidationResult, config: VibeValidateConfig
     console.error(chalk.blue('🔄 To retry:'), chalk.white(failedStep.command));
   }
 
+  const flakyTests = result.phases?.flatMap(phase => phase.steps).flatMap(step => step.flakyTests ?? []) ?? [];
+  if (flakyTests.length > 0) {
+    console.error(chalk.yellow('🔁 Probably flaky (failed and passed before):'));
+    for (const flaky of flakyTests) {
+      console.error(chalk.yellow(`   - ${flaky.test} (score ${flaky.score})`));
+    }
+    console.error(chalk.gray(`   See: ${cmd} history flaky`));
+  }
+
   // Context-aware extraction quality feedback (only when developerFeedback is enabled)
   if (config.developerFeedback && !isReplay) {
     const poorExtractionSteps = result.phases
@@ -277,6 +398,28 @@ function displayFailureInfo(result: ValidationResult, config: VibeValidateConfig
   }
 }
 
+/**
+ * Sign the result CI prints, so `history import` can carry the signature over
+ *
+ * @param result - Result about to be printed
+ * @param config - Vibe validate configuration (`history.sign`)
+ * @param context - Agent context (only CI signs what it prints)
+ * @returns The result with its `signature`, or unchanged when not in CI or signing is not set up
+ * @internal
+ */
+function signPrintedResult(
+  result: ValidationResult,
+  config: VibeValidateConfig,
+  context: AgentContext
+): ValidationResult & { signature?: RunSignature } {
+  const method = config.history?.sign;
+  if (!context.isCI || !method) {
+    return result;
+  }
+  const signature = signResult(result, method);
+  return signature ? { ...result, signature } : result;
+}
+
 /**
  * Execute validation workflow with caching, history recording, and output formatting.
  *
@@ -293,12 +436,17 @@ export async function runValidateWorkflow(
   options: ValidateWorkflowOptions
 ): Promise<ValidationResult> {
   const timer = createPerfTimer('runValidateWorkflow');
+  const selection: StepSelection = { only: options.only, skip: options.skip };
+  const partial = isPartialSelection(selection);
+  const profileConfig = selectRunConfig(config, options.profile, selection);
   try {
     // If --check flag is used, only check validation state without running
     if (options.check) {
       const yaml = options.yaml ?? false;
+      // A teammate (or CI) may already have validated this tree
+      autoSyncHistory(config, 'pull', options.verbose);
       const { checkValidationStatus } = await import('./check-validation.js');
-      await checkValidationStatus(config, yaml);
+      await checkValidationStatus(config, yaml, options.profile);
       throw new Error('checkValidationStatus should have exited');
     }
 
@@ -307,11 +455,12 @@ export async function runValidateWorkflow(
     const debug = options.debug ?? false;
 
     // Create runner config
-    const runnerConfig = createRunnerConfig(config, {
+    const runnerConfig = createRunnerConfig(profileConfig, {
       force: options.force,
       verbose,
       yaml,
       debug,
+      jobs: options.jobs,
       context: options.context,
     });
 
@@ -335,8 +484,9 @@ export async function runValidateWorkflow(
     let result: ValidationResult | undefined;
     let cachedRun: ValidationRun | null = null;
 
-    if (treeHashResultBefore && !forceExecution) {
-      const cached = await checkCache(treeHashResultBefore);
+    // A partial run always runs: the cached result for the tree is about other steps
+    if (treeHashResultBefore && !forceExecution && !partial) {
+      const cached = await checkCache(treeHashResultBefore, options.profile, config.history?.trust);
       if (cached) {
         // When --retry-failed is set, don't use cached failures — let retry logic handle them
         if (options.retryFailed && !cached.result.passed) {
@@ -353,7 +503,7 @@ export async function runValidateWorkflow(
     let previousRunForRetry: ValidationRun | undefined;
     if (options.retryFailed && treeHashResultBefore && !forceExecution && !result) {
       try {
-        const previousRun = await findCachedValidation(treeHashResultBefore);
+        const previousRun = await findCachedValidation(treeHashResultBefore, undefined, options.profile, config.history?.trust);
 
         if (!previousRun) {
           // No previous validation found
@@ -379,6 +529,12 @@ export async function runValidateWorkflow(
       // Display tree hash before running validation
       if (treeHashResultBefore) {
         console.error(formatWorktreeDisplay(treeHashResultBefore));
+        if (options.profile) {
+          console.error(chalk.gray(`   Profile: ${options.profile}`));
+        }
+        if (partial) {
+          console.error(chalk.gray('   Partial run (--only/--skip): not recorded as a pass for this tree'));
+        }
         if (!yaml) {
           console.log(''); // Blank line for readability (human mode only)
         }
@@ -402,15 +558,26 @@ export async function runValidateWorkflow(
         process.env.VV_FORCE_EXECUTION = '1';
       }
 
-      // Run validation (with optional previousRun for retry-failed)
+      // Run validation (with optional previousRun for retry-failed).
+      // Steps with unchanged `inputs` reuse their recorded pass unless forced.
       result = await runValidation({
         ...runnerConfig,
         previousRun: previousRunForRetry,
+        findCachedStep: forceExecution
+          ? undefined
+          : (step, inputsHash) => findCachedStepResult(step, inputsHash, config.history?.trust),
+        selection,
       });
+      if (options.profile) {
+        result.profile = options.profile;
+      }
 
       // Record validation history (if in git repo)
       if (treeHashResultBefore) {
-        await recordHistory(treeHashResultBefore, result, verbose);
+        await recordHistory(treeHashResultBefore, result, profileConfig, verbose);
+        if (result.passed) {
+          autoSyncHistory(config, 'push', verbose);
+        }
       }
     }
 
@@ -442,10 +609,16 @@ export async function runValidateWorkflow(
       }
     }
 
+    // Tell agents which failures are probably flaky rather than caused by the change
+    if (!result.passed) {
+      result = await annotateFlakyFailures(result);
+    }
+
     // Display result (cached or fresh)
+    const printedResult = signPrintedResult(result, config, options.context);
     if (yaml) {
       // YAML mode: output structured result to stdout
-      await outputYamlResult(result);
+      await outputYamlResult(printedResult);
     } else {
       // Human-readable mode
       const isReplay = Boolean(cachedRun);
@@ -473,7 +646,7 @@ export async function runValidateWorkflow(
 
         // Output YAML document with separators to stderr
         process.stderr.write('\n---\n');
-        const yamlContent = yamlStringify(result);
+        const yamlContent = yamlStringify(printedResult);
         process.stderr.write(yamlContent);
         // Write closing YAML document separator (ensure newline before it)
         if (!yamlContent.endsWith('\n')) {
@@ -224,6 +224,33 @@ describe('config command', () => {
       expectLogMessage('validation:');
       expectLogMessage('Vibe-Validate Configuration');
     });
+
+    it('should show where inherited values came from in verbose format', async () => {
+      const configPath = join(tempEnv.testDir, 'vibe-validate.config.yaml');
+      vi.mocked(configLoader.loadConfigWithErrors).mockResolvedValue({
+        config: createTestConfig(),
+        errors: null,
+        filePath: configPath,
+        chain: {
+          raw: {},
+          layers: [
+            { source: '@acme/vibe-validate-preset', path: '/preset/vibe-validate.config.yaml' },
+            { source: 'vibe-validate.config.yaml', path: configPath },
+          ],
+          sources: new Map([
+            ['validation.phases[Test Phase].parallel', '@acme/vibe-validate-preset'],
+            ['validation.phases[Test Phase].steps[Test Step].command', 'vibe-validate.config.yaml'],
+          ]),
+        },
+      });
+      configCommand(env.program);
+
+      const exitCode = await executeCommandAndGetExitCode(env.program,['config', '--verbose']);
+
+      expect(exitCode).toBe(0);
+      expectLogMessage('@acme/vibe-validate-preset → vibe-validate.config.yaml');
+      expectLogMessage('validation.phases[Test Phase].parallel ← @acme/vibe-validate-preset');
+    });
   });
 
   describe('error handling', () => {
@@ -1,9 +1,16 @@
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { join } from 'node:path';
+
 import * as git from '@vibe-validate/git';
 import * as history from '@vibe-validate/history';
+import { normalizedTmpdir } from '@vibe-validate/utils';
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { parse as parseYaml } from 'yaml';
 
 import { historyCommand } from '../../src/commands/history.js';
+import { GitHubActionsProvider } from '../../src/services/ci-providers/github-actions.js';
 import * as configLoader from '../../src/utils/config-loader.js';
+import { importCIHistory } from '../../src/utils/history-import.js';
 import { setupCommanderTest, type CommanderTestEnv } from '../helpers/commander-test-setup.js';
 
 
@@ -18,6 +25,8 @@ vi.mock('@vibe-validate/history', async () => {
     pruneHistoryByAge: vi.fn(),
     pruneAllHistory: vi.fn(),
     checkHistoryHealth: vi.fn(),
+    getBlobStorageStats: vi.fn(),
+    searchHistory: vi.fn(),
   };
 });
 
@@ -27,18 +36,96 @@ vi.mock('../../src/utils/config-loader.js', async () => {
   return {
     ...actual,
     findConfigPath: vi.fn(),
+    loadConfig: vi.fn(),
   };
 });
 
+// Mock CI import (fetches CI logs with gh)
+vi.mock('../../src/utils/history-import.js', () => ({
+  importCIHistory: vi.fn(),
+}));
+
 // Mock git module
 vi.mock('@vibe-validate/git', async () => {
   const actual = await vi.importActual('@vibe-validate/git');
   return {
     ...actual,
     getGitTreeHash: vi.fn(),
+    pullNotes: vi.fn(),
+    pushNotes: vi.fn(),
+    verifyRef: vi.fn(() => true),
   };
 });
 
+/**
+ * Create a history note whose run passed only because a step was retried
+ * @returns History note with one run and one flaky step
+ */
+function createFlakyRunNote() {
+  return {
+    treeHash: 'abc123',
+    runs: [
+      {
+        id: 'run-1',
+        timestamp: '2025-10-22T00:00:00.000Z',
+        duration: 5000,
+        passed: true,
+        branch: 'main',
+        headCommit: 'def456',
+        uncommittedChanges: false,
+        result: {
+          passed: true,
+          timestamp: '2025-10-22T00:00:00.000Z',
+          treeHash: 'abc123',
+          phases: [
+            {
+              name: 'Testing',
+              passed: true,
+              durationSecs: 5,
+              steps: [
+                {
+                  name: 'Integration',
+                  command: 'npm run test:integration',
+                  exitCode: 0,
+                  durationSecs: 5,
+                  passed: true,
+                  flaky: true,
+                  attempts: [{ exitCode: 1, durationSecs: 2 }, { exitCode: 0, durationSecs: 3 }],
+                },
+              ],
+            },
+          ],
+        },
+      },
+    ],
+  };
+}
+
+/**
+ * Create a history note with one run from an hour ago whose Typecheck step failed
+ * @returns History note with a failing step and an extracted TS2322 error
+ */
+function createRecentFailureNote() {
+  const timestamp = new Date(Date.now() - 60 * 60 * 1000).toISOString();
+  const note = createFlakyRunNote();
+  const [run] = note.runs;
+  run.timestamp = timestamp;
+  run.passed = false;
+  run.result.phases[0].steps.push({
+    name: 'Typecheck',
+    command: 'tsc --noEmit',
+    exitCode: 2,
+    durationSecs: 12,
+    passed: false,
+    extraction: {
+      summary: '1 error',
+      totalErrors: 1,
+      errors: [{ file: 'src/a.ts', line: 3, message: "Type 'string' is not assignable to type 'number'", code: 'TS2322' }],
+    },
+  } as (typeof run.result.phases)[0]['steps'][0]);
+  return note;
+}
+
 describe('history command', () => {
   let env: CommanderTestEnv;
 
@@ -52,6 +139,9 @@ describe('history command', () => {
     vi.mocked(history.pruneHistoryByAge).mockReset();
     vi.mocked(history.pruneAllHistory).mockReset();
     vi.mocked(history.checkHistoryHealth).mockReset();
+    vi.mocked(history.getBlobStorageStats).mockReset().mockReturnValue({
+      blobs: 0, references: 0, storedBytes: 0, inlineBytes: 0, savedBytes: 0,
+    });
     vi.mocked(configLoader.findConfigPath).mockReset();
     vi.mocked(git.getGitTreeHash).mockReset();
 
@@ -150,6 +240,28 @@ describe('history command', () => {
       expect(console.log).toHaveBeenCalled();
     });
 
+    it('should mark runs that passed only after a retry', async () => {
+      vi.mocked(history.getAllHistoryNotes).mockResolvedValue([createFlakyRunNote()]);
+
+      historyCommand(env.program);
+
+      await env.program.parseAsync(['history', 'list'], { from: 'user' });
+
+      expect(console.log).toHaveBeenCalledWith(expect.stringContaining('🔁 flaky: Integration'));
+    });
+
+    it('should mark profile and partial runs', async () => {
+      const note = createFlakyRunNote();
+      Object.assign(note.runs[0].result, { profile: 'quick', partial: true });
+      vi.mocked(history.getAllHistoryNotes).mockResolvedValue([note]);
+
+      historyCommand(env.program);
+
+      await env.program.parseAsync(['history', 'list'], { from: 'user' });
+
+      expect(console.log).toHaveBeenCalledWith(expect.stringContaining('✓ PASSED (profile: quick, partial)'));
+    });
+
     it('should filter by branch when --branch flag is provided', async () => {
       const mockNotes = [
         {
@@ -517,6 +629,61 @@ describe('history command', () => {
       expect(console.log).toHaveBeenCalled();
     });
 
+    it('should report steps that passed only after a retry', async () => {
+      vi.mocked(history.readHistoryNote).mockResolvedValue(createFlakyRunNote());
+
+      historyCommand(env.program);
+
+      await env.program.parseAsync(['history', 'show', 'abc123'], { from: 'user' });
+
+      expect(console.log).toHaveBeenCalledWith('      🔁 Integration (flaky: passed on attempt 2)');
+    });
+
+    it('should report the resources a step used and its budget overrun', async () => {
+      const note = createFlakyRunNote();
+      Object.assign(note.runs[0].result.phases[0].steps[0], {
+        resources: { peakRssMb: 3100.5, cpuUserSecs: 42.1, cpuSystemSecs: 3.2, childProcesses: 14 },
+        budgetExceeded: ['peak RSS 3100.5MB exceeds 2048MB'],
+      });
+      vi.mocked(history.readHistoryNote).mockResolvedValue(note);
+
+      historyCommand(env.program);
+
+      await env.program.parseAsync(['history', 'show', 'abc123'], { from: 'user' });
+
+      expect(console.log).toHaveBeenCalledWith(
+        '      📊 Integration (peak 3100.5MB, CPU 42.1s user / 3.2s sys, 14 processes)'
+      );
+      expect(console.log).toHaveBeenCalledWith('      ⚠️  Integration (over resource budget: peak RSS 3100.5MB exceeds 2048MB)');
+    });
+
+    it('should show whether a signed run verifies', async () => {
+      const note = createFlakyRunNote();
+      Object.assign(note.runs[0], { signature: { method: 'hmac', value: 'not-the-real-hmac' } });
+      vi.mocked(history.readHistoryNote).mockResolvedValue(note);
+
+      historyCommand(env.program);
+
+      await env.program.parseAsync(['history', 'show', 'abc123'], { from: 'user' });
+
+      expect(console.log).toHaveBeenCalledWith('  Signature: hmac (not verified)');
+    });
+
+    it('should report skipped steps with their reason', async () => {
+      const note = createFlakyRunNote();
+      Object.assign(note.runs[0].result.phases[0].steps[0], {
+        name: 'Backend Tests',
+        skipped: { reason: 'no changes in backend/** since origin/main', deterministic: false },
+      });
+      vi.mocked(history.readHistoryNote).mockResolvedValue(note);
+
+      historyCommand(env.program);
+
+      await env.program.parseAsync(['history', 'show', 'abc123'], { from: 'user' });
+
+      expect(console.log).toHaveBeenCalledWith('      ⏭️  Backend Tests (skipped: no changes in backend/** since origin/main)');
+    });
+
     it('should output YAML when --yaml flag is provided', async () => {
       const mockNote = {
         treeHash: 'abc123',
@@ -885,6 +1052,53 @@ describe('history command', () => {
       expect(pruneAllRunCache).toHaveBeenCalledWith(false);
       expect(console.log).toHaveBeenCalled();
     });
+
+    it('should preview the configured retention policy with --policy --dry-run', async () => {
+      const retention = { keepRunsPerBranch: 20, keepReachableFrom: 'origin/main' };
+      vi.mocked(configLoader.loadConfig).mockResolvedValue({ validation: { phases: [] }, history: { retention } } as any);
+      vi.mocked(history).pruneHistoryByPolicy = vi.fn().mockResolvedValue({
+        notesPruned: 1,
+        runsPruned: 3,
+        notesRemaining: 9,
+        prunedTreeHashes: ['abc123def4567890', 'fed987'],
+      });
+
+      historyCommand(env.program);
+      await env.program.parseAsync(['history', 'prune', '--policy', '--dry-run'], { from: 'user' });
+
+      expect(history.pruneHistoryByPolicy).toHaveBeenCalledWith({ retention }, true);
+      expect(console.log).toHaveBeenCalledWith('Would remove 3 validation runs');
+      expect(console.log).toHaveBeenCalledWith('  abc123def456');
+      expect(console.log).toHaveBeenCalledWith(expect.stringContaining('history prune --policy'));
+    });
+
+    it('should not apply the retention policy while its keepReachableFrom ref is missing', async () => {
+      vi.mocked(configLoader.loadConfig).mockResolvedValue({ validation: { phases: [] }, history: { retention: { keepRunsPerBranch: 20 } } } as any);
+      vi.mocked(git.verifyRef).mockReturnValueOnce(false);
+      vi.mocked(history).pruneHistoryByPolicy = vi.fn();
+
+      historyCommand(env.program);
+      await env.program.parseAsync(['history', 'prune', '--policy'], { from: 'user' });
+
+      expect(git.verifyRef).toHaveBeenCalledWith('origin/main');
+      expect(history.pruneHistoryByPolicy).not.toHaveBeenCalled();
+      expect(console.error).toHaveBeenCalledWith(expect.stringContaining("keepReachableFrom ref 'origin/main' not found"));
+    });
+
+    it('should exit 1 with --policy when no retention policy is configured', async () => {
+      vi.mocked(configLoader.loadConfig).mockResolvedValue({ validation: { phases: [] } } as any);
+      const exitSpy = vi.spyOn(process, 'exit').mockImplementation((code?: ProcessExitCode) => {
+        throw new Error(`process.exit(${String(code)})`);
+      }) as any;
+
+      historyCommand(env.program);
+      await expect(env.program.parseAsync(['history', 'prune', '--policy'], { from: 'user' })).rejects.toThrow();
+
+      expect(console.error).toHaveBeenCalledWith('Error pruning history: No history.retention policy in the config');
+      expect(exitSpy).toHaveBeenCalledWith(1);
+
+      exitSpy.mockRestore();
+    });
   });
 
   describe('history health', () => {
@@ -941,6 +1155,28 @@ describe('history command', () => {
 
       expect(console.log).toHaveBeenCalledWith('\n✓ History is healthy');
     });
+
+    it('should report the space saved by compressed extractions', async () => {
+      vi.mocked(history.checkHistoryHealth).mockResolvedValue({
+        totalNotes: 25,
+        oldNotesCount: 0,
+        shouldWarn: false,
+        warningMessage: '',
+      });
+      vi.mocked(history.getBlobStorageStats).mockReturnValue({
+        blobs: 3,
+        references: 40,
+        storedBytes: 3 * 1024,
+        inlineBytes: 2 * 1024 * 1024,
+        savedBytes: 2 * 1024 * 1024 - 3 * 1024,
+      });
+
+      historyCommand(env.program);
+
+      await env.program.parseAsync(['history', 'health'], { from: 'user' });
+
+      expect(console.log).toHaveBeenCalledWith('Compressed extractions: 40 in 3 blob(s), 3.0 KB stored, 2.0 MB saved');
+    });
   });
 
   describe('error handling', () => {
@@ -1040,4 +1276,356 @@ describe('history command', () => {
       exitSpy.mockRestore();
     });
   });
+
+  describe('history push/pull', () => {
+    const config = { validation: { phases: [] }, git: { mainBranch: 'main', remoteOrigin: 'upstream' } };
+
+    it('should pull from the configured remote and summarize the merge', async () => {
+      vi.mocked(configLoader.loadConfig).mockResolvedValue(config);
+      vi.mocked(git.pullNotes).mockReturnValue({
+        ok: true,
+        refsUpdated: ['refs/notes/vibe-validate/validate'],
+        notesMerged: 2,
+      });
+
+      historyCommand(env.program);
+      await env.program.parseAsync(['history', 'pull'], { from: 'user' });
+
+      expect(git.pullNotes).toHaveBeenCalledWith('upstream');
+      expect(console.log).toHaveBeenCalledWith('✓ Validation history pulled from upstream');
+      expect(console.log).toHaveBeenCalledWith('  Notes merged: 2');
+    });
+
+    it('should push to --remote and exit 1 when the push fails', async () => {
+      vi.mocked(configLoader.loadConfig).mockResolvedValue(config);
+      vi.mocked(git.pushNotes).mockReturnValue({ ok: false, error: 'rejected', refsUpdated: [], notesMerged: 0 });
+      const exitSpy = vi.spyOn(process, 'exit').mockImplementation((code?: ProcessExitCode) => {
+        throw new Error(`process.exit(${String(code)})`);
+      }) as any;
+
+      historyCommand(env.program);
+      await expect(env.program.parseAsync(['history', 'push', '--remote', 'fork'], { from: 'user' })).rejects.toThrow();
+
+      expect(git.pushNotes).toHaveBeenCalledWith('fork');
+      expect(console.error).toHaveBeenCalledWith('Error pushing validation history (fork): rejected');
+      expect(exitSpy).toHaveBeenCalledWith(1);
+
+      exitSpy.mockRestore();
+    });
+  });
+  describe('history stats', () => {
+    it('should show pass rates, durations and top failures per step', async () => {
+      vi.mocked(history.getAllHistoryNotes).mockResolvedValue([createRecentFailureNote()] as any);
+
+      historyCommand(env.program);
+      await env.program.parseAsync(['history', 'stats', '--since', '7d'], { from: 'user' });
+
+      const output = vi.mocked(console.log).mock.calls.map(call => String(call[0])).join('\n');
+      expect(output).toContain('Runs: 1 (0% passed)');
+      expect(output).toMatch(/Typecheck\s+1\s+0%\s+12\.0s\s+12\.0s\s+-/);
+      expect(output).toContain("1×  TS2322  Type 'string' is not assignable to type 'number'  (Typecheck)");
+    });
+
+    it('should exit 1 on an invalid --since', async () => {
+      const exitSpy = vi.spyOn(process, 'exit').mockImplementation((code?: ProcessExitCode) => {
+        throw new Error(`process.exit(${String(code)})`);
+      }) as any;
+
+      historyCommand(env.program);
+      await expect(env.program.parseAsync(['history', 'stats', '--since', 'lately'], { from: 'user' })).rejects.toThrow();
+
+      expect(console.error).toHaveBeenCalledWith(expect.stringContaining('Error computing history stats: Invalid period "lately"'));
+      expect(exitSpy).toHaveBeenCalledWith(1);
+
+      exitSpy.mockRestore();
+    });
+  });
+  describe('history flaky', () => {
+    it('should list a test that failed and then passed on the same tree', async () => {
+      const failed = createRecentFailureNote();
+      const passed = createFlakyRunNote();
+      passed.runs[0].id = 'run-2';
+      passed.runs[0].timestamp = new Date().toISOString();
+      passed.runs[0].result.phases[0].steps.push({ ...failed.runs[0].result.phases[0].steps[1], passed: true, extraction: undefined });
+      vi.mocked(history.getAllHistoryNotes).mockResolvedValue([{ treeHash: 'abc123', runs: [...failed.runs, ...passed.runs] }] as any);
+
+      historyCommand(env.program);
+      await env.program.parseAsync(['history', 'flaky'], { from: 'user' });
+
+      const output = vi.mocked(console.log).mock.calls.map(call => String(call[0])).join('\n');
+      expect(output).toContain('Flaky Tests (showing 1 of 1)');
+      expect(output).toMatch(/0\.50\s+1\s+2\s+1\s+Typecheck\s+src\/a\.ts › Type 'string' is not assignable/);
+    });
+
+    it('should say so when no test is flaky', async () => {
+      vi.mocked(history.getAllHistoryNotes).mockResolvedValue([createRecentFailureNote()] as any);
+
+      historyCommand(env.program);
+      await env.program.parseAsync(['history', 'flaky'], { from: 'user' });
+
+      expect(console.log).toHaveBeenCalledWith('No flaky tests found in validation history');
+    });
+  });
+  describe('history search', () => {
+    const MATCH: history.SearchMatch = {
+      treeHash: 'abc123def456',
+      runId: 'run-1',
+      timestamp: '2026-03-01T10:00:00.000Z',
+      branch: 'feature/login',
+      headCommit: 'def4567',
+      passed: false,
+      uncommittedChanges: false,
+      steps: ['Typecheck'],
+    };
+
+    beforeEach(() => {
+      vi.mocked(history.searchHistory).mockReset().mockResolvedValue([MATCH]);
+    });
+
+    it('should pass the filters to the search', async () => {
+      historyCommand(env.program);
+      await env.program.parseAsync([
+        'history', 'search', '--branch', 'feature/*', '--step', 'Typecheck', '--status', 'failed',
+        '--error-code', 'TS2322', '--file', 'src/*', '--since', '2026-02-01', '--no-uncommitted',
+      ], { from: 'user' });
+
+      expect(history.searchHistory).toHaveBeenCalledWith({
+        branch: 'feature/*',
+        step: 'Typecheck',
+        status: 'failed',
+        errorCode: 'TS2322',
+        file: 'src/*',
+        since: new Date('2026-02-01'),
+        until: undefined,
+        uncommittedChanges: false,
+      });
+    });
+
+    it('should leave uncommitted changes unfiltered by default', async () => {
+      historyCommand(env.program);
+      await env.program.parseAsync(['history', 'search'], { from: 'user' });
+
+      expect(vi.mocked(history.searchHistory).mock.calls[0][0].uncommittedChanges).toBeUndefined();
+    });
+
+    it('should list matching runs with their matching steps', async () => {
+      historyCommand(env.program);
+      await env.program.parseAsync(['history', 'search', '--step', 'Typecheck'], { from: 'user' });
+
+      const output = vi.mocked(console.log).mock.calls.map(call => String(call[0])).join('\n');
+      expect(output).toContain('Matching Runs (showing 1 of 1)');
+      expect(output).toMatch(/abc123d\s+feature\/login\s+✗ FAILED\s+Typecheck/);
+    });
+
+    it('should output matches as YAML', async () => {
+      const stdoutSpy = vi.spyOn(process.stdout, 'write').mockImplementation(() => true);
+
+      historyCommand(env.program);
+      await env.program.parseAsync(['history', 'search', '--yaml'], { from: 'user' });
+
+      const output = stdoutSpy.mock.calls.map(call => String(call[0])).join('');
+      expect(parseYaml(output.replace(/^---\n/, ''))).toEqual([MATCH]);
+
+      stdoutSpy.mockRestore();
+    });
+
+    it('should say so when nothing matches', async () => {
+      vi.mocked(history.searchHistory).mockResolvedValue([]);
+
+      historyCommand(env.program);
+      await env.program.parseAsync(['history', 'search', '--error-code', 'TS9999'], { from: 'user' });
+
+      expect(console.log).toHaveBeenCalledWith('No runs match the search');
+    });
+
+    it('should exit 1 on an invalid --status', async () => {
+      const exitSpy = vi.spyOn(process, 'exit').mockImplementation((code?: ProcessExitCode) => {
+        throw new Error(`process.exit(${String(code)})`);
+      }) as any;
+
+      historyCommand(env.program);
+      await expect(env.program.parseAsync(['history', 'search', '--status', 'broken'], { from: 'user' })).rejects.toThrow();
+
+      expect(console.error).toHaveBeenCalledWith('Error searching history: Invalid status "broken": use passed or failed');
+      expect(history.searchHistory).not.toHaveBeenCalled();
+      expect(exitSpy).toHaveBeenCalledWith(1);
+
+      exitSpy.mockRestore();
+    });
+  });
+  describe('history export', () => {
+    let outDir: string;
+
+    beforeEach(() => {
+      outDir = mkdtempSync(join(normalizedTmpdir(), 'vibe-validate-history-export-'));
+      vi.mocked(history).getAllRunCacheEntries = vi.fn().mockResolvedValue([]);
+    });
+
+    afterEach(() => {
+      rmSync(outDir, { recursive: true, force: true });
+    });
+
+    it('should write one JSON line per run, step and error', async () => {
+      vi.mocked(history.getAllHistoryNotes).mockResolvedValue([createRecentFailureNote()] as any);
+      const out = join(outDir, 'history.jsonl');
+
+      historyCommand(env.program);
+      await env.program.parseAsync(['history', 'export', '--format', 'jsonl', '--out', out], { from: 'user' });
+
+      const types = readFileSync(out, 'utf-8').trimEnd().split('\n').map(line => (JSON.parse(line) as { type: string }).type);
+      expect(types).toEqual(['run', 'step', 'step', 'error']);
+      expect(console.log).toHaveBeenCalledWith(`✓ Exported 1 runs, 2 steps and 1 errors to ${out} (jsonl)`);
+    });
+
+    it('should exit 1 on an unknown format', async () => {
+      const exitSpy = vi.spyOn(process, 'exit').mockImplementation((code?: ProcessExitCode) => {
+        throw new Error(`process.exit(${String(code)})`);
+      }) as any;
+
+      historyCommand(env.program);
+      await expect(
+        env.program.parseAsync(['history', 'export', '--format', 'csv', '--out', join(outDir, 'x.csv')], { from: 'user' })
+      ).rejects.toThrow();
+
+      expect(console.error).toHaveBeenCalledWith('Error exporting history: Unknown format "csv" (use junit, jsonl, sqlite)');
+      expect(exitSpy).toHaveBeenCalledWith(1);
+
+      exitSpy.mockRestore();
+    });
+  });
+
+  describe('history import', () => {
+    beforeEach(() => {
+      vi.spyOn(GitHubActionsProvider.prototype, 'isAvailable').mockResolvedValue(true);
+      vi.mocked(importCIHistory).mockReset();
+    });
+
+    it('should import the CI runs of a pull request', async () => {
+      vi.mocked(importCIHistory).mockResolvedValue({
+        imported: [{
+          id: 'ci-1234-1',
+          treeHash: 'e9cc190d18d6c66939c9a11a390472b3251521ff',
+          passed: true,
+          job: 'test (ubuntu)',
+          url: 'https://github.com/acme/app/actions/runs/1234/job/1',
+          trusted: true,
+        }],
+        skipped: [{ job: 'deploy', url: 'https://github.com/acme/app/actions/runs/1234/job/2', reason: 'no validation result in the job log' }],
+      });
+
+      historyCommand(env.program);
+      await env.program.parseAsync(['history', 'import', '--from-pr', '42'], { from: 'user' });
+
+      expect(importCIHistory).toHaveBeenCalledWith({ prNumber: 42 }, expect.any(GitHubActionsProvider), 'any');
+      expect(console.log).toHaveBeenCalledWith('✓ Imported 1 run(s) from CI');
+      expect(console.log).toHaveBeenCalledWith(
+        '  ✓ e9cc190d18d6  test (ubuntu)  https://github.com/acme/app/actions/runs/1234/job/1'
+      );
+      expect(console.log).toHaveBeenCalledWith('  deploy: no validation result in the job log');
+    });
+
+    it('should warn about imported runs the trust policy will not reuse', async () => {
+      vi.mocked(configLoader.loadConfig).mockResolvedValue({ validation: { phases: [] }, history: { trust: 'ci-only' } } as any);
+      vi.mocked(importCIHistory).mockResolvedValue({
+        imported: [{
+          id: 'ci-1234-1',
+          treeHash: 'e9cc190d18d6c66939c9a11a390472b3251521ff',
+          passed: true,
+          job: 'test (ubuntu)',
+          url: 'https://github.com/acme/app/actions/runs/1234/job/1',
+          trusted: false,
+        }],
+        skipped: [],
+      });
+
+      historyCommand(env.program);
+      await env.program.parseAsync(['history', 'import', '--run-id', '1234'], { from: 'user' });
+
+      expect(importCIHistory).toHaveBeenCalledWith({ runId: 1234 }, expect.any(GitHubActionsProvider), 'ci-only');
+      expect(console.log).toHaveBeenCalledWith(expect.stringContaining("history.trust is 'ci-only': 1 imported run(s) have no signature it accepts"));
+    });
+
+    it.each([
+      [[], 'Specify either --from-pr <number> or --run-id <id>'],
+      [['--from-pr', '1', '--run-id', '2'], 'Specify either --from-pr <number> or --run-id <id>'],
+      [['--run-id', 'abc'], 'Invalid run ID: abc. Must be a positive integer.'],
+    ])('should exit 1 for options %j', async (args, message) => {
+      const exitSpy = vi.spyOn(process, 'exit').mockImplementation((code?: ProcessExitCode) => {
+        throw new Error(`process.exit(${String(code)})`);
+      }) as any;
+
+      historyCommand(env.program);
+      await expect(env.program.parseAsync(['history', 'import', ...args], { from: 'user' })).rejects.toThrow();
+
+      expect(console.error).toHaveBeenCalledWith(`Error importing history: ${message}`);
+      expect(exitSpy).toHaveBeenCalledWith(1);
+      expect(importCIHistory).not.toHaveBeenCalled();
+
+      exitSpy.mockRestore();
+    });
+  });
+
+  describe('history diff', () => {
+    beforeEach(() => {
+      const green = createFlakyRunNote();
+      const red = createRecentFailureNote();
+      red.treeHash = 'fed987';
+      red.runs[0].headCommit = 'aaa111';
+      vi.mocked(history.getAllHistoryNotes).mockResolvedValue([green, red] as any);
+    });
+
+    it('should diff the latest passing run against the latest run as YAML', async () => {
+      vi.mocked(history).getRunDiffStat = vi.fn().mockReturnValue({
+        filesChanged: 1,
+        insertions: 2,
+        deletions: 1,
+        files: [{ file: 'src/a.ts', insertions: 2, deletions: 1 }],
+      });
+
+      historyCommand(env.program);
+      await env.program.parseAsync(['history', 'diff'], { from: 'user' });
+
+      const output = vi.mocked(process.stdout.write).mock.calls.map(call => String(call[0])).join('');
+      expect(output.startsWith('---\n')).toBe(true);
+      const diff = parseYaml(output) as history.RunDiff;
+      expect(diff.from).toMatchObject({ treeHash: 'abc123', passed: true, headCommit: 'def456' });
+      expect(diff.to).toMatchObject({ treeHash: 'fed987', passed: false, headCommit: 'aaa111' });
+      expect(diff.newlyFailing).toEqual(['Typecheck']);
+      expect(diff.errors.new).toEqual([
+        { step: 'Typecheck', file: 'src/a.ts', line: 3, code: 'TS2322', message: "Type 'string' is not assignable to type 'number'" },
+      ]);
+      expect(diff.diffstat?.filesChanged).toBe(1);
+      expect(history.getRunDiffStat).toHaveBeenCalledWith('def456', 'aaa111');
+    });
+
+    it('should report why the diffstat is missing', async () => {
+      vi.mocked(history).getRunDiffStat = vi.fn().mockImplementation(() => {
+        throw new Error('bad revision');
+      });
+
+      historyCommand(env.program);
+      await env.program.parseAsync(['history', 'diff', 'fed', 'abc'], { from: 'user' });
+
+      const output = vi.mocked(process.stdout.write).mock.calls.map(call => String(call[0])).join('');
+      const diff = parseYaml(output) as history.RunDiff;
+      expect(diff.from.treeHash).toBe('fed987');
+      expect(diff.errors.resolved).toHaveLength(1);
+      expect(diff.diffstat).toBeUndefined();
+      expect(diff.diffstatError).toBe('bad revision');
+    });
+
+    it('should exit 1 on an unknown tree hash', async () => {
+      const exitSpy = vi.spyOn(process, 'exit').mockImplementation((code?: ProcessExitCode) => {
+        throw new Error(`process.exit(${String(code)})`);
+      }) as any;
+
+      historyCommand(env.program);
+      await expect(env.program.parseAsync(['history', 'diff', '0000', 'abc'], { from: 'user' })).rejects.toThrow();
+
+      expect(console.error).toHaveBeenCalledWith('Error diffing history: No validation history found for tree hash: 0000');
+      expect(exitSpy).toHaveBeenCalledWith(1);
+
+      exitSpy.mockRestore();
+    });
+  });
 });
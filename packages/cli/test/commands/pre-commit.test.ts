@@ -724,6 +724,31 @@ describe('pre-commit command', () => {
       // Verify runValidation WAS called on cache miss
       expect(core.runValidation).toHaveBeenCalledOnce();
     });
+
+    it('should validate with hooks.preCommit.profile', async () => {
+      setupSuccessfulPreCommit(createConfig({
+        validation: {
+          phases: [
+            {
+              name: 'Test',
+              steps: [
+                { name: 'Lint', command: 'echo lint', tags: ['fast'] },
+                { name: 'E2E', command: 'echo e2e' },
+              ],
+            },
+          ],
+        },
+        profiles: { quick: { include: ['fast'] } },
+        hooks: { preCommit: { enabled: true, command: 'npx vibe-validate pre-commit', profile: 'quick' } },
+      }));
+      setupCacheMiss('abc123def456');
+
+      await runPreCommit(env, 0);
+
+      const { phases } = vi.mocked(core.runValidation).mock.calls[0][0];
+      expect(phases[0].steps.map(step => step.name)).toEqual(['Lint']);
+      expect(history.findCachedValidation).toHaveBeenCalledWith(expect.anything(), undefined, 'quick', undefined);
+    });
   });
 
   // Note: Autodetect mode behavior (scanCommand omitted) is tested in
@@ -581,6 +581,120 @@ describe('validate command', () => {
       validateCommand(env.program);
       expectValidateOption(env, '--retry-failed');
     });
+
+    it('should register --jobs option', () => {
+      validateCommand(env.program);
+      expectValidateOption(env, '-j, --jobs <n>');
+    });
+  });
+
+  describe('--jobs flag', () => {
+    beforeEach(() => {
+      setupMockConfig(testDir);
+      setupSuccessfulValidation();
+    });
+
+    it('should limit concurrency to the given number of steps', async () => {
+      validateCommand(env.program);
+
+      const exitCode = await parseCommand(env, ['validate', '--jobs', '2']);
+      expect(exitCode).toBe(0);
+
+      expect(core.runValidation).toHaveBeenCalledWith(expect.objectContaining({ maxConcurrency: 2 }));
+    });
+
+    it('should reject a value that is not a positive integer', async () => {
+      validateCommand(env.program);
+
+      const exitCode = await parseCommand(env, ['validate', '--jobs', '0']);
+      expect(exitCode).toBe(1);
+
+      expect(console.error).toHaveBeenCalledWith(expect.stringContaining('Invalid --jobs value: 0'));
+      expect(core.runValidation).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('--profile flag', () => {
+    beforeEach(() => {
+      setupMockConfig(testDir, createMockConfig({
+        validation: {
+          phases: [
+            {
+              name: 'Test Phase',
+              parallel: true,
+              steps: [
+                { name: 'Lint', command: 'echo lint', tags: ['fast'] },
+                { name: 'E2E', command: 'echo e2e' },
+              ],
+            },
+          ],
+        },
+        profiles: { quick: { include: ['fast'] } },
+      }));
+      setupSuccessfulValidation();
+    });
+
+    it('should run only the steps of the profile', async () => {
+      validateCommand(env.program);
+
+      const exitCode = await parseCommand(env, ['validate', '--profile', 'quick']);
+      expect(exitCode).toBe(0);
+
+      const { phases } = vi.mocked(core.runValidation).mock.calls[0][0];
+      expect(phases[0].steps.map(step => step.name)).toEqual(['Lint']);
+    });
+
+    it('should exit 1 for an unknown profile', async () => {
+      validateCommand(env.program);
+
+      const exitCode = await parseCommand(env, ['validate', '--profile', 'slow']);
+      expect(exitCode).toBe(1);
+
+      expect(console.error).toHaveBeenCalledWith(expect.stringContaining('Unknown profile "slow". Available profiles: quick'));
+      expect(core.runValidation).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('--only/--skip flags', () => {
+    beforeEach(() => {
+      setupMockConfig(testDir, createMockConfig({
+        validation: {
+          phases: [
+            {
+              name: 'Test Phase',
+              steps: [
+                { name: 'Lint', command: 'echo lint' },
+                { name: 'Test Step', command: 'echo test' },
+                { name: 'E2E', command: 'echo e2e' },
+              ],
+            },
+          ],
+        },
+      }));
+      setupSuccessfulValidation();
+    });
+
+    it('should pass the selection to the runner and bypass the cached result', async () => {
+      validateCommand(env.program);
+
+      const exitCode = await parseCommand(env, ['validate', '--only', 'Test*', '--only', 'Lint', '--skip', 'E2E']);
+      expect(exitCode).toBe(0);
+
+      expect(core.runValidation).toHaveBeenCalledWith(expect.objectContaining({
+        selection: { only: ['Test*', 'Lint'], skip: ['E2E'] },
+      }));
+      expect(history.findCachedValidation).not.toHaveBeenCalled();
+    });
+
+    it('should exit 1 when a pattern matches no step', async () => {
+      validateCommand(env.program);
+
+      const exitCode = await parseCommand(env, ['validate', '--only', 'Lnit']);
+      expect(exitCode).toBe(1);
+
+      expect(console.error).toHaveBeenCalledWith(expect.stringContaining('--only "Lnit" matches no step or phase'));
+      expect(core.runValidation).not.toHaveBeenCalled();
+    });
   });
 
   describe('--retry-failed flag', () => {
@@ -143,6 +143,59 @@ describe('config-loader', () => {
         filePath: null,
       });
     });
+
+    it('should merge a built-in template named in extends', async () => {
+      writeFileSync(
+        join(testDir, 'vibe-validate.config.yaml'),
+        'extends: minimal\nvalidation:\n  phases:\n    - name: Validation\n      steps:\n        - name: Tests\n          command: npm run test:ci\n'
+      );
+
+      const result = await loadConfigWithErrors(testDir);
+
+      expect(result.errors).toBeNull();
+      expect(result.config?.validation.phases[0].steps[0].command).toBe('npm run test:ci');
+      expect(result.chain?.layers[0].source).toBe('minimal (built-in template)');
+      expect(result.chain?.sources.get('hooks.preCommit.secretScanning.enabled')).toBe('minimal (built-in template)');
+    });
+
+    it('should report an extends that cannot be resolved', async () => {
+      writeFileSync(join(testDir, 'vibe-validate.config.yaml'), 'extends: ./missing.yaml\n');
+
+      const result = await loadConfigWithErrors(testDir);
+
+      expect(result.config).toBeNull();
+      expect(result.errors).toEqual(['Cannot find ./missing.yaml (extended by vibe-validate.config.yaml)']);
+    });
+
+    it('should report extractors that steps name but that do not exist', async () => {
+      writeFileSync(
+        join(testDir, 'vibe-validate.config.yaml'),
+        [
+          'validation:',
+          '  phases:',
+          '    - name: Checks',
+          '      steps:',
+          '        - name: Typecheck',
+          '          command: tsc --noEmit',
+          '          extractor: typescript',
+          '        - name: Tests',
+          '          command: npm test',
+          '          extractors: [vitest, vitset]',
+          '        - name: Lint',
+          '          command: npm run lint',
+          '          extractor: eslnt',
+          '',
+        ].join('\n')
+      );
+
+      const result = await loadConfigWithErrors(testDir);
+
+      expect(result.config).toBeNull();
+      expect(result.errors).toEqual([
+        'validation.phases.0.steps.1.extractors: Unknown extractor "vitset"',
+        'validation.phases.0.steps.2.extractor: Unknown extractor "eslnt"',
+      ]);
+    });
   });
 
   describe('findConfigUp (directory walk-up)', () => {
@@ -1,3 +1,5 @@
+import { availableParallelism } from 'node:os';
+
 import type { VibeValidateConfig } from '@vibe-validate/config';
 import type { RunnerConfig } from '@vibe-validate/core';
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
@@ -184,6 +186,27 @@ describe('runner-adapter', () => {
       }
     });
 
+    it('should default maxConcurrency to the number of CPUs', () => {
+      const { runnerConfig } = setupRunnerTest();
+
+      expect(runnerConfig.maxConcurrency).toBe(availableParallelism());
+    });
+
+    it('should prefer --jobs over validation.maxConcurrency', () => {
+      const config: VibeValidateConfig = { validation: { ...createMockConfig().validation, maxConcurrency: 4 } };
+      const context = createMockContext();
+
+      expect(createRunnerConfig(config, { verbose: false, context }).maxConcurrency).toBe(4);
+      expect(createRunnerConfig(config, { verbose: false, context, jobs: 2 }).maxConcurrency).toBe(2);
+    });
+
+    it('should compare when.changed against the configured main branch', () => {
+      const config: VibeValidateConfig = { ...createMockConfig(), git: { mainBranch: 'develop', remoteOrigin: 'upstream' } };
+
+      expect(createRunnerConfig(config, { verbose: false, context: createMockContext() }).changedSince)
+        .toEqual(['upstream/develop', 'develop']);
+    });
+
     it('should use empty phases array if validation config is missing', () => {
       const config: VibeValidateConfig = {};
       const context = createMockContext();
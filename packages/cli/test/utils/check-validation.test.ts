@@ -406,7 +406,7 @@ describe('checkValidationStatus', () => {
       expect(history.findCachedValidation).toHaveBeenCalledWith({
         hash: treeHash,
         submoduleHashes
-      });
+      }, undefined, undefined, undefined);
     });
 
     it('should handle cache hit with matching submodules', async () => {
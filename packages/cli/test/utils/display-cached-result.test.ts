@@ -119,6 +119,18 @@ describe('displayCachedResult', () => {
       expect(output).toContain('feat/stray-files');
     });
   });
+
+  describe('run imported from CI', () => {
+    it('should say it was validated in CI and link the job', () => {
+      const url = 'https://github.com/acme/app/actions/runs/1234/job/5678';
+      const output = captureConsole('log', () => {
+        displayCachedResult({ ...createCachedRun(true), source: 'ci', url }, TREE_HASH);
+      });
+
+      expect(output).toContain(`Validated: ${TIMESTAMP} on branch feat/stray-files in CI`);
+      expect(output).toContain(`CI job: ${url}`);
+    });
+  });
 });
 
 describe('displayCachedFailureHint', () => {
@@ -2,9 +2,15 @@
  * Tests for flakiness detection
  */
 
-import type { ValidationResult } from '@vibe-validate/core';
+import type { StepResult, ValidationResult } from '@vibe-validate/core';
+import * as history from '@vibe-validate/history';
 import type { HistoryNote, ValidationRun } from '@vibe-validate/history';
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('@vibe-validate/history', async () => {
+  const actual = await vi.importActual<typeof history>('@vibe-validate/history');
+  return { ...actual, loadFlakyTestIndex: vi.fn() };
+});
 
 /**
  * Helper: Create validation run
@@ -289,3 +295,45 @@ describe('detectFlakiness', () => {
     expect(warning).toContain('failed 2026-02-12T10:00:00Z'); // Recent run timestamp
   });
 });
+
+describe('annotateFlakyFailures', () => {
+  const timeoutError = { file: 'src/api.test.ts', line: 12, message: 'Test timed out in 5000ms' };
+  const failingStep: StepResult = {
+    name: 'Tests',
+    passed: false,
+    durationSecs: 5,
+    extraction: { summary: '1 test failure(s)', totalErrors: 1, errors: [timeoutError] },
+  };
+  const failedResult = createValidationResult({
+    passed: false,
+    phases: [createPhaseResult('Testing', [failingStep])],
+  });
+
+  it('should mark a test that failed and then passed on the same tree as flaky', async () => {
+    const { annotateFlakyFailures } = await import('../../src/utils/flakiness-detector.js');
+    const failedRun = createValidationRun({ timestamp: '2026-02-12T10:00:00Z', result: failedResult });
+    const passedRun = createValidationRun({
+      timestamp: '2026-02-12T10:05:00Z',
+      passed: true,
+      result: createPassedResult('2026-02-12T10:05:00Z', ['Tests']),
+    });
+    vi.mocked(history.loadFlakyTestIndex).mockResolvedValue(
+      history.buildFlakyTestIndex([createHistoryNote([failedRun, passedRun])])
+    );
+
+    const annotated = await annotateFlakyFailures(failedResult);
+
+    expect(history.loadFlakyTestIndex).toHaveBeenCalledWith(undefined, 200);
+
+    expect(annotated.phases?.[0].steps[0].flakyTests).toEqual([
+      { test: 'src/api.test.ts › Test timed out in 5000ms', score: 0.5 },
+    ]);
+  });
+
+  it('should leave the result unchanged when history cannot be read', async () => {
+    const { annotateFlakyFailures } = await import('../../src/utils/flakiness-detector.js');
+    vi.mocked(history.loadFlakyTestIndex).mockRejectedValue(new Error('not a git repository'));
+
+    expect(await annotateFlakyFailures(failedResult)).toBe(failedResult);
+  });
+});
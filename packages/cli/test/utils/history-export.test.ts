@@ -0,0 +1,70 @@
+/**
+ * Tests for writing exported history
+ */
+
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+
+import type { HistoryExport } from '@vibe-validate/history';
+import { isToolAvailable, normalizedTmpdir, safeExecResult } from '@vibe-validate/utils';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { isHistoryExportFormat, writeHistoryExport } from '../../src/utils/history-export.js';
+
+const DATA: HistoryExport = {
+  runs: [
+    {
+      id: 'validate:abc123:run-1',
+      kind: 'validate',
+      treeHash: 'abc123',
+      timestamp: '2026-03-02T10:00:00.000Z',
+      passed: false,
+      durationSecs: 5,
+      branch: 'main',
+      headCommit: 'def456',
+    },
+  ],
+  steps: [
+    {
+      runId: 'validate:abc123:run-1',
+      phase: 'Checks',
+      name: 'Typecheck',
+      passed: false,
+      durationSecs: 4.5,
+      exitCode: 2,
+      cached: false,
+      skipped: false,
+      flaky: false,
+      timedOut: false,
+    },
+  ],
+  errors: [{ runId: 'validate:abc123:run-1', step: 'Typecheck', file: 'src/a.ts', line: 3, message: "Type 'string' is wrong" }],
+};
+
+describe('history export', () => {
+  let outDir: string;
+
+  beforeEach(() => {
+    outDir = mkdtempSync(join(normalizedTmpdir(), 'vibe-validate-export-test-'));
+  });
+
+  afterEach(() => {
+    rmSync(outDir, { recursive: true, force: true });
+  });
+
+  it('should accept only known formats', () => {
+    expect(isHistoryExportFormat('sqlite')).toBe(true);
+    expect(isHistoryExportFormat('csv')).toBe(false);
+  });
+
+  it.skipIf(!isToolAvailable('sqlite3'))('should replace an existing file with a queryable SQLite database', () => {
+    const out = join(outDir, 'history.db');
+    writeFileSync(out, 'not a database');
+
+    writeHistoryExport(DATA, 'sqlite', out);
+
+    const query = 'SELECT s.name, e.message FROM steps s JOIN errors e ON e.run_id = s.run_id';
+    const result = safeExecResult('sqlite3', [out, query], { encoding: 'utf-8' });
+    expect(String(result.stdout).trim()).toBe("Typecheck|Type 'string' is wrong");
+  });
+});
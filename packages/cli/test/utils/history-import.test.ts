@@ -0,0 +1,171 @@
+/**
+ * Tests for importing CI validation results into history
+ */
+
+import type { ValidationResult } from '@vibe-validate/core';
+import {
+  fetchPRDetails,
+  fetchRunDetails,
+  fetchRunJobs,
+  fetchRunLogs,
+  listWorkflowRuns,
+  type GitHubJob,
+  type GitHubRun,
+} from '@vibe-validate/git';
+import { recordImportedRun, signResult } from '@vibe-validate/history';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { CIProvider, ValidationResultContents } from '../../src/services/ci-provider.js';
+import { importCIHistory } from '../../src/utils/history-import.js';
+
+vi.mock('@vibe-validate/git', async () => {
+  const actual = await vi.importActual('@vibe-validate/git');
+  return {
+    ...actual,
+    fetchPRDetails: vi.fn(),
+    fetchRunDetails: vi.fn(),
+    fetchRunJobs: vi.fn(),
+    fetchRunLogs: vi.fn(),
+    listWorkflowRuns: vi.fn(),
+  };
+});
+
+vi.mock('@vibe-validate/history', async () => {
+  const actual = await vi.importActual('@vibe-validate/history');
+  return {
+    ...actual,
+    recordImportedRun: vi.fn(),
+  };
+});
+
+const TREE_HASH = 'e9cc190d18d6c66939c9a11a390472b3251521ff';
+
+const RUN: GitHubRun = {
+  databaseId: 1234,
+  name: 'CI',
+  status: 'completed',
+  conclusion: 'success',
+  workflowName: 'CI',
+  createdAt: '2026-03-02T10:00:00Z',
+  updatedAt: '2026-03-02T10:05:00Z',
+  url: 'https://github.com/acme/app/actions/runs/1234',
+  headBranch: 'feature/login',
+  headSha: 'def4567',
+};
+
+function job(id: number, name: string, conclusion: string | null = 'success'): GitHubJob {
+  return {
+    id,
+    run_id: RUN.databaseId,
+    name,
+    status: conclusion === null ? 'in_progress' : 'completed',
+    conclusion,
+    started_at: '2026-03-02T10:00:00Z',
+    completed_at: conclusion === null ? null : '2026-03-02T10:05:00Z',
+    html_url: `https://github.com/acme/app/actions/runs/1234/job/${id}`,
+  };
+}
+
+const RESULT: ValidationResultContents = {
+  passed: true,
+  timestamp: '2026-03-02T10:04:00.000Z',
+  treeHash: TREE_HASH,
+  phases: [{ name: 'Checks', passed: true, durationSecs: 42, steps: [{ name: 'Test', command: 'pnpm test', exitCode: 0, passed: true, durationSecs: 42 }] }],
+};
+
+/**
+ * CI provider whose logs are the validation results by job log content
+ */
+function createProvider(resultsByLog: Record<string, ValidationResultContents>): CIProvider {
+  return {
+    extractValidationResult: vi.fn((logs: string) => resultsByLog[logs] ?? null),
+  } as unknown as CIProvider;
+}
+
+describe('importCIHistory', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(fetchRunDetails).mockReturnValue(RUN);
+    vi.mocked(fetchRunLogs).mockImplementation((_runId, _owner, _repo, jobId) => `log-${String(jobId)}`);
+    vi.mocked(recordImportedRun).mockImplementation(async treeHash => ({ recorded: true, treeHash }));
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('should record each job result on its tree hash, marked as a CI run', async () => {
+    vi.mocked(fetchRunJobs).mockReturnValue([job(1, 'test (ubuntu)')]);
+
+    const result = await importCIHistory({ runId: 1234 }, createProvider({ 'log-1': RESULT }));
+
+    expect(result).toEqual({
+      imported: [{ id: 'ci-1234-1', treeHash: TREE_HASH, passed: true, job: 'test (ubuntu)', url: job(1, '').html_url, trusted: true }],
+      skipped: [],
+    });
+    expect(recordImportedRun).toHaveBeenCalledWith(TREE_HASH, expect.objectContaining({
+      id: 'ci-1234-1',
+      timestamp: RESULT.timestamp,
+      duration: 42_000,
+      passed: true,
+      branch: 'feature/login',
+      headCommit: 'def4567',
+      uncommittedChanges: false,
+      source: 'ci',
+      url: 'https://github.com/acme/app/actions/runs/1234/job/1',
+    }));
+  });
+
+  it('should carry over the signature CI printed and check it against the trust policy', async () => {
+    vi.stubEnv('VV_HISTORY_SIGNING_KEY', 'ci-secret');
+    const signature = signResult(RESULT as ValidationResult, 'hmac');
+    vi.mocked(fetchRunJobs).mockReturnValue([job(1, 'signed'), job(2, 'unsigned')]);
+
+    const result = await importCIHistory(
+      { runId: 1234 },
+      createProvider({ 'log-1': { ...RESULT, signature }, 'log-2': RESULT }),
+      'ci-only'
+    );
+
+    expect(result.imported.map(run => [run.job, run.trusted])).toEqual([['signed', true], ['unsigned', false]]);
+    expect(recordImportedRun).toHaveBeenCalledWith(TREE_HASH, expect.objectContaining({ id: 'ci-1234-1', signature }));
+    expect(vi.mocked(recordImportedRun).mock.calls[1][1]).not.toHaveProperty('signature');
+  });
+
+  it('should skip jobs without a usable validation result', async () => {
+    vi.mocked(fetchRunJobs).mockReturnValue([job(1, 'deploy'), job(2, 'old'), job(3, 'test')]);
+
+    const result = await importCIHistory(
+      { runId: 1234 },
+      createProvider({ 'log-2': { ...RESULT, treeHash: undefined }, 'log-3': { passed: 'yes' } as unknown as ValidationResultContents })
+    );
+
+    expect(result.imported).toEqual([]);
+    expect(result.skipped.map(({ job, reason }) => [job, reason])).toEqual([
+      ['deploy', 'no validation result in the job log'],
+      ['old', 'the validation result has no tree hash'],
+      ['test', 'the validation result in the job log is not valid'],
+    ]);
+    expect(recordImportedRun).not.toHaveBeenCalled();
+  });
+
+  it('should ignore jobs that did not finish with a success or failure', async () => {
+    vi.mocked(fetchRunJobs).mockReturnValue([job(1, 'running', null), job(2, 'cancelled', 'cancelled')]);
+
+    const result = await importCIHistory({ runId: 1234 }, createProvider({}));
+
+    expect(result).toEqual({ imported: [], skipped: [] });
+    expect(fetchRunLogs).not.toHaveBeenCalled();
+  });
+
+  it('should import the runs of a pull request branch', async () => {
+    vi.mocked(fetchPRDetails).mockReturnValue({ headRefName: 'feature/login' } as ReturnType<typeof fetchPRDetails>);
+    vi.mocked(listWorkflowRuns).mockReturnValue([RUN, { ...RUN, databaseId: 1200 }]);
+    vi.mocked(fetchRunJobs).mockReturnValue([job(1, 'test')]);
+
+    const result = await importCIHistory({ prNumber: 42 }, createProvider({ 'log-1': RESULT }));
+
+    expect(listWorkflowRuns).toHaveBeenCalledWith('feature/login', undefined, undefined, 20, expect.arrayContaining(['headSha']));
+    expect(result.imported.map(run => run.id)).toEqual(['ci-1234-1', 'ci-1200-1']);
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Tests for history.sync: auto in validate workflow
+ */
+
+import './validate-workflow-test-setup.js';
+
+import type { VibeValidateConfig } from '@vibe-validate/config';
+import { runValidation } from '@vibe-validate/core';
+import { pullNotes, pushNotes } from '@vibe-validate/git';
+import { checkWorktreeStability, findCachedValidation, recordValidationHistory } from '@vibe-validate/history';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+import { checkValidationStatus } from '../../src/utils/check-validation.js';
+import { runValidateWorkflow } from '../../src/utils/validate-workflow.js';
+
+import {
+  createMockResult,
+  setupConsoleMocks,
+  setupGitMock,
+  MOCK_AGENT_CONTEXT,
+  MOCK_TREE_HASH,
+  MOCK_TREE_HASH_RESULT,
+} from './validate-workflow-test-helpers.js';
+
+vi.mock('../../src/utils/check-validation.js', () => ({
+  checkValidationStatus: vi.fn(),
+}));
+
+const CONFIG: VibeValidateConfig = {
+  validation: {
+    phases: [{ name: 'Checks', steps: [{ name: 'Lint', command: 'npm run lint' }] }],
+  },
+  history: { sync: 'auto', remote: 'upstream' },
+};
+
+const SYNCED = { ok: true, refsUpdated: [], notesMerged: 0 };
+
+describe('validate-workflow history sync', () => {
+  beforeEach(() => {
+    setupGitMock();
+    setupConsoleMocks();
+    vi.mocked(findCachedValidation).mockResolvedValue(null);
+    vi.mocked(checkWorktreeStability).mockResolvedValue({
+      stable: true,
+      treeHashBefore: MOCK_TREE_HASH,
+      treeHashAfter: MOCK_TREE_HASH,
+    });
+    vi.mocked(recordValidationHistory).mockResolvedValue({ recorded: true });
+    vi.mocked(pullNotes).mockReturnValue(SYNCED);
+    vi.mocked(pushNotes).mockReturnValue(SYNCED);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should pull before --check', async () => {
+    await expect(runValidateWorkflow(CONFIG, {
+      context: MOCK_AGENT_CONTEXT,
+      check: true,
+      treeHashResult: MOCK_TREE_HASH_RESULT,
+    })).rejects.toThrow('checkValidationStatus should have exited');
+
+    expect(pullNotes).toHaveBeenCalledWith('upstream');
+    expect(checkValidationStatus).toHaveBeenCalled();
+  });
+
+  it('should push after a passing run but not after a failing one', async () => {
+    vi.mocked(runValidation).mockResolvedValue(createMockResult(true));
+    await runValidateWorkflow(CONFIG, { context: MOCK_AGENT_CONTEXT, treeHashResult: MOCK_TREE_HASH_RESULT });
+    expect(pushNotes).toHaveBeenCalledWith('upstream');
+
+    vi.mocked(pushNotes).mockClear();
+    vi.mocked(runValidation).mockResolvedValue(createMockResult(false));
+    await runValidateWorkflow(CONFIG, { context: MOCK_AGENT_CONTEXT, treeHashResult: MOCK_TREE_HASH_RESULT });
+    expect(pushNotes).not.toHaveBeenCalled();
+  });
+
+  it('should only warn when the remote is unreachable', async () => {
+    vi.mocked(pushNotes).mockReturnValue({ ok: false, error: 'Could not resolve host', refsUpdated: [], notesMerged: 0 });
+    vi.mocked(runValidation).mockResolvedValue(createMockResult(true));
+
+    const result = await runValidateWorkflow(CONFIG, { context: MOCK_AGENT_CONTEXT, treeHashResult: MOCK_TREE_HASH_RESULT });
+
+    expect(result.passed).toBe(true);
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('Could not push validation history (upstream)'));
+  });
+
+  it('should not sync unless history.sync is auto', async () => {
+    vi.mocked(runValidation).mockResolvedValue(createMockResult(true));
+
+    await runValidateWorkflow({ validation: CONFIG.validation }, {
+      context: MOCK_AGENT_CONTEXT,
+      treeHashResult: MOCK_TREE_HASH_RESULT,
+    });
+
+    expect(pushNotes).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Tests for --profile in validate workflow
+ */
+
+import './validate-workflow-test-setup.js';
+
+import type { VibeValidateConfig } from '@vibe-validate/config';
+import { runValidation } from '@vibe-validate/core';
+import { checkWorktreeStability, findCachedValidation, recordValidationHistory } from '@vibe-validate/history';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+import { runValidateWorkflow } from '../../src/utils/validate-workflow.js';
+
+import {
+  createMockResult,
+  setupConsoleMocks,
+  setupGitMock,
+  MOCK_AGENT_CONTEXT,
+  MOCK_TREE_HASH,
+  MOCK_TREE_HASH_RESULT,
+} from './validate-workflow-test-helpers.js';
+
+const CONFIG: VibeValidateConfig = {
+  validation: {
+    phases: [
+      {
+        name: 'Checks',
+        steps: [
+          { name: 'Lint', command: 'npm run lint', tags: ['fast'] },
+          { name: 'E2E', command: 'npm run test:e2e' },
+        ],
+      },
+    ],
+  },
+  profiles: {
+    quick: { include: ['fast'] },
+  },
+};
+
+describe('validate-workflow profile', () => {
+  beforeEach(() => {
+    setupGitMock();
+    setupConsoleMocks();
+    vi.mocked(findCachedValidation).mockResolvedValue(null);
+    vi.mocked(checkWorktreeStability).mockResolvedValue({
+      stable: true,
+      treeHashBefore: MOCK_TREE_HASH,
+      treeHashAfter: MOCK_TREE_HASH,
+    });
+    vi.mocked(recordValidationHistory).mockResolvedValue({ recorded: true });
+    vi.mocked(runValidation).mockResolvedValue(createMockResult(true));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should run only the profile steps and record the run under the profile', async () => {
+    const result = await runValidateWorkflow(CONFIG, {
+      context: MOCK_AGENT_CONTEXT,
+      profile: 'quick',
+      treeHashResult: MOCK_TREE_HASH_RESULT,
+    });
+
+    const { phases } = vi.mocked(runValidation).mock.calls[0][0];
+    expect(phases.flatMap(phase => phase.steps.map(step => step.name))).toEqual(['Lint']);
+    expect(findCachedValidation).toHaveBeenCalledWith(MOCK_TREE_HASH_RESULT, undefined, 'quick', undefined);
+    expect(result.profile).toBe('quick');
+    expect(recordValidationHistory).toHaveBeenCalledWith(
+      MOCK_TREE_HASH_RESULT,
+      expect.objectContaining({ profile: 'quick' }),
+      { sign: undefined }
+    );
+  });
+
+  it('should leave a full run without a profile', async () => {
+    const result = await runValidateWorkflow(CONFIG, {
+      context: MOCK_AGENT_CONTEXT,
+      treeHashResult: MOCK_TREE_HASH_RESULT,
+    });
+
+    expect(vi.mocked(runValidation).mock.calls[0][0].phases[0].steps).toHaveLength(2);
+    expect(result.profile).toBeUndefined();
+  });
+
+  it('should report an unknown profile without running validation', async () => {
+    await expect(runValidateWorkflow(CONFIG, {
+      context: MOCK_AGENT_CONTEXT,
+      profile: 'slow',
+      treeHashResult: MOCK_TREE_HASH_RESULT,
+    })).rejects.toThrow('Unknown profile "slow". Available profiles: quick');
+
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining('Unknown profile "slow"'));
+    expect(runValidation).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Tests for history.retention in validate workflow
+ */
+
+import './validate-workflow-test-setup.js';
+
+import type { VibeValidateConfig } from '@vibe-validate/config';
+import { runValidation } from '@vibe-validate/core';
+import { verifyRef } from '@vibe-validate/git';
+import {
+  checkWorktreeStability,
+  findCachedValidation,
+  pruneHistoryByPolicyIfDue,
+  recordValidationHistory,
+} from '@vibe-validate/history';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+import { runValidateWorkflow } from '../../src/utils/validate-workflow.js';
+
+import {
+  createMockResult,
+  setupConsoleMocks,
+  setupGitMock,
+  MOCK_AGENT_CONTEXT,
+  MOCK_TREE_HASH,
+  MOCK_TREE_HASH_RESULT,
+} from './validate-workflow-test-helpers.js';
+
+const RETENTION = { keepRunsPerBranch: 20, keepReachableFrom: 'origin/main' };
+
+const CONFIG: VibeValidateConfig = {
+  validation: {
+    phases: [{ name: 'Checks', steps: [{ name: 'Lint', command: 'npm run lint' }] }],
+  },
+  history: { sync: 'off', trust: 'any', retention: RETENTION },
+};
+
+describe('validate-workflow history retention', () => {
+  beforeEach(() => {
+    setupGitMock();
+    setupConsoleMocks();
+    vi.mocked(findCachedValidation).mockResolvedValue(null);
+    vi.mocked(checkWorktreeStability).mockResolvedValue({
+      stable: true,
+      treeHashBefore: MOCK_TREE_HASH,
+      treeHashAfter: MOCK_TREE_HASH,
+    });
+    vi.mocked(recordValidationHistory).mockResolvedValue({ recorded: true });
+    vi.mocked(runValidation).mockResolvedValue(createMockResult(false));
+    vi.mocked(verifyRef).mockReturnValue(true);
+    vi.mocked(pruneHistoryByPolicyIfDue).mockResolvedValue({ notesPruned: 0, runsPruned: 0, notesRemaining: 1, prunedTreeHashes: [] });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should apply the retention policy after recording a run', async () => {
+    await runValidateWorkflow(CONFIG, { context: MOCK_AGENT_CONTEXT, treeHashResult: MOCK_TREE_HASH_RESULT });
+
+    expect(pruneHistoryByPolicyIfDue).toHaveBeenCalledWith({ retention: RETENTION });
+  });
+
+  it('should print nothing when the policy was applied recently', async () => {
+    vi.mocked(pruneHistoryByPolicyIfDue).mockResolvedValue(null);
+
+    await runValidateWorkflow(CONFIG, { context: MOCK_AGENT_CONTEXT, treeHashResult: MOCK_TREE_HASH_RESULT, verbose: true });
+
+    expect(console.error).not.toHaveBeenCalledWith(expect.stringContaining('History retention failed'));
+    expect(console.log).not.toHaveBeenCalledWith(expect.stringContaining('Retention policy pruned'));
+  });
+
+  it('should keep runs reachable from the remote-tracking main branch by default', async () => {
+    const config = { ...CONFIG, git: { mainBranch: 'develop', remoteOrigin: 'upstream' }, history: { retention: { keepRunsPerBranch: 20 } } };
+
+    await runValidateWorkflow(config, { context: MOCK_AGENT_CONTEXT, treeHashResult: MOCK_TREE_HASH_RESULT });
+
+    expect(verifyRef).toHaveBeenCalledWith('upstream/develop');
+    expect(pruneHistoryByPolicyIfDue).toHaveBeenCalledWith({ retention: { keepRunsPerBranch: 20, keepReachableFrom: 'upstream/develop' } });
+  });
+
+  it('should warn and not prune when the keepReachableFrom ref does not exist', async () => {
+    vi.mocked(verifyRef).mockReturnValue(false);
+
+    await runValidateWorkflow(CONFIG, { context: MOCK_AGENT_CONTEXT, treeHashResult: MOCK_TREE_HASH_RESULT });
+
+    expect(pruneHistoryByPolicyIfDue).not.toHaveBeenCalled();
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining("keepReachableFrom ref 'origin/main' not found"));
+  });
+
+  it('should only warn when pruning fails', async () => {
+    vi.mocked(pruneHistoryByPolicyIfDue).mockRejectedValue(new Error('cannot lock ref'));
+
+    const result = await runValidateWorkflow(CONFIG, { context: MOCK_AGENT_CONTEXT, treeHashResult: MOCK_TREE_HASH_RESULT });
+
+    expect(result.passed).toBe(false);
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining('History retention failed: cannot lock ref'));
+  });
+
+  it('should not prune without a policy or when the run was not recorded', async () => {
+    await runValidateWorkflow({ validation: CONFIG.validation }, {
+      context: MOCK_AGENT_CONTEXT,
+      treeHashResult: MOCK_TREE_HASH_RESULT,
+    });
+
+    vi.mocked(recordValidationHistory).mockResolvedValue({ recorded: false, reason: 'Failed to add git note' });
+    await runValidateWorkflow(CONFIG, { context: MOCK_AGENT_CONTEXT, treeHashResult: MOCK_TREE_HASH_RESULT });
+
+    expect(pruneHistoryByPolicyIfDue).not.toHaveBeenCalled();
+  });
+});
@@ -113,7 +113,7 @@ describe('validate-workflow retry-failed', () => {
         treeHashResult: MOCK_TREE_HASH_RESULT,
       });
 
-      expect(findCachedValidation).toHaveBeenCalledWith(MOCK_TREE_HASH_RESULT);
+      expect(findCachedValidation).toHaveBeenCalledWith(MOCK_TREE_HASH_RESULT, undefined, undefined, undefined);
       expect(consoleErrorSpy).toHaveBeenCalledWith(
         expect.stringContaining('No failed validation found')
       );
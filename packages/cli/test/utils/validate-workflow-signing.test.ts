@@ -0,0 +1,75 @@
+/**
+ * Tests for the signature CI prints with its result (for history import)
+ */
+
+import './validate-workflow-test-setup.js';
+
+import type { VibeValidateConfig } from '@vibe-validate/config';
+import { runValidation } from '@vibe-validate/core';
+import { checkWorktreeStability, findCachedValidation, recordValidationHistory, signResult } from '@vibe-validate/history';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+import { runValidateWorkflow } from '../../src/utils/validate-workflow.js';
+
+import {
+  createMockResult,
+  setupConsoleMocks,
+  setupGitMock,
+  MOCK_AGENT_CONTEXT,
+  MOCK_TREE_HASH,
+  MOCK_TREE_HASH_RESULT,
+} from './validate-workflow-test-helpers.js';
+
+const CONFIG: VibeValidateConfig = {
+  validation: {
+    phases: [{ name: 'Checks', steps: [{ name: 'Lint', command: 'npm run lint' }] }],
+  },
+  history: { sync: 'off', trust: 'ci-only', sign: 'hmac' },
+};
+
+const SIGNATURE = { method: 'hmac' as const, value: 'f00d' };
+
+describe('validate-workflow printed result signature', () => {
+  let stderrSpy: ReturnType<typeof setupConsoleMocks>['stderrSpy'];
+
+  beforeEach(() => {
+    setupGitMock();
+    ({ stderrSpy } = setupConsoleMocks());
+    vi.mocked(findCachedValidation).mockResolvedValue(null);
+    vi.mocked(checkWorktreeStability).mockResolvedValue({
+      stable: true,
+      treeHashBefore: MOCK_TREE_HASH,
+      treeHashAfter: MOCK_TREE_HASH,
+    });
+    vi.mocked(recordValidationHistory).mockResolvedValue({ recorded: true });
+    vi.mocked(runValidation).mockResolvedValue(createMockResult(false));
+    vi.mocked(signResult).mockReturnValue(SIGNATURE);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should print the signed result in CI', async () => {
+    const result = await runValidateWorkflow(CONFIG, {
+      context: { ...MOCK_AGENT_CONTEXT, isCI: true },
+      treeHashResult: MOCK_TREE_HASH_RESULT,
+    });
+
+    expect(signResult).toHaveBeenCalledWith(expect.objectContaining({ passed: false }), 'hmac');
+    const printed = stderrSpy.mock.calls.map(call => String(call[0])).join('');
+    expect(printed).toContain('signature:');
+    expect(printed).toContain('value: f00d');
+    expect(result).not.toHaveProperty('signature');
+  });
+
+  it('should not sign outside CI or without history.sign', async () => {
+    await runValidateWorkflow(CONFIG, { context: MOCK_AGENT_CONTEXT, treeHashResult: MOCK_TREE_HASH_RESULT });
+    await runValidateWorkflow(
+      { ...CONFIG, history: { sync: 'off', trust: 'any' } },
+      { context: { ...MOCK_AGENT_CONTEXT, isCI: true }, treeHashResult: MOCK_TREE_HASH_RESULT }
+    );
+
+    expect(signResult).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,374 @@
+/**
+ * Config Inheritance (`extends`)
+ *
+ * Resolves a config's `extends` chain and merges it into one raw config,
+ * before schema validation.
+ *
+ * An `extends` entry is one of:
+ * - a relative or absolute path to a YAML file (`./shared/base.yaml`)
+ * - a built-in template name (`typescript-library`), when the caller provides
+ *   the templates directory
+ * - an npm package (`@acme/vibe-validate-preset`, using the package's
+ *   `vibe-validate.config.yaml`) or a YAML file inside one
+ *   (`@acme/vibe-validate-preset/strict.yaml`)
+ *
+ * Extended configs are merged first, in order, then the extending config on
+ * top. Objects merge key by key; `validation.phases` merge by phase name and
+ * each phase's `steps` by step name; any other value (including other lists)
+ * is replaced. Two markers control merging of an object or named entry:
+ * - `$remove: true` drops it from the result
+ * - `$replace: true` uses it as written instead of merging it
+ *
+ * @packageDocumentation
+ */
+
+import { existsSync, readFileSync } from 'node:fs';
+import { basename, dirname, isAbsolute, join, relative, resolve } from 'node:path';
+
+import { parse as parseYaml } from 'yaml';
+
+/**
+ * Marker that removes an inherited object or named phase/step
+ */
+export const REMOVE_MARKER = '$remove';
+
+/**
+ * Marker that replaces an inherited object or named phase/step instead of merging
+ */
+export const REPLACE_MARKER = '$replace';
+
+/** File name used when a config extends an npm package without a file path */
+const PRESET_FILE_NAME = 'vibe-validate.config.yaml';
+
+/** Lists merged by entry name (by shape: `[]` stands for any entry name) */
+const NAMED_LISTS = new Set(['validation.phases', 'validation.phases[].steps']);
+
+/**
+ * Options for loading a configuration
+ */
+export interface ConfigLoadOptions {
+  /**
+   * Directory of built-in templates (`<name>.yaml`) that `extends` may name
+   *
+   * Provided by the CLI, which ships the templates. Without it, a bare name
+   * is resolved as an npm package.
+   */
+  templatesDir?: string;
+}
+
+/**
+ * One config file of an `extends` chain
+ */
+export interface ConfigLayer {
+  /** How the file is referred to in messages (relative path, package or template name) */
+  source: string;
+  /** Absolute path of the file */
+  path: string;
+}
+
+/**
+ * A config with its `extends` chain resolved
+ */
+export interface ResolvedConfigChain {
+  /** Merged raw config, without `extends`, `$schema` or markers (not yet validated) */
+  raw: Record<string, unknown>;
+  /** Files that were merged, extended configs first, the config itself last */
+  layers: ConfigLayer[];
+  /**
+   * Which layer set each value, by value path
+   *
+   * Paths name phases and steps rather than indexing them, e.g.
+   * `validation.phases[Testing].steps[Unit tests].command`. Lists other
+   * than phases and steps are a single value.
+   */
+  sources: Map<string, string>;
+}
+
+type PlainObject = Record<string, unknown>;
+
+/** Returned by a merge when the value was removed with `$remove` */
+const REMOVED = Symbol('removed');
+
+/**
+ * Context of one layer's merge
+ */
+interface MergeContext {
+  source: string;
+  sources: Map<string, string>;
+}
+
+function isPlainObject(value: unknown): value is PlainObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Read a config file as a raw object (without `$schema`)
+ *
+ * @param path - Absolute path of a .yaml file
+ * @returns Parsed object
+ * @throws Error if the file is not YAML or does not contain an object
+ */
+function readConfigFile(path: string): PlainObject {
+  if (!path.endsWith('.yaml')) {
+    throw new Error(
+      `Unsupported config file format: ${path}\n` +
+      `Only .yaml format is supported.\n` +
+      `Please use vibe-validate.config.yaml`
+    );
+  }
+
+  const raw: unknown = parseYaml(readFileSync(path, 'utf-8'));
+  if (!isPlainObject(raw)) {
+    throw new Error(`Configuration must be an object: ${path}`);
+  }
+
+  // Remove $schema property if present (used for IDE support only)
+  delete raw['$schema'];
+  return raw;
+}
+
+/**
+ * Get the `extends` entries of a raw config, removing the key
+ *
+ * @throws Error if `extends` is neither a string nor a list of strings
+ */
+function takeExtends(raw: PlainObject, layer: ConfigLayer): string[] {
+  const value = raw['extends'];
+  delete raw['extends'];
+
+  if (value === undefined) {
+    return [];
+  }
+  const specs = Array.isArray(value) ? value : [value];
+  if (specs.length === 0 || specs.some(spec => typeof spec !== 'string' || spec === '')) {
+    throw new Error(`Invalid extends in ${layer.source}: expected a path, package or template name, or a list of them`);
+  }
+  return specs as string[];
+}
+
+/**
+ * Find an npm package by walking up `node_modules` directories
+ *
+ * @returns Absolute path of the file the spec names, or null if the package is not installed
+ */
+function resolvePresetPackage(spec: string, fromDir: string): string | null {
+  // "@scope/name/sub/file.yaml" or "name/sub/file.yaml" → package name and file
+  const nameEnd = spec.startsWith('@') ? spec.indexOf('/', spec.indexOf('/') + 1) : spec.indexOf('/');
+  const packageName = nameEnd === -1 ? spec : spec.slice(0, nameEnd);
+  const filePath = nameEnd === -1 ? PRESET_FILE_NAME : spec.slice(nameEnd + 1);
+
+  let dir = fromDir;
+  for (;;) {
+    const packageDir = join(dir, 'node_modules', packageName);
+    if (existsSync(packageDir)) {
+      return join(packageDir, filePath);
+    }
+    const parent = dirname(dir);
+    if (parent === dir) {
+      return null;
+    }
+    dir = parent;
+  }
+}
+
+/**
+ * Resolve one `extends` entry to a config file
+ *
+ * @param spec - Path, template name or package
+ * @param from - The extending config
+ * @param rootDir - Directory of the config being loaded (for display paths)
+ * @param options - Load options
+ * @returns The extended config file
+ * @throws Error if the entry cannot be resolved
+ */
+function resolveExtendsTarget(spec: string, from: ConfigLayer, rootDir: string, options: ConfigLoadOptions): ConfigLayer {
+  const fromDir = dirname(from.path);
+
+  if (spec.startsWith('./') || spec.startsWith('../') || isAbsolute(spec)) {
+    const path = resolve(fromDir, spec);
+    if (!existsSync(path)) {
+      throw new Error(`Cannot find ${spec} (extended by ${from.source})`);
+    }
+    return { source: relative(rootDir, path) || basename(path), path };
+  }
+
+  if (options.templatesDir && !spec.includes('/')) {
+    const path = join(options.templatesDir, `${spec}.yaml`);
+    if (existsSync(path)) {
+      return { source: `${spec} (built-in template)`, path };
+    }
+  }
+
+  const path = resolvePresetPackage(spec, fromDir);
+  if (!path) {
+    throw new Error(
+      `Cannot resolve extends "${spec}" (in ${from.source}): ` +
+      `not a built-in template, and no installed package has that name`
+    );
+  }
+  if (!existsSync(path)) {
+    throw new Error(`Cannot find ${path} (extends "${spec}" in ${from.source})`);
+  }
+  return { source: spec, path };
+}
+
+/**
+ * Forget the sources of a value and everything below it
+ */
+function clearSources(sources: Map<string, string>, path: string): void {
+  for (const key of sources.keys()) {
+    if (key === path || key.startsWith(`${path}.`) || key.startsWith(`${path}[`)) {
+      sources.delete(key);
+    }
+  }
+}
+
+function childPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+/**
+ * Merge an override object into a base object, key by key
+ */
+function mergeObject(base: PlainObject | undefined, override: PlainObject, path: string, shape: string, context: MergeContext): PlainObject {
+  if (!base) {
+    clearSources(context.sources, path);
+  }
+
+  const result: PlainObject = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    if (key === REMOVE_MARKER || key === REPLACE_MARKER) {
+      continue;
+    }
+    const merged = mergeValue(result[key], value, childPath(path, key), childPath(shape, key), context);
+    if (merged === REMOVED) {
+      delete result[key];
+    } else {
+      result[key] = merged;
+    }
+  }
+  return result;
+}
+
+/**
+ * Merge a list of named entries (phases or steps) by name
+ *
+ * Entries keep the base order; new entries are appended.
+ *
+ * @throws Error if `$remove` names an entry the base does not have
+ */
+function mergeNamedList(base: unknown[], override: unknown[], path: string, shape: string, context: MergeContext): unknown[] {
+  const result = [...base];
+  for (const entry of override) {
+    const name = isPlainObject(entry) ? entry['name'] : undefined;
+    if (typeof name !== 'string') {
+      // Left for schema validation to report
+      result.push(entry);
+      continue;
+    }
+
+    const entryPath = `${path}[${name}]`;
+    const index = result.findIndex(existing => isPlainObject(existing) && existing['name'] === name);
+    const merged = mergeValue(index === -1 ? undefined : result[index], entry, entryPath, `${shape}[]`, context);
+    if (merged === REMOVED) {
+      if (index === -1) {
+        throw new Error(`${entryPath}: ${REMOVE_MARKER} in ${context.source}, but no extended config defines it`);
+      }
+      result.splice(index, 1);
+    } else if (index === -1) {
+      result.push(merged);
+    } else {
+      result[index] = merged;
+    }
+  }
+  return result;
+}
+
+/**
+ * Merge an override value into a base value, recording the sources of what
+ * the override set
+ *
+ * @returns The merged value, or REMOVED
+ */
+function mergeValue(base: unknown, override: unknown, path: string, shape: string, context: MergeContext): unknown {
+  if (isPlainObject(override)) {
+    if (override[REMOVE_MARKER] === true) {
+      clearSources(context.sources, path);
+      return REMOVED;
+    }
+    const replace = override[REPLACE_MARKER] === true;
+    return mergeObject(isPlainObject(base) && !replace ? base : undefined, override, path, shape, context);
+  }
+
+  if (Array.isArray(override) && NAMED_LISTS.has(shape)) {
+    return mergeNamedList(Array.isArray(base) ? base : [], override, path, shape, context);
+  }
+
+  clearSources(context.sources, path);
+  context.sources.set(path, context.source);
+  return override;
+}
+
+/**
+ * Collect the files of an `extends` chain, extended configs first
+ *
+ * A file extended more than once (e.g. by two presets) is merged once, at
+ * its first position.
+ *
+ * @throws Error on circular extends
+ */
+function collectLayers(
+  layer: ConfigLayer,
+  rootDir: string,
+  options: ConfigLoadOptions,
+  stack: ConfigLayer[],
+  collected: Array<{ layer: ConfigLayer; raw: PlainObject }>
+): void {
+  if (stack.some(entry => entry.path === layer.path)) {
+    const cycle = [...stack, layer].map(entry => entry.source).join(' → ');
+    throw new Error(`Circular extends: ${cycle}`);
+  }
+  if (collected.some(entry => entry.layer.path === layer.path)) {
+    return;
+  }
+
+  const raw = readConfigFile(layer.path);
+  for (const spec of takeExtends(raw, layer)) {
+    const parent = resolveExtendsTarget(spec, layer, rootDir, options);
+    collectLayers(parent, rootDir, options, [...stack, layer], collected);
+  }
+  collected.push({ layer, raw });
+}
+
+/**
+ * Load a config file and merge its `extends` chain
+ *
+ * The result is not validated; pass `raw` to validateConfig.
+ *
+ * @param configPath - Path of the config file (must be .yaml)
+ * @param options - Load options (built-in templates directory)
+ * @returns Merged raw config, the merged files and the source of every value
+ * @throws Error if a file cannot be read or resolved, on circular extends,
+ *   or when `$remove` names a phase or step that is not inherited
+ *
+ * @example
+ * ```typescript
+ * const { raw, sources } = resolveConfigChain('vibe-validate.config.yaml');
+ * sources.get('validation.phases[Testing].steps[Unit tests].command');
+ * // '@acme/vibe-validate-preset'
+ * ```
+ */
+export function resolveConfigChain(configPath: string, options: ConfigLoadOptions = {}): ResolvedConfigChain {
+  const path = resolve(configPath);
+  const rootDir = dirname(path);
+  const collected: Array<{ layer: ConfigLayer; raw: PlainObject }> = [];
+  collectLayers({ source: basename(path), path }, rootDir, options, [], collected);
+
+  const sources = new Map<string, string>();
+  let raw: PlainObject = {};
+  for (const { layer, raw: layerRaw } of collected) {
+    raw = mergeObject(raw, layerRaw, '', '', { source: layer.source, sources });
+  }
+
+  return { raw, layers: collected.map(entry => entry.layer), sources };
+}
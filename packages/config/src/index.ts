@@ -25,12 +25,18 @@
 // Core schema types and validation
 export {
   type ValidationStep,
+  type StepRetries,
+  type StepTimeout,
+  type StepResourceBudget,
+  type StepCondition,
   type ValidationPhase,
+  type ValidationProfile,
   type ValidationConfig,
   type GitConfig,
   type CIConfig,
   type DependencyLockCheckConfig,
   type HooksConfig,
+  type ValidationHistoryConfig,
   type SecretScanningConfig,
   type SyncGuardMode,
   type ExtractorTrustLevel,
@@ -39,12 +45,18 @@ export {
   type ExtractorsConfig,
   type VibeValidateConfig,
   ValidationStepSchema,
+  StepRetriesSchema,
+  StepTimeoutSchema,
+  StepResourceBudgetSchema,
+  StepConditionSchema,
   ValidationPhaseSchema,
+  ValidationProfileSchema,
   ValidationConfigSchema,
   GitConfigSchema,
   CIConfigSchema,
   DependencyLockCheckSchema,
   HooksConfigSchema,
+  ValidationHistoryConfigSchema,
   SecretScanningSchema,
   SyncGuardModeSchema,
   DEFAULT_SYNC_GUARD_MODE,
@@ -57,6 +69,24 @@ export {
   safeValidateConfig,
 } from './schema.js';
 
+// Step dependency graph (dependsOn resolution and cycle detection)
+export {
+  type StepGraph,
+  type StepGraphNode,
+  type StepGraphIssue,
+  analyzeStepGraph,
+  buildStepGraph,
+} from './step-graph.js';
+
+// Validation profiles (named subsets of the steps)
+export {
+  type ProfileIssue,
+  analyzeProfiles,
+  applyProfile,
+  filterPhasesByProfile,
+  isStepInProfile,
+} from './profiles.js';
+
 // Config loading
 export {
   CONFIG_FILE_NAME,
@@ -64,6 +94,16 @@ export {
   findAndLoadConfig,
 } from './loader.js';
 
+// Config inheritance (extends)
+export {
+  type ConfigLoadOptions,
+  type ConfigLayer,
+  type ResolvedConfigChain,
+  REMOVE_MARKER,
+  REPLACE_MARKER,
+  resolveConfigChain,
+} from './config-extends.js';
+
 // Git configuration constants and helpers
 export { GIT_DEFAULTS } from './constants.js';
 export { getRemoteBranch, getMainBranch, getRemoteOrigin } from './git-helpers.js';
@@ -1,14 +1,13 @@
 /**
  * Configuration Loader
  *
- * Loads and resolves vibe-validate configuration from YAML files.
+ * Loads and resolves vibe-validate configuration from YAML files, including
+ * the configs they `extends` (see config-extends.ts).
  */
 
-import { readFileSync } from 'node:fs';
 import { resolve, dirname } from 'node:path';
 
-import { parse as parseYaml } from 'yaml';
-
+import { resolveConfigChain, type ConfigLoadOptions } from './config-extends.js';
 import { validateConfig, type VibeValidateConfig } from './schema.js';
 
 /**
@@ -21,32 +20,19 @@ export const CONFIG_FILE_NAME = 'vibe-validate.config.yaml';
 /**
  * Load configuration from a file path
  *
+ * Configs named in `extends` are loaded and merged first.
+ *
  * @param configPath - Absolute path to config file (must be .yaml)
+ * @param options - Load options (built-in templates directory for `extends`)
  * @returns Loaded and validated configuration
  * @throws Error if file cannot be loaded or is invalid
  */
 export async function loadConfigFromFile(
-  configPath: string
+  configPath: string,
+  options: ConfigLoadOptions = {}
 ): Promise<VibeValidateConfig> {
   const absolutePath = resolve(configPath);
-
-  // Only YAML files supported
-  if (!absolutePath.endsWith('.yaml')) {
-    throw new Error(
-      `Unsupported config file format: ${absolutePath}\n` +
-      `Only .yaml format is supported.\n` +
-      `Please use vibe-validate.config.yaml`
-    );
-  }
-
-   
-  const content = readFileSync(absolutePath, 'utf-8');
-  const raw = parseYaml(content);
-
-  // Remove $schema property if present (used for IDE support only)
-  if (raw && typeof raw === 'object' && '$schema' in raw) {
-    delete (raw as Record<string, unknown>)['$schema'];
-  }
+  const { raw } = resolveConfigChain(absolutePath, options);
 
   return await resolveConfig(raw, dirname(absolutePath));
 }
@@ -57,15 +43,17 @@ export async function loadConfigFromFile(
  * Searches for vibe-validate.config.yaml and loads it if found.
  *
  * @param cwd - Working directory to search (default: process.cwd())
+ * @param options - Load options (built-in templates directory for `extends`)
  * @returns Loaded configuration or undefined if no config found
  */
 export async function findAndLoadConfig(
-  cwd: string = process.cwd()
+  cwd: string = process.cwd(),
+  options: ConfigLoadOptions = {}
 ): Promise<VibeValidateConfig | undefined> {
   const configPath = resolve(cwd, CONFIG_FILE_NAME);
 
   try {
-    return await loadConfigFromFile(configPath);
+    return await loadConfigFromFile(configPath, options);
   } catch {
     // Config file doesn't exist or failed to load - return undefined
     return undefined;
@@ -0,0 +1,142 @@
+/**
+ * Validation Profiles
+ *
+ * A profile runs a subset of the configured steps, e.g. a fast `quick`
+ * profile for pre-commit and the full set for CI:
+ *
+ * ```yaml
+ * profiles:
+ *   quick:
+ *     include: [lint, typecheck]   # phase names, step names or step tags
+ *     exclude: [slow]
+ * ```
+ *
+ * A step is selected when its phase name, its name or one of its tags is in
+ * `include` (or `include` is omitted), and none of them is in `exclude`.
+ * Phases left without steps are dropped.
+ */
+
+import type { ValidationPhase, ValidationProfile, ValidationStep, VibeValidateConfig } from './schema.js';
+
+/**
+ * A configuration problem found in the profiles
+ */
+export interface ProfileIssue {
+  /** Path relative to the root config (e.g. `['profiles', 'quick', 'include', 0]`) */
+  path: Array<string | number>;
+
+  /** Human-readable description of the problem */
+  message: string;
+}
+
+/**
+ * Check whether a profile selects a step
+ *
+ * @param profile - Profile definition
+ * @param phaseName - Name of the step's phase
+ * @param step - Step configuration
+ * @returns true if the step runs under the profile
+ */
+export function isStepInProfile(profile: ValidationProfile, phaseName: string, step: ValidationStep): boolean {
+  const labels = new Set([phaseName, step.name, ...(step.tags ?? [])]);
+  const included = profile.include?.some(entry => labels.has(entry)) ?? true;
+  return included && !profile.exclude?.some(entry => labels.has(entry));
+}
+
+/**
+ * Keep only the steps a profile selects, dropping phases left empty
+ *
+ * @param phases - Configured phases
+ * @param profile - Profile definition
+ * @returns Phases with the selected steps
+ */
+export function filterPhasesByProfile(phases: ValidationPhase[], profile: ValidationProfile): ValidationPhase[] {
+  return phases
+    .map(phase => ({ ...phase, steps: phase.steps.filter(step => isStepInProfile(profile, phase.name, step)) }))
+    .filter(phase => phase.steps.length > 0);
+}
+
+/**
+ * Limit a configuration to the steps of a named profile
+ *
+ * @param config - Loaded configuration
+ * @param name - Profile name
+ * @returns The configuration with only the profile's phases and steps
+ * @throws Error if the profile is not defined
+ *
+ * @example
+ * ```typescript
+ * const quick = applyProfile(config, 'quick');
+ * await runValidation({ ...runnerConfig, phases: quick.validation.phases });
+ * ```
+ */
+export function applyProfile(config: VibeValidateConfig, name: string): VibeValidateConfig {
+  const profile = config.profiles?.[name];
+  if (!profile) {
+    const available = Object.keys(config.profiles ?? {});
+    throw new Error(
+      available.length > 0
+        ? `Unknown profile "${name}". Available profiles: ${available.join(', ')}`
+        : `Unknown profile "${name}": no profiles are defined in the config`
+    );
+  }
+
+  return {
+    ...config,
+    validation: { ...config.validation, phases: filterPhasesByProfile(config.validation.phases, profile) },
+  };
+}
+
+/**
+ * Find entries of a profile's list that match no phase name, step name or tag
+ *
+ * @internal
+ */
+function findUnknownEntries(entries: string[] | undefined, labels: Set<string>, path: Array<string | number>): ProfileIssue[] {
+  return (entries ?? []).flatMap((entry, index) => labels.has(entry) ? [] : [{
+    path: [...path, index],
+    message: `"${entry}" matches no phase, step or tag`,
+  }]);
+}
+
+/**
+ * Validate the profiles against the configured phases
+ *
+ * Reports entries that match nothing (usually a typo or a renamed step),
+ * profiles that select no step, and selected steps whose `dependsOn` names a
+ * step the profile leaves out.
+ *
+ * @param profiles - Profile definitions by name
+ * @param phases - Configured phases
+ * @returns Issues, with paths relative to the root config
+ */
+export function analyzeProfiles(profiles: Record<string, ValidationProfile>, phases: ValidationPhase[]): ProfileIssue[] {
+  const labels = new Set(phases.flatMap(phase => [phase.name, ...phase.steps.flatMap(step => [step.name, ...(step.tags ?? [])])]));
+  const issues: ProfileIssue[] = [];
+
+  for (const [name, profile] of Object.entries(profiles)) {
+    const path = ['profiles', name];
+    issues.push(
+      ...findUnknownEntries(profile.include, labels, [...path, 'include']),
+      ...findUnknownEntries(profile.exclude, labels, [...path, 'exclude'])
+    );
+
+    const selected = filterPhasesByProfile(phases, profile).flatMap(phase => phase.steps);
+    if (selected.length === 0) {
+      issues.push({ path, message: `Profile "${name}" selects no steps` });
+    }
+
+    const selectedNames = new Set(selected.map(step => step.name));
+    for (const step of selected) {
+      const missing = step.dependsOn?.filter(dependency => !selectedNames.has(dependency)) ?? [];
+      for (const dependency of missing) {
+        issues.push({
+          path,
+          message: `Profile "${name}" selects "${step.name}" but not "${dependency}", which it depends on`,
+        });
+      }
+    }
+  }
+
+  return issues;
+}
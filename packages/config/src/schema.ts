@@ -8,7 +8,97 @@
 import { z } from 'zod';
 
 import { GIT_DEFAULTS } from './constants.js';
+import { analyzeProfiles } from './profiles.js';
 import { createSafeValidator, createStrictValidator } from './schema-utils.js';
+import { analyzeStepGraph } from './step-graph.js';
+
+/**
+ * Check that a string compiles as a JavaScript regular expression
+ */
+function isValidRegex(pattern: string): boolean {
+  try {
+    // eslint-disable-next-line security/detect-non-literal-regexp -- only compiled to check the pattern, never matched here
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Path glob (git glob pathspec, relative to the git root; a leading `!` excludes)
+ */
+const PathPatternSchema = z.string()
+  .min(1, 'Pattern cannot be empty')
+  .refine(pattern => pattern !== '!', 'Exclusion needs a pattern after "!"');
+
+/**
+ * Step Condition Schema
+ *
+ * A step with `when` runs only if every listed condition holds.
+ */
+export const StepConditionSchema = z.object({
+  /**
+   * Run only if a file matching these globs changed since the branch left
+   * `git.mainBranch` (committed, uncommitted and untracked changes count)
+   */
+  changed: z.array(PathPatternSchema).min(1, 'changed must list at least one pattern').optional(),
+
+  /** Run only if each of these environment variables has exactly this value */
+  env: z.record(z.string(), z.string()).optional(),
+}).strict().refine(
+  condition => condition.changed !== undefined || condition.env !== undefined,
+  'when needs at least one condition (changed or env)'
+);
+
+export type StepCondition = z.infer<typeof StepConditionSchema>;
+
+/**
+ * Step Retry Policy Schema
+ *
+ * Re-runs a failed step before reporting the failure.
+ */
+export const StepRetriesSchema = z.object({
+  /** Number of retries after the first failed attempt */
+  count: z.number().int().positive('Retry count must be at least 1'),
+
+  /**
+   * Optional: Only retry when the failed attempt's output matches this regex
+   * (e.g., "ECONNRESET|ETIMEDOUT"), so genuine failures are reported at once
+   */
+  onlyIfOutputMatches: z.string()
+    .min(1, 'onlyIfOutputMatches cannot be empty')
+    .refine(isValidRegex, 'onlyIfOutputMatches must be a valid regular expression')
+    .optional(),
+}).strict();
+
+export type StepRetries = z.infer<typeof StepRetriesSchema>;
+
+/**
+ * Step Timeout Policy Schema
+ *
+ * Escalates a step that runs too long: a warning at `warnAfter`, SIGTERM to
+ * the step's process group at `after`, then SIGKILL once `killAfter` has
+ * passed without the processes exiting.
+ */
+export const StepTimeoutSchema = z.object({
+  /** Milliseconds before the step is stopped (SIGTERM) */
+  after: z.number().positive(),
+
+  /** Optional: Milliseconds before a "still running" warning is printed */
+  warnAfter: z.number().positive().optional(),
+
+  /** Optional: Grace period in milliseconds between SIGTERM and SIGKILL (default: 5000) */
+  killAfter: z.number().positive().optional(),
+
+  /** Optional: Lines of output to include in the timeout report (default: 50) */
+  tailLines: z.number().int().positive().optional(),
+}).strict().refine(
+  timeout => timeout.warnAfter === undefined || timeout.warnAfter < timeout.after,
+  { message: 'warnAfter must be less than after', path: ['warnAfter'] }
+);
+
+export type StepTimeout = z.infer<typeof StepTimeoutSchema>;
 
 /**
  * Validation Step Schema
@@ -25,8 +115,12 @@ export const ValidationStepSchema = z.object({
   /** Optional: Description of what this step does (for documentation) */
   description: z.string().optional(),
 
-  /** Optional: Custom timeout in milliseconds (default: inherited from phase) */
-  timeout: z.number().positive().optional(),
+  /**
+   * Optional: Timeout in milliseconds, or a timeout policy (default: inherited from phase)
+   *
+   * A timed-out step is stopped and reported with `timedOut: true`.
+   */
+  timeout: z.union([z.number().positive(), StepTimeoutSchema]).optional(),
 
   /** Optional: Continue on failure (default: false) */
   continueOnError: z.boolean().optional(),
@@ -39,7 +133,59 @@ export const ValidationStepSchema = z.object({
 
   /** Optional: Restrict step to run only in CI or only locally */
   runScope: z.enum(['ci', 'local']).optional(),
-}).strict();
+
+  /**
+   * Optional: Names of steps that must pass before this step starts.
+   *
+   * When set, the step waits only for these steps and ignores phase ordering
+   * (`dependsOn: []` starts immediately). When omitted, the step waits for all
+   * steps in earlier phases (and earlier steps of a non-parallel phase).
+   */
+  dependsOn: z.array(z.string().min(1, 'Dependency name cannot be empty')).optional(),
+
+  /**
+   * Optional: Files this step reads, as git glob pathspecs relative to the git root.
+   *
+   * A leading `!` excludes (e.g., `['packages/cli/**', '!**\/*.md']`). When set,
+   * a passing result is cached under the hash of the matching files, so the step
+   * is skipped while they are unchanged - even if other files changed.
+   */
+  inputs: z.array(PathPatternSchema).min(1, 'inputs must list at least one pattern').optional(),
+
+  /**
+   * Optional: Run the step only when these conditions hold (skipped otherwise).
+   *
+   * e.g. `{ changed: ['backend/**'] }` or `{ env: { DEPLOY: 'true' } }`
+   */
+  when: StepConditionSchema.optional(),
+
+  /**
+   * Optional: Re-run the step when it fails, before reporting the failure.
+   *
+   * A step that passes on a retry is reported as passed with `flaky: true`.
+   */
+  retries: StepRetriesSchema.optional(),
+
+  /** Optional: Labels for selecting the step in profiles (e.g., ['fast', 'backend']) */
+  tags: z.array(z.string().min(1, 'Tag cannot be empty')).optional(),
+
+  /**
+   * Optional: Extractor for this step's errors (e.g., 'typescript'), instead
+   * of detecting the tool from the output
+   */
+  extractor: z.string().min(1, 'Extractor name cannot be empty').optional(),
+
+  /**
+   * Optional: Extractors to chain over this step's output (e.g., ['typescript', 'vitest']
+   * for `pnpm build && pnpm test`). Their errors are merged and deduplicated.
+   */
+  extractors: z.array(z.string().min(1, 'Extractor name cannot be empty'))
+    .min(1, 'extractors must list at least one extractor')
+    .optional(),
+}).strict().refine(
+  step => step.extractor === undefined || step.extractors === undefined,
+  { message: 'Use either extractor or extractors, not both', path: ['extractors'] }
+);
 
 export type ValidationStep = z.infer<typeof ValidationStepSchema>;
 
@@ -64,13 +210,46 @@ export const ValidationPhaseSchema = z.object({
 
   /** Optional: Fail fast - stop on first error (default: true) */
   failFast: z.boolean().optional().default(true),
+
+  /**
+   * Optional: Maximum number of this phase's steps running at once
+   *
+   * Applies on top of `validation.maxConcurrency` - the lower limit wins.
+   */
+  maxConcurrency: z.number().int().positive().optional(),
 }).strict();
 
 // Use input type (before defaults applied) to maintain optional field semantics
 export type ValidationPhase = z.input<typeof ValidationPhaseSchema>;
 
+/**
+ * Step Resource Budget Schema
+ *
+ * Limits on what one step may use, checked against the memory and CPU time
+ * sampled while it ran (Linux only).
+ */
+export const StepResourceBudgetSchema = z.object({
+  /** Optional: Highest combined resident memory of the step's processes, in MB */
+  maxRssMb: z.number().positive().optional(),
+
+  /** Optional: User plus system CPU time of the step's processes, in seconds */
+  maxCpuSecs: z.number().positive().optional(),
+
+  /** Optional: Warn (default) or fail the step when it exceeds the budget */
+  onExceed: z.enum(['warn', 'fail']).optional(),
+}).strict().refine(
+  budget => budget.maxRssMb !== undefined || budget.maxCpuSecs !== undefined,
+  'A resource budget needs maxRssMb or maxCpuSecs'
+);
+
+export type StepResourceBudget = z.infer<typeof StepResourceBudgetSchema>;
+
 /**
  * Validation Config Schema
+ *
+ * Step dependencies (`dependsOn`) are checked here, so unknown, ambiguous and
+ * circular dependencies are reported when the config is loaded - not when the
+ * scheduler gets stuck halfway through a run.
  */
 export const ValidationConfigSchema = z.object({
   /** Validation phases to execute */
@@ -78,7 +257,35 @@ export const ValidationConfigSchema = z.object({
 
   /** Optional: Fail fast - stop all validation on first phase failure (default: true) */
   failFast: z.boolean().optional().default(true),
-}).strict();
+
+  /**
+   * Optional: Maximum number of steps running at once, across all phases
+   * (default: number of CPUs). Overridden by `validate --jobs <n>`.
+   */
+  maxConcurrency: z.number().int().positive().optional(),
+
+  /**
+   * Optional: Memory and CPU budgets, by step name
+   *
+   * e.g. `{ 'Unit Tests': { maxRssMb: 2048, onExceed: 'fail' } }`
+   */
+  resourceBudget: z.record(z.string(), StepResourceBudgetSchema).optional(),
+}).strict().superRefine((validation, ctx) => {
+  for (const issue of analyzeStepGraph(validation.phases).issues) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: issue.path, message: issue.message });
+  }
+
+  const stepNames = new Set(validation.phases.flatMap(phase => phase.steps.map(step => step.name)));
+  for (const name of Object.keys(validation.resourceBudget ?? {})) {
+    if (!stepNames.has(name)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['resourceBudget', name],
+        message: `Resource budget for unknown step "${name}"`,
+      });
+    }
+  }
+});
 
 // Use input type (before defaults applied) to maintain optional field semantics
 export type ValidationConfig = z.input<typeof ValidationConfigSchema>;
@@ -290,6 +497,9 @@ export const HooksConfigSchema = z.object({
 
     /** Secret scanning configuration (optional) */
     secretScanning: SecretScanningSchema.optional(),
+
+    /** Profile to validate with (optional, default: every step) */
+    profile: z.string().min(1).optional(),
   }).strict().optional().default({
     enabled: true,
     command: DEFAULT_PRE_COMMIT_COMMAND,
@@ -324,6 +534,56 @@ export const LockingConfigSchema = z.object({
 
 export type LockingConfig = z.infer<typeof LockingConfigSchema>;
 
+/**
+ * Validation History Configuration Schema
+ *
+ * Controls how the validation history (git notes under
+ * refs/notes/vibe-validate/) is shared with the remote.
+ */
+export const ValidationHistoryConfigSchema = z.object({
+  /**
+   * Sync with the remote (default: 'off')
+   * - 'off': Only `history push` / `history pull` sync
+   * - 'auto': Pull before `validate --check`, push after a passing run
+   */
+  sync: z.enum(['off', 'auto']).default('off'),
+
+  /** Remote to sync with (default: git.remoteOrigin) */
+  remote: z.string().min(1).optional(),
+
+  /**
+   * Which recorded runs the validation cache may reuse (default: 'any')
+   * - 'any': Every run, signed or not
+   * - 'signed': Runs with a valid GPG/SSH or HMAC signature
+   * - 'ci-only': Runs with a valid HMAC signature (the shared CI key)
+   */
+  trust: z.enum(['any', 'signed', 'ci-only']).default('any'),
+
+  /**
+   * Sign recorded runs (optional)
+   * - 'git': With git's commit signing setup (GPG or SSH, per gpg.format)
+   * - 'hmac': With the shared key in VV_HISTORY_SIGNING_KEY
+   */
+  sign: z.enum(['git', 'hmac']).optional(),
+
+  /**
+   * Retention policy, enforced after each recorded run (optional)
+   * Preview with `history prune --policy --dry-run`.
+   */
+  retention: z.object({
+    /** Keep only the newest N runs per branch */
+    keepRunsPerBranch: z.number().int().positive().optional(),
+
+    /** Never prune runs on commits reachable from this ref (default: the remote-tracking ref of git.mainBranch, e.g. 'origin/main') */
+    keepReachableFrom: z.string().min(1).optional(),
+
+    /** Remove tree hashes whose newest run is older than N days and on no branch */
+    pruneUnreachableAfterDays: z.number().positive().optional(),
+  }).strict().optional(),
+}).strict();
+
+export type ValidationHistoryConfig = z.infer<typeof ValidationHistoryConfigSchema>;
+
 /**
  * Extractor Trust Level
  *
@@ -398,12 +658,40 @@ export const ExtractorsConfigSchema = z.object({
 
 export type ExtractorsConfig = z.infer<typeof ExtractorsConfigSchema>;
 
+/**
+ * Validation Profile Schema
+ *
+ * A named subset of the steps, selected by phase name, step name or tag.
+ */
+export const ValidationProfileSchema = z.object({
+  /** Optional: What the profile is for */
+  description: z.string().optional(),
+
+  /** Optional: Phase names, step names or tags to select (default: every step) */
+  include: z.array(z.string().min(1)).min(1, 'include must list at least one name or tag').optional(),
+
+  /** Optional: Phase names, step names or tags to leave out */
+  exclude: z.array(z.string().min(1)).min(1, 'exclude must list at least one name or tag').optional(),
+}).strict();
+
+export type ValidationProfile = z.infer<typeof ValidationProfileSchema>;
+
 /**
  * Full Configuration Schema
  *
  * Root configuration object for vibe-validate.
  */
 export const VibeValidateConfigSchema = z.object({
+  /**
+   * Configs to inherit from (optional)
+   *
+   * A relative path (`./shared/base.yaml`), a built-in template name
+   * (`typescript-library`) or an npm package (`@acme/vibe-validate-preset`),
+   * or a list of them. Resolved and merged by the loader before validation,
+   * so a loaded config never has it.
+   */
+  extends: z.union([z.string().min(1), z.array(z.string().min(1)).min(1)]).optional(),
+
   /** Validation configuration */
   validation: ValidationConfigSchema,
 
@@ -432,6 +720,9 @@ export const VibeValidateConfigSchema = z.object({
     concurrencyScope: 'directory',
   }),
 
+  /** Validation history configuration (optional) */
+  history: ValidationHistoryConfigSchema.optional(),
+
   /**
    * Extractor plugins configuration (optional)
    *
@@ -458,7 +749,18 @@ export const VibeValidateConfigSchema = z.object({
    * - Teams wanting to improve validation feedback
    */
   developerFeedback: z.boolean().optional().default(false),
-}).strict();
+
+  /**
+   * Named subsets of the steps (optional), e.g. a fast `quick` profile for
+   * pre-commit. Selected with `validate --profile <name>` or
+   * `hooks.preCommit.profile`.
+   */
+  profiles: z.record(z.string().min(1), ValidationProfileSchema).optional(),
+}).strict().superRefine((config, ctx) => {
+  for (const issue of analyzeProfiles(config.profiles ?? {}, config.validation.phases)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: issue.path, message: issue.message });
+  }
+});
 
 // Use input type (before defaults applied) to maintain optional field semantics
 export type VibeValidateConfig = z.input<typeof VibeValidateConfigSchema>;
@@ -0,0 +1,242 @@
+/**
+ * Step Dependency Graph
+ *
+ * Resolves the order in which validation steps may run from two sources:
+ * - Phase ordering (implicit): a step without `dependsOn` waits for every step
+ *   in earlier phases, and - in a non-parallel phase - for the steps listed
+ *   before it in the same phase.
+ * - `dependsOn` (explicit): a step that declares `dependsOn` waits only for the
+ *   named steps, so it can start as soon as they pass, regardless of phases.
+ *
+ * The same graph is used to validate configuration at load time (unknown,
+ * ambiguous and circular dependencies) and to schedule steps at run time.
+ */
+
+import type { ValidationPhase, ValidationStep } from './schema.js';
+
+/**
+ * A single validation step within the dependency graph
+ */
+export interface StepGraphNode {
+  /** Position of this node in `StepGraph.nodes` (config order) */
+  index: number;
+
+  /** The configured step */
+  step: ValidationStep;
+
+  /** Index of the containing phase */
+  phaseIndex: number;
+
+  /** Name of the containing phase */
+  phaseName: string;
+
+  /** Indexes of steps that must PASS before this step may start */
+  requires: number[];
+
+  /**
+   * Indexes of steps that must FINISH (pass or fail) before this step may start.
+   *
+   * Used for ordering inside a non-parallel phase: a failure there stops the
+   * following steps only when fail-fast is enabled, as it always has.
+   */
+  after: number[];
+}
+
+/**
+ * Validation steps with their resolved dependencies
+ */
+export interface StepGraph {
+  /** Phases the graph was built from (for grouping and reporting) */
+  phases: ValidationPhase[];
+
+  /** All steps, in config order */
+  nodes: StepGraphNode[];
+}
+
+/**
+ * A configuration problem found while building the step graph
+ */
+export interface StepGraphIssue {
+  /** Path relative to the validation config (e.g. `['phases', 1, 'steps', 0, 'dependsOn', 0]`) */
+  path: Array<string | number>;
+
+  /** Human-readable description of the problem */
+  message: string;
+}
+
+/**
+ * Build the node list with implicit (phase-ordering) dependencies applied
+ *
+ * @internal
+ */
+function createNodes(phases: ValidationPhase[]): StepGraphNode[] {
+  const nodes: StepGraphNode[] = [];
+  let earlierPhaseNodes: number[] = [];
+
+  for (const [phaseIndex, phase] of phases.entries()) {
+    const phaseNodes: number[] = [];
+
+    for (const step of phase.steps) {
+      const index = nodes.length;
+      const implicit = step.dependsOn === undefined;
+      nodes.push({
+        index,
+        step,
+        phaseIndex,
+        phaseName: phase.name,
+        requires: implicit ? [...earlierPhaseNodes] : [],
+        after: implicit && phase.parallel !== true ? [...phaseNodes] : [],
+      });
+      phaseNodes.push(index);
+    }
+
+    earlierPhaseNodes = [...earlierPhaseNodes, ...phaseNodes];
+  }
+
+  return nodes;
+}
+
+/**
+ * Resolve explicit `dependsOn` names to node indexes, collecting issues
+ *
+ * @internal
+ */
+function resolveExplicitDependencies(nodes: StepGraphNode[], issues: StepGraphIssue[]): void {
+  const indexesByName = new Map<string, number[]>();
+  for (const node of nodes) {
+    const indexes = indexesByName.get(node.step.name) ?? [];
+    indexes.push(node.index);
+    indexesByName.set(node.step.name, indexes);
+  }
+
+  for (const node of nodes) {
+    const stepPath = getStepPath(nodes, node);
+
+    for (const [dependencyIndex, dependencyName] of (node.step.dependsOn ?? []).entries()) {
+      const path = [...stepPath, 'dependsOn', dependencyIndex];
+      const matches = indexesByName.get(dependencyName) ?? [];
+
+      if (matches.length === 0) {
+        issues.push({ path, message: `Unknown step "${dependencyName}" in dependsOn of "${node.step.name}"` });
+      } else if (matches.length > 1) {
+        issues.push({
+          path,
+          message: `Ambiguous dependency "${dependencyName}": ${matches.length} steps share this name (step names must be unique to be used in dependsOn)`,
+        });
+      } else if (matches[0] === node.index) {
+        issues.push({ path, message: `Step "${node.step.name}" cannot depend on itself` });
+      } else if (!node.requires.includes(matches[0])) {
+        node.requires.push(matches[0]);
+      }
+    }
+  }
+}
+
+/**
+ * Get the config path of a step (relative to the validation config)
+ *
+ * @internal
+ */
+function getStepPath(nodes: StepGraphNode[], node: StepGraphNode): Array<string | number> {
+  const firstInPhase = nodes.findIndex(n => n.phaseIndex === node.phaseIndex);
+  return ['phases', node.phaseIndex, 'steps', node.index - firstInPhase];
+}
+
+/**
+ * Find dependency cycles (each reported once) using depth-first search
+ *
+ * @internal
+ */
+function findCycles(nodes: StepGraphNode[]): number[][] {
+  const state = new Map<number, 'visiting' | 'done'>();
+  const stack: number[] = [];
+  const cycles: number[][] = [];
+
+  const visit = (index: number): void => {
+    state.set(index, 'visiting');
+    stack.push(index);
+
+    const node = nodes[index];
+    for (const dependency of [...node.requires, ...node.after]) {
+      const dependencyState = state.get(dependency);
+      if (dependencyState === 'visiting') {
+        cycles.push(stack.slice(stack.indexOf(dependency)));
+      } else if (dependencyState === undefined) {
+        visit(dependency);
+      }
+    }
+
+    stack.pop();
+    state.set(index, 'done');
+  };
+
+  for (const node of nodes) {
+    if (!state.has(node.index)) {
+      visit(node.index);
+    }
+  }
+
+  return cycles;
+}
+
+/**
+ * Analyze validation phases and build the step dependency graph
+ *
+ * Never throws: configuration problems are returned as `issues` so callers
+ * (e.g. schema validation) can report all of them at once.
+ *
+ * @param phases - Validation phases from configuration
+ * @returns The graph and any issues found (graph is only safe to schedule when `issues` is empty)
+ *
+ * @example
+ * ```typescript
+ * const { issues } = analyzeStepGraph(config.validation.phases);
+ * for (const issue of issues) {
+ *   console.error(`${issue.path.join('.')}: ${issue.message}`);
+ * }
+ * ```
+ */
+export function analyzeStepGraph(phases: ValidationPhase[]): { graph: StepGraph; issues: StepGraphIssue[] } {
+  const issues: StepGraphIssue[] = [];
+  const nodes = createNodes(phases);
+
+  resolveExplicitDependencies(nodes, issues);
+
+  const reported = new Set<number>();
+  for (const cycle of findCycles(nodes)) {
+    // Implicit edges always point to earlier steps, so every cycle contains at
+    // least one explicit dependsOn - report it there, where the user can fix it
+    // (once per step, since one bad dependency can close several cycles).
+    const culprit = cycle.map(index => nodes[index]).find(node => node.step.dependsOn !== undefined) ?? nodes[cycle[0]];
+    if (reported.has(culprit.index)) {
+      continue;
+    }
+    reported.add(culprit.index);
+    // Dependency edges point backwards, so reverse for a readable "runs before" chain
+    const names = [...cycle, cycle[0]].reverse().map(index => nodes[index].step.name);
+    issues.push({
+      path: [...getStepPath(nodes, culprit), 'dependsOn'],
+      message: `Circular step dependency: ${names.join(' → ')}`,
+    });
+  }
+
+  return { graph: { phases, nodes }, issues };
+}
+
+/**
+ * Build the step dependency graph, throwing on configuration problems
+ *
+ * @param phases - Validation phases from configuration
+ * @returns The step dependency graph
+ * @throws Error listing every issue if the graph is invalid
+ */
+export function buildStepGraph(phases: ValidationPhase[]): StepGraph {
+  const { graph, issues } = analyzeStepGraph(phases);
+
+  if (issues.length > 0) {
+    const details = issues.map(issue => `  - ${issue.path.join('.')}: ${issue.message}`).join('\n');
+    throw new Error(`Invalid step dependencies:\n${details}`);
+  }
+
+  return graph;
+}
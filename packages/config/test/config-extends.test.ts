@@ -0,0 +1,250 @@
+/**
+ * Tests for config inheritance (extends)
+ */
+
+import { rm, writeFile } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+
+import { mkdirSyncReal } from '@vibe-validate/utils';
+import { createTempTestDir } from '@vibe-validate/utils/test-helpers';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+import { resolveConfigChain } from '../src/config-extends.js';
+
+const CONFIG_FILE = 'vibe-validate.config.yaml';
+
+const BASE_YAML = `
+$schema: https://unpkg.com/@vibe-validate/config/config.schema.json
+git:
+  mainBranch: main
+  autoSync: false
+validation:
+  phases:
+    - name: Checks
+      parallel: true
+      steps:
+        - name: Lint
+          command: npm run lint
+        - name: Typecheck
+          command: tsc --noEmit
+          timeout: 60000
+    - name: Testing
+      steps:
+        - name: Unit
+          command: npm test
+`;
+
+/**
+ * Write a file, creating its directory
+ *
+ * @param path - Absolute file path
+ * @param content - File content
+ */
+async function writeConfig(path: string, content: string): Promise<void> {
+  mkdirSyncReal(dirname(path), { recursive: true });
+  await writeFile(path, content);
+}
+
+describe('resolveConfigChain', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = await createTempTestDir();
+    await writeConfig(join(testDir, 'shared', 'base.yaml'), BASE_YAML);
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should return a config without extends as it is', async () => {
+    await writeConfig(join(testDir, CONFIG_FILE), BASE_YAML);
+
+    const { raw, layers } = resolveConfigChain(join(testDir, CONFIG_FILE));
+
+    expect(layers.map(layer => layer.source)).toEqual([CONFIG_FILE]);
+    expect(raw).not.toHaveProperty('$schema');
+    expect(raw).toMatchObject({ git: { mainBranch: 'main' } });
+  });
+
+  it('should merge phases and steps by name, appending new ones', async () => {
+    await writeConfig(join(testDir, CONFIG_FILE), `
+extends: ./shared/base.yaml
+git:
+  autoSync: true
+validation:
+  phases:
+    - name: Checks
+      steps:
+        - name: Typecheck
+          command: tsc --noEmit -p tsconfig.build.json
+        - name: Format
+          command: npm run format:check
+    - name: Integration
+      steps:
+        - name: E2E
+          command: npm run test:e2e
+`);
+
+    const { raw } = resolveConfigChain(join(testDir, CONFIG_FILE));
+
+    expect(raw).toEqual({
+      git: { mainBranch: 'main', autoSync: true },
+      validation: {
+        phases: [
+          {
+            name: 'Checks',
+            parallel: true,
+            steps: [
+              { name: 'Lint', command: 'npm run lint' },
+              { name: 'Typecheck', command: 'tsc --noEmit -p tsconfig.build.json', timeout: 60000 },
+              { name: 'Format', command: 'npm run format:check' },
+            ],
+          },
+          { name: 'Testing', steps: [{ name: 'Unit', command: 'npm test' }] },
+          { name: 'Integration', steps: [{ name: 'E2E', command: 'npm run test:e2e' }] },
+        ],
+      },
+    });
+  });
+
+  it('should record which file set each value', async () => {
+    await writeConfig(join(testDir, CONFIG_FILE), `
+extends: ./shared/base.yaml
+validation:
+  phases:
+    - name: Checks
+      steps:
+        - name: Typecheck
+          command: tsc --noEmit -p tsconfig.build.json
+`);
+
+    const { layers, sources } = resolveConfigChain(join(testDir, CONFIG_FILE));
+
+    expect(layers.map(layer => layer.source)).toEqual([join('shared', 'base.yaml'), CONFIG_FILE]);
+    expect(sources.get('validation.phases[Checks].steps[Typecheck].command')).toBe(CONFIG_FILE);
+    expect(sources.get('validation.phases[Checks].steps[Typecheck].timeout')).toBe(join('shared', 'base.yaml'));
+    expect(sources.get('git.mainBranch')).toBe(join('shared', 'base.yaml'));
+  });
+
+  it('should drop phases and steps marked $remove', async () => {
+    await writeConfig(join(testDir, CONFIG_FILE), `
+extends: ./shared/base.yaml
+validation:
+  phases:
+    - name: Checks
+      steps:
+        - name: Lint
+          $remove: true
+    - name: Testing
+      $remove: true
+`);
+
+    const { raw, sources } = resolveConfigChain(join(testDir, CONFIG_FILE));
+
+    expect(raw).toMatchObject({
+      validation: {
+        phases: [{ name: 'Checks', steps: [{ name: 'Typecheck', command: 'tsc --noEmit', timeout: 60000 }] }],
+      },
+    });
+    expect(sources.has('validation.phases[Testing].steps[Unit].command')).toBe(false);
+  });
+
+  it('should reject $remove of a step that is not inherited', async () => {
+    await writeConfig(join(testDir, CONFIG_FILE), `
+extends: ./shared/base.yaml
+validation:
+  phases:
+    - name: Checks
+      steps:
+        - name: Lnit
+          $remove: true
+`);
+
+    expect(() => resolveConfigChain(join(testDir, CONFIG_FILE))).toThrow(
+      'validation.phases[Checks].steps[Lnit]: $remove in vibe-validate.config.yaml, but no extended config defines it'
+    );
+  });
+
+  it('should use entries marked $replace as written', async () => {
+    await writeConfig(join(testDir, CONFIG_FILE), `
+extends: ./shared/base.yaml
+git:
+  $replace: true
+  mainBranch: develop
+validation:
+  phases:
+    - name: Checks
+      steps:
+        - name: Typecheck
+          $replace: true
+          command: tsc -b
+`);
+
+    const { raw, sources } = resolveConfigChain(join(testDir, CONFIG_FILE));
+
+    const checks = (raw as { validation: { phases: Array<{ steps: object[] }> } }).validation.phases[0];
+    expect(raw['git']).toEqual({ mainBranch: 'develop' });
+    expect(checks.steps).toEqual([
+      { name: 'Lint', command: 'npm run lint' },
+      { name: 'Typecheck', command: 'tsc -b' },
+    ]);
+    expect(sources.has('validation.phases[Checks].steps[Typecheck].timeout')).toBe(false);
+  });
+
+  it('should replace lists other than phases and steps', async () => {
+    await writeConfig(join(testDir, 'shared', 'ci.yaml'), 'ci:\n  nodeVersions: ["20", "22"]\n  os: [ubuntu-latest]\n');
+    await writeConfig(join(testDir, CONFIG_FILE), 'extends: ./shared/ci.yaml\nci:\n  nodeVersions: ["24"]\n');
+
+    const { raw } = resolveConfigChain(join(testDir, CONFIG_FILE));
+
+    expect(raw['ci']).toEqual({ nodeVersions: ['24'], os: ['ubuntu-latest'] });
+  });
+
+  it('should resolve npm packages and files inside them', async () => {
+    const packageDir = join(testDir, 'node_modules', '@acme', 'vibe-validate-preset');
+    await writeConfig(join(packageDir, CONFIG_FILE), BASE_YAML);
+    await writeConfig(join(packageDir, 'strict.yaml'), 'extends: "@acme/vibe-validate-preset"\ngit:\n  autoSync: true\n');
+    await writeConfig(join(testDir, 'app', CONFIG_FILE), 'extends: "@acme/vibe-validate-preset/strict.yaml"\n');
+
+    const { raw, layers } = resolveConfigChain(join(testDir, 'app', CONFIG_FILE));
+
+    expect(layers.map(layer => layer.source)).toEqual([
+      '@acme/vibe-validate-preset',
+      '@acme/vibe-validate-preset/strict.yaml',
+      CONFIG_FILE,
+    ]);
+    expect(raw['git']).toEqual({ mainBranch: 'main', autoSync: true });
+  });
+
+  it('should resolve built-in template names from the templates directory', async () => {
+    const templatesDir = join(testDir, 'templates');
+    await writeConfig(join(templatesDir, 'typescript-library.yaml'), BASE_YAML);
+    await writeConfig(join(testDir, CONFIG_FILE), 'extends: typescript-library\n');
+
+    const { layers } = resolveConfigChain(join(testDir, CONFIG_FILE), { templatesDir });
+
+    expect(layers[0]).toEqual({
+      source: 'typescript-library (built-in template)',
+      path: join(templatesDir, 'typescript-library.yaml'),
+    });
+  });
+
+  it('should report an extends that cannot be resolved', async () => {
+    await writeConfig(join(testDir, CONFIG_FILE), 'extends: "@acme/missing-preset"\n');
+
+    expect(() => resolveConfigChain(join(testDir, CONFIG_FILE))).toThrow(
+      'Cannot resolve extends "@acme/missing-preset" (in vibe-validate.config.yaml)'
+    );
+  });
+
+  it('should reject circular extends', async () => {
+    await writeConfig(join(testDir, 'shared', 'a.yaml'), 'extends: ./b.yaml\n');
+    await writeConfig(join(testDir, 'shared', 'b.yaml'), 'extends: ./a.yaml\n');
+    await writeConfig(join(testDir, CONFIG_FILE), 'extends: ./shared/a.yaml\n');
+
+    expect(() => resolveConfigChain(join(testDir, CONFIG_FILE))).toThrow(
+      `Circular extends: ${CONFIG_FILE} → ${join('shared', 'a.yaml')} → ${join('shared', 'b.yaml')} → ${join('shared', 'a.yaml')}`
+    );
+  });
+});
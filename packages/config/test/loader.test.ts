@@ -96,6 +96,35 @@ validation:
       await expect(loadConfigFromFile(configPath)).rejects.toThrow();
     });
 
+    it('should merge the configs it extends before validating', async () => {
+      await writeFile(join(testDir, 'base.yaml'), `
+validation:
+  phases:
+    - name: Testing
+      steps:
+        - name: Unit
+          command: npm test
+git:
+  mainBranch: develop
+`);
+      const configPath = join(testDir, YAML_CONFIG_FILE);
+      await writeFile(configPath, `
+extends: ./base.yaml
+validation:
+  phases:
+    - name: Testing
+      steps:
+        - name: Unit
+          command: npm run test:unit
+`);
+
+      const loaded = await loadConfigFromFile(configPath);
+
+      expect(loaded).not.toHaveProperty('extends');
+      expect(loaded.validation.phases[0].steps[0].command).toBe('npm run test:unit');
+      expect(loaded.git.mainBranch).toBe('develop');
+    });
+
     it('should ignore $schema property in YAML config', async () => {
       const configPath = join(testDir, YAML_CONFIG_FILE);
       const yamlWithSchema = `
@@ -0,0 +1,110 @@
+/**
+ * Tests for validation profiles
+ */
+
+import { describe, it, expect } from 'vitest';
+
+import { analyzeProfiles, applyProfile, filterPhasesByProfile } from '../src/profiles.js';
+import { safeValidateConfig, type ValidationPhase, type VibeValidateConfig } from '../src/schema.js';
+
+const PHASES: ValidationPhase[] = [
+  {
+    name: 'Checks',
+    parallel: true,
+    steps: [
+      { name: 'Lint', command: 'npm run lint', tags: ['fast'] },
+      { name: 'Typecheck', command: 'tsc --noEmit', tags: ['fast'] },
+    ],
+  },
+  {
+    name: 'Testing',
+    steps: [
+      { name: 'Unit', command: 'npm test', tags: ['fast'] },
+      { name: 'E2E', command: 'npm run test:e2e', tags: ['slow'], dependsOn: ['Unit'] },
+    ],
+  },
+];
+
+/**
+ * Step names of each phase
+ *
+ * @param phases - Phases to summarize
+ * @returns Step names keyed by phase name
+ */
+function stepNames(phases: ValidationPhase[]): Record<string, string[]> {
+  return Object.fromEntries(phases.map(phase => [phase.name, phase.steps.map(step => step.name)]));
+}
+
+describe('filterPhasesByProfile', () => {
+  it('should select steps by tag, step name or phase name', () => {
+    expect(stepNames(filterPhasesByProfile(PHASES, { include: ['fast'] }))).toEqual({
+      Checks: ['Lint', 'Typecheck'],
+      Testing: ['Unit'],
+    });
+    expect(stepNames(filterPhasesByProfile(PHASES, { include: ['Lint', 'Testing'] }))).toEqual({
+      Checks: ['Lint'],
+      Testing: ['Unit', 'E2E'],
+    });
+  });
+
+  it('should drop excluded steps and phases left empty', () => {
+    expect(stepNames(filterPhasesByProfile(PHASES, { exclude: ['Checks', 'slow'] }))).toEqual({
+      Testing: ['Unit'],
+    });
+  });
+});
+
+describe('applyProfile', () => {
+  const config: VibeValidateConfig = {
+    validation: { phases: PHASES },
+    profiles: { quick: { include: ['fast'] }, full: {} },
+  };
+
+  it('should limit the config to the profile steps', () => {
+    const quick = applyProfile(config, 'quick');
+
+    expect(stepNames(quick.validation.phases)).toEqual({ Checks: ['Lint', 'Typecheck'], Testing: ['Unit'] });
+    expect(config.validation.phases[1].steps).toHaveLength(2);
+  });
+
+  it('should list the available profiles for an unknown name', () => {
+    expect(() => applyProfile(config, 'quik')).toThrow('Unknown profile "quik". Available profiles: quick, full');
+    expect(() => applyProfile({ validation: { phases: PHASES } }, 'quick')).toThrow(
+      'Unknown profile "quick": no profiles are defined in the config'
+    );
+  });
+});
+
+describe('analyzeProfiles', () => {
+  it('should accept profiles that match the configured steps', () => {
+    expect(analyzeProfiles({ quick: { include: ['fast'] }, ci: { exclude: ['Lint'] } }, PHASES)).toEqual([]);
+  });
+
+  it('should report entries that match nothing and profiles without steps', () => {
+    expect(analyzeProfiles({ quick: { include: ['fats'] } }, PHASES)).toEqual([
+      { path: ['profiles', 'quick', 'include', 0], message: '"fats" matches no phase, step or tag' },
+      { path: ['profiles', 'quick'], message: 'Profile "quick" selects no steps' },
+    ]);
+  });
+
+  it('should report a selected step whose dependency is left out', () => {
+    expect(analyzeProfiles({ e2e: { include: ['slow'] } }, PHASES)).toEqual([
+      { path: ['profiles', 'e2e'], message: 'Profile "e2e" selects "E2E" but not "Unit", which it depends on' },
+    ]);
+  });
+
+  it('should be reported by config validation', () => {
+    const result = safeValidateConfig({
+      validation: { phases: PHASES },
+      profiles: { quick: { include: ['Lnt'] } },
+    });
+
+    expect(result).toEqual({
+      success: false,
+      errors: [
+        'profiles.quick.include.0: "Lnt" matches no phase, step or tag',
+        'profiles.quick: Profile "quick" selects no steps',
+      ],
+    });
+  });
+});
@@ -9,6 +9,8 @@ import {
   safeValidateConfig,
   ValidationStepSchema,
   ValidationPhaseSchema,
+  ValidationConfigSchema,
+  ValidationHistoryConfigSchema,
 } from '../src/schema.js';
 
 /**
@@ -1187,3 +1189,301 @@ describe('ValidationStepSchema - runScope', () => {
     expect(steps?.[2]?.runScope).toBe('local');
   });
 });
+
+/**
+ * Build a config with a Build phase (Install, Compile) and a Check phase (Lint, Test)
+ * @param checkSteps - Steps for the Check phase
+ * @returns A config object
+ */
+function createDependencyConfig(checkSteps: Array<Record<string, unknown>>) {
+  return createBaseConfig({
+    validation: {
+      phases: [
+        {
+          name: 'Build',
+          steps: [
+            { name: 'Install', command: 'npm ci' },
+            { name: 'Compile', command: 'npm run build' },
+          ],
+        },
+        { name: 'Check', parallel: true, steps: checkSteps },
+      ],
+    },
+  });
+}
+
+describe('ValidationStepSchema - dependsOn', () => {
+  it('should accept dependsOn referencing steps in any phase', () => {
+    const result = expectValidConfig(createDependencyConfig([
+      { name: 'Lint', command: 'npm run lint', dependsOn: ['Install'] },
+      { name: 'Test', command: 'npm test', dependsOn: ['Compile', 'Lint'] },
+    ]));
+
+    const steps = result.data?.validation?.phases?.[1]?.steps;
+    expect(steps?.[0]?.dependsOn).toEqual(['Install']);
+    expect(steps?.[1]?.dependsOn).toEqual(['Compile', 'Lint']);
+  });
+
+  it('should accept an empty dependsOn list', () => {
+    expectValidConfig(createDependencyConfig([
+      { name: 'Lint', command: 'npm run lint', dependsOn: [] },
+    ]));
+  });
+
+  it('should reject unknown step names with the dependsOn path', () => {
+    const result = expectInvalidConfig(
+      createDependencyConfig([{ name: 'Lint', command: 'npm run lint', dependsOn: ['Typecheck'] }]),
+      'Unknown step "Typecheck"'
+    );
+    expect(result.errors.some(e => e.startsWith('validation.phases.1.steps.0.dependsOn.0:'))).toBe(true);
+  });
+
+  it('should reject a step depending on itself', () => {
+    expectInvalidConfig(
+      createDependencyConfig([{ name: 'Lint', command: 'npm run lint', dependsOn: ['Lint'] }]),
+      'cannot depend on itself'
+    );
+  });
+
+  it('should reject dependencies on ambiguous step names', () => {
+    expectInvalidConfig(
+      createDependencyConfig([
+        { name: 'Compile', command: 'npm run build:types' },
+        { name: 'Lint', command: 'npm run lint', dependsOn: ['Compile'] },
+      ]),
+      'Ambiguous dependency "Compile"'
+    );
+  });
+
+  it('should reject circular dependencies and show the cycle', () => {
+    expectInvalidConfig(
+      createDependencyConfig([
+        { name: 'Lint', command: 'npm run lint', dependsOn: ['Test'] },
+        { name: 'Test', command: 'npm test', dependsOn: ['Lint'] },
+      ]),
+      /Circular step dependency: (Lint → Test → Lint|Test → Lint → Test)/
+    );
+  });
+
+  it('should reject cycles through implicit phase ordering', () => {
+    // Install (phase 1) depends on Lint (phase 2), which implicitly waits for phase 1
+    const config = createDependencyConfig([{ name: 'Lint', command: 'npm run lint' }]);
+    const phases = (config.validation as { phases: Array<{ steps: Array<Record<string, unknown>> }> }).phases;
+    phases[0].steps[0].dependsOn = ['Lint'];
+
+    expectInvalidConfig(config, 'Circular step dependency');
+  });
+
+  it('should reject empty dependency names', () => {
+    expectInvalidConfig(
+      createDependencyConfig([{ name: 'Lint', command: 'npm run lint', dependsOn: [''] }]),
+      'Dependency name cannot be empty'
+    );
+  });
+});
+
+describe('ValidationStepSchema - inputs', () => {
+  it('should accept include and exclude globs', () => {
+    const result = ValidationStepSchema.parse({
+      name: 'Test',
+      command: 'npm test',
+      inputs: ['packages/cli/**', '!**/*.md'],
+    });
+
+    expect(result.inputs).toEqual(['packages/cli/**', '!**/*.md']);
+  });
+
+  it('should reject an empty inputs list', () => {
+    expect(() => ValidationStepSchema.parse({ name: 'Test', command: 'npm test', inputs: [] }))
+      .toThrow(/at least one pattern/);
+  });
+
+  it('should reject empty patterns and a bare "!"', () => {
+    expect(() => ValidationStepSchema.parse({ name: 'Test', command: 'npm test', inputs: [''] }))
+      .toThrow(/cannot be empty/);
+    expect(() => ValidationStepSchema.parse({ name: 'Test', command: 'npm test', inputs: ['!'] }))
+      .toThrow(/needs a pattern after/);
+  });
+});
+
+describe('maxConcurrency', () => {
+  it('should accept a global limit and a phase override', () => {
+    const result = validateConfig(createBaseConfig({
+      validation: {
+        maxConcurrency: 4,
+        phases: [{ name: 'Test', maxConcurrency: 1, steps: [{ name: 'Test', command: 'npm test' }] }],
+      },
+    }));
+
+    expect(result.validation.maxConcurrency).toBe(4);
+    expect(result.validation.phases[0].maxConcurrency).toBe(1);
+  });
+
+  it.each([0, -2, 1.5])('should reject %s', (value) => {
+    const phase = { name: 'Testing', maxConcurrency: value, steps: [{ name: 'Tests', command: 'npm test' }] };
+
+    expect(() => ValidationPhaseSchema.parse(phase)).toThrow();
+  });
+});
+
+describe('ValidationStepSchema - retries', () => {
+  it('should accept a retry count with an optional output filter', () => {
+    const result = ValidationStepSchema.parse({
+      name: 'Test',
+      command: 'npm test',
+      retries: { count: 2, onlyIfOutputMatches: 'ECONNRESET|ETIMEDOUT' },
+    });
+
+    expect(result.retries).toEqual({ count: 2, onlyIfOutputMatches: 'ECONNRESET|ETIMEDOUT' });
+  });
+
+  it('should reject a retry count below 1', () => {
+    expect(() => ValidationStepSchema.parse({ name: 'Test', command: 'npm test', retries: { count: 0 } }))
+      .toThrow(/at least 1/);
+  });
+
+  it('should reject an invalid regular expression', () => {
+    expect(() => ValidationStepSchema.parse({
+      name: 'Test',
+      command: 'npm test',
+      retries: { count: 1, onlyIfOutputMatches: '(unclosed' },
+    })).toThrow(/valid regular expression/);
+  });
+});
+
+describe('ValidationStepSchema - timeout', () => {
+  it('should accept milliseconds or a timeout policy', () => {
+    expect(ValidationStepSchema.parse({ name: 'Test', command: 'npm test', timeout: 60000 }).timeout).toBe(60000);
+
+    const result = ValidationStepSchema.parse({
+      name: 'Test',
+      command: 'npm test',
+      timeout: { after: 600000, warnAfter: 300000, killAfter: 10000, tailLines: 20 },
+    });
+    expect(result.timeout).toEqual({ after: 600000, warnAfter: 300000, killAfter: 10000, tailLines: 20 });
+  });
+
+  it('should reject a warning that comes after the timeout', () => {
+    expect(() => ValidationStepSchema.parse({
+      name: 'Test',
+      command: 'npm test',
+      timeout: { after: 60000, warnAfter: 60000 },
+    })).toThrow(/warnAfter must be less than after/);
+  });
+});
+
+describe('ValidationConfigSchema - resourceBudget', () => {
+  const phases = [{ name: 'Testing', steps: [{ name: 'Unit Tests', command: 'npm test' }] }];
+
+  it('should accept budgets for configured steps', () => {
+    const result = ValidationConfigSchema.parse({
+      phases,
+      resourceBudget: { 'Unit Tests': { maxRssMb: 2048, maxCpuSecs: 600, onExceed: 'fail' } },
+    });
+
+    expect(result.resourceBudget).toEqual({ 'Unit Tests': { maxRssMb: 2048, maxCpuSecs: 600, onExceed: 'fail' } });
+  });
+
+  it('should reject a budget without limits or for an unknown step', () => {
+    expect(() => ValidationConfigSchema.parse({ phases, resourceBudget: { 'Unit Tests': { onExceed: 'warn' } } }))
+      .toThrow(/needs maxRssMb or maxCpuSecs/);
+    expect(() => ValidationConfigSchema.parse({ phases, resourceBudget: { 'Unit Test': { maxRssMb: 512 } } }))
+      .toThrow(/Resource budget for unknown step/);
+  });
+});
+
+describe('ValidationStepSchema - when', () => {
+  it('should accept changed globs and env conditions', () => {
+    const result = ValidationStepSchema.parse({
+      name: 'Gradle',
+      command: './gradlew check',
+      when: { changed: ['backend/**', '!**/*.md'], env: { RUN_JAVA: 'true' } },
+    });
+
+    expect(result.when).toEqual({ changed: ['backend/**', '!**/*.md'], env: { RUN_JAVA: 'true' } });
+  });
+
+  it('should reject a when block without conditions', () => {
+    expect(() => ValidationStepSchema.parse({ name: 'Gradle', command: './gradlew check', when: {} }))
+      .toThrow(/at least one condition/);
+  });
+
+  it('should reject unknown conditions and empty patterns', () => {
+    expect(() => ValidationStepSchema.parse({ name: 'Gradle', command: 'x', when: { branch: 'main' } })).toThrow();
+    expect(() => ValidationStepSchema.parse({ name: 'Gradle', command: 'x', when: { changed: [''] } }))
+      .toThrow(/cannot be empty/);
+  });
+});
+
+describe('ValidationStepSchema - extractor', () => {
+  it('should accept one extractor or a chain of extractors', () => {
+    expect(ValidationStepSchema.parse({ name: 'Build', command: 'tsc', extractor: 'typescript' }).extractor).toBe('typescript');
+
+    const result = ValidationStepSchema.parse({
+      name: 'Build and test',
+      command: 'pnpm build && pnpm test',
+      extractors: ['typescript', 'vitest'],
+    });
+    expect(result.extractors).toEqual(['typescript', 'vitest']);
+  });
+
+  it('should reject both extractor and extractors on one step', () => {
+    expect(() => ValidationStepSchema.parse({
+      name: 'Build',
+      command: 'tsc',
+      extractor: 'typescript',
+      extractors: ['vitest'],
+    })).toThrow(/either extractor or extractors/);
+  });
+
+  it('should reject empty extractor names and lists', () => {
+    expect(() => ValidationStepSchema.parse({ name: 'Build', command: 'tsc', extractor: '' })).toThrow(/cannot be empty/);
+    expect(() => ValidationStepSchema.parse({ name: 'Build', command: 'tsc', extractors: [] })).toThrow(/at least one extractor/);
+  });
+});
+
+describe('ValidationHistoryConfigSchema', () => {
+  it('should default sync to off and accept a remote', () => {
+    expect(ValidationHistoryConfigSchema.parse({})).toEqual({ sync: 'off', trust: 'any' });
+    expect(ValidationHistoryConfigSchema.parse({ sync: 'auto', remote: 'upstream' })).toEqual({
+      sync: 'auto',
+      remote: 'upstream',
+      trust: 'any',
+    });
+  });
+
+  it('should reject unknown sync modes and keys', () => {
+    expect(() => ValidationHistoryConfigSchema.parse({ sync: 'always' })).toThrow();
+    expect(() => ValidationHistoryConfigSchema.parse({ push: true })).toThrow();
+  });
+});
+
+describe('ValidationHistoryConfigSchema - trust and signing', () => {
+  it('should accept trust policies and signing methods', () => {
+    expect(ValidationHistoryConfigSchema.parse({ trust: 'ci-only', sign: 'hmac' })).toMatchObject({
+      trust: 'ci-only',
+      sign: 'hmac',
+    });
+    expect(ValidationHistoryConfigSchema.parse({ trust: 'signed', sign: 'git' }).sign).toBe('git');
+  });
+
+  it('should reject unknown trust policies and signing methods', () => {
+    expect(() => ValidationHistoryConfigSchema.parse({ trust: 'everyone' })).toThrow();
+    expect(() => ValidationHistoryConfigSchema.parse({ sign: 'gpg' })).toThrow();
+  });
+});
+
+describe('ValidationHistoryConfigSchema - retention', () => {
+  it('should leave keepReachableFrom unset (resolved from git.mainBranch)', () => {
+    expect(ValidationHistoryConfigSchema.parse({ retention: { keepRunsPerBranch: 20, pruneUnreachableAfterDays: 30 } }).retention).toEqual({
+      keepRunsPerBranch: 20,
+      pruneUnreachableAfterDays: 30,
+    });
+  });
+
+  it('should reject invalid counts and unknown keys', () => {
+    expect(() => ValidationHistoryConfigSchema.parse({ retention: { keepRunsPerBranch: 0 } })).toThrow();
+    expect(() => ValidationHistoryConfigSchema.parse({ retention: { keepRunsPerBranch: 2.5 } })).toThrow();
+    expect(() => ValidationHistoryConfigSchema.parse({ retention: { maxAgeDays: 30 } })).toThrow();
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * Tests for step dependency graph resolution
+ */
+
+import { describe, it, expect } from 'vitest';
+
+import type { ValidationPhase } from '../src/schema.js';
+import { analyzeStepGraph, buildStepGraph } from '../src/step-graph.js';
+
+const PHASES: ValidationPhase[] = [
+  {
+    name: 'Setup',
+    parallel: false,
+    steps: [
+      { name: 'Install', command: 'npm ci' },
+      { name: 'Build', command: 'npm run build' },
+    ],
+  },
+  {
+    name: 'Checks',
+    parallel: true,
+    steps: [
+      { name: 'Lint', command: 'npm run lint' },
+      { name: 'Test', command: 'npm test' },
+    ],
+  },
+];
+
+describe('buildStepGraph', () => {
+  it('should create one node per step in config order', () => {
+    const graph = buildStepGraph(PHASES);
+
+    expect(graph.nodes.map(node => node.step.name)).toEqual(['Install', 'Build', 'Lint', 'Test']);
+    expect(graph.nodes.map(node => node.phaseName)).toEqual(['Setup', 'Setup', 'Checks', 'Checks']);
+  });
+
+  it('should order steps within a sequential phase without requiring them to pass', () => {
+    const graph = buildStepGraph(PHASES);
+
+    expect(graph.nodes[1].after).toEqual([0]);
+    expect(graph.nodes[1].requires).toEqual([]);
+  });
+
+  it('should require every step of earlier phases by default', () => {
+    const graph = buildStepGraph(PHASES);
+
+    expect(graph.nodes[2].requires).toEqual([0, 1]);
+    expect(graph.nodes[3].requires).toEqual([0, 1]);
+    expect(graph.nodes[3].after).toEqual([]);
+  });
+
+  it('should replace implicit dependencies with dependsOn', () => {
+    const phases = structuredClone(PHASES);
+    phases[1].steps[0].dependsOn = ['Install'];
+    phases[0].steps[1].dependsOn = [];
+
+    const graph = buildStepGraph(phases);
+
+    expect(graph.nodes[2].requires).toEqual([0]);
+    expect(graph.nodes[1].requires).toEqual([]);
+    expect(graph.nodes[1].after).toEqual([]);
+  });
+
+  it('should throw listing every issue', () => {
+    const phases = structuredClone(PHASES);
+    phases[1].steps[0].dependsOn = ['Missing'];
+    phases[1].steps[1].dependsOn = ['Test'];
+
+    expect(() => buildStepGraph(phases)).toThrow(
+      /Invalid step dependencies:\n {2}- phases\.1\.steps\.0\.dependsOn\.0: Unknown step "Missing".*\n {2}- phases\.1\.steps\.1\.dependsOn\.0: Step "Test" cannot depend on itself/
+    );
+  });
+});
+
+describe('analyzeStepGraph', () => {
+  it('should report no issues for a valid graph', () => {
+    expect(analyzeStepGraph(PHASES).issues).toEqual([]);
+  });
+
+  it('should report a cycle once, at a step that declares dependsOn', () => {
+    const phases = structuredClone(PHASES);
+    phases[0].steps[0].dependsOn = ['Test'];
+
+    const { issues } = analyzeStepGraph(phases);
+
+    expect(issues).toEqual([
+      {
+        path: ['phases', 0, 'steps', 0, 'dependsOn'],
+        message: 'Circular step dependency: Install → Test → Install',
+      },
+    ]);
+  });
+});
@@ -55,6 +55,10 @@ export type {
 export type {
   ValidationResult,
   StepResult,
+  StepAttempt,
+  StepSkip,
+  StepResourceUsage,
+  FlakyTest,
   PhaseResult,
   OutputFiles,
 } from './result-schema.js';
@@ -62,12 +66,14 @@ export type {
 // Export runtime types (from runner.ts - non-serializable)
 export type {
   ValidationConfig,
+  StepCacheLookup,
 } from './runner.js';
 
 // Export core runner functions
 export {
   runValidation,
   runStepsInParallel,
+  discoverLocalExtractorPlugins,
   parseFailures,
   setupSignalHandlers,
   findPreviousStepResult,
@@ -75,15 +81,39 @@ export {
   shouldSkipByRunScope,
 } from './runner.js';
 
+// Export step dependency scheduling
+export {
+  scheduleSteps,
+  type ScheduledStepState,
+  type StepSchedulerOptions,
+  type StepSchedulerResult,
+} from './step-scheduler.js';
+
+// Export step selection (validate --only/--skip)
+export {
+  isPartialSelection,
+  selectSteps,
+  type StepSelection,
+} from './step-selection.js';
+
+// Step resource usage (sampled from /proc on Linux)
+export {
+  checkResourceBudget,
+  formatResourceUsage,
+  startResourceSampler,
+} from './resource-usage.js';
+
 // Export process utilities
 export {
   stopProcessGroup,
+  listProcessGroup,
   spawnCommand,
   captureCommandOutput,
   getGitRoot,
   resolveGitRelativePath,
   stripGitEnv,
   type CaptureCommandOptions,
+  type ProcessInfo,
 } from './process-utils.js';
 
 // Export filesystem utilities
@@ -99,6 +129,10 @@ export {
 export {
   ValidationResultSchema,
   StepResultSchema,
+  StepAttemptSchema,
+  StepSkipSchema,
+  StepResourceUsageSchema,
+  FlakyTestSchema,
   PhaseResultSchema,
   CommandExecutionSchema,
   OperationMetadataSchema,
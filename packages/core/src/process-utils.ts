@@ -67,11 +67,12 @@ export function resolveGitRelativePath(cwd: string): string {
  * **Unix Implementation:**
  * - Uses negative PID to kill process group (-PID)
  * - Graceful shutdown: SIGTERM to process group
- * - Force kill after 1s: SIGKILL to process group
+ * - Force kill after the grace period (default 1s): SIGKILL to process group
  *
  * @param childProcess - The child process to stop
  * @param processName - Optional name for logging (e.g., "TypeScript", "ESLint")
- * @returns Promise that resolves when process is stopped
+ * @param options - Optional grace period before SIGKILL (`gracePeriodMs`, default 1000)
+ * @returns Promise that resolves when process is stopped (at the latest 1s after SIGKILL)
  *
  * @example
  * ```typescript
@@ -81,8 +82,10 @@ export function resolveGitRelativePath(cwd: string): string {
  */
 export async function stopProcessGroup(
   childProcess: ChildProcess,
-  processName: string = 'Process'
+  processName: string = 'Process',
+  options: { gracePeriodMs?: number } = {}
 ): Promise<void> {
+  const gracePeriodMs = options.gracePeriodMs ?? 1000;
   return new Promise((resolve) => {
     if (!childProcess.killed && childProcess.pid) {
       const pid = childProcess.pid;
@@ -111,26 +114,72 @@ export async function stopProcessGroup(
           // Process may already be dead, ignore error
         }
 
-        // Force kill entire process group after 1 second if not stopped
+        // Force kill entire process group after the grace period if not stopped
         setTimeout(() => {
           try {
             process.kill(-pid, 'SIGKILL');
           } catch {
             // Process may already be dead, ignore error
           }
-        }, 1000);
+        }, gracePeriodMs);
       }
 
-      // Ultimate timeout - resolve after 2 seconds regardless
+      // Ultimate timeout - resolve 1 second after SIGKILL regardless
       setTimeout(() => {
         resolve();
-      }, 2000);
+      }, gracePeriodMs + 1000);
     } else {
       resolve();
     }
   });
 }
 
+/**
+ * A process found by listProcessGroup
+ */
+export interface ProcessInfo {
+  /** Process ID */
+  pid: number;
+  /** Parent process ID */
+  ppid: number;
+  /** Time since the process started, as reported by ps (e.g., "05:01") */
+  elapsed: string;
+  /** Command line */
+  command: string;
+}
+
+/**
+ * List the processes still alive in a process group (Unix only)
+ *
+ * Steps are spawned detached, so a step's process group ID is the PID of its
+ * shell. Used to report what was still running when a step timed out.
+ *
+ * @param pgid - Process group ID
+ * @returns Processes in the group, or an empty list on Windows or if `ps` fails
+ */
+export function listProcessGroup(pgid: number): ProcessInfo[] {
+  if (process.platform === 'win32') {
+    return [];
+  }
+
+  let output: string;
+  try {
+    // eslint-disable-next-line local/no-unix-shell-commands -- Unix only: Windows returns above
+    output = safeExecSync('ps', ['-A', '-o', 'pid=,ppid=,pgid=,etime=,args='], { encoding: 'utf8' }) as string;
+  } catch {
+    return [];
+  }
+
+  const processes: ProcessInfo[] = [];
+  for (const line of output.split('\n')) {
+    const [pid, ppid, group, elapsed, ...args] = line.trim().split(/\s+/);
+    if (Number(group) === pgid && args.length > 0) {
+      processes.push({ pid: Number(pid), ppid: Number(ppid), elapsed, command: args.join(' ') });
+    }
+  }
+  return processes;
+}
+
 /**
  * Re-exported from `@vibe-validate/git`, where the hazard knowledge now lives.
  *
@@ -0,0 +1,235 @@
+/**
+ * Resource Usage - memory and CPU of a step's process group
+ *
+ * Steps are spawned detached, so each runs in its own process group (whose
+ * ID is the PID of the step's shell). While a step runs, /proc is sampled for
+ * the processes of that group: their combined resident memory gives the peak
+ * RSS, and their CPU times, with those of the children they have waited for,
+ * add up to the step's CPU time. Linux only - other platforms report no usage.
+ *
+ * @packageDocumentation
+ */
+
+import { readdirSync, readFileSync } from 'node:fs';
+
+import type { StepResourceBudget } from '@vibe-validate/config';
+
+import type { StepResourceUsage } from './result-schema.js';
+
+/** How often running process groups are sampled */
+export const SAMPLE_INTERVAL_MS = 500;
+
+/** Kernel clock ticks per second (USER_HZ, 100 on every mainstream Linux) */
+const CLOCK_TICKS_PER_SECOND = 100;
+
+/**
+ * Fields of /proc/<pid>/stat that the sampler uses
+ *
+ * @internal
+ */
+interface ProcStat {
+  pgrp: number;
+  /** User CPU ticks of the process and of its children it has waited for */
+  userTicks: number;
+  /** System CPU ticks of the process and of its children it has waited for */
+  systemTicks: number;
+}
+
+/**
+ * Parse /proc/<pid>/stat (the command name may contain spaces and parens,
+ * so fields are counted from the last ")")
+ *
+ * @internal
+ */
+function parseProcStat(content: string): ProcStat | null {
+  const fields = content.slice(content.lastIndexOf(')') + 2).split(' ');
+  // After the name: state, ppid, pgrp, ... utime (12th), stime, cutime, cstime (15th)
+  const [pgrp, utime, stime, cutime, cstime] = [fields[2], fields[11], fields[12], fields[13], fields[14]].map(Number);
+  if ([pgrp, utime, stime, cutime, cstime].some(field => Number.isNaN(field))) {
+    return null;
+  }
+  return { pgrp, userTicks: utime + cutime, systemTicks: stime + cstime };
+}
+
+/**
+ * Read a process's resident memory from /proc/<pid>/status, in kB
+ *
+ * @internal
+ */
+function readRssKb(pid: string): number {
+  const match = /^VmRSS:\s+(\d+) kB/m.exec(readFileSync(`/proc/${pid}/status`, 'utf-8'));
+  return match ? Number(match[1]) : 0;
+}
+
+/**
+ * A process group's combined usage in one /proc snapshot
+ *
+ * @internal
+ */
+interface UsageSnapshot {
+  rssKb: number;
+  userTicks: number;
+  systemTicks: number;
+}
+
+/**
+ * Running totals of a sampled process group
+ *
+ * @internal
+ */
+interface UsageTotals {
+  peakRssKb: number;
+  /**
+   * Highest CPU ticks of a snapshot. A process's ticks include the children
+   * it has waited for, so a child that exits between samples still counts
+   * (through its parent) and the snapshot totals only grow.
+   */
+  userTicks: number;
+  systemTicks: number;
+  /** Every PID seen in the group */
+  pids: Set<number>;
+}
+
+/** Process groups being sampled, by process group ID */
+const sampledGroups = new Map<number, UsageTotals>();
+
+/** The one timer that samples every group in `sampledGroups` */
+let sampleTimer: ReturnType<typeof setInterval> | undefined;
+
+/**
+ * Add one /proc snapshot to the totals of every sampled process group
+ *
+ * @internal
+ */
+function sampleProcessGroups(): void {
+  const snapshots = new Map<number, UsageSnapshot>();
+  for (const entry of readdirSync('/proc')) {
+    if (!/^\d+$/.test(entry)) {
+      continue;
+    }
+    try {
+      const stat = parseProcStat(readFileSync(`/proc/${entry}/stat`, 'utf-8'));
+      const totals = stat ? sampledGroups.get(stat.pgrp) : undefined;
+      if (!stat || !totals) {
+        continue;
+      }
+      const snapshot = snapshots.get(stat.pgrp) ?? { rssKb: 0, userTicks: 0, systemTicks: 0 };
+      snapshot.rssKb += readRssKb(entry);
+      snapshot.userTicks += stat.userTicks;
+      snapshot.systemTicks += stat.systemTicks;
+      snapshots.set(stat.pgrp, snapshot);
+      totals.pids.add(Number(entry));
+    } catch {
+      // The process exited while it was being read
+    }
+  }
+
+  for (const [pgid, snapshot] of snapshots) {
+    const totals = sampledGroups.get(pgid) as UsageTotals;
+    totals.peakRssKb = Math.max(totals.peakRssKb, snapshot.rssKb);
+    totals.userTicks = Math.max(totals.userTicks, snapshot.userTicks);
+    totals.systemTicks = Math.max(totals.systemTicks, snapshot.systemTicks);
+  }
+}
+
+/**
+ * Sample every running process group, ignoring an unreadable /proc
+ *
+ * @internal
+ */
+function sampleAll(): void {
+  try {
+    sampleProcessGroups();
+  } catch {
+    // /proc unavailable (e.g. a restricted container) - report nothing
+  }
+}
+
+/**
+ * Convert the totals of a sampled process group to resource usage
+ *
+ * @returns The usage, or undefined if no process was ever sampled
+ * @internal
+ */
+function summarizeUsage(pgid: number, totals: UsageTotals): StepResourceUsage | undefined {
+  if (totals.pids.size === 0) {
+    return;
+  }
+  const seconds = (ticks: number) => Number.parseFloat((ticks / CLOCK_TICKS_PER_SECOND).toFixed(2));
+  return {
+    peakRssMb: Number.parseFloat((totals.peakRssKb / 1024).toFixed(1)),
+    cpuUserSecs: seconds(totals.userTicks),
+    cpuSystemSecs: seconds(totals.systemTicks),
+    childProcesses: [...totals.pids].filter(pid => pid !== pgid).length,
+  };
+}
+
+/**
+ * Sample the resource usage of a process group until stopped
+ *
+ * All running groups share one timer, so each tick reads /proc once however
+ * many steps run in parallel.
+ *
+ * @param pgid - Process group ID (the PID of a detached step's shell)
+ * @returns `stop`, to call once the process has exited: ends sampling and
+ *   returns the usage, or undefined when nothing could be sampled (not Linux,
+ *   or the step exited before the first sample)
+ *
+ * @example
+ * ```typescript
+ * const sampler = startResourceSampler(proc.pid);
+ * await exited;
+ * const resources = sampler.stop(); // { peakRssMb: 512.3, cpuUserSecs: 30.1, ... }
+ * ```
+ */
+export function startResourceSampler(pgid: number): { stop: () => StepResourceUsage | undefined } {
+  const totals: UsageTotals = { peakRssKb: 0, userTicks: 0, systemTicks: 0, pids: new Set() };
+  if (process.platform !== 'linux') {
+    return { stop: () => summarizeUsage(pgid, totals) };
+  }
+
+  sampledGroups.set(pgid, totals);
+  sampleAll();
+  sampleTimer ??= setInterval(sampleAll, SAMPLE_INTERVAL_MS);
+
+  return {
+    stop: () => {
+      sampledGroups.delete(pgid);
+      if (sampledGroups.size === 0) {
+        clearInterval(sampleTimer);
+        sampleTimer = undefined;
+      }
+      return summarizeUsage(pgid, totals);
+    },
+  };
+}
+
+/**
+ * Compare a step's resource usage with its budget
+ *
+ * @param usage - Resources the step used
+ * @param budget - The step's entry in `validation.resourceBudget`
+ * @returns One description per exceeded limit (empty when within budget)
+ */
+export function checkResourceBudget(usage: StepResourceUsage, budget: StepResourceBudget): string[] {
+  const exceeded: string[] = [];
+  if (budget.maxRssMb !== undefined && usage.peakRssMb > budget.maxRssMb) {
+    exceeded.push(`peak RSS ${usage.peakRssMb}MB exceeds ${budget.maxRssMb}MB`);
+  }
+  const cpuSecs = Number.parseFloat((usage.cpuUserSecs + usage.cpuSystemSecs).toFixed(2));
+  if (budget.maxCpuSecs !== undefined && cpuSecs > budget.maxCpuSecs) {
+    exceeded.push(`CPU time ${cpuSecs}s exceeds ${budget.maxCpuSecs}s`);
+  }
+  return exceeded;
+}
+
+/**
+ * Format resource usage for display (e.g. "peak 512.3MB, CPU 30.1s user / 2.3s sys, 14 processes")
+ *
+ * @param usage - Resources a step used
+ * @returns One-line summary
+ */
+export function formatResourceUsage(usage: StepResourceUsage): string {
+  const processes = usage.childProcesses === 1 ? '1 process' : `${usage.childProcesses} processes`;
+  return `peak ${usage.peakRssMb}MB, CPU ${usage.cpuUserSecs}s user / ${usage.cpuSystemSecs}s sys, ${processes}`;
+}
@@ -67,6 +67,71 @@ export const OperationMetadataSchema = z.object({
   treeHash: z.string().min(1).optional(),
 });
 
+/**
+ * Step Attempt Schema
+ *
+ * One execution of a step that was retried.
+ */
+export const StepAttemptSchema = z.object({
+  /** Exit code of this attempt */
+  exitCode: z.number().int(),
+
+  /** Duration of this attempt in seconds */
+  durationSecs: z.coerce.number(),
+});
+
+/**
+ * Step Skip Schema
+ *
+ * Why a step was skipped, and whether the skip may be cached.
+ */
+export const StepSkipSchema = z.object({
+  /** Human-readable reason (e.g. "ci-only", "no changes in backend/** since origin/main") */
+  reason: z.string(),
+
+  /**
+   * Whether the skip follows from the code alone. Skips by `when` are not:
+   * `when.changed` depends on the main branch's position and `when.env` on
+   * the environment, so a run containing one is never replayed as a cached
+   * pass. `runScope` skips count as deterministic, as they always have.
+   */
+  deterministic: z.boolean(),
+});
+
+/**
+ * Step Resource Usage Schema
+ *
+ * Resources used by a step's process group, sampled from /proc while the
+ * step ran (Linux only). Processes that lived shorter than the sampling
+ * interval are not counted.
+ */
+export const StepResourceUsageSchema = z.object({
+  /** Highest combined resident memory of the step's processes, in MB */
+  peakRssMb: z.coerce.number(),
+
+  /** User CPU time of the step's processes, in seconds */
+  cpuUserSecs: z.coerce.number(),
+
+  /** System CPU time of the step's processes, in seconds */
+  cpuSystemSecs: z.coerce.number(),
+
+  /** Number of processes the step started (not counting its shell) */
+  childProcesses: z.number().int(),
+});
+
+/**
+ * Flaky Test Schema
+ *
+ * A test in a failing step's extraction that history shows to be flaky.
+ */
+export const FlakyTestSchema = z.object({
+  /** The test, as identified in history (file and first line of the message) */
+  test: z.string(),
+
+  /** Flakiness score between 0 and 1 (see `history flaky`) */
+  score: z.coerce.number(),
+});
+
 /**
  * Validation Step Result Schema
  *
@@ -98,6 +163,56 @@ export const StepResultSchema = CommandExecutionSchema.extend({
   /** Was this result retrieved from cache? (v0.15.0+) */
   isCachedResult: z.boolean().optional(),
 
+  /**
+   * Git tree hash of the step's `inputs` files.
+   *
+   * Present only for steps that declare `inputs`. With `isCachedResult`, this is
+   * the input hash whose recorded pass was reused.
+   */
+  inputsHash: z.string().optional(),
+
+  /**
+   * Every attempt of a step that was retried (see `retries` on the step), in order.
+   *
+   * Present only when the step ran more than once. `exitCode` is that of the
+   * last attempt; `durationSecs` covers all attempts.
+   */
+  attempts: z.array(StepAttemptSchema).optional(),
+
+  /** The step failed, then passed on a retry */
+  flaky: z.boolean().optional(),
+
+  /**
+   * The step was stopped by its timeout (`exitCode` is then 124).
+   *
+   * Tells a hang from a failure; the extraction lists the processes that were
+   * still running and the last lines of output.
+   */
+  timedOut: z.boolean().optional(),
+
+  /** Resources the step used (Linux only) */
+  resources: StepResourceUsageSchema.optional(),
+
+  /**
+   * How the step exceeded its `validation.resourceBudget` (e.g.
+   * "peak RSS 3100MB exceeds 2048MB"). With `onExceed: fail` the step is
+   * reported as failed even though its command exited 0.
+   */
+  budgetExceeded: z.array(z.string()).optional(),
+
+  /**
+   * Present when the step did not run because of its `runScope` or `when`
+   * condition (it is then reported as passed).
+   */
+  skipped: StepSkipSchema.optional(),
+
+  /**
+   * Tests among this failing step's errors that failed and passed on the same
+   * code before, or fail intermittently. Such a failure is probably flaky
+   * rather than caused by the change.
+   */
+  flakyTests: z.array(FlakyTestSchema).optional(),
+
   /** Output files from step execution (v0.15.1+) */
   outputFiles: OutputFilesSchema.optional(),
 });
@@ -162,6 +277,18 @@ export const ValidationResultSchema = OperationMetadataSchema.extend({
   /** Name of failed step (if any) - for quick navigation */
   failedStep: z.string().optional(),
 
+  /**
+   * Profile the run was limited to (`validate --profile`); absent for a run
+   * of every step. A passing profile run does not stand in for a full run.
+   */
+  profile: z.string().optional(),
+
+  /**
+   * Only some of the steps ran (`validate --only/--skip`). A partial run is
+   * recorded in history but never reused as the result for its tree.
+   */
+  partial: z.boolean().optional(),
+
   /** Results from each phase (steps include extraction for failures) */
   phases: z.array(PhaseResultSchema).optional(),
 
@@ -191,6 +318,10 @@ export const ValidationResultStrictSchema = ValidationResultSchema
  * Inferred TypeScript types from Zod schemas
  */
 export type OutputFiles = z.infer<typeof OutputFilesSchema>;
+export type StepAttempt = z.infer<typeof StepAttemptSchema>;
+export type StepSkip = z.infer<typeof StepSkipSchema>;
+export type StepResourceUsage = z.infer<typeof StepResourceUsageSchema>;
+export type FlakyTest = z.infer<typeof FlakyTestSchema>;
 export type StepResult = z.infer<typeof StepResultSchema>;
 export type PhaseResult = z.infer<typeof PhaseResultSchema>;
 export type ValidationResult = z.infer<typeof ValidationResultSchema>;
@@ -16,9 +16,33 @@ import { writeFileSync, appendFileSync } from 'node:fs';
 import { writeFile } from 'node:fs/promises';
 import { join } from 'node:path';
 
-import type { ValidationPhase, ValidationStep, VibeValidateConfig } from '@vibe-validate/config';
-import { autoDetectAndExtract, type ErrorExtractorResult } from '@vibe-validate/extractors';
-import { getGitTreeHash } from '@vibe-validate/git';
+import {
+  buildStepGraph,
+  getMainBranch,
+  getRemoteBranch,
+  type StepCondition,
+  type StepGraph,
+  type StepGraphNode,
+  type StepResourceBudget,
+  type ValidationPhase,
+  type ValidationStep,
+  type VibeValidateConfig,
+} from '@vibe-validate/config';
+import {
+  autoDetectAndExtract,
+  extractWithExtractors,
+  getExtractorByName,
+  type ErrorExtractorResult,
+  type ExtractorPlugin,
+} from '@vibe-validate/extractors';
+import {
+  findChangeBase,
+  getGitTreeHash,
+  getInputTreeHashes,
+  hasChangedPaths,
+  type ChangeBase,
+  type TreeHash,
+} from '@vibe-validate/git';
 import { normalizedTmpdir } from '@vibe-validate/utils';
 import stripAnsi from 'strip-ansi';
 
@@ -36,12 +60,26 @@ import {
   serializeForEnv,
 } from './parent-context.js';
 import { stopProcessGroup, spawnCommand, resolveGitRelativePath } from './process-utils.js';
+import { checkResourceBudget, formatResourceUsage, startResourceSampler } from './resource-usage.js';
 import type {
   ValidationResult,
   StepResult,
+  StepSkip,
+  StepResourceUsage,
   PhaseResult,
+  OutputFiles,
 } from './result-schema.js';
 import { parseVibeValidateOutput } from './run-output-parser.js';
+import { scheduleSteps, type ScheduledStepState } from './step-scheduler.js';
+import { isPartialSelection, selectSteps, type StepSelection } from './step-selection.js';
+import {
+  formatTimeoutReport,
+  resolveTimeoutPolicy,
+  TIMEOUT_EXIT_CODE,
+  watchStepTimeout,
+  type TimeoutPolicy,
+  type TimeoutReport,
+} from './step-timeout.js';
 
 /**
  * Convert a step name into a filesystem-safe slug for output directory paths.
@@ -138,15 +176,18 @@ export function shouldSkipByRunScope(runScope: 'ci' | 'local' | undefined, isCI:
 }
 
 /**
- * Get the human-readable skip reason for a runScope-skipped step.
+ * Get the skip reason for a runScope-skipped step.
+ *
+ * The CI environment does not change within a tree, so the skip is
+ * deterministic.
  *
  * @param runScope - The step's runScope setting
- * @returns Display string for the skip reason
+ * @returns Skip reason recorded on the step result
  *
  * @internal
  */
-function getRunScopeSkipReason(runScope: 'ci' | 'local' | undefined): string {
-  return runScope === 'ci' ? 'skipped (ci-only)' : 'skipped (local-only)';
+function getRunScopeSkip(runScope: 'ci' | 'local' | undefined): StepSkip {
+  return { reason: runScope === 'ci' ? 'ci-only' : 'local-only', deterministic: true };
 }
 
 /**
@@ -168,6 +209,14 @@ export interface ValidationConfig {
   /** Enable fail-fast (stop on first failure) */
   enableFailFast?: boolean;
 
+  /**
+   * Maximum number of steps running at once (default: unlimited)
+   *
+   * A phase's own `maxConcurrency` further limits its steps. The CLI defaults
+   * this to the number of CPUs (see `validation.maxConcurrency` and `--jobs`).
+   */
+  maxConcurrency?: number;
+
   /** Show verbose output (stream command stdout/stderr in real-time) */
   verbose?: boolean;
 
@@ -186,6 +235,29 @@ export interface ValidationConfig {
   /** Extractor plugin configuration (for loading local/external plugins) */
   extractors?: Pick<VibeValidateConfig, 'extractors'>['extractors'];
 
+  /**
+   * Main branch refs that `when.changed` compares against, most preferred
+   * first (default: ["origin/main", "main"])
+   *
+   * The first ref that exists is used; changes are counted since its
+   * merge-base with HEAD.
+   */
+  changedSince?: string[];
+
+  /**
+   * Run only some of the steps (`validate --only/--skip`)
+   *
+   * The result is marked `partial`, so it never stands in for a full run.
+   */
+  selection?: StepSelection;
+
+  /**
+   * Memory and CPU budgets by step name (`validation.resourceBudget`)
+   *
+   * Checked against each step's sampled resource usage when it finishes.
+   */
+  resourceBudget?: Record<string, StepResourceBudget>;
+
   /**
    * Previous validation run for retry-failed functionality
    *
@@ -206,6 +278,15 @@ export interface ValidationConfig {
     result: ValidationResult;
   };
 
+  /**
+   * Look up a recorded pass for a step with `inputs`
+   *
+   * Called with the tree hash of the step's input files before the step runs;
+   * a returned passing result is reused instead of running the step. Provided
+   * by the CLI (backed by git notes). When omitted, steps always run.
+   */
+  findCachedStep?: StepCacheLookup;
+
   /** Callback when phase starts */
   onPhaseStart?: (_phase: ValidationPhase) => void;
 
@@ -220,23 +301,22 @@ export interface ValidationConfig {
 }
 
 /**
- * Options for processing step output
+ * Look up a recorded passing result for a step by its input tree hash
+ *
+ * @see ValidationConfig.findCachedStep
  */
-interface ProcessOutputOptions {
-  /** Show verbose output */
-  verbose: boolean;
-  /** Enable debug mode (create output files for all steps) */
-  debug: boolean;
-  /** Logging function */
-  log: (_msg: string) => void;
-}
+export type StepCacheLookup = (_step: ValidationStep, _inputsHash: string) => Promise<StepResult | null>;
 
 /**
- * Options for step execution (sequential or parallel)
+ * Options for step execution
  */
 interface StepExecutionOptions {
   /** Enable fail-fast (stop on first failure) */
   enableFailFast?: boolean;
+  /** Maximum number of steps running at once (default: unlimited) */
+  maxConcurrency?: number;
+  /** Main branch refs for `when.changed` (see ValidationConfig.changedSince) */
+  changedSince?: string[];
   /** Additional environment variables */
   env?: Record<string, string>;
   /** Show verbose output */
@@ -253,6 +333,10 @@ interface StepExecutionOptions {
   treeHash?: string;
   /** Pre-computed run id for the current run (reused across all steps) */
   runId?: string;
+  /** Lookup for steps with `inputs` whose input hash has a recorded pass */
+  findCachedStep?: StepCacheLookup;
+  /** Memory and CPU budgets by step name */
+  resourceBudget?: Record<string, StepResourceBudget>;
 }
 
 /**
@@ -301,6 +385,7 @@ export function findPreviousStepResult(
  * - Retry-failed mode is enabled
  * - Previous step exists
  * - Previous step passed (exitCode === 0)
+ * - Previous step was not skipped by a non-deterministic condition (`when`)
  *
  * @param previousStep - Step result from previous run (or null if not found)
  * @param isRetryFailed - Whether retry-failed mode is enabled
@@ -324,8 +409,9 @@ export function shouldUseCachedResult(
     return false;
   }
 
-  // Use cache only if step passed (exitCode === 0)
-  return previousStep.exitCode === 0;
+  // Use cache only if step passed (exitCode === 0) - a skip that depended on
+  // the environment did not prove anything about this tree
+  return previousStep.exitCode === 0 && previousStep.passed && previousStep.skipped?.deterministic !== false;
 }
 
 /**
@@ -428,47 +514,31 @@ function processDeveloperFeedback(
 }
 
 /**
- * Handle fail-fast process coordination
+ * Stop every other running step process (fail-fast)
  *
- * Kills all other running processes when fail-fast is enabled and a step fails.
- * Thread-safe due to JavaScript's single-threaded event loop.
+ * Called once, on the first failure, when fail-fast is enabled.
  *
- * @param enableFailFast - Whether fail-fast mode is enabled
- * @param firstFailure - Reference to first failure tracking object
- * @param step - The failed step
- * @param output - Output from failed step
- * @param processes - Array of all running processes
+ * @param processes - All processes spawned so far in this run
+ * @param failedStep - The step whose failure triggered fail-fast
+ * @param stopped - Receives the processes that were stopped
  * @param log - Logging function for output
- * @param ignoreStopErrors - Callback to ignore already-stopped process errors
- * @returns Updated firstFailure reference
  *
  * @internal
  */
-function handleFailFast(
-  enableFailFast: boolean,
-  firstFailure: { step: ValidationStep; output: string } | null,
-  step: ValidationStep,
-  output: string,
+function stopOtherSteps(
   processes: Array<{ proc: ChildProcess; step: ValidationStep }>,
-  log: (_msg: string) => void,
-  ignoreStopErrors: () => void
-): { step: ValidationStep; output: string } | null {
-  // RACE CONDITION SAFE: While multiple processes could fail simultaneously,
-  // JavaScript's single-threaded event loop ensures atomic assignment.
-  // Even if multiple failures occur, only one will be firstFailure, which is acceptable.
-  if (enableFailFast && !firstFailure) {
-    const failure = { step, output };
-    log(`\n⚠️  Fail-fast enabled: Killing remaining processes...`);
-
-    // Kill all other running processes
-    for (const { proc: otherProc, step: otherStep } of processes) {
-      if (otherStep !== step && otherProc.exitCode === null) {
-        stopProcessGroup(otherProc, otherStep.name).catch(ignoreStopErrors);
-      }
+  failedStep: ValidationStep,
+  stopped: Set<ChildProcess>,
+  log: (_msg: string) => void
+): void {
+  log(`\n⚠️  Fail-fast enabled: Killing remaining processes...`);
+
+  for (const { proc, step } of processes) {
+    if (step !== failedStep && proc.exitCode === null) {
+      stopped.add(proc);
+      stopProcessGroup(proc, step.name).catch(() => { /* Process may have already exited */ });
     }
-    return failure;
   }
-  return firstFailure;
 }
 
 /**
@@ -523,156 +593,225 @@ function createStreamHandler(
 }
 
 /**
- * Extract errors from failed step output
+ * Extractors set on a step (`extractor` or `extractors`), if any
  */
-function extractFromFailedOutput(output: string): ErrorExtractorResult | undefined {
-  const parsed = parseVibeValidateOutput(output);
+function getStepExtractors(step: ValidationStep): string[] | undefined {
+  if (step.extractors) {
+    return step.extractors;
+  }
+  return step.extractor === undefined ? undefined : [step.extractor];
+}
 
-  if (parsed?.extraction) {
-    return parsed.extraction;
+/**
+ * Reject extractors set on steps that are not registered
+ *
+ * @throws Error naming the first unknown extractor and its step
+ */
+function checkStepExtractors(graph: StepGraph): void {
+  for (const { step } of graph.nodes) {
+    const unknown = (getStepExtractors(step) ?? []).find(name => !getExtractorByName(name));
+    if (unknown !== undefined) {
+      throw new Error(`Unknown extractor "${unknown}" in step "${step.name}"`);
+    }
   }
+}
 
-  // No vibe-validate YAML detected - use standard extraction
-  return autoDetectAndExtract(output);
+/**
+ * Discover the local extractor plugins a run registers
+ *
+ * Plugins are only loaded when the config has an `extractors` section, from
+ * `vibe-validate-local-plugins/` in the base directory. `vibe-validate
+ * validate` runs from the config file's directory, so config checks pass
+ * that directory to find the same plugins.
+ *
+ * @param extractors - The config's `extractors` section
+ * @param baseDir - Directory holding `vibe-validate-local-plugins/` (default: cwd)
+ * @returns The plugins, or none when plugins are not enabled
+ */
+export async function discoverLocalExtractorPlugins(
+  extractors: ValidationConfig['extractors'],
+  baseDir: string = process.cwd()
+): Promise<ExtractorPlugin[]> {
+  if (!extractors) {
+    return [];
+  }
+  const { discoverPlugins } = await import('@vibe-validate/extractors');
+  // Auto-discover local plugins from vibe-validate-local-plugins/ directory
+  return discoverPlugins({ baseDir });
 }
 
 /**
- * Parse output and log cache status if verbose
+ * Extract errors (and nested vibe-validate metadata) from a finished step's output
+ *
+ * Extracts errors ONLY from failed steps: passing steps have no failures to
+ * extract, and empty extraction objects waste tokens in LLM context. Output
+ * from nested `vibe-validate run` commands is parsed so its extraction, cache
+ * status and output files are preserved instead of re-extracted. Extractors
+ * set on the step are used instead of detecting the tool from the output.
+ *
+ * @internal
  */
-function parseAndLogCacheStatus(
+function extractStepOutput(
+  code: number,
   output: string,
+  extractors: string[] | undefined,
+  stoppedByFailFast: boolean,
   verbose: boolean,
   log: (_msg: string) => void
-): { isCachedResult?: boolean; outputFiles?: { stdout?: string; stderr?: string; combined?: string } } {
-  const parsed = parseVibeValidateOutput(output);
+): { extraction?: ErrorExtractorResult; isCachedResult?: boolean; outputFiles?: OutputFiles } {
+  // Handle processes stopped by fail-fast before producing meaningful output
+  const minimalOutput = !output || output.trim().length < 50;
+  if (code !== 0 && stoppedByFailFast && minimalOutput) {
+    // Process was killed/stopped - provide meaningful message instead of "0 errors"
+    return {
+      extraction: {
+        summary: 'Process stopped (fail-fast)',
+        totalErrors: 0,
+        errors: [],
+        guidance: 'This step was terminated when another step failed. Check the failed step above for the root cause.',
+      },
+    };
+  }
 
-  if (!parsed) {
+  if (!output.trim()) {
     return {};
   }
 
-  if (parsed.isCachedResult && verbose) {
-    log(`      ⚡ Step used cached result (${parsed.type} command)`);
+  // Try parsing vibe-validate YAML output (from nested run commands)
+  // Uses shared parser that handles both RunResult and ValidationResult formats
+  const parsed = parseVibeValidateOutput(output);
+  if (parsed) {
+    // Log cache hit status if available (nested run was cached)
+    if (parsed.isCachedResult && verbose) {
+      log(`      ⚡ Step used cached result (${parsed.type} command)`);
+    }
+
+    // Preserve the nested command's meaningful summary instead of a generic
+    // "X error(s) from nested command" (passing steps keep no extraction)
+    return {
+      ...(code === 0 ? {} : { extraction: parsed.extraction }),
+      isCachedResult: parsed.isCachedResult,
+      outputFiles: parsed.outputFiles,
+    };
+  }
+
+  if (code === 0) {
+    return {};
   }
 
+  // No vibe-validate YAML detected - use the step's extractors, or detect the tool
+  const rawExtraction = extractors ? extractWithExtractors(output, extractors) : autoDetectAndExtract(output);
+
+  // Strip empty optional fields to save tokens
   return {
-    isCachedResult: parsed.isCachedResult,
-    outputFiles: parsed.outputFiles,
+    extraction: {
+      summary: rawExtraction.summary,
+      totalErrors: rawExtraction.totalErrors,
+      errors: rawExtraction.errors,
+      ...(rawExtraction.guidance?.trim() ? { guidance: rawExtraction.guidance } : {}),
+      ...(rawExtraction.errorSummary?.trim() ? { errorSummary: rawExtraction.errorSummary } : {}),
+      ...(rawExtraction.metadata ? { metadata: rawExtraction.metadata } : {}),
+    },
   };
 }
 
 /**
- * Create output files for step.
+ * Write output files (stdout.log, stderr.log, combined.jsonl) for a step.
+ *
+ * Files are written under `outputDir`, the same directory advertised in
+ * `ParentContext.outputDir`, so a nested child process can predict where its
+ * outer-captured files will live. Failures are logged (verbose) and swallowed:
+ * validation must complete even if the temp directory is unavailable.
  *
- * Writes the captured stdout/stderr/combined streams under `outputDir`.
- * The caller is responsible for resolving `outputDir` (typically the same
- * directory advertised in `ParentContext.outputDir`), so a nested child
- * process can predict where its outer-captured files will live.
+ * @internal
  */
-async function createStepOutputFiles(
+async function writeStepOutputFiles(
   stepName: string,
   stdout: string,
   stderr: string,
   combinedLines: Array<{ ts: string; stream: 'stdout' | 'stderr'; line: string }>,
+  outputDir: string,
   verbose: boolean,
-  log: (_msg: string) => void,
-  outputDir: string
-): Promise<{ stdout?: string; stderr?: string; combined?: string } | undefined> {
+  log: (_msg: string) => void
+): Promise<OutputFiles | undefined> {
   try {
     const treeHashResult = await getGitTreeHash();
     const treeHash = treeHashResult.hash;
     await ensureDir(outputDir);
 
+    const writePromises: Promise<void>[] = [];
+
     // Generate unique filenames with tree hash and timestamp
-    const stdoutFilename = getTempFilename(treeHash, 'txt', `${stepName}-stdout`);
-    const stderrFilename = getTempFilename(treeHash, 'txt', `${stepName}-stderr`);
+    const stdoutFilename = getTempFilename(treeHash, 'log', `${stepName}-stdout`);
+    const stderrFilename = getTempFilename(treeHash, 'log', `${stepName}-stderr`);
     const combinedFilename = getTempFilename(treeHash, 'jsonl', `${stepName}-combined`);
 
-    const stdoutPath = join(outputDir, stdoutFilename);
-    const stderrPath = join(outputDir, stderrFilename);
-    const combinedPath = join(outputDir, combinedFilename);
+    // Write stdout.log (only if non-empty) using shared utility
+    const { file: stdoutFile, promise: stdoutPromise } =
+      createLogFileWrite(stdout, outputDir, stdoutFilename);
+    if (stdoutPromise) writePromises.push(stdoutPromise);
 
-    await Promise.all([
-      writeFile(stdoutPath, stdout || ''),
-      writeFile(stderrPath, stderr || ''),
-      writeFile(combinedPath, createCombinedJsonl(combinedLines)),
-    ]);
+    // Write stderr.log (only if non-empty) using shared utility
+    const { file: stderrFile, promise: stderrPromise } =
+      createLogFileWrite(stderr, outputDir, stderrFilename);
+    if (stderrPromise) writePromises.push(stderrPromise);
+
+    // Write combined.jsonl (always - timestamped interleaved output)
+    const combinedFile = join(outputDir, combinedFilename);
+    writePromises.push(writeFile(combinedFile, createCombinedJsonl(combinedLines), 'utf-8'));
+
+    await Promise.all(writePromises);
 
     return {
-      stdout: stdoutPath,
-      stderr: stderrPath,
-      combined: combinedPath,
+      ...(stdoutFile ? { stdout: stdoutFile } : {}),
+      ...(stderrFile ? { stderr: stderrFile } : {}),
+      combined: combinedFile,
     };
   } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     if (verbose) {
-      log(`      ⚠️ Warning: Could not create output files for ${stepName}: ${errorMessage}`);
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      log(`      ⚠️  Could not create output files: ${errorMsg}`);
     }
     return undefined;
   }
 }
 
-/**
- * Process step output: parse, extract errors, create output files
- */
-async function processStepOutput(
-  stepName: string,
-  exitCode: number,
-  stdout: string,
-  stderr: string,
-  combinedLines: Array<{ ts: string; stream: 'stdout' | 'stderr'; line: string }>,
-  options: ProcessOutputOptions,
-  outputDir: string
-): Promise<{
-  extraction?: ErrorExtractorResult;
-  isCachedResult?: boolean;
-  outputFiles?: { stdout?: string; stderr?: string; combined?: string };
-}> {
-  const output = stdout + stderr;
-  let extraction: ErrorExtractorResult | undefined;
-  let isCachedResult: boolean | undefined;
-  let outputFiles: { stdout?: string; stderr?: string; combined?: string } | undefined;
-
-  // Process failed steps
-  // eslint-disable-next-line @typescript-eslint/prefer-optional-chain -- Explicit null/undefined/empty check is clearer
-  if (exitCode !== 0 && output && output.trim()) {
-    extraction = extractFromFailedOutput(output);
-    const result = parseAndLogCacheStatus(output, options.verbose, options.log);
-    isCachedResult = result.isCachedResult;
-    outputFiles = result.outputFiles;
-  } else if (output?.trim()) {
-    // Process passing steps - check if cached
-    const result = parseAndLogCacheStatus(output, options.verbose, options.log);
-    isCachedResult = result.isCachedResult;
-    outputFiles = result.outputFiles;
-  }
-
-  // Create output files if needed
-  const shouldCreateFiles = exitCode !== 0 || options.debug;
-  if (shouldCreateFiles && !outputFiles) {
-    outputFiles = await createStepOutputFiles(stepName, stdout, stderr, combinedLines, options.verbose, options.log, outputDir);
-  }
-
-  return { extraction, isCachedResult, outputFiles };
-}
-
 /**
  * Options for executing a single step
  */
-interface ExecuteSingleStepOptions {
+interface ExecuteStepOptions {
   step: ValidationStep;
-  env: Record<string, string>;
-  verbose: boolean;
-  yaml: boolean;
-  debug: boolean;
+  /** Containing phase name (propagated into VV_PARENT_CONTEXT) */
+  phaseName: string;
   maxNameLength: number;
   log: (_msg: string) => void;
-  previousRun?: ValidationConfig['previousRun'];
-  /** Containing phase name (propagated into VV_PARENT_CONTEXT) */
-  phaseName?: string;
+  /** Run-level environment (per-step env is merged on top) */
+  baseEnv: Record<string, string>;
+  parent: ReturnType<typeof readParentContext>;
   /** Pre-computed git tree hash for the current run */
-  treeHash?: string;
+  treeHash: string;
   /** Pre-computed run id for the current run */
-  runId?: string;
+  runId: string;
+  verbose: boolean;
+  yaml: boolean;
+  debug: boolean;
+  developerFeedback: boolean;
+  previousRun?: ValidationConfig['previousRun'];
+  /** Called with the spawned process so fail-fast can stop it */
+  onSpawn: (_proc: ChildProcess) => void;
+  /** Whether fail-fast stopped the given process (its failure is then not its own) */
+  wasStopped: (_proc: ChildProcess) => boolean;
+  /** Whether fail-fast has stopped the run (no more retries) */
+  isStopping: () => boolean;
+  /** Tree hash of the step's `inputs` files (only for steps that declare inputs) */
+  inputsHash?: string;
+  findCachedStep?: StepCacheLookup;
+  /** Set when the step's `when` condition does not hold */
+  conditionSkip?: StepSkip;
+  /** Timeout of the step (its own or its phase's) */
+  timeoutPolicy?: TimeoutPolicy;
+  /** The step's entry in `validation.resourceBudget` */
+  resourceBudget?: StepResourceBudget;
 }
 
 /**
@@ -696,12 +835,9 @@ function formatCacheTimestamp(timestamp: string): string {
 }
 
 /**
- * Execute a single validation step (or use cached result if available)
- */
-/**
- * Build a skipped step result for runScope filtering
+ * Build a skipped step result (runScope filtering or an unmet `when`)
  */
-function buildSkippedStepResult(step: ValidationStep): { output: string; stepResult: StepResult } {
+function buildSkippedStepResult(step: ValidationStep, skipped: StepSkip): { output: string; stepResult: StepResult } {
   return {
     output: '',
     stepResult: {
@@ -710,6 +846,7 @@ function buildSkippedStepResult(step: ValidationStep): { output: string; stepRes
       passed: true,
       durationSecs: 0,
       exitCode: 0,
+      skipped,
     },
   };
 }
@@ -747,21 +884,376 @@ function tryUseCachedResult(
   return { output: '', stepResult: { ...previousStep, isCachedResult: true } };
 }
 
-async function executeSingleStep(options: ExecuteSingleStepOptions): Promise<{ output: string; stepResult: StepResult }> {
-  const { step, env, verbose, yaml, debug, maxNameLength, log, previousRun, phaseName, treeHash, runId } = options;
-  const paddedName = step.name.padEnd(maxNameLength);
+/**
+ * Log the PASSED/FAILED line for a step that ran
+ *
+ * `failure` names a failure other than the exit code (a timeout, or a
+ * resource budget with `onExceed: fail`).
+ */
+function logStepOutcome(
+  paddedName: string,
+  code: number,
+  durationSecs: number,
+  log: (_msg: string) => void,
+  attemptCount = 1,
+  failure?: 'TIMED OUT' | 'OVER BUDGET'
+): void {
+  const passed = code === 0 && !failure;
+  const status = passed ? '✅' : '❌';
+  const result = passed ? 'PASSED' : failure ?? 'FAILED';
+  const flakyNote = passed && attemptCount > 1 ? `, flaky: passed on attempt ${attemptCount}` : '';
+  log(`      ${status} ${paddedName} - ${result} (${durationSecs}s${flakyNote})`);
+}
+
+/**
+ * Outcome of one execution of a step's command
+ */
+interface StepAttemptOutcome {
+  /** Exit code (null - abnormal termination - is normalized to 1) */
+  code: number;
+  durationSecs: number;
+  stdout: string;
+  stderr: string;
+  combinedLines: Array<{ ts: string; stream: 'stdout' | 'stderr'; line: string }>;
+  /** Fail-fast stopped the process (its failure is then not its own) */
+  stopped: boolean;
+  /** Set when the step's timeout stopped the process */
+  timeout?: TimeoutReport;
+  /** Resources the process group used (Linux only) */
+  resources?: StepResourceUsage;
+}
+
+/**
+ * Spawn a step's command once and wait for it to exit
+ */
+async function runStepAttempt(
+  options: ExecuteStepOptions,
+  env: Record<string, string>,
+  cwd: string | undefined
+): Promise<StepAttemptOutcome> {
+  const { step, verbose, yaml } = options;
+  const startTime = Date.now();
+
+  const proc = spawnCommand(step.command, { env, cwd });
+  options.onSpawn(proc);
+  const timeoutWatch = options.timeoutPolicy
+    ? watchStepTimeout(proc, options.timeoutPolicy, step.name, options.log)
+    : undefined;
+  // Usage is only reported against a budget or in verbose output
+  const sampler = proc.pid && (options.resourceBudget || verbose) ? startResourceSampler(proc.pid) : undefined;
+
+  // Use object accumulators for mutable references
+  const stdoutAccumulator = { value: '' };
+  const stderrAccumulator = { value: '' };
+  const combinedLines: StepAttemptOutcome['combinedLines'] = [];
+
+  // Setup stream handlers
+  // eslint-disable-next-line @typescript-eslint/no-non-null-assertion -- spawnCommand always pipes stdout/stderr
+  proc.stdout!.on('data', createStreamHandler('stdout', stdoutAccumulator, combinedLines, verbose, yaml));
+  // eslint-disable-next-line @typescript-eslint/no-non-null-assertion -- spawnCommand always pipes stdout/stderr
+  proc.stderr!.on('data', createStreamHandler('stderr', stderrAccumulator, combinedLines, verbose, yaml));
+
+  // Wait for process to complete
+  const exitCode = await new Promise<number | null>(resolve => {
+    proc.on('close', code => resolve(code));
+  });
+  const timeout = timeoutWatch?.finish();
+  const resources = sampler?.stop();
+
+  if (timeout) {
+    // A process may exit 0 on SIGTERM - a timeout is a failure regardless
+    stderrAccumulator.value += `\n${formatTimeoutReport(timeout, combinedLines.map(entry => entry.line))}\n`;
+  }
+
+  return {
+    // Normalize exit code (null means abnormal termination, treat as failure)
+    code: timeout ? TIMEOUT_EXIT_CODE : exitCode ?? 1,
+    durationSecs: Number.parseFloat(((Date.now() - startTime) / 1000).toFixed(1)),
+    stdout: stdoutAccumulator.value,
+    stderr: stderrAccumulator.value,
+    combinedLines,
+    stopped: options.wasStopped(proc),
+    ...(timeout ? { timeout } : {}),
+    ...(resources ? { resources } : {}),
+  };
+}
+
+/**
+ * Extraction for a timed-out step: the timeout report (still-running
+ * processes and last output lines) instead of parsed errors
+ */
+function buildTimeoutExtraction(
+  timeout: TimeoutReport,
+  combinedLines: StepAttemptOutcome['combinedLines']
+): ReturnType<typeof extractStepOutput> {
+  const seconds = Number.parseFloat((timeout.policy.afterMs / 1000).toFixed(1));
+  return {
+    extraction: {
+      summary: `Timed out after ${seconds}s`,
+      totalErrors: 0,
+      errors: [],
+      guidance: 'The step did not finish within its timeout and was stopped. errorSummary lists the processes that ' +
+        'were still running and the last lines of output; raise the step timeout if it is only slow.',
+      errorSummary: formatTimeoutReport(timeout, combinedLines.map(entry => entry.line)),
+    },
+  };
+}
+
+/**
+ * Check the deciding attempt's resource usage against the step's budget,
+ * logging the usage (verbose) and any overrun
+ *
+ * @returns The exceeded limits, and whether they fail the step
+ */
+function checkStepBudget(
+  options: ExecuteStepOptions,
+  paddedName: string,
+  attempt: StepAttemptOutcome
+): { exceeded: string[]; failed: boolean } {
+  const { resourceBudget, verbose, log } = options;
+  if (!attempt.resources) {
+    return { exceeded: [], failed: false };
+  }
+  if (verbose) {
+    log(`      📊 ${paddedName} - ${formatResourceUsage(attempt.resources)}`);
+  }
+
+  const exceeded = resourceBudget ? checkResourceBudget(attempt.resources, resourceBudget) : [];
+  if (exceeded.length > 0) {
+    log(`      ⚠️  ${paddedName} - over resource budget: ${exceeded.join('; ')}`);
+  }
+  return { exceeded, failed: exceeded.length > 0 && resourceBudget?.onExceed === 'fail' };
+}
+
+/**
+ * Name a failure that the exit code alone does not show
+ */
+function describeFailure(
+  attempt: StepAttemptOutcome,
+  budget: { failed: boolean }
+): 'TIMED OUT' | 'OVER BUDGET' | undefined {
+  if (attempt.timeout) {
+    return 'TIMED OUT';
+  }
+  return budget.failed ? 'OVER BUDGET' : undefined;
+}
+
+/**
+ * Extraction for a step whose command passed but which exceeded its resource
+ * budget with `onExceed: fail`
+ */
+function buildBudgetExtraction(exceeded: string[]): ReturnType<typeof extractStepOutput> {
+  return {
+    extraction: {
+      summary: `Exceeded resource budget: ${exceeded.join('; ')}`,
+      totalErrors: 0,
+      errors: [],
+      guidance: 'The command passed, but used more memory or CPU than validation.resourceBudget allows for this ' +
+        'step. Reduce its usage, or raise the budget if the growth is expected.',
+    },
+  };
+}
+
+/**
+ * Result fields describing how the deciding attempt ran: timeout, resource
+ * usage and budget overrun (each only when present)
+ */
+function describeAttempt(
+  attempt: StepAttemptOutcome,
+  budget: { exceeded: string[] }
+): Pick<StepResult, 'timedOut' | 'resources' | 'budgetExceeded'> {
+  return {
+    ...(attempt.timeout ? { timedOut: true } : {}),
+    ...(attempt.resources ? { resources: attempt.resources } : {}),
+    ...(budget.exceeded.length > 0 ? { budgetExceeded: budget.exceeded } : {}),
+  };
+}
+
+/**
+ * Extract errors from the attempt that decides a step's outcome
+ */
+function extractAttemptOutput(
+  attempt: StepAttemptOutcome,
+  budget: { exceeded: string[]; failed: boolean },
+  extractors: string[] | undefined,
+  verbose: boolean,
+  log: (_msg: string) => void
+): ReturnType<typeof extractStepOutput> {
+  if (attempt.timeout) {
+    return buildTimeoutExtraction(attempt.timeout, attempt.combinedLines);
+  }
+  if (budget.failed && attempt.code === 0) {
+    return buildBudgetExtraction(budget.exceeded);
+  }
+  return extractStepOutput(attempt.code, attempt.stdout + attempt.stderr, extractors, attempt.stopped, verbose, log);
+}
+
+/**
+ * Whether a failed attempt should be retried under the step's `retries` policy
+ *
+ * Attempts stopped by fail-fast, and any attempt once the run is stopping,
+ * are never retried.
+ */
+function shouldRetryAttempt(options: ExecuteStepOptions, attempt: StepAttemptOutcome, attemptCount: number): boolean {
+  const { retries } = options.step;
+  if (!retries || attempt.code === 0 || attempt.stopped || options.isStopping()) {
+    return false;
+  }
+  if (attemptCount > retries.count) {
+    return false;
+  }
+  return !retries.onlyIfOutputMatches ||
+    // eslint-disable-next-line security/detect-non-literal-regexp -- pattern comes from the project's own config (validated by the schema)
+    new RegExp(retries.onlyIfOutputMatches).test(attempt.stdout + attempt.stderr);
+}
+
+/**
+ * Run a step, re-running it while its `retries` policy allows
+ *
+ * @returns Every attempt, in order (the last one decides the step's outcome)
+ */
+async function runStepAttempts(
+  options: ExecuteStepOptions,
+  paddedName: string,
+  env: Record<string, string>,
+  cwd: string | undefined
+): Promise<StepAttemptOutcome[]> {
+  const attempts = [await runStepAttempt(options, env, cwd)];
+
+  while (shouldRetryAttempt(options, attempts.at(-1) as StepAttemptOutcome, attempts.length)) {
+    const failed = attempts.at(-1) as StepAttemptOutcome;
+    const total = (options.step.retries?.count ?? 0) + 1;
+    options.log(
+      `      🔁 ${paddedName} - FAILED (${failed.durationSecs}s), retrying (attempt ${attempts.length + 1} of ${total})...`
+    );
+    attempts.push(await runStepAttempt(options, env, cwd));
+  }
+
+  return attempts;
+}
+
+/**
+ * Total duration of a step's attempts, plus the retry fields of its result
+ * (only set when the step ran more than once)
+ */
+function summarizeAttempts(
+  attempts: StepAttemptOutcome[]
+): { durationSecs: number; retryFields: Pick<StepResult, 'attempts' | 'flaky'> } {
+  const durationSecs = Number.parseFloat(attempts.reduce((sum, attempt) => sum + attempt.durationSecs, 0).toFixed(1));
+  if (attempts.length === 1) {
+    return { durationSecs, retryFields: {} };
+  }
+
+  const passed = attempts.at(-1)?.code === 0;
+  return {
+    durationSecs,
+    retryFields: {
+      attempts: attempts.map(attempt => ({ exitCode: attempt.code, durationSecs: attempt.durationSecs })),
+      ...(passed ? { flaky: true } : {}),
+    },
+  };
+}
+
+/**
+ * Join the output of every attempt, labelling each one when the step was retried
+ */
+function formatAttemptsOutput(attempts: StepAttemptOutcome[]): string {
+  if (attempts.length === 1) {
+    return attempts[0].stdout + attempts[0].stderr;
+  }
+  return attempts
+    .map((attempt, i) =>
+      `--- Attempt ${i + 1} (exit ${attempt.code}, ${attempt.durationSecs}s) ---\n${attempt.stdout}${attempt.stderr}`
+    )
+    .join('\n');
+}
+
+/**
+ * Reuse a recorded pass for a step whose input files are unchanged.
+ * Returns null on a miss, or when the step has no inputs.
+ */
+async function tryUseInputsCache(
+  options: ExecuteStepOptions,
+  paddedName: string,
+): Promise<{ output: string; stepResult: StepResult } | null> {
+  const { step, inputsHash, findCachedStep, maxNameLength, verbose, log } = options;
+  if (!inputsHash || !findCachedStep) {
+    return null;
+  }
+
+  let cached: StepResult | null;
+  try {
+    cached = await findCachedStep(step, inputsHash);
+  } catch (error) {
+    // A broken cache must never fail validation - just run the step
+    if (verbose) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      log(`      ⚠️  Could not read step cache for ${step.name}: ${errorMsg}`);
+    }
+    return null;
+  }
+
+  if (!cached?.passed) {
+    return null;
+  }
+
+  log(`   ⏳ ${paddedName}  →  ${step.command}`);
+  log(`      ⚡ ${step.name.padEnd(maxNameLength)} - PASSED (cached, inputs ${inputsHash.slice(0, 12)} unchanged)`);
+
+  return {
+    output: '',
+    stepResult: {
+      name: step.name,
+      command: step.command,
+      exitCode: 0,
+      durationSecs: cached.durationSecs,
+      passed: true,
+      isCachedResult: true,
+      inputsHash,
+    },
+  };
+}
+
+/**
+ * Resolve a step without running it: skipped by runScope or its `when`
+ * condition, reused from the previous run (--retry-failed), or reused because
+ * its inputs are unchanged. Returns null when the step must run.
+ */
+async function tryResolveWithoutRunning(
+  options: ExecuteStepOptions,
+  paddedName: string,
+): Promise<{ output: string; stepResult: StepResult } | null> {
+  const { step, maxNameLength, previousRun, verbose, log } = options;
 
   // Check if step should be skipped based on runScope
   const isCI = Boolean(process.env.CI);
-  if (shouldSkipByRunScope(step.runScope, isCI)) {
-    log(`   ⏭️  ${paddedName}  →  ${getRunScopeSkipReason(step.runScope)}`);
-    return buildSkippedStepResult(step);
+  const skip = shouldSkipByRunScope(step.runScope, isCI) ? getRunScopeSkip(step.runScope) : options.conditionSkip;
+  if (skip) {
+    log(`   ⏭️  ${paddedName}  →  skipped (${skip.reason})`);
+    return buildSkippedStepResult(step, skip);
   }
 
   // Check if we can use cached result from previous run
-  const cachedResult = tryUseCachedResult(step, paddedName, maxNameLength, previousRun, verbose, log);
-  if (cachedResult) {
-    return cachedResult;
+  return tryUseCachedResult(step, paddedName, maxNameLength, previousRun, verbose, log)
+    ?? tryUseInputsCache(options, paddedName);
+}
+
+/**
+ * Execute a single validation step (or skip it / use a cached result)
+ *
+ * Spawns the step in its own process group, captures output, extracts errors
+ * from failures and writes output files for failing steps (or all steps in
+ * debug mode).
+ *
+ * @internal
+ */
+async function executeStep(options: ExecuteStepOptions): Promise<{ output: string; stepResult: StepResult }> {
+  const { step, maxNameLength, log, verbose, debug, developerFeedback, previousRun } = options;
+  const paddedName = step.name.padEnd(maxNameLength);
+
+  const skippedOrCached = await tryResolveWithoutRunning(options, paddedName);
+  if (skippedOrCached) {
+    return skippedOrCached;
   }
 
   // Execute step normally (check if this is a retry of a previously failed step)
@@ -770,188 +1262,398 @@ async function executeSingleStep(options: ExecuteSingleStepOptions): Promise<{ o
   const commandPrefix = isRetryingFailedStep && verbose ? '🔄 Retrying...\n   ' : '';
   log(`   ${commandPrefix}⏳ ${paddedName}  →  ${step.command}`);
 
-  const startTime = Date.now();
   // Resolve cwd relative to git root (if specified)
   const resolvedCwd = step.cwd ? resolveGitRelativePath(step.cwd) : undefined;
 
-  // Build per-step ParentContext and inject into child env. Reuse the run-level
-  // treeHash/runId when provided by runValidation (avoids extra git calls and
-  // keeps the runId stable across all steps in this validation run).
-  const resolvedTreeHash = treeHash ?? (await getGitTreeHash()).hash;
-  const resolvedRunId = runId ?? makeRunId(resolvedTreeHash);
-  const parent = readParentContext();
+  // Build per-step ParentContext and inject into child env. The returned
+  // outputDir is where output files are written below, so the advertised
+  // location matches the actual filesystem location.
   const { env: stepEnv, outputDir: stepOutputDir } = buildStepEnv({
     step,
-    baseEnv: env,
-    parent,
-    runId: resolvedRunId,
-    treeHash: resolvedTreeHash,
-    ...(phaseName ? { phaseName } : {}),
+    baseEnv: options.baseEnv,
+    parent: options.parent,
+    runId: options.runId,
+    treeHash: options.treeHash,
+    phaseName: options.phaseName,
     verbose,
   });
 
-  const proc = spawnCommand(step.command, { env: stepEnv, cwd: resolvedCwd });
+  const attempts = await runStepAttempts(options, paddedName, stepEnv, resolvedCwd);
+  const last = attempts.at(-1) as StepAttemptOutcome;
+  const { code, stdout, stderr, combinedLines } = last;
+  const { durationSecs, retryFields } = summarizeAttempts(attempts);
+  const output = formatAttemptsOutput(attempts);
 
-  // Use object accumulators for mutable references
-  const stdoutAccumulator = { value: '' };
-  const stderrAccumulator = { value: '' };
-  const combinedLines: Array<{ ts: string; stream: 'stdout' | 'stderr'; line: string }> = [];
+  const budget = checkStepBudget(options, paddedName, last);
+  logStepOutcome(paddedName, code, durationSecs, log, attempts.length, describeFailure(last, budget));
 
-  // Setup stream handlers
-  // eslint-disable-next-line @typescript-eslint/no-non-null-assertion -- spawnCommand always pipes stdout/stderr
-  proc.stdout!.on('data', createStreamHandler('stdout', stdoutAccumulator, combinedLines, verbose, yaml));
-  // eslint-disable-next-line @typescript-eslint/no-non-null-assertion -- spawnCommand always pipes stdout/stderr
-  proc.stderr!.on('data', createStreamHandler('stderr', stderrAccumulator, combinedLines, verbose, yaml));
+  const extracted = extractAttemptOutput(last, budget, getStepExtractors(step), verbose, log);
+  const { extraction, isCachedResult } = extracted;
+  let { outputFiles } = extracted;
 
-  // Wait for process to complete
-  const exitCode = await new Promise<number | null>(resolve => {
-    proc.on('close', code => resolve(code));
-  });
-
-  const durationMs = Date.now() - startTime;
-  const durationSecs = Number.parseFloat((durationMs / 1000).toFixed(1));
-  const stdout = stdoutAccumulator.value;
-  const stderr = stderrAccumulator.value;
-  const output = stdout + stderr;
-
-  // Normalize exit code (null means abnormal termination, treat as failure)
-  const code = exitCode ?? 1;
-
-  const status = code === 0 ? '✅' : '❌';
-  const result = code === 0 ? 'PASSED' : 'FAILED';
-  log(`      ${status} ${step.name.padEnd(maxNameLength)} - ${result} (${durationSecs}s)`);
-
-  // Process output: parse, extract, create files
-  const { extraction, isCachedResult, outputFiles } = await processStepOutput(
-    step.name,
-    code,
-    stdout,
-    stderr,
-    combinedLines,
-    { verbose, debug, log },
-    stepOutputDir
-  );
+  // Create output files for failing steps or when debug mode is enabled
+  // (unless a nested vibe-validate command already provided them)
+  if ((code !== 0 || budget.failed || debug) && !outputFiles) {
+    outputFiles = await writeStepOutputFiles(step.name, stdout, stderr, combinedLines, stepOutputDir, verbose, log);
+  }
 
-  // Create step result (build without type annotation to let TS infer)
-  const stepResultBase = {
+  // Create step result - extends CommandExecutionSchema (v0.15.0+)
+  const stepResult: StepResult = {
     name: step.name,
     command: step.command,
-    passed: code === 0,
-    durationSecs,
     exitCode: code,
-  };
-
-  // Add optional fields if present
-  const stepResult: StepResult = {
-    ...stepResultBase,
-    ...(extraction ? { extraction } : {}),
+    durationSecs,
+    passed: code === 0 && !budget.failed,
     ...(isCachedResult === undefined ? {} : { isCachedResult }),
+    ...(options.inputsHash ? { inputsHash: options.inputsHash } : {}),
+    ...retryFields,
+    ...describeAttempt(last, budget),
+    ...(extraction ? { extraction } : {}),
     ...(outputFiles ? { outputFiles } : {}),
-  } as StepResult;
+  };
+
+  // Only include extraction quality metrics when developerFeedback is enabled
+  // Skip if extraction already has metadata (from smart extractors) - that's more accurate
+  // This is for vibe-validate contributors to identify extraction improvement opportunities
+  if (developerFeedback && extraction && !extraction.metadata) {
+    processDeveloperFeedback(
+      stepResult,
+      extraction,
+      log,
+      e => e.severity === 'warning',
+      e => e.severity !== 'warning'
+    );
+  }
 
   return { output, stepResult };
 }
 
 /**
- * Run validation steps sequentially (one at a time)
+ * Options for running a step graph
+ */
+interface StepGraphRunOptions extends StepExecutionOptions {
+  /** Log file that receives each phase's step outputs when the phase completes */
+  logPath?: string;
+  /** Callback when the first step of a phase starts */
+  onPhaseStart?: ValidationConfig['onPhaseStart'];
+  /** Callback when every step of a phase has finished (or will not run) */
+  onPhaseComplete?: ValidationConfig['onPhaseComplete'];
+}
+
+/**
+ * Progress of one phase while its steps are scheduled
+ */
+interface PhaseProgress {
+  phase: ValidationPhase;
+  nodes: StepGraphNode[];
+  maxNameLength: number;
+  startTime?: number;
+  settled: number;
+}
+
+/**
+ * Describe how a phase's steps are run, for the phase start line
  *
- * Executes validation steps one at a time in order, stopping on first failure.
- * This mode is useful for bootstrap builds or when steps have dependencies.
+ * @internal
+ */
+function describePhaseMode(phase: ValidationPhase, maxConcurrency: number | undefined): string {
+  if (phase.parallel !== true) {
+    return 'sequentially';
+  }
+  const limit = Math.min(maxConcurrency ?? Infinity, phase.maxConcurrency ?? Infinity);
+  return limit < phase.steps.length ? `in parallel, ${limit} at a time` : 'in parallel';
+}
+
+/**
+ * Log errors thrown while executing steps (the steps are reported as failed)
  *
- * @param steps - Array of validation steps to execute sequentially
- * @param phaseName - Human-readable phase name for logging
- * @param options - Execution options (enableFailFast, env, verbose, yaml, debug, etc.)
- * @returns Promise resolving to execution results with outputs and step results
+ * @internal
+ */
+function logStepErrors(graph: StepGraph, errors: Map<number, unknown>, log: (_msg: string) => void): void {
+  for (const [index, error] of errors) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    log(`      ⚠️  Error running ${graph.nodes[index].step.name}: ${errorMsg}`);
+  }
+}
+
+/**
+ * Hash the input files of every step that declares `inputs`
  *
- * @example
- * ```typescript
- * const result = await runStepsSequentially(
- *   [
- *     { name: 'Build', command: 'pnpm build' },
- *     { name: 'TypeScript', command: 'pnpm typecheck' },
- *     { name: 'ESLint', command: 'pnpm lint' },
- *   ],
- *   'Pre-Qualification',
- *   { enableFailFast: true, env: { NODE_ENV: 'test' } }
- * );
+ * All steps share one staging of the working tree, done before any step runs.
+ * Failing to hash is not fatal: the affected steps run without input caching.
  *
- * if (!result.success) {
- *   console.error(`Step ${result.failedStep?.name} failed`);
- * }
- * ```
+ * @returns Input tree hash by node index
  *
- * @public
+ * @internal
  */
-export async function runStepsSequentially(
-  steps: ValidationStep[],
-  phaseName: string,
-  options: StepExecutionOptions = {}
-): Promise<{
-  success: boolean;
-  failedStep?: ValidationStep;
-  outputs: Map<string, string>;
-  stepResults: StepResult[];
-}> {
+function computeInputHashes(graph: StepGraph, log: (_msg: string) => void): Map<number, string> {
+  const nodes = graph.nodes.filter(node => node.step.inputs);
+  if (nodes.length === 0) {
+    return new Map();
+  }
+
+  try {
+    const hashes = getInputTreeHashes(nodes.map(node => node.step.inputs ?? []));
+    return new Map(nodes.map((node, i) => [node.index, hashes[i]]));
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    log(`⚠️  Could not hash step inputs - input caching disabled: ${errorMsg}`);
+    return new Map();
+  }
+}
+
+/**
+ * Context shared by the `when` checks of one run
+ */
+interface StepConditionContext {
+  /** Merge-base with the main branch, or null if unknown */
+  changeBase: ChangeBase | null;
+  /** Tree hash of the working tree */
+  treeHash: string;
+  /** Environment the conditions' `env` is checked against */
+  env: Record<string, string | undefined>;
+  log: (_msg: string) => void;
+}
+
+/**
+ * Whether none of the step's `when.changed` paths changed
+ *
+ * When the change base is unknown or git cannot compare, the paths count as
+ * changed - running a step is always safe.
+ *
+ * @internal
+ */
+function isUnchanged(step: ValidationStep, patterns: string[], context: StepConditionContext): boolean {
+  if (!context.changeBase) {
+    return false;
+  }
+  try {
+    return !hasChangedPaths(context.changeBase.commit, context.treeHash as TreeHash, patterns);
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    context.log(`⚠️  Could not check changed paths for ${step.name} - running it: ${errorMsg}`);
+    return false;
+  }
+}
+
+/**
+ * Check a step's `when` condition
+ *
+ * Neither skip is deterministic: `changed` depends on where the main branch
+ * is, not just on the tree, and `env` on the environment.
+ *
+ * @returns The skip, or undefined when the step should run
+ *
+ * @internal
+ */
+function checkStepCondition(step: ValidationStep, when: StepCondition, context: StepConditionContext): StepSkip | undefined {
+  if (when.changed && isUnchanged(step, when.changed, context)) {
+    const since = context.changeBase?.ref ?? '';
+    return { reason: `no changes in ${when.changed.join(', ')} since ${since}`, deterministic: false };
+  }
+
+  const mismatch = Object.entries(when.env ?? {}).find(([name, value]) => context.env[name] !== value);
+  if (mismatch) {
+    return { reason: `${mismatch[0]} is not "${mismatch[1]}"`, deterministic: false };
+  }
+  return undefined;
+}
+
+/**
+ * Evaluate the `when` condition of every step that declares one
+ *
+ * Conditions are evaluated once, before any step runs, against the run's tree
+ * hash. Failing to evaluate is not fatal: the affected steps run.
+ *
+ * @returns Skip by node index (only steps whose condition does not hold)
+ *
+ * @internal
+ */
+function evaluateStepConditions(
+  graph: StepGraph,
+  treeHash: string,
+  changedSince: string[],
+  env: Record<string, string>,
+  log: (_msg: string) => void,
+): Map<number, StepSkip> {
+  const skips = new Map<number, StepSkip>();
+  const nodes = graph.nodes.filter(node => node.step.when);
+  if (nodes.length === 0) {
+    return skips;
+  }
+
+  const needsBase = nodes.some(node => node.step.when?.changed);
+  const changeBase = needsBase ? findChangeBase(changedSince) : null;
+  if (needsBase && !changeBase) {
+    log(`⚠️  Could not find where this branch left ${changedSince.join(' or ')} - running steps with when.changed`);
+  }
+
+  const context: StepConditionContext = { changeBase, treeHash, env: { ...process.env, ...env }, log };
+  for (const node of nodes) {
+    const skip = checkStepCondition(node.step, node.step.when as StepCondition, context);
+    if (skip) {
+      skips.set(node.index, skip);
+    }
+  }
+  return skips;
+}
+
+/**
+ * Run a step dependency graph and group the results by phase
+ *
+ * This is the scheduler behind both `runValidation` and `runStepsInParallel`.
+ * Steps start as soon as their dependencies allow; phases are kept for
+ * grouping, progress output and reporting. A phase is reported once all of its
+ * steps have finished (or will not run), and only if at least one step ran.
+ *
+ * @param graph - Step dependency graph (see buildStepGraph)
+ * @param options - Execution options and phase callbacks
+ * @returns Phase results in config order, outputs by step name, and the first failed step (config order)
+ *
+ * @internal
+ */
+async function runStepGraph(
+  graph: StepGraph,
+  options: StepGraphRunOptions
+): Promise<{ phaseResults: PhaseResult[]; outputs: Map<string, string>; failedStep?: ValidationStep }> {
   const {
-    enableFailFast = true,
+    enableFailFast = false,
+    maxConcurrency,
     env = {},
     verbose = false,
     yaml = false,
+    developerFeedback = false,
     debug = false,
     previousRun,
-    treeHash,
-    runId,
+    logPath,
+    onPhaseStart,
+    onPhaseComplete,
   } = options;
   // When yaml mode is on, write progress to stderr to keep stdout clean
   const log = yaml ?
     (msg: string) => process.stderr.write(msg + '\n') :
     (msg: string) => console.log(msg);
 
-  log(`\n🔍 Running ${phaseName} (${steps.length} steps sequentially)...`);
+  // Reuse run-level treeHash/runId when provided by runValidation; otherwise fall back
+  // to a single getGitTreeHash() call (used when runStepsInParallel is invoked directly).
+  const parent = readParentContext();
+  const treeHash = options.treeHash ?? (await getGitTreeHash()).hash;
+  const runId = options.runId ?? makeRunId(treeHash);
+  const inputHashes = computeInputHashes(graph, log);
+  const changedSince = options.changedSince ?? [getRemoteBranch(), getMainBranch()];
+  const conditionSkips = evaluateStepConditions(graph, treeHash, changedSince, env, log);
 
-  const maxNameLength = Math.max(...steps.map(s => s.name.length));
   const outputs = new Map<string, string>();
-  const stepResults: StepResult[] = [];
-
-  // Run steps one at a time
-  for (const step of steps) {
-    const { output, stepResult } = await executeSingleStep({
-      step,
-      env,
-      verbose,
-      yaml,
-      debug,
-      maxNameLength,
-      log,
-      previousRun,
-      phaseName,
-      treeHash,
-      runId,
-    });
+  const stepOutcomes = new Map<number, { output: string; stepResult: StepResult }>();
+  const stepStates = new Map<number, ScheduledStepState>();
+  const processes: Array<{ proc: ChildProcess; step: ValidationStep }> = [];
+  const stoppedProcesses = new Set<ChildProcess>();
+  let failFastTriggered = false;
+  const phaseResults = new Map<number, PhaseResult>();
+
+  const progress: PhaseProgress[] = graph.phases.map((phase, phaseIndex) => ({
+    phase,
+    nodes: graph.nodes.filter(node => node.phaseIndex === phaseIndex),
+    // Find longest step name for alignment
+    maxNameLength: Math.max(...phase.steps.map(s => s.name.length)),
+    settled: 0,
+  }));
+
+  const startPhase = (phaseProgress: PhaseProgress): void => {
+    if (phaseProgress.startTime !== undefined) {
+      return;
+    }
+    phaseProgress.startTime = Date.now();
+    const { phase } = phaseProgress;
+    onPhaseStart?.(phase);
+    log(`\n🔍 Running ${phase.name} (${phase.steps.length} steps ${describePhaseMode(phase, maxConcurrency)})...`);
+  };
+
+  const completePhase = (phaseIndex: number, phaseProgress: PhaseProgress): void => {
+    if (phaseProgress.startTime === undefined) {
+      return; // No step of this phase ran
+    }
+
+    const durationSecs = Number.parseFloat(((Date.now() - phaseProgress.startTime) / 1000).toFixed(1));
+    const ran = phaseProgress.nodes.filter(node => stepOutcomes.has(node.index));
+    const failed = phaseProgress.nodes.find(node => stepStates.get(node.index) === 'failed');
 
-    outputs.set(step.name, output);
-    stepResults.push(stepResult);
-
-    // If step failed and fail-fast is enabled, stop here
-    if (!stepResult.passed && enableFailFast) {
-      return {
-        success: false,
-        failedStep: step,
-        outputs,
-        stepResults,
-      };
+    // Append this phase's outputs to the log file
+    if (logPath) {
+      const phaseOutputs = new Map(ran.map(node => [node.step.name, stepOutcomes.get(node.index)?.output ?? '']));
+      appendStepOutputsToLog(logPath, phaseOutputs, failed?.step.name);
     }
+
+    const phaseResult: PhaseResult = {
+      name: phaseProgress.phase.name,
+      passed: phaseProgress.nodes.every(node => stepStates.get(node.index) === 'passed'),
+      durationSecs,
+      steps: ran.map(node => stepOutcomes.get(node.index)?.stepResult).filter(r => r !== undefined),
+    };
+    phaseResults.set(phaseIndex, phaseResult);
+    onPhaseComplete?.(phaseProgress.phase, phaseResult);
+  };
+
+  const { errors } = await scheduleSteps({
+    graph,
+    enableFailFast,
+    maxConcurrency,
+    runStep: async node => {
+      const phaseProgress = progress[node.phaseIndex];
+      startPhase(phaseProgress);
+
+      const outcome = await executeStep({
+        step: node.step,
+        phaseName: node.phaseName,
+        maxNameLength: phaseProgress.maxNameLength,
+        log,
+        baseEnv: env,
+        parent,
+        treeHash,
+        runId,
+        verbose,
+        yaml,
+        debug,
+        developerFeedback,
+        previousRun,
+        inputsHash: inputHashes.get(node.index),
+        findCachedStep: options.findCachedStep,
+        conditionSkip: conditionSkips.get(node.index),
+        timeoutPolicy: resolveTimeoutPolicy(node.step, graph.phases[node.phaseIndex].timeout),
+        resourceBudget: options.resourceBudget?.[node.step.name],
+        onSpawn: proc => processes.push({ proc, step: node.step }),
+        wasStopped: proc => stoppedProcesses.has(proc),
+        isStopping: () => failFastTriggered,
+      });
+
+      stepOutcomes.set(node.index, outcome);
+      outputs.set(node.step.name, outcome.output);
+      return outcome.stepResult;
+    },
+    onFailFast: node => {
+      failFastTriggered = true;
+      stopOtherSteps(processes, node.step, stoppedProcesses, log);
+    },
+    onStepSettled: (node, state) => {
+      stepStates.set(node.index, state);
+      const phaseProgress = progress[node.phaseIndex];
+      phaseProgress.settled++;
+      if (phaseProgress.settled === phaseProgress.nodes.length) {
+        completePhase(node.phaseIndex, phaseProgress);
+      }
+    },
+  });
+
+  if (verbose) {
+    logStepErrors(graph, errors, log);
   }
 
-  // Check if any step failed (for non-fail-fast mode)
-  const hasFailures = stepResults.some(r => !r.passed);
-  const failedStep = hasFailures ? stepResults.find(r => !r.passed) : undefined;
+  const failedNode = graph.nodes.find(node => stepStates.get(node.index) === 'failed');
 
   return {
-    success: !hasFailures,
-    failedStep: failedStep ? steps.find(s => s.name === failedStep.name) : undefined,
+    phaseResults: [...phaseResults.entries()].sort(([a], [b]) => a - b).map(([, result]) => result),
     outputs,
-    stepResults,
+    ...(failedNode ? { failedStep: failedNode.step } : {}),
   };
 }
 
@@ -960,7 +1662,8 @@ export async function runStepsSequentially(
  *
  * Executes multiple validation steps concurrently, capturing output and
  * providing fail-fast termination if enabled. Each step runs in its own
- * detached process group for clean termination.
+ * detached process group for clean termination. Steps that declare
+ * `dependsOn` (on other steps in the list) wait for those steps.
  *
  * @param steps - Array of validation steps to execute in parallel
  * @param phaseName - Human-readable phase name for logging
@@ -995,342 +1698,15 @@ export async function runStepsInParallel(
   outputs: Map<string, string>;
   stepResults: StepResult[];
 }> {
-  const {
-    enableFailFast = false,
-    env = {},
-    verbose = false,
-    yaml = false,
-    developerFeedback = false,
-    debug = false,
-    previousRun,
-  } = options;
-  // When yaml mode is on, write progress to stderr to keep stdout clean
-  const log = yaml ?
-    (msg: string) => process.stderr.write(msg + '\n') :
-    (msg: string) => console.log(msg);
-
-  log(`\n🔍 Running ${phaseName} (${steps.length} steps in parallel)...`);
-
-  // Find longest step name for alignment
-  const maxNameLength = Math.max(...steps.map(s => s.name.length));
-
-  const outputs = new Map<string, string>();
-  const stepResults: StepResult[] = [];
-  const processes: Array<{ proc: ChildProcess; step: ValidationStep }> = [];
-  let firstFailure: { step: ValidationStep; output: string } | null = null;
-
-  // Helper functions (extracted to reduce nesting depth)
-  const isWarning = (e: { severity?: string }) => e.severity === 'warning';
-  const isNotWarning = (e: { severity?: string }) => e.severity !== 'warning';
-
-  const ignoreStopErrors = () => { /* Process may have already exited */ };
-
-  // Pre-compute per-step ParentContext env so the spawn executor below stays synchronous.
-  // Reuse run-level treeHash/runId when provided by runValidation; otherwise fall back
-  // to a single getGitTreeHash() call (used when runStepsInParallel is invoked directly).
-  const parentCtx = readParentContext();
-  const sharedTreeHash = options.treeHash ?? (await getGitTreeHash()).hash;
-  const sharedRunId = options.runId ?? makeRunId(sharedTreeHash);
-  const stepEnvs = new Map<string, { env: Record<string, string>; outputDir: string }>();
-  for (const step of steps) {
-    stepEnvs.set(step.name, buildStepEnv({
-      step,
-      baseEnv: env,
-      parent: parentCtx,
-      runId: sharedRunId,
-      treeHash: sharedTreeHash,
-      ...(phaseName ? { phaseName } : {}),
-      verbose,
-    }));
-  }
-
-  const results = await Promise.allSettled(
-    steps.map(step =>
-      new Promise<{ step: ValidationStep; output: string; durationSecs: number }>((resolve, reject) => {
-        const paddedName = step.name.padEnd(maxNameLength);
-
-        // Check if step should be skipped based on runScope
-        const isCI = Boolean(process.env.CI);
-        if (shouldSkipByRunScope(step.runScope, isCI)) {
-          const skipReason = getRunScopeSkipReason(step.runScope);
-          log(`   ⏭️  ${paddedName}  →  ${skipReason}`);
-
-          const skippedStepResult: StepResult = {
-            name: step.name,
-            command: step.command,
-            passed: true,
-            durationSecs: 0,
-            exitCode: 0,
-          };
-
-          stepResults.push(skippedStepResult);
-          outputs.set(step.name, '');
-          resolve({ step, output: '', durationSecs: 0 });
-          return;
-        }
-
-        // Check if we can use cached result from previous run
-        const previousStep = previousRun ? findPreviousStepResult(previousRun, step.name) : null;
-        const isRetryFailed = Boolean(previousRun);
-
-        if (shouldUseCachedResult(previousStep, isRetryFailed)) {
-          // Use cached result - copy everything from previous step and mark as cached
-          // previousStep is guaranteed non-null by shouldUseCachedResult check
-          if (!previousStep) {
-            reject(new Error('Internal error: previousStep should not be null after shouldUseCachedResult'));
-            return;
-          }
-
-          log(`   ⏳ ${paddedName}  →  ${step.command}`);
-          if (verbose) {
-            log(`      ⚡ Using cached result from previous validation`);
-          }
-          const status = '✅';
-          const result = 'PASSED';
-          log(`      ${status} ${step.name.padEnd(maxNameLength)} - ${result} (${previousStep.durationSecs}s)`);
-
-          const cachedStepResult: StepResult = {
-            ...previousStep,
-            isCachedResult: true,
-          };
-
-          stepResults.push(cachedStepResult);
-          outputs.set(step.name, '');
-          resolve({ step, output: '', durationSecs: previousStep.durationSecs });
-          return;
-        }
-
-        // Execute step normally
-        log(`   ⏳ ${paddedName}  →  ${step.command}`);
-
-        const startTime = Date.now();
-
-        // Resolve cwd relative to git root (if specified)
-        const resolvedCwd = step.cwd ? resolveGitRelativePath(step.cwd) : undefined;
-        const stepEnvEntry = stepEnvs.get(step.name);
-        const stepEnv = stepEnvEntry?.env ?? env;
-        // Output directory advertised in ParentContext.outputDir; the inline
-        // file-creation block below writes to this same directory so the
-        // advertised location matches the actual filesystem location.
-        const stepOutputDir =
-          stepEnvEntry?.outputDir ?? join(getTempDir('steps'), sharedRunId, slugifyStepName(step.name));
-        const proc = spawnCommand(step.command, {
-          env: stepEnv,
-          cwd: resolvedCwd,
-        });
-
-        // Track process for potential kill
-        processes.push({ proc, step });
-
-        // Use object accumulators for mutable references
-        const stdoutAccumulator = { value: '' };
-        const stderrAccumulator = { value: '' };
-
-        // Track timestamped output for combined.jsonl (similar to run command)
-        const combinedLines: Array<{ ts: string; stream: 'stdout' | 'stderr'; line: string }> = [];
-
-        // Setup stream handlers using shared factory function (eliminates duplication)
-        // spawnCommand always sets stdio: ['ignore', 'pipe', 'pipe'], so stdout/stderr are guaranteed non-null
-        // eslint-disable-next-line @typescript-eslint/no-non-null-assertion -- spawnCommand always pipes stdout/stderr
-        proc.stdout!.on('data', createStreamHandler('stdout', stdoutAccumulator, combinedLines, verbose, yaml));
-        // eslint-disable-next-line @typescript-eslint/no-non-null-assertion -- spawnCommand always pipes stdout/stderr
-        proc.stderr!.on('data', createStreamHandler('stderr', stderrAccumulator, combinedLines, verbose, yaml));
-
-        proc.on('close', exitCode => {
-          // Wrap in async IIFE to handle file creation
-          // eslint-disable-next-line sonarjs/no-nested-functions, sonarjs/cognitive-complexity -- IIFE required for async/await in sync close handler; inherits complexity from step completion logic
-          (async () => {
-            const durationMs = Date.now() - startTime;
-            const durationSecs = Number.parseFloat((durationMs / 1000).toFixed(1));
-            const stdout = stdoutAccumulator.value;
-            const stderr = stderrAccumulator.value;
-            const output = stdout + stderr;
-            outputs.set(step.name, output);
-
-            // Normalize exit code (null means abnormal termination, treat as failure)
-            const code = exitCode ?? 1;
-
-            const status = code === 0 ? '✅' : '❌';
-            const result = code === 0 ? 'PASSED' : 'FAILED';
-            log(`      ${status} ${step.name.padEnd(maxNameLength)} - ${result} (${durationSecs}s)`);
-
-          // Extract errors ONLY from FAILED steps (code !== 0)
-          // Rationale: Passing tests have no failures to extract. Including empty extraction
-          // objects wastes tokens in LLM context. Only extract when there's value to provide.
-          let extraction;
-          let isCachedResult: boolean | undefined;
-          let outputFiles;
-          let outputFilesFromNestedCommand = false; // Track if outputFiles came from nested vv run
-
-          // Handle killed/stopped processes (fail-fast scenario)
-          // When output is empty or very short AND exit code is non-zero, the process was likely killed
-          const minimalOutput = !output || output.trim().length < 50;
-          if (code !== 0 && minimalOutput) {
-            // Process was killed/stopped - provide meaningful message instead of "0 errors"
-            extraction = {
-              summary: 'Process stopped (fail-fast)',
-              totalErrors: 0,
-              errors: [],
-              guidance: 'This step was terminated when another step failed. Check the failed step above for the root cause.',
-            };
-          }
-          // eslint-disable-next-line @typescript-eslint/prefer-optional-chain -- Explicit null/undefined/empty check is clearer than optional chaining
-          else if (code !== 0 && output && output.trim()) {
-            // Try parsing vibe-validate YAML output (from nested run commands)
-            // Uses shared parser that handles both RunResult and ValidationResult formats
-            const parsed = parseVibeValidateOutput(output);
-
-            if (parsed) {
-              // Use extraction from nested vibe-validate command
-              // This preserves the actual meaningful summary instead of generic "X error(s) from nested command"
-              extraction = parsed.extraction;
-              isCachedResult = parsed.isCachedResult;
-              outputFiles = parsed.outputFiles;
-              outputFilesFromNestedCommand = true; // Came from nested run - always include
-
-              // Log cache hit status if available (nested run was cached)
-              if (parsed.isCachedResult && verbose) {
-                log(`      ⚡ Step used cached result (${parsed.type} command)`);
-              }
-            } else {
-              // No vibe-validate YAML detected - use standard extraction
-              const rawExtraction = autoDetectAndExtract(output);
-
-              // Strip empty optional fields to save tokens
-              extraction = {
-                summary: rawExtraction.summary,
-                totalErrors: rawExtraction.totalErrors,
-                errors: rawExtraction.errors,
-                ...(rawExtraction.guidance?.trim() ? { guidance: rawExtraction.guidance } : {}),
-                ...(rawExtraction.errorSummary?.trim() ? { errorSummary: rawExtraction.errorSummary } : {}),
-                ...(rawExtraction.metadata ? { metadata: rawExtraction.metadata } : {}),
-              };
-            }
-          } else if (output?.trim()) {
-            // Passing step (code === 0) - check if it was cached
-            const parsed = parseVibeValidateOutput(output);
-            if (parsed) {
-              isCachedResult = parsed.isCachedResult;
-              outputFiles = parsed.outputFiles;
-              outputFilesFromNestedCommand = true; // Came from nested run - always include
-
-              // Log cache hit status if available
-              if (parsed.isCachedResult && verbose) {
-                log(`      ⚡ Step used cached result (${parsed.type} command)`);
-              }
-            }
-          }
-          // If passing step (code === 0), extraction remains undefined (token optimization)
-
-          // Create output files for failing steps or when debug mode is enabled
-          // This provides full debugging context when needed
-            const shouldCreateFiles = code !== 0 || debug;
-            if (shouldCreateFiles && !outputFiles) {
-              // Only create files if not already provided by nested vibe-validate command
-              try {
-                const treeHashResult = await getGitTreeHash();
-                const treeHash = treeHashResult.hash;
-                // Use the same outputDir we advertised in ParentContext.outputDir
-                // so the advertised location matches where the files actually live.
-                await ensureDir(stepOutputDir);
-
-                const writePromises: Promise<void>[] = [];
-
-                // Generate unique filenames with tree hash and timestamp
-                const stdoutFilename = getTempFilename(treeHash, 'log', `${step.name}-stdout`);
-                const stderrFilename = getTempFilename(treeHash, 'log', `${step.name}-stderr`);
-                const combinedFilename = getTempFilename(treeHash, 'jsonl', `${step.name}-combined`);
-
-                // Write stdout.log (only if non-empty) using shared utility
-                const { file: stdoutFile, promise: stdoutPromise } =
-                  createLogFileWrite(stdout, stepOutputDir, stdoutFilename);
-                if (stdoutPromise) writePromises.push(stdoutPromise);
-
-                // Write stderr.log (only if non-empty) using shared utility
-                const { file: stderrFile, promise: stderrPromise } =
-                  createLogFileWrite(stderr, stepOutputDir, stderrFilename);
-                if (stderrPromise) writePromises.push(stderrPromise);
-
-                // Write combined.jsonl (always - timestamped interleaved output)
-                const combinedFile = join(stepOutputDir, combinedFilename);
-                const combinedContent = createCombinedJsonl(combinedLines);
-                writePromises.push(writeFile(combinedFile, combinedContent, 'utf-8'));
-
-                // Wait for all writes to complete
-                await Promise.all(writePromises);
-
-                // Populate outputFiles for StepResult
-                outputFiles = {
-                  ...(stdoutFile ? { stdout: stdoutFile } : {}),
-                  ...(stderrFile ? { stderr: stderrFile } : {}),
-                  combined: combinedFile,
-                };
-              } catch (error) {
-                // Silent failure - don't block validation on file creation errors
-                // This ensures validation completes even if temp directory is unavailable
-                if (verbose) {
-                  const errorMsg = error instanceof Error ? error.message : String(error);
-                  log(`      ⚠️  Could not create output files: ${errorMsg}`);
-                }
-              }
-            }
-
-            // Create step result - extends CommandExecutionSchema (v0.15.0+)
-          const stepResult: StepResult = {
-            name: step.name,
-            command: step.command,
-            exitCode: code,
-            durationSecs,
-            passed: code === 0,
-            ...(isCachedResult === undefined ? {} : { isCachedResult }), // Include cache status if available
-            ...(extraction ? { extraction } : {}), // Conditionally include extraction
-            ...((outputFiles && (outputFilesFromNestedCommand || code !== 0 || debug)) ? { outputFiles } : {}), // Always show for nested commands, or when step failed/debug enabled (v0.15.0+)
-          };
-
-          // Only include extraction quality metrics when developerFeedback is enabled
-          // Skip if extraction already has metadata (from smart extractors) - that's more accurate
-          // This is for vibe-validate contributors to identify extraction improvement opportunities
-          if (developerFeedback && extraction && !extraction.metadata) {
-            processDeveloperFeedback(stepResult, extraction, log, isWarning, isNotWarning);
-          }
-
-            stepResults.push(stepResult);
-
-            if (code === 0) {
-              resolve({ step, output, durationSecs });
-            } else {
-              // On first failure, kill other processes if fail-fast enabled
-              firstFailure = handleFailFast(enableFailFast, firstFailure, step, output, processes, log, ignoreStopErrors);
-              const error = new Error(`Validation step failed: ${step.name}`) as Error & { step: ValidationStep; output: string; durationSecs: number };
-              error.step = step;
-              error.output = output;
-              error.durationSecs = durationSecs;
-              reject(error);
-            }
-            // eslint-disable-next-line sonarjs/no-nested-functions -- Error handler required for async IIFE
-          })().catch((error) => {
-            // Handle errors in async close handler
-            const errorMsg = error instanceof Error ? error.message : String(error);
-            if (verbose) {
-              log(`      ⚠️  Error in close handler: ${errorMsg}`);
-            }
-            // Reject with error to fail validation
-            reject(new Error(`Close handler error: ${errorMsg}`));
-          }); // Close async IIFE
-        });
-      })
-    )
-  );
-
-  // Check for failures
-  for (const result of results) {
-    if (result.status === 'rejected') {
-      const { step } = result.reason;
-      return { success: false, failedStep: step, outputs, stepResults };
-    }
-  }
+  const graph = buildStepGraph([{ name: phaseName, parallel: true, steps }]);
+  const { phaseResults, outputs, failedStep } = await runStepGraph(graph, options);
 
-  return { success: true, outputs, stepResults };
+  return {
+    success: !failedStep,
+    ...(failedStep ? { failedStep } : {}),
+    outputs,
+    stepResults: phaseResults[0]?.steps ?? [],
+  };
 }
 
 /**
@@ -1416,7 +1792,6 @@ function createFailedValidationResult(
  *
  * @public
  */
-// eslint-disable-next-line sonarjs/cognitive-complexity -- Complexity 19 acceptable for main validation orchestration function (plugin loading, caching, phase execution, and result handling)
 export async function runValidation(config: ValidationConfig): Promise<ValidationResult> {
   const {
     phases,
@@ -1427,6 +1802,11 @@ export async function runValidation(config: ValidationConfig): Promise<Validatio
     onPhaseComplete,
   } = config;
 
+  // Resolve step dependencies up front: an invalid graph (unknown or circular
+  // dependsOn) must fail before any step runs
+  const partial = config.selection !== undefined && isPartialSelection(config.selection);
+  const graph = buildStepGraph(partial ? selectSteps(phases, config.selection ?? {}) : phases);
+
   // Get current working tree hash (deterministic, content-based)
   const treeHashResult = await getGitTreeHash();
   const currentTreeHash = treeHashResult.hash;
@@ -1441,87 +1821,56 @@ export async function runValidation(config: ValidationConfig): Promise<Validatio
 
   // Load and register local plugins if configured
   // This must happen before any validation steps run, so extractors are available
-  if (config.extractors) {
-    try {
-      const { discoverPlugins, registerPluginsToRegistry } = await import('@vibe-validate/extractors');
-
-      // Auto-discover local plugins from vibe-validate-local-plugins/ directory
-      const plugins = await discoverPlugins({
-        baseDir: process.cwd(),
-      });
-
-      // Register plugins with the appropriate trust level
-      const trustLevel = config.extractors.localPlugins?.trust ?? 'sandbox';
-      if (plugins.length > 0) {
-        registerPluginsToRegistry(plugins, trustLevel);
-        appendFileSync(logPath, `Loaded ${plugins.length} local plugin(s) with trust level: ${trustLevel}\n\n`);
-      }
-    } catch (error) {
-      // Fail-safe: If plugin loading fails, log but continue validation
-      // This ensures validation never blocks due to plugin issues
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      appendFileSync(logPath, `Warning: Plugin loading failed: ${errorMessage}\n\n`);
+  try {
+    const plugins = await discoverLocalExtractorPlugins(config.extractors);
+
+    // Register plugins with the appropriate trust level
+    const trustLevel = config.extractors?.localPlugins?.trust ?? 'sandbox';
+    if (plugins.length > 0) {
+      const { registerPluginsToRegistry } = await import('@vibe-validate/extractors');
+      registerPluginsToRegistry(plugins, trustLevel);
+      appendFileSync(logPath, `Loaded ${plugins.length} local plugin(s) with trust level: ${trustLevel}\n\n`);
     }
+  } catch (error) {
+    // Fail-safe: If plugin loading fails, log but continue validation
+    // This ensures validation never blocks due to plugin issues
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    appendFileSync(logPath, `Warning: Plugin loading failed: ${errorMessage}\n\n`);
   }
 
-  const phaseResults: PhaseResult[] = [];
-
-  // Run each phase
-  for (const phase of phases) {
-    if (onPhaseStart) {
-      onPhaseStart(phase);
-    }
+  // Extractors set on steps must exist (built in, or a plugin loaded above)
+  // before any step runs
+  checkStepExtractors(graph);
+
+  // Run all steps as a dependency graph (phases provide grouping and reporting)
+  const { phaseResults, failedStep } = await runStepGraph(graph, {
+    enableFailFast,
+    maxConcurrency: config.maxConcurrency,
+    changedSince: config.changedSince,
+    env,
+    verbose: config.verbose ?? false,
+    yaml: config.yaml ?? false,
+    developerFeedback: config.developerFeedback ?? false,
+    debug: config.debug ?? false,
+    previousRun: config.previousRun,
+    findCachedStep: config.findCachedStep,
+    resourceBudget: config.resourceBudget,
+    treeHash: currentTreeHash,
+    runId,
+    logPath,
+    onPhaseStart,
+    onPhaseComplete,
+  });
 
-    const phaseStartTime = Date.now();
-
-    // Choose execution strategy based on parallel flag
-    const runSteps = (phase.parallel === true) ? runStepsInParallel : runStepsSequentially;
-
-    const result = await runSteps(
-      phase.steps,
-      phase.name,
-      {
-        enableFailFast,
-        env,
-        verbose: config.verbose ?? false,
-        yaml: config.yaml ?? false,
-        developerFeedback: config.developerFeedback ?? false,
-        debug: config.debug ?? false,
-        previousRun: config.previousRun,
-        treeHash: currentTreeHash,
-        runId,
-      }
+  if (failedStep) {
+    const failedResult = createFailedValidationResult(
+      failedStep,
+      currentTreeHash,
+      phaseResults,
+      config.debug ?? false,
+      logPath
     );
-    const phaseDurationMs = Date.now() - phaseStartTime;
-    const durationSecs = Number.parseFloat((phaseDurationMs / 1000).toFixed(1));
-
-    // Append all outputs to log file
-    appendStepOutputsToLog(logPath, result.outputs, result.failedStep?.name);
-
-    // Record phase result
-    const phaseResult: PhaseResult = {
-      name: phase.name,
-      passed: result.success,
-      durationSecs,
-      steps: result.stepResults,
-    };
-
-    phaseResults.push(phaseResult);
-
-    if (onPhaseComplete) {
-      onPhaseComplete(phase, phaseResult);
-    }
-
-    // If phase failed, stop here and return failure result
-    if (!result.success && result.failedStep) {
-      return createFailedValidationResult(
-        result.failedStep,
-        currentTreeHash,
-        phaseResults,
-        config.debug ?? false,
-        logPath
-      );
-    }
+    return partial ? { ...failedResult, partial } : failedResult;
   }
 
   // All steps passed!
@@ -1531,6 +1880,7 @@ export async function runValidation(config: ValidationConfig): Promise<Validatio
     timestamp: new Date().toISOString(),
     treeHash: currentTreeHash,
     summary: 'Validation passed',
+    ...(partial ? { partial } : {}),
     phases: phaseResults,
     ...(config.debug ? { outputFiles: { combined: logPath } } : {}),
   };
@@ -0,0 +1,194 @@
+/**
+ * Step Scheduler - runs a step dependency graph
+ *
+ * Starts every step as soon as its dependencies allow, instead of waiting for
+ * phase boundaries. The scheduler only decides *when* a step runs; executing
+ * it (spawning, output capture, extraction) is delegated to the caller.
+ *
+ * @packageDocumentation
+ */
+
+import type { StepGraph, StepGraphNode } from '@vibe-validate/config';
+
+/**
+ * Final state of a scheduled step
+ *
+ * - `passed` / `failed`: the step ran (or was skipped/cached) and finished
+ * - `not-run`: the step never started, because a required step failed or
+ *   did not run, or because fail-fast stopped the run
+ */
+export type ScheduledStepState = 'passed' | 'failed' | 'not-run';
+
+/**
+ * Options for scheduling a step graph
+ */
+export interface StepSchedulerOptions<R extends { passed: boolean }> {
+  /** Step dependency graph to execute */
+  graph: StepGraph;
+
+  /** Stop starting new steps after the first failure */
+  enableFailFast: boolean;
+
+  /**
+   * Maximum number of steps running at once (default: unlimited)
+   *
+   * A phase's own `maxConcurrency` additionally limits how many of that
+   * phase's steps run at once. Ready steps beyond the limit wait for a free
+   * slot and start in config order.
+   */
+  maxConcurrency?: number;
+
+  /** Execute one step. A rejected promise counts as a failure of that step. */
+  runStep: (_node: StepGraphNode) => Promise<R>;
+
+  /** Called once when fail-fast is triggered (e.g. to stop running processes) */
+  onFailFast?: (_failed: StepGraphNode) => void;
+
+  /** Called when a step settles, including steps that will never run */
+  onStepSettled?: (_node: StepGraphNode, _state: ScheduledStepState) => void;
+}
+
+/**
+ * Result of scheduling a step graph
+ */
+export interface StepSchedulerResult<R> {
+  /** Results of steps that ran, keyed by node index */
+  results: Map<number, R>;
+
+  /** Final state of every node, indexed like `graph.nodes` */
+  states: ScheduledStepState[];
+
+  /** Errors thrown by `runStep`, keyed by node index */
+  errors: Map<number, unknown>;
+}
+
+type NodeState = 'pending' | 'running' | ScheduledStepState;
+
+/**
+ * Run every step in the graph, respecting dependencies
+ *
+ * A step starts when all of its `requires` dependencies have passed, all of
+ * its `after` dependencies have settled, and a concurrency slot is free. A
+ * step whose required dependency failed (or did not run) is marked `not-run`,
+ * and so are the steps that depend on it.
+ *
+ * @param options - Graph, fail-fast mode and step executor
+ * @returns Results and final state for every step
+ *
+ * @example
+ * ```typescript
+ * const graph = buildStepGraph(config.validation.phases);
+ * const { states } = await scheduleSteps({
+ *   graph,
+ *   enableFailFast: true,
+ *   runStep: node => runMyStep(node.step),
+ * });
+ * ```
+ *
+ * @public
+ */
+export function scheduleSteps<R extends { passed: boolean }>(
+  options: StepSchedulerOptions<R>
+): Promise<StepSchedulerResult<R>> {
+  const { graph, enableFailFast, maxConcurrency, runStep, onFailFast, onStepSettled } = options;
+  const states: NodeState[] = graph.nodes.map(() => 'pending');
+  const results = new Map<number, R>();
+  const errors = new Map<number, unknown>();
+  const runningByPhase: number[] = graph.phases.map(() => 0);
+  let running = 0;
+  let stopped = false;
+
+  const isBlocking = (state: NodeState) => state === 'failed' || state === 'not-run';
+  const isSettled = (state: NodeState) => state === 'passed' || isBlocking(state);
+
+  const getReadiness = (node: StepGraphNode): 'ready' | 'waiting' | 'blocked' => {
+    if (node.requires.some(dep => isBlocking(states[dep]))) {
+      return 'blocked';
+    }
+    const ready = node.requires.every(dep => states[dep] === 'passed') &&
+      node.after.every(dep => isSettled(states[dep]));
+    return ready ? 'ready' : 'waiting';
+  };
+
+  const hasFreeSlot = (node: StepGraphNode): boolean => {
+    if (maxConcurrency !== undefined && running >= maxConcurrency) {
+      return false;
+    }
+    const phaseLimit = graph.phases[node.phaseIndex]?.maxConcurrency;
+    return phaseLimit === undefined || runningByPhase[node.phaseIndex] < phaseLimit;
+  };
+
+  return new Promise(resolve => {
+    const settle = (node: StepGraphNode, state: ScheduledStepState): void => {
+      states[node.index] = state;
+      onStepSettled?.(node, state);
+    };
+
+    const finish = (node: StepGraphNode, passed: boolean): void => {
+      running--;
+      runningByPhase[node.phaseIndex]--;
+      settle(node, passed ? 'passed' : 'failed');
+
+      if (!passed && enableFailFast && !stopped) {
+        stopped = true;
+        onFailFast?.(node);
+      }
+
+      pump();
+    };
+
+    const start = (node: StepGraphNode): void => {
+      states[node.index] = 'running';
+      running++;
+      runningByPhase[node.phaseIndex]++;
+
+      runStep(node).then(
+        result => {
+          results.set(node.index, result);
+          finish(node, result.passed);
+        },
+        (error: unknown) => {
+          errors.set(node.index, error);
+          finish(node, false);
+        }
+      );
+    };
+
+    // Start ready nodes (while there are free slots) and mark blocked ones
+    // not-run; returns true if any node was marked not-run
+    const advancePending = (): boolean => {
+      let blockedAny = false;
+      for (const node of graph.nodes.filter(n => states[n.index] === 'pending')) {
+        const readiness = stopped ? 'blocked' : getReadiness(node);
+        if (readiness === 'blocked') {
+          settle(node, 'not-run');
+          blockedAny = true;
+        } else if (readiness === 'ready' && hasFreeSlot(node)) {
+          start(node);
+        }
+      }
+      return blockedAny;
+    };
+
+    const pump = (): void => {
+      // Marking a node not-run can unblock (or block) nodes earlier in config
+      // order, since dependsOn may point forward - so repeat until stable.
+      while (advancePending()) {
+        // keep going
+      }
+
+      if (running === 0) {
+        // Nothing running and nothing startable: anything still pending is
+        // unreachable (only possible with an unvalidated, cyclic graph).
+        for (const node of graph.nodes) {
+          if (states[node.index] === 'pending') {
+            settle(node, 'not-run');
+          }
+        }
+        resolve({ results, states: states as ScheduledStepState[], errors });
+      }
+    };
+
+    pump();
+  });
+}
@@ -0,0 +1,115 @@
+/**
+ * Step Selection - run a subset of the steps (`validate --only/--skip`)
+ *
+ * Each pattern matches step names and phase names; `*` matches any run of
+ * characters and `?` a single character (`"*Tests"`, `"Lint"`). A phase name
+ * selects all of its steps.
+ *
+ * Dependencies on steps that are not selected are dropped, so `--only "Unit
+ * Tests"` runs just that step even when it `dependsOn` a build step.
+ *
+ * @packageDocumentation
+ */
+
+import type { ValidationPhase, ValidationStep } from '@vibe-validate/config';
+
+/**
+ * Steps to run, by step name, phase name or glob
+ */
+export interface StepSelection {
+  /** Run only steps matching one of these (default: every step) */
+  only?: string[];
+
+  /** Leave out steps matching one of these */
+  skip?: string[];
+}
+
+/**
+ * Check whether a selection leaves any step out
+ *
+ * @param selection - Step selection
+ * @returns true if `only` or `skip` is given
+ */
+export function isPartialSelection(selection: StepSelection): boolean {
+  return (selection.only?.length ?? 0) > 0 || (selection.skip?.length ?? 0) > 0;
+}
+
+/**
+ * Convert a glob (`*`, `?`) to an anchored regular expression
+ *
+ * @internal
+ */
+function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .replaceAll(/[.+^${}()|[\]\\]/g, String.raw`\$&`)
+    .replaceAll('*', '.*')
+    .replaceAll('?', '.');
+  // eslint-disable-next-line security/detect-non-literal-regexp -- Pattern is escaped; only * and ? become wildcards
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Check whether a pattern matches a step or its phase
+ *
+ * @internal
+ */
+function matchesStep(pattern: RegExp, phaseName: string, step: ValidationStep): boolean {
+  return pattern.test(step.name) || pattern.test(phaseName);
+}
+
+/**
+ * Report patterns that match no step or phase (usually a typo)
+ *
+ * @throws Error naming the first pattern that matches nothing
+ * @internal
+ */
+function assertPatternsMatch(flag: string, patterns: string[], phases: ValidationPhase[]): void {
+  for (const pattern of patterns) {
+    const regex = globToRegExp(pattern);
+    if (!phases.some(phase => phase.steps.some(step => matchesStep(regex, phase.name, step)))) {
+      throw new Error(`${flag} "${pattern}" matches no step or phase`);
+    }
+  }
+}
+
+/**
+ * Keep only the selected steps, dropping phases left empty
+ *
+ * @param phases - Configured phases
+ * @param selection - Steps to run
+ * @returns Phases with the selected steps; `dependsOn` entries naming steps
+ *   that were left out are removed
+ * @throws Error if a pattern matches no step or phase, or nothing is left to run
+ *
+ * @example
+ * ```typescript
+ * const phases = selectSteps(config.validation.phases, { only: ['Unit Tests', 'Lint'] });
+ * ```
+ */
+export function selectSteps(phases: ValidationPhase[], selection: StepSelection): ValidationPhase[] {
+  const only = selection.only ?? [];
+  const skip = selection.skip ?? [];
+  assertPatternsMatch('--only', only, phases);
+  assertPatternsMatch('--skip', skip, phases);
+
+  const onlyPatterns = only.map(globToRegExp);
+  const skipPatterns = skip.map(globToRegExp);
+  const isSelected = (phaseName: string, step: ValidationStep): boolean =>
+    (onlyPatterns.length === 0 || onlyPatterns.some(pattern => matchesStep(pattern, phaseName, step))) &&
+    !skipPatterns.some(pattern => matchesStep(pattern, phaseName, step));
+
+  const selected = phases
+    .map(phase => ({ ...phase, steps: phase.steps.filter(step => isSelected(phase.name, step)) }))
+    .filter(phase => phase.steps.length > 0);
+  if (selected.length === 0) {
+    throw new Error('No steps left to run after --only/--skip');
+  }
+
+  const names = new Set(selected.flatMap(phase => phase.steps.map(step => step.name)));
+  return selected.map(phase => ({
+    ...phase,
+    steps: phase.steps.map(step =>
+      step.dependsOn ? { ...step, dependsOn: step.dependsOn.filter(dependency => names.has(dependency)) } : step
+    ),
+  }));
+}
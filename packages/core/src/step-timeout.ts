@@ -0,0 +1,153 @@
+/**
+ * Step Timeouts - stop steps that run too long and report what was hung
+ *
+ * A step's `timeout` (or its phase's) escalates in three stages: an optional
+ * "still running" warning, SIGTERM to the step's process group, then SIGKILL
+ * once the grace period has passed. The processes still alive at the timeout
+ * are captured before they are signalled, so the report shows what hung.
+ *
+ * @packageDocumentation
+ */
+
+import { type ChildProcess } from 'node:child_process';
+
+import type { ValidationStep } from '@vibe-validate/config';
+
+import { listProcessGroup, stopProcessGroup, type ProcessInfo } from './process-utils.js';
+
+/** Grace period between SIGTERM and SIGKILL when the policy sets none */
+export const DEFAULT_KILL_AFTER_MS = 5000;
+
+/** Lines of output in the timeout report when the policy sets none */
+export const DEFAULT_TAIL_LINES = 50;
+
+/** Exit code reported for a timed-out step (as with coreutils `timeout`) */
+export const TIMEOUT_EXIT_CODE = 124;
+
+/**
+ * Effective timeout policy of a step, in milliseconds
+ */
+export interface TimeoutPolicy {
+  afterMs: number;
+  warnAfterMs?: number;
+  killAfterMs: number;
+  tailLines: number;
+}
+
+/**
+ * What a timeout found when it fired
+ */
+export interface TimeoutReport {
+  /** The policy that fired */
+  policy: TimeoutPolicy;
+  /** Processes of the step's process group still alive at the timeout */
+  processes: ProcessInfo[];
+}
+
+/**
+ * Resolve a step's timeout policy (the step's `timeout`, else its phase's)
+ *
+ * @param step - Step configuration
+ * @param phaseTimeout - Phase `timeout` in milliseconds, if any
+ * @returns The policy, or undefined when no timeout applies
+ */
+export function resolveTimeoutPolicy(step: ValidationStep, phaseTimeout: number | undefined): TimeoutPolicy | undefined {
+  const timeout = step.timeout ?? phaseTimeout;
+  if (timeout === undefined) {
+    return undefined;
+  }
+  if (typeof timeout === 'number') {
+    return { afterMs: timeout, killAfterMs: DEFAULT_KILL_AFTER_MS, tailLines: DEFAULT_TAIL_LINES };
+  }
+  return {
+    afterMs: timeout.after,
+    ...(timeout.warnAfter === undefined ? {} : { warnAfterMs: timeout.warnAfter }),
+    killAfterMs: timeout.killAfter ?? DEFAULT_KILL_AFTER_MS,
+    tailLines: timeout.tailLines ?? DEFAULT_TAIL_LINES,
+  };
+}
+
+function formatSeconds(ms: number): string {
+  return `${Number.parseFloat((ms / 1000).toFixed(1))}s`;
+}
+
+/**
+ * Start the timeout timers of a running step
+ *
+ * @param proc - The step's process (leader of its process group)
+ * @param policy - Timeout policy
+ * @param label - Step name for log lines
+ * @param log - Progress logger
+ * @returns `finish`, to call once the process has closed: clears the timers
+ *   and returns the report if the timeout fired
+ */
+export function watchStepTimeout(
+  proc: ChildProcess,
+  policy: TimeoutPolicy,
+  label: string,
+  log: (_msg: string) => void
+): { finish: () => TimeoutReport | undefined } {
+  let report: TimeoutReport | undefined;
+
+  const warnTimer = policy.warnAfterMs === undefined ? undefined : setTimeout(() => {
+    log(`      ⏰ ${label} - still running after ${formatSeconds(policy.warnAfterMs ?? 0)} (timeout at ${formatSeconds(policy.afterMs)})`);
+  }, policy.warnAfterMs);
+
+  const killTimer = setTimeout(() => {
+    // Capture the tree before signalling it - afterwards it is gone
+    report = { policy, processes: proc.pid ? listProcessGroup(proc.pid) : [] };
+    log(`      ⏱️  ${label} - timed out after ${formatSeconds(policy.afterMs)}, stopping (SIGKILL in ${formatSeconds(policy.killAfterMs)})`);
+    stopProcessGroup(proc, label, { gracePeriodMs: policy.killAfterMs }).catch(() => { /* Process may have already exited */ });
+  }, policy.afterMs);
+
+  return {
+    finish: () => {
+      clearTimeout(warnTimer);
+      clearTimeout(killTimer);
+      return report;
+    },
+  };
+}
+
+/**
+ * Indent processes under their parents (processes whose parent is outside
+ * the group are roots)
+ *
+ * @internal
+ */
+function formatProcessTree(processes: ProcessInfo[]): string[] {
+  const pids = new Set(processes.map(info => info.pid));
+  const lines: string[] = [];
+  const visit = (parent: ProcessInfo, depth: number): void => {
+    lines.push(`${'  '.repeat(depth + 1)}${parent.pid}  ${parent.elapsed}  ${parent.command}`);
+    for (const child of processes.filter(info => info.ppid === parent.pid)) {
+      visit(child, depth + 1);
+    }
+  };
+  for (const root of processes.filter(info => !pids.has(info.ppid))) {
+    visit(root, 0);
+  }
+  return lines;
+}
+
+/**
+ * Describe a timeout: the processes that were still running and the last
+ * lines of output
+ *
+ * @param report - What the timeout found
+ * @param outputLines - The step's output lines, in order
+ * @returns Report text, appended to the step output
+ */
+export function formatTimeoutReport(report: TimeoutReport, outputLines: string[]): string {
+  const { policy, processes } = report;
+  const tree = processes.length > 0 ? formatProcessTree(processes) : ['  (not available)'];
+  const tail = outputLines.slice(-policy.tailLines);
+
+  return [
+    `--- Timed out after ${formatSeconds(policy.afterMs)} ---`,
+    'Processes still running (pid, elapsed, command):',
+    ...tree,
+    `Last ${tail.length} line(s) of output:`,
+    ...tail.map(line => `  ${line}`),
+  ].join('\n');
+}
@@ -7,7 +7,13 @@ import { join } from 'node:path';
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 
-import { stopProcessGroup, getGitRoot, resolveGitRelativePath, spawnCommand } from '../src/process-utils.js';
+import {
+  stopProcessGroup,
+  getGitRoot,
+  listProcessGroup,
+  resolveGitRelativePath,
+  spawnCommand,
+} from '../src/process-utils.js';
 
 interface CapturedChildEnv {
   GIT_DIR?: string;
@@ -111,6 +117,22 @@ describe('process-utils', () => {
       await stopPromise;
     });
 
+    it.skipIf(isWindows)('should wait for the grace period before SIGKILL (Unix only)', async () => {
+      vi.useFakeTimers();
+
+      const stopPromise = stopProcessGroup(mockProcess, 'SlowShutdown', { gracePeriodMs: 5000 });
+
+      vi.advanceTimersByTime(4999);
+      expect(processKillSpy).not.toHaveBeenCalledWith(-12345, 'SIGKILL');
+      vi.advanceTimersByTime(1);
+      expect(processKillSpy).toHaveBeenCalledWith(-12345, 'SIGKILL');
+
+      mockProcess.emit('exit', 0, null);
+
+      vi.useRealTimers();
+      await stopPromise;
+    });
+
     it('should resolve after 2 seconds regardless of exit event', async () => {
       vi.useFakeTimers();
 
@@ -232,6 +254,24 @@ describe('process-utils', () => {
     });
   });
 
+  describe('listProcessGroup', () => {
+    it.skipIf(process.platform === 'win32')('should list the processes of a spawned command (Unix only)', async () => {
+      const proc = spawnCommand('node -e "setTimeout(() => {}, 10000)"');
+      await new Promise(resolve => setTimeout(resolve, 300));
+
+      try {
+        const processes = listProcessGroup(proc.pid as number);
+        expect(processes.some(info => info.command.includes('setTimeout'))).toBe(true);
+      } finally {
+        process.kill(-(proc.pid as number), 'SIGKILL');
+      }
+    });
+
+    it('should return an empty list for an unknown group', () => {
+      expect(listProcessGroup(999_999_999)).toEqual([]);
+    });
+  });
+
   describe('getGitRoot', () => {
     it('should return git root path when in git repository', () => {
       // We're actually in a git repo, so this should work
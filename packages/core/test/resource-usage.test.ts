@@ -0,0 +1,72 @@
+/**
+ * Tests for step resource usage sampling and budgets
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+
+import { spawnCommand } from '../src/process-utils.js';
+import { checkResourceBudget, formatResourceUsage, startResourceSampler } from '../src/resource-usage.js';
+
+const USAGE = { peakRssMb: 3100.5, cpuUserSecs: 540, cpuSystemSecs: 80.5, childProcesses: 14 };
+
+describe('checkResourceBudget', () => {
+  it('should describe every exceeded limit', () => {
+    expect(checkResourceBudget(USAGE, { maxRssMb: 2048, maxCpuSecs: 600 })).toEqual([
+      'peak RSS 3100.5MB exceeds 2048MB',
+      'CPU time 620.5s exceeds 600s',
+    ]);
+  });
+
+  it('should accept usage within the budget', () => {
+    expect(checkResourceBudget(USAGE, { maxRssMb: 4096, onExceed: 'fail' })).toEqual([]);
+  });
+});
+
+describe('formatResourceUsage', () => {
+  it('should summarize usage on one line', () => {
+    expect(formatResourceUsage(USAGE)).toBe('peak 3100.5MB, CPU 540s user / 80.5s sys, 14 processes');
+    expect(formatResourceUsage({ ...USAGE, childProcesses: 1 })).toContain('1 process');
+  });
+});
+
+describe('startResourceSampler', () => {
+  it.runIf(process.platform === 'linux')('should sample memory and CPU of the process group', async () => {
+    // A shell with a busy child, so the group holds more than the leader
+    const proc = spawnCommand('node -e "const end = Date.now() + 1200; while (Date.now() < end) {}" && echo done');
+    const sampler = startResourceSampler(proc.pid as number);
+    await new Promise(resolve => proc.on('close', resolve));
+
+    const usage = sampler.stop();
+
+    expect(usage?.peakRssMb).toBeGreaterThan(10);
+    expect(usage?.cpuUserSecs).toBeGreaterThan(0.3);
+    expect(usage?.childProcesses).toBeGreaterThanOrEqual(1);
+  });
+
+  it.runIf(process.platform === 'linux')('should count CPU time of children that exit between samples', async () => {
+    // The busy child starts after the first sample and exits before the next;
+    // only the shell's time for children it waited for can account for it
+    const proc = spawnCommand('node -e "while (process.cpuUsage().user < 300000) {}" && sleep 1');
+    const sampler = startResourceSampler(proc.pid as number);
+    await new Promise(resolve => proc.on('close', resolve));
+
+    expect(sampler.stop()?.cpuUserSecs).toBeGreaterThan(0.2);
+  });
+
+  it.runIf(process.platform === 'linux')('should sample parallel process groups on one timer', async () => {
+    const setIntervalSpy = vi.spyOn(globalThis, 'setInterval');
+    const procs = [spawnCommand('sleep 0.6'), spawnCommand('sleep 0.6')];
+    const samplers = procs.map(proc => startResourceSampler(proc.pid as number));
+    await Promise.all(procs.map(proc => new Promise(resolve => proc.on('close', resolve))));
+
+    const usages = samplers.map(sampler => sampler.stop());
+
+    expect(setIntervalSpy).toHaveBeenCalledTimes(1);
+    expect(usages.every(usage => usage !== undefined)).toBe(true);
+    setIntervalSpy.mockRestore();
+  });
+
+  it.skipIf(process.platform === 'linux')('should report nothing off Linux', () => {
+    expect(startResourceSampler(process.pid).stop()).toBeUndefined();
+  });
+});
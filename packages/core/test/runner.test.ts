@@ -3,17 +3,18 @@
  
  
 import type { ChildProcess } from 'node:child_process';
-import { readFileSync, unlinkSync, existsSync, readdirSync, rmdirSync } from 'node:fs';
+import { readFileSync, unlinkSync, existsSync, readdirSync, rmdirSync, writeFileSync } from 'node:fs';
 import { readFile } from 'node:fs/promises';
 import { join } from 'node:path';
 
 import type { ValidationStep } from '@vibe-validate/config';
-import { getGitTreeHash } from '@vibe-validate/git';
+import { findChangeBase, getGitTreeHash, getInputTreeHashes, hasChangedPaths } from '@vibe-validate/git';
 import { mkdirSyncReal, normalizedTmpdir, toForwardSlash } from '@vibe-validate/utils';
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 
 import {
   buildStepEnv,
+  discoverLocalExtractorPlugins,
   parseFailures,
   runStepsInParallel,
   runValidation,
@@ -44,6 +45,9 @@ vi.mock('@vibe-validate/git', async (importOriginal) => {
   return {
     ...actual,
     getGitTreeHash: vi.fn(),
+    getInputTreeHashes: vi.fn(),
+    findChangeBase: vi.fn(),
+    hasChangedPaths: vi.fn(),
   };
 });
 
@@ -157,6 +161,63 @@ function expectParentContext(
   expect(toForwardSlash(result.stdoutPath).startsWith(toForwardSlash(result.parsed.outputDir))).toBe(true);
 }
 
+const INPUTS_HASH = 'f1e2d3c4b5a6f1e2d3c4b5a6f1e2d3c4b5a6f1e2';
+
+/**
+ * Helper to create a config with one step that declares inputs and fails if it actually runs
+ */
+function createInputsConfig(
+  logPath: string,
+  findCachedStep?: ValidationConfig['findCachedStep']
+): ValidationConfig {
+  return {
+    phases: [
+      {
+        name: 'Test',
+        steps: [{ name: 'Slow Tests', command: 'node -e "process.exit(1)"', inputs: ['src/**'] }],
+      },
+    ],
+    logPath,
+    findCachedStep,
+  };
+}
+
+/**
+ * Helper to create a config with one conditional step that fails if it actually runs
+ */
+function createConditionalConfig(
+  logPath: string,
+  when: ValidationStep['when'],
+  env?: Record<string, string>
+): ValidationConfig {
+  return {
+    phases: [
+      {
+        name: 'Test',
+        steps: [{ name: 'Backend Tests', command: 'node -e "process.exit(1)"', when }],
+      },
+    ],
+    logPath,
+    env,
+    changedSince: ['origin/main', 'main'],
+  };
+}
+
+/**
+ * Write a script failing like `pnpm build && pnpm lint` where both tools report an error
+ *
+ * @returns Path of the script, for a `node "<path>"` command
+ */
+function writeBuildAndLintScript(dir: string): string {
+  const script = join(dir, 'build-and-lint.cjs');
+  writeFileSync(script, [
+    String.raw`console.log("src/index.ts(10,5): error TS2322: Type 'string' is not assignable to type 'number'.");`,
+    'console.log("src/app.ts:3:1: error Unexpected var  no-var");',
+    'process.exit(1);',
+  ].join('\n'));
+  return toForwardSlash(script);
+}
+
 describe('runner', () => {
   let testDir: string;
 
@@ -573,6 +634,419 @@ describe('runner', () => {
     });
   });
 
+  describe('step dependencies (dependsOn)', () => {
+    it('should start a step as soon as its dependencies pass, before earlier phases finish', async () => {
+      const marker = toForwardSlash(join(testDir, 'slow-done'));
+      const config: ValidationConfig = {
+        phases: [
+          {
+            name: 'Build',
+            parallel: true,
+            steps: [
+              { name: 'Slow', command: `node -e "setTimeout(() => require('fs').writeFileSync('${marker}', ''), 1500)"` },
+              { name: 'Fast', command: 'node -e "console.log(\'fast\')"' },
+            ],
+          },
+          {
+            name: 'Check',
+            // Fails if it had to wait for Slow
+            steps: [{ name: 'Early', command: `node -e "process.exit(require('fs').existsSync('${marker}') ? 1 : 0)"`, dependsOn: ['Fast'] }],
+          },
+        ],
+        logPath: join(testDir, 'log.txt'),
+      };
+
+      const result = await runValidation(config);
+
+      expect(result.passed).toBe(true);
+      expect(result.phases!.map(phase => phase.name)).toEqual(['Build', 'Check']);
+      expect(result.phases![1].steps[0].name).toBe('Early');
+    });
+
+    it('should run independent steps but not dependents of a failed step', async () => {
+      const config: ValidationConfig = {
+        phases: [
+          {
+            name: 'Build',
+            parallel: true,
+            steps: [
+              { name: 'Bad', command: 'node -e "process.exit(1)"' },
+              { name: 'Ok', command: 'node -e "console.log(\'ok\')"' },
+            ],
+          },
+          {
+            name: 'Check',
+            parallel: true,
+            steps: [
+              { name: 'Independent', command: 'node -e "console.log(\'independent\')"', dependsOn: ['Ok'] },
+              { name: 'Blocked', command: 'node -e "console.log(\'blocked\')"' },
+            ],
+          },
+        ],
+        logPath: join(testDir, 'log.txt'),
+      };
+
+      const result = await runValidation(config);
+
+      expect(result.passed).toBe(false);
+      expect(result.failedStep).toBe('Bad');
+      expect(result.phases![1].passed).toBe(false);
+      expect(result.phases![1].steps.map(step => step.name)).toEqual(['Independent']);
+    });
+
+    it('should reject invalid dependencies before running any step', async () => {
+      const config: ValidationConfig = {
+        phases: [
+          {
+            name: 'Check',
+            steps: [
+              { name: 'Lint', command: 'node -e "console.log(\'lint\')"', dependsOn: ['Test'] },
+              { name: 'Test', command: 'node -e "console.log(\'test\')"', dependsOn: ['Lint'] },
+            ],
+          },
+        ],
+        logPath: join(testDir, 'log.txt'),
+      };
+
+      await expect(runValidation(config)).rejects.toThrow(/Invalid step dependencies:[\s\S]*Circular step dependency/);
+      expect(getGitTreeHash).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('concurrency limit (maxConcurrency)', () => {
+    it('should not overlap steps beyond the limit and say so when the phase starts', async () => {
+      const sleep = 'node -e "setTimeout(() => {}, 400)"';
+      const config: ValidationConfig = {
+        phases: [
+          {
+            name: 'Testing',
+            parallel: true,
+            steps: [
+              { name: 'One', command: sleep },
+              { name: 'Two', command: sleep },
+              { name: 'Three', command: sleep },
+            ],
+          },
+        ],
+        maxConcurrency: 1,
+        logPath: join(testDir, 'log.txt'),
+      };
+
+      const result = await runValidation(config);
+
+      expect(result.passed).toBe(true);
+      // One at a time: the phase takes at least the three sleeps back to back
+      expect(result.phases![0].durationSecs).toBeGreaterThanOrEqual(1.2);
+      expect(console.log).toHaveBeenCalledWith(expect.stringContaining('Running Testing (3 steps in parallel, 1 at a time)'));
+    });
+  });
+
+  describe('step retries (retries)', () => {
+    it('should retry a failed step and mark a later pass as flaky', async () => {
+      const marker = toForwardSlash(join(testDir, 'first-attempt'));
+      // Fails the first time only
+      const command = `node -e "const fs = require('fs'); if (!fs.existsSync('${marker}')) { fs.writeFileSync('${marker}', ''); console.error('ECONNRESET'); process.exit(3); }"`;
+      const config: ValidationConfig = {
+        phases: [{ name: 'Testing', steps: [{ name: 'Flaky', command, retries: { count: 2, onlyIfOutputMatches: 'ECONN' } }] }],
+        logPath: join(testDir, 'log.txt'),
+      };
+
+      const result = await runValidation(config);
+
+      expect(result.passed).toBe(true);
+      const step = result.phases![0].steps[0];
+      expect(step).toMatchObject({ passed: true, exitCode: 0, flaky: true });
+      expect(step.attempts?.map(attempt => attempt.exitCode)).toEqual([3, 0]);
+      expect(console.log).toHaveBeenCalledWith(expect.stringContaining('retrying (attempt 2 of 3)'));
+    });
+
+    it('should report the failure once every retry is used up', async () => {
+      const config: ValidationConfig = {
+        phases: [{ name: 'Testing', steps: [{ name: 'Broken', command: 'node -e "process.exit(1)"', retries: { count: 2 } }] }],
+        logPath: join(testDir, 'log.txt'),
+      };
+
+      const result = await runValidation(config);
+
+      expect(result.passed).toBe(false);
+      const step = result.phases![0].steps[0];
+      expect(step.attempts).toHaveLength(3);
+      expect(step.flaky).toBeUndefined();
+    });
+
+    it('should not retry when the output does not match onlyIfOutputMatches', async () => {
+      const config: ValidationConfig = {
+        phases: [{
+          name: 'Testing',
+          steps: [{
+            name: 'Broken',
+            command: 'node -e "console.error(\'TypeError: x is undefined\'); process.exit(1)"',
+            retries: { count: 2, onlyIfOutputMatches: 'ECONNRESET|ETIMEDOUT' },
+          }],
+        }],
+        logPath: join(testDir, 'log.txt'),
+      };
+
+      const result = await runValidation(config);
+
+      expect(result.passed).toBe(false);
+      expect(result.phases![0].steps[0].attempts).toBeUndefined();
+    });
+  });
+
+  describe('input caching (inputs)', () => {
+    beforeEach(() => {
+      vi.mocked(getInputTreeHashes).mockReturnValue([INPUTS_HASH as any]);
+    });
+
+    it('should reuse a recorded pass and report the input hash that was hit', async () => {
+      const findCachedStep = vi.fn().mockResolvedValue({
+        name: 'Slow Tests', command: 'node -e "process.exit(1)"', exitCode: 0, durationSecs: 480, passed: true,
+      });
+
+      const result = await runValidation(createInputsConfig(join(testDir, 'log.txt'), findCachedStep));
+
+      expect(findCachedStep).toHaveBeenCalledWith(expect.objectContaining({ name: 'Slow Tests' }), INPUTS_HASH);
+      expect(result.passed).toBe(true);
+      expect(result.phases![0].steps[0]).toMatchObject({
+        passed: true,
+        isCachedResult: true,
+        inputsHash: INPUTS_HASH,
+        durationSecs: 480,
+      });
+    });
+
+    it('should run the step on a miss and record its input hash', async () => {
+      const result = await runValidation(createInputsConfig(join(testDir, 'log.txt'), vi.fn().mockResolvedValue(null)));
+
+      expect(result.passed).toBe(false);
+      expect(result.phases![0].steps[0].inputsHash).toBe(INPUTS_HASH);
+      expect(result.phases![0].steps[0].isCachedResult).toBeUndefined();
+    });
+
+    it('should run the step when the inputs cannot be hashed', async () => {
+      vi.mocked(getInputTreeHashes).mockImplementation(() => {
+        throw new Error('not a git repository');
+      });
+      const findCachedStep = vi.fn();
+
+      const result = await runValidation(createInputsConfig(join(testDir, 'log.txt'), findCachedStep));
+
+      expect(findCachedStep).not.toHaveBeenCalled();
+      expect(result.passed).toBe(false);
+      expect(result.phases![0].steps[0].inputsHash).toBeUndefined();
+    });
+  });
+
+  describe('conditional steps (when)', () => {
+    beforeEach(() => {
+      vi.mocked(findChangeBase).mockReturnValue({ ref: 'origin/main', commit: 'base-commit' });
+    });
+
+    it('should skip a step whose changed paths are untouched, non-deterministically', async () => {
+      vi.mocked(hasChangedPaths).mockReturnValue(false);
+
+      const result = await runValidation(createConditionalConfig(join(testDir, 'log.txt'), { changed: ['backend/**'] }));
+
+      expect(findChangeBase).toHaveBeenCalledWith(['origin/main', 'main']);
+      expect(hasChangedPaths).toHaveBeenCalledWith('base-commit', 'test-tree-hash-abc123', ['backend/**']);
+      expect(result.passed).toBe(true);
+      expect(result.phases![0].steps[0]).toMatchObject({
+        passed: true,
+        durationSecs: 0,
+        skipped: { reason: 'no changes in backend/** since origin/main', deterministic: false },
+      });
+    });
+
+    it('should run a step whose changed paths were touched', async () => {
+      vi.mocked(hasChangedPaths).mockReturnValue(true);
+
+      const result = await runValidation(createConditionalConfig(join(testDir, 'log.txt'), { changed: ['backend/**'] }));
+
+      expect(result.passed).toBe(false);
+      expect(result.phases![0].steps[0].skipped).toBeUndefined();
+    });
+
+    it('should run the step when the change base cannot be found', async () => {
+      vi.mocked(findChangeBase).mockReturnValue(null);
+
+      const result = await runValidation(createConditionalConfig(join(testDir, 'log.txt'), { changed: ['backend/**'] }));
+
+      expect(hasChangedPaths).not.toHaveBeenCalled();
+      expect(result.passed).toBe(false);
+    });
+
+    it('should skip on an env mismatch, non-deterministically', async () => {
+      const result = await runValidation(
+        createConditionalConfig(join(testDir, 'log.txt'), { env: { DEPLOY_TARGET: 'production' } }, { DEPLOY_TARGET: 'staging' })
+      );
+
+      expect(findChangeBase).not.toHaveBeenCalled();
+      expect(result.passed).toBe(true);
+      expect(result.phases![0].steps[0].skipped).toEqual({
+        reason: 'DEPLOY_TARGET is not "production"',
+        deterministic: false,
+      });
+    });
+
+    it('should run the step when every env condition holds', async () => {
+      const result = await runValidation(
+        createConditionalConfig(join(testDir, 'log.txt'), { env: { DEPLOY_TARGET: 'production' } }, { DEPLOY_TARGET: 'production' })
+      );
+
+      expect(result.passed).toBe(false);
+    });
+  });
+
+  describe('step selection (--only/--skip)', () => {
+    it('should run only the selected steps and mark the result partial', async () => {
+      const result = await runValidation({
+        phases: [
+          {
+            name: 'Build',
+            steps: [{ name: 'Compile', command: 'node -e "process.exit(1)"' }],
+          },
+          {
+            name: 'Test',
+            steps: [
+              { name: 'Unit Tests', command: 'node -e "console.log(\'unit\')"', dependsOn: ['Compile'] },
+              { name: 'E2E', command: 'node -e "process.exit(1)"' },
+            ],
+          },
+        ],
+        logPath: join(testDir, 'log.txt'),
+        selection: { only: ['Unit*'] },
+      });
+
+      expect(result.passed).toBe(true);
+      expect(result.partial).toBe(true);
+      expect(result.phases).toHaveLength(1);
+      expect(result.phases![0].steps.map(step => step.name)).toEqual(['Unit Tests']);
+    });
+
+    it('should not mark a run of every step partial', async () => {
+      const result = await runValidation({
+        phases: [{ name: 'Test', steps: [{ name: 'Unit Tests', command: 'node -e "console.log(\'unit\')"' }] }],
+        logPath: join(testDir, 'log.txt'),
+        selection: { only: [], skip: [] },
+      });
+
+      expect(result.partial).toBeUndefined();
+    });
+  });
+
+  describe('step timeouts (timeout)', () => {
+    it.skipIf(process.platform === 'win32')('should escalate to SIGKILL and report what was still running', async () => {
+      const command = 'node -e "process.on(\'SIGTERM\', () => {}); console.log(\'waiting for lock\'); setInterval(() => {}, 1000)"';
+      const result = await runValidation({
+        phases: [{
+          name: 'Test',
+          steps: [{ name: 'Hangs', command, timeout: { after: 1000, warnAfter: 500, killAfter: 500, tailLines: 5 } }],
+        }],
+        logPath: join(testDir, 'log.txt'),
+      });
+
+      expect(result.passed).toBe(false);
+      const step = result.phases![0].steps[0];
+      expect(step).toMatchObject({ passed: false, exitCode: 124, timedOut: true });
+      expect(step.extraction?.summary).toBe('Timed out after 1s');
+      expect(step.extraction?.errorSummary).toContain('setInterval');
+      expect(step.extraction?.errorSummary).toContain('  waiting for lock');
+      expect(console.log).toHaveBeenCalledWith(expect.stringContaining('still running after 0.5s'));
+      expect(console.log).toHaveBeenCalledWith(expect.stringContaining('TIMED OUT'));
+    });
+
+    it('should use the phase timeout when the step sets none', async () => {
+      const result = await runValidation({
+        phases: [{ name: 'Test', timeout: 500, steps: [{ name: 'Slow', command: 'node -e "setTimeout(() => {}, 10000)"' }] }],
+        logPath: join(testDir, 'log.txt'),
+      });
+
+      expect(result.phases![0].steps[0].timedOut).toBe(true);
+    });
+  });
+
+  describe('resource budgets (resourceBudget)', () => {
+    const busyStep = { name: 'Busy', command: 'node -e "const end = Date.now() + 1200; while (Date.now() < end) {}"' };
+
+    it.runIf(process.platform === 'linux')('should record resources and fail a step over a failing budget', async () => {
+      const result = await runValidation({
+        phases: [{ name: 'Test', steps: [busyStep] }],
+        logPath: join(testDir, 'log.txt'),
+        resourceBudget: { Busy: { maxRssMb: 1, onExceed: 'fail' } },
+      });
+
+      expect(result.passed).toBe(false);
+      const step = result.phases![0].steps[0];
+      expect(step).toMatchObject({ exitCode: 0, passed: false });
+      expect(step.resources?.peakRssMb).toBeGreaterThan(1);
+      expect(step.budgetExceeded?.[0]).toMatch(/^peak RSS .*MB exceeds 1MB$/);
+      expect(step.extraction?.summary).toMatch(/^Exceeded resource budget: peak RSS/);
+      expect(console.log).toHaveBeenCalledWith(expect.stringContaining('OVER BUDGET'));
+    });
+
+    it.runIf(process.platform === 'linux')('should only warn by default', async () => {
+      const result = await runValidation({
+        phases: [{ name: 'Test', steps: [busyStep] }],
+        logPath: join(testDir, 'log.txt'),
+        resourceBudget: { Busy: { maxCpuSecs: 0.1 } },
+      });
+
+      expect(result.passed).toBe(true);
+      expect(result.phases![0].steps[0].budgetExceeded?.[0]).toMatch(/^CPU time .*s exceeds 0.1s$/);
+      expect(console.log).toHaveBeenCalledWith(expect.stringContaining('over resource budget'));
+    });
+
+    it('should not sample steps without a budget unless verbose', async () => {
+      const result = await runValidation({
+        phases: [{ name: 'Test', steps: [{ name: 'Quick', command: 'echo ok' }] }],
+        logPath: join(testDir, 'log.txt'),
+        resourceBudget: { Busy: { maxCpuSecs: 0.1 } },
+      });
+
+      expect(result.phases![0].steps[0].resources).toBeUndefined();
+    });
+  });
+
+  describe('step extractors (extractor/extractors)', () => {
+    it('should merge the errors of chained extractors', async () => {
+      const command = `node "${writeBuildAndLintScript(testDir)}"`;
+
+      const result = await runValidation({
+        phases: [{ name: 'Check', steps: [{ name: 'Build and lint', command, extractors: ['typescript', 'eslint'] }] }],
+        logPath: join(testDir, 'log.txt'),
+      });
+
+      const extraction = result.phases![0].steps[0].extraction;
+      expect(extraction?.summary).toMatch(/^typescript: 1 type error.*; eslint: /);
+      expect(extraction?.errors.map(error => error.file)).toEqual(['src/index.ts', 'src/app.ts']);
+    });
+
+    it('should use a single extractor set on the step', async () => {
+      const command = `node "${writeBuildAndLintScript(testDir)}"`;
+
+      const result = await runValidation({
+        phases: [{ name: 'Check', steps: [{ name: 'Lint', command, extractor: 'eslint' }] }],
+        logPath: join(testDir, 'log.txt'),
+      });
+
+      expect(result.phases![0].steps[0].extraction?.errors.map(error => error.code)).toEqual(['no-var']);
+    });
+
+    it('should reject an unknown extractor before running any step', async () => {
+      const marker = toForwardSlash(join(testDir, 'ran'));
+
+      await expect(runValidation({
+        phases: [{
+          name: 'Check',
+          steps: [{ name: 'Build', command: `node -e "require('fs').writeFileSync('${marker}', '')"`, extractor: 'tsc' }],
+        }],
+        logPath: join(testDir, 'log.txt'),
+      })).rejects.toThrow('Unknown extractor "tsc" in step "Build"');
+      expect(existsSync(marker)).toBe(false);
+    });
+  });
+
   describe('setupSignalHandlers', () => {
     it('should register SIGTERM handler', () => {
       const activeProcesses = new Set<ChildProcess>();
@@ -1368,6 +1842,19 @@ rawOutput: |
       vi.doUnmock('@vibe-validate/extractors');
     });
 
+    it('should discover plugins for config checks only when the run would load them', async () => {
+      const mockDiscoverPlugins = vi.fn().mockResolvedValue([]);
+      vi.doMock('@vibe-validate/extractors', () => ({ discoverPlugins: mockDiscoverPlugins }));
+
+      expect(await discoverLocalExtractorPlugins(undefined, '/repo')).toEqual([]);
+      expect(mockDiscoverPlugins).not.toHaveBeenCalled();
+
+      await discoverLocalExtractorPlugins({ localPlugins: { trust: 'sandbox', disable: [] } }, '/repo');
+      expect(mockDiscoverPlugins).toHaveBeenCalledWith({ baseDir: '/repo' });
+
+      vi.doUnmock('@vibe-validate/extractors');
+    });
+
     it('should continue validation if plugin loading fails', async () => {
       const mockDiscoverPlugins = vi.fn().mockRejectedValue(new Error('Plugin discovery failed'));
 
@@ -1619,6 +2106,21 @@ rawOutput: |
         expect(result).toBe(true);
       });
 
+      it('should return false when step was skipped by an env condition', async () => {
+        const { shouldUseCachedResult } = await import('../src/runner.js');
+
+        const previousStep = {
+          name: 'Deploy Check',
+          command: 'npm run deploy:check',
+          exitCode: 0,
+          durationSecs: 0,
+          passed: true,
+          skipped: { reason: 'DEPLOY_TARGET is not "production"', deterministic: false },
+        };
+
+        expect(shouldUseCachedResult(previousStep, true)).toBe(false);
+      });
+
       it('should return false when step failed', async () => {
         const { shouldUseCachedResult } = await import('../src/runner.js');
 
@@ -2064,6 +2566,7 @@ rawOutput: |
       expect(ciStep!.passed).toBe(true);
       expect(ciStep!.exitCode).toBe(0);
       expect(ciStep!.durationSecs).toBe(0);
+      expect(ciStep!.skipped).toEqual({ reason: 'ci-only', deterministic: true });
 
       // The always step should have actually run (has a command, not synthetic skip)
       const alwaysStep = result.stepResults.find(s => s.name === 'Always');
@@ -0,0 +1,195 @@
+/**
+ * Tests for step dependency scheduling
+ */
+
+import { buildStepGraph, type ValidationPhase } from '@vibe-validate/config';
+import { describe, it, expect } from 'vitest';
+
+import { scheduleSteps } from '../src/step-scheduler.js';
+
+const PHASES: ValidationPhase[] = [
+  {
+    name: 'Build',
+    parallel: false,
+    steps: [
+      { name: 'A', command: 'a' },
+      { name: 'B', command: 'b' },
+    ],
+  },
+  {
+    name: 'Check',
+    parallel: true,
+    steps: [
+      { name: 'C', command: 'c', dependsOn: ['A'] },
+      { name: 'D', command: 'd' },
+    ],
+  },
+];
+
+/**
+ * Schedule PHASES with steps that resolve immediately, recording start order
+ * @param failing - Names of steps that fail
+ * @param enableFailFast - Whether to stop after the first failure
+ * @returns Start order and final states by step name
+ */
+async function runWith(failing: string[], enableFailFast = false) {
+  const graph = buildStepGraph(PHASES);
+  const started: string[] = [];
+
+  const { states } = await scheduleSteps({
+    graph,
+    enableFailFast,
+    runStep: async node => {
+      started.push(node.step.name);
+      return { passed: !failing.includes(node.step.name) };
+    },
+  });
+
+  const byName = Object.fromEntries(graph.nodes.map(node => [node.step.name, states[node.index]]));
+  return { started, states: byName };
+}
+
+/**
+ * Build a parallel phase of `count` independent steps
+ * @param name - Phase name (also used as the step name prefix)
+ * @param count - Number of steps
+ * @param maxConcurrency - Optional phase concurrency limit
+ * @returns Phase configuration
+ */
+function parallelPhase(name: string, count: number, maxConcurrency?: number): ValidationPhase {
+  return {
+    name,
+    parallel: true,
+    ...(maxConcurrency === undefined ? {} : { maxConcurrency }),
+    steps: Array.from({ length: count }, (_, i) => ({ name: `${name}${i + 1}`, command: 'true' })),
+  };
+}
+
+/**
+ * Schedule phases with steps that take a tick to finish, tracking how many run at once
+ * @param phases - Phases to schedule
+ * @param options - maxConcurrency and fail-fast settings, and names of failing steps
+ * @returns Peak concurrency (overall and per phase), start order and final states
+ */
+async function runConcurrent(
+  phases: ValidationPhase[],
+  options: { maxConcurrency?: number; enableFailFast?: boolean; failing?: string[] } = {}
+) {
+  const graph = buildStepGraph(phases);
+  const started: string[] = [];
+  const runningByPhase = new Map<string, number>();
+  const peakByPhase = new Map<string, number>();
+  let running = 0;
+  let peak = 0;
+
+  const { states } = await scheduleSteps({
+    graph,
+    enableFailFast: options.enableFailFast ?? false,
+    maxConcurrency: options.maxConcurrency,
+    runStep: async node => {
+      started.push(node.step.name);
+      running++;
+      peak = Math.max(peak, running);
+      const inPhase = (runningByPhase.get(node.phaseName) ?? 0) + 1;
+      runningByPhase.set(node.phaseName, inPhase);
+      peakByPhase.set(node.phaseName, Math.max(peakByPhase.get(node.phaseName) ?? 0, inPhase));
+
+      await new Promise(resolve => setTimeout(resolve, 1));
+
+      running--;
+      runningByPhase.set(node.phaseName, inPhase - 1);
+      return { passed: !options.failing?.includes(node.step.name) };
+    },
+  });
+
+  return { peak, peakByPhase, started, states };
+}
+
+describe('scheduleSteps', () => {
+  it('should start a step as soon as its dependencies pass', async () => {
+    const { started, states } = await runWith([]);
+
+    // C only needs A, so it starts before B has finished
+    expect(started).toEqual(['A', 'B', 'C', 'D']);
+    expect(Object.values(states).every(state => state === 'passed')).toBe(true);
+  });
+
+  it('should keep ordering in a sequential phase without fail-fast', async () => {
+    const { states } = await runWith(['A']);
+
+    expect(states).toEqual({ A: 'failed', B: 'passed', C: 'not-run', D: 'not-run' });
+  });
+
+  it('should only hold back dependents of a failed step', async () => {
+    const { states } = await runWith(['B']);
+
+    expect(states).toEqual({ A: 'passed', B: 'failed', C: 'passed', D: 'not-run' });
+  });
+
+  it('should stop starting steps after the first failure with fail-fast', async () => {
+    const { started, states } = await runWith(['A'], true);
+
+    expect(started).toEqual(['A']);
+    expect(states).toEqual({ A: 'failed', B: 'not-run', C: 'not-run', D: 'not-run' });
+  });
+
+  it('should treat a rejected step as failed and record the error', async () => {
+    const graph = buildStepGraph(PHASES);
+    const error = new Error('spawn failed');
+
+    const { states, errors } = await scheduleSteps({
+      graph,
+      enableFailFast: false,
+      runStep: async node => {
+        if (node.step.name === 'A') {
+          throw error;
+        }
+        return { passed: true };
+      },
+    });
+
+    expect(states).toEqual(['failed', 'passed', 'not-run', 'not-run']);
+    expect(errors.get(0)).toBe(error);
+  });
+});
+
+describe('scheduleSteps - maxConcurrency', () => {
+  it('should run everything at once by default', async () => {
+    const { peak } = await runConcurrent([parallelPhase('T', 6)]);
+
+    expect(peak).toBe(6);
+  });
+
+  it('should never run more steps than the limit and still run them all', async () => {
+    const { peak, started, states } = await runConcurrent([parallelPhase('T', 6)], { maxConcurrency: 2 });
+
+    expect(peak).toBe(2);
+    expect(started).toEqual(['T1', 'T2', 'T3', 'T4', 'T5', 'T6']);
+    expect(states.every(state => state === 'passed')).toBe(true);
+  });
+
+  it('should apply a phase limit on top of the global limit', async () => {
+    // L's steps start immediately (dependsOn: []) so both phases compete for slots
+    const lint = parallelPhase('L', 3);
+    const phases = [
+      parallelPhase('T', 4, 1),
+      { ...lint, steps: lint.steps.map(step => ({ ...step, dependsOn: [] })) },
+    ];
+
+    const { peak, peakByPhase } = await runConcurrent(phases, { maxConcurrency: 3 });
+
+    expect(peakByPhase.get('T')).toBe(1);
+    expect(peak).toBe(3);
+  });
+
+  it('should not start queued steps after a failure with fail-fast', async () => {
+    const { started, states } = await runConcurrent([parallelPhase('T', 6)], {
+      maxConcurrency: 2,
+      enableFailFast: true,
+      failing: ['T1'],
+    });
+
+    expect(started).toEqual(['T1', 'T2']);
+    expect(states.slice(2).every(state => state === 'not-run')).toBe(true);
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Tests for step selection (validate --only/--skip)
+ */
+
+import type { ValidationPhase } from '@vibe-validate/config';
+import { describe, it, expect } from 'vitest';
+
+import { isPartialSelection, selectSteps } from '../src/step-selection.js';
+
+const PHASES: ValidationPhase[] = [
+  {
+    name: 'Checks',
+    parallel: true,
+    steps: [
+      { name: 'Lint', command: 'npm run lint' },
+      { name: 'Typecheck', command: 'tsc --noEmit' },
+    ],
+  },
+  {
+    name: 'Testing',
+    steps: [
+      { name: 'Unit Tests', command: 'npm test', dependsOn: ['Typecheck'] },
+      { name: 'E2E Tests', command: 'npm run test:e2e', dependsOn: ['Unit Tests', 'Lint'] },
+    ],
+  },
+];
+
+/**
+ * Step names of each phase
+ *
+ * @param phases - Phases to summarize
+ * @returns Step names keyed by phase name
+ */
+function stepNames(phases: ValidationPhase[]): Record<string, string[]> {
+  return Object.fromEntries(phases.map(phase => [phase.name, phase.steps.map(step => step.name)]));
+}
+
+describe('selectSteps', () => {
+  it('should select steps by step name or phase name', () => {
+    expect(stepNames(selectSteps(PHASES, { only: ['Unit Tests', 'Checks'] }))).toEqual({
+      Checks: ['Lint', 'Typecheck'],
+      Testing: ['Unit Tests'],
+    });
+  });
+
+  it('should match globs', () => {
+    expect(stepNames(selectSteps(PHASES, { only: ['*Tests'] }))).toEqual({ Testing: ['Unit Tests', 'E2E Tests'] });
+    expect(stepNames(selectSteps(PHASES, { skip: ['E2E*', 'Lin?'] }))).toEqual({
+      Checks: ['Typecheck'],
+      Testing: ['Unit Tests'],
+    });
+  });
+
+  it('should treat other regex characters literally', () => {
+    const phases: ValidationPhase[] = [{ name: 'Build', steps: [{ name: 'Build (prod)', command: 'npm run build' }] }];
+
+    expect(() => selectSteps(phases, { only: ['Build (prod'] })).toThrow('--only "Build (prod" matches no step or phase');
+    expect(stepNames(selectSteps(phases, { only: ['Build (prod)'] }))).toEqual({ Build: ['Build (prod)'] });
+  });
+
+  it('should drop dependencies on steps that are not selected', () => {
+    const [testing] = selectSteps(PHASES, { only: ['E2E Tests', 'Lint'] }).slice(-1);
+
+    expect(testing.steps[0].dependsOn).toEqual(['Lint']);
+    expect(PHASES[1].steps[1].dependsOn).toEqual(['Unit Tests', 'Lint']);
+  });
+
+  it('should reject patterns that match nothing and an empty selection', () => {
+    expect(() => selectSteps(PHASES, { skip: ['Lnit'] })).toThrow('--skip "Lnit" matches no step or phase');
+    expect(() => selectSteps(PHASES, { only: ['Lint'], skip: ['Checks'] })).toThrow(
+      'No steps left to run after --only/--skip'
+    );
+  });
+});
+
+describe('isPartialSelection', () => {
+  it('should be true only when a step may be left out', () => {
+    expect(isPartialSelection({})).toBe(false);
+    expect(isPartialSelection({ only: [], skip: [] })).toBe(false);
+    expect(isPartialSelection({ skip: ['E2E'] })).toBe(true);
+  });
+});
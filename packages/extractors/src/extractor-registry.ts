@@ -15,8 +15,11 @@
 
 // Import all extractor plugins
 import avaPlugin from './extractors/ava/index.js';
+import cargoPlugin from './extractors/cargo/index.js';
 import eslintPlugin from './extractors/eslint/index.js';
 import genericPlugin from './extractors/generic/index.js';
+import goPlugin from './extractors/go/index.js';
+import gradlePlugin from './extractors/gradle/index.js';
 import jasminePlugin from './extractors/jasmine/index.js';
 import jestPlugin from './extractors/jest/index.js';
 import junitPlugin from './extractors/junit/index.js';
@@ -26,6 +29,7 @@ import mavenSurefirePlugin from './extractors/maven-surefire/index.js';
 import mochaPlugin from './extractors/mocha/index.js';
 import playwrightPlugin from './extractors/playwright/index.js';
 import pytestPlugin from './extractors/pytest/index.js';
+import pythonStaticAnalysisPlugin from './extractors/python-static-analysis/index.js';
 import tapPlugin from './extractors/tap/index.js';
 import typescriptPlugin from './extractors/typescript/index.js';
 import vitestPlugin from './extractors/vitest/index.js';
@@ -76,17 +80,21 @@ export interface ExtractorDescriptor {
  * 3. TypeScript (Priority 95) - Very specific error codes
  * 4. Playwright (Priority 95) - .spec.ts files with › separator
  * 5. Pytest (Priority 92) - Python pytest with .py:: paths
- * 6. Jest (Priority 90) - Must check before Mocha
- * 7. Vitest (Priority 90) - Secondary fallback patterns
- * 8. ESLint (Priority 85) - Distinctive format
- * 9. Jasmine (Priority 85) - Distinctive "Failures:" header
- * 9. Ava (Priority 82) - Ava v6+ format with ✘ markers
- * 10. Mocha (Priority 80) - Generic "passing/failing" patterns
- * 11. TAP (Priority 78) - TAP version 13 protocol
- * 12. Maven Compiler (Priority 70) - Compilation error patterns
- * 13. Maven Checkstyle (Priority 60) - Checkstyle-specific patterns
- * 14. Maven Surefire (Priority 65) - Test plugin patterns
- * 15. Generic (Priority 10) - Fallback for unknown formats
+ * 6. Go (Priority 90) - go test/build/vet output with .go locations
+ * 7. Cargo (Priority 90) - rustc/clippy diagnostics and cargo test failures
+ * 8. Python static analysis (Priority 90) - mypy, pyright, ruff and flake8
+ * 9. Gradle (Priority 90) - Failed tasks, Kotlin/javac errors and test failures
+ * 10. Jest (Priority 90) - Must check before Mocha
+ * 11. Vitest (Priority 90) - Secondary fallback patterns
+ * 12. ESLint (Priority 85) - Distinctive format
+ * 13. Jasmine (Priority 85) - Distinctive "Failures:" header
+ * 14. Ava (Priority 82) - Ava v6+ format with ✘ markers
+ * 15. Mocha (Priority 80) - Generic "passing/failing" patterns
+ * 16. TAP (Priority 78) - TAP version 13 protocol
+ * 17. Maven Compiler (Priority 70) - Compilation error patterns
+ * 18. Maven Checkstyle (Priority 60) - Checkstyle-specific patterns
+ * 19. Maven Surefire (Priority 65) - Test plugin patterns
+ * 20. Generic (Priority 10) - Fallback for unknown formats
  */
 export const EXTRACTOR_REGISTRY: ExtractorDescriptor[] = [
   // Vitest (Priority Check) - "RUN v" header is 100% unique to Vitest
@@ -153,6 +161,46 @@ export const EXTRACTOR_REGISTRY: ExtractorDescriptor[] = [
     hints: pytestPlugin.hints,
   },
 
+  // Go - go test (text and -json), go build and go vet output
+  {
+    name: goPlugin.metadata.name,
+    priority: goPlugin.priority,
+    trust: 'full', // Built-in trusted code
+    detect: goPlugin.detect,
+    extract: goPlugin.extract,
+    hints: goPlugin.hints,
+  },
+
+  // Cargo - rustc/clippy diagnostics (human and JSON) and cargo test failures
+  {
+    name: cargoPlugin.metadata.name,
+    priority: cargoPlugin.priority,
+    trust: 'full', // Built-in trusted code
+    detect: cargoPlugin.detect,
+    extract: cargoPlugin.extract,
+    hints: cargoPlugin.hints,
+  },
+
+  // Python static analysis - mypy, pyright (text and JSON), ruff and flake8
+  {
+    name: pythonStaticAnalysisPlugin.metadata.name,
+    priority: pythonStaticAnalysisPlugin.priority,
+    trust: 'full', // Built-in trusted code
+    detect: pythonStaticAnalysisPlugin.detect,
+    extract: pythonStaticAnalysisPlugin.extract,
+    hints: pythonStaticAnalysisPlugin.hints,
+  },
+
+  // Gradle - Failed task markers, Kotlin/javac messages and test summaries
+  {
+    name: gradlePlugin.metadata.name,
+    priority: gradlePlugin.priority,
+    trust: 'full', // Built-in trusted code
+    detect: gradlePlugin.detect,
+    extract: gradlePlugin.extract,
+    hints: gradlePlugin.hints,
+  },
+
   // Jest - Must check BEFORE Mocha to avoid false positives
   {
     name: jestPlugin.metadata.name,
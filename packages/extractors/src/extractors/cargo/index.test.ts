@@ -0,0 +1,209 @@
+/**
+ * Cargo Error Extractor Tests
+ *
+ * @package @vibe-validate/extractors
+ */
+
+import { describe, it, expect } from 'vitest';
+
+import { expectExtractionResult, expectSamplesParseSuccessfully } from '../../test/helpers/extractor-test-helpers.js';
+
+import cargoPlugin from './index.js';
+
+function sampleInput(name: string): string {
+  return cargoPlugin.samples.find(sample => sample.name === name)?.input ?? '';
+}
+
+describe('cargo extractor plugin', () => {
+  describe('detect', () => {
+    it('should detect rustc errors with locations at 95% confidence', () => {
+      const result = cargoPlugin.detect(sampleInput('compile-errors'));
+      expect(result.confidence).toBe(95);
+      expect(result.patterns).toContain('error[E####] code');
+    });
+
+    it('should detect cargo test failures at 95% confidence', () => {
+      const result = cargoPlugin.detect(sampleInput('test-failures'));
+      expect(result.confidence).toBe(95);
+      expect(result.patterns).toContain('---- test stdout ---- section');
+    });
+
+    it('should detect JSON compiler messages at 95% confidence', () => {
+      const result = cargoPlugin.detect(sampleInput('json-messages'));
+      expect(result.confidence).toBe(95);
+      expect(result.patterns).toContain('cargo JSON compiler messages');
+    });
+
+    it('should detect clippy lints at 85% confidence', () => {
+      expect(cargoPlugin.detect(sampleInput('clippy-lints')).confidence).toBe(85);
+    });
+
+    it('should NOT detect other tools', () => {
+      const tscOutput = `src/index.ts(10,5): error TS2322: Type 'string' is not assignable to type 'number'.`;
+      const goOutput = `--- FAIL: TestAdd (0.00s)\n    calc_test.go:12: Add(2, 3) = 6; want 5`;
+
+      expect(cargoPlugin.detect(tscOutput).confidence).toBe(0);
+      expect(cargoPlugin.detect(goOutput).confidence).toBe(0);
+    });
+  });
+
+  describe('extract', () => {
+    it('should extract compile errors and warnings with their codes', () => {
+      const result = cargoPlugin.extract(sampleInput('compile-errors'));
+      expectExtractionResult(result, {
+        errorCount: 2,
+        summaryPattern: '1 error(s), 1 warning(s)',
+        guidanceContains: ['rustc --explain E0308'],
+      });
+
+      expect(result.errors[0]).toEqual({
+        file: 'src/main.rs',
+        line: 3,
+        column: 9,
+        message: 'unused variable: `x`',
+        code: 'unused_variables',
+        severity: 'warning',
+      });
+      expect(result.errors[1]).toEqual({
+        file: 'src/lib.rs',
+        line: 10,
+        column: 5,
+        message: 'mismatched types',
+        code: 'E0308',
+        severity: 'error',
+      });
+    });
+
+    it('should use the clippy lint as the code', () => {
+      const result = cargoPlugin.extract(sampleInput('clippy-lints'));
+      expectExtractionResult(result, {
+        errorCount: 1,
+        guidanceContains: ['index.html#needless_return'],
+      });
+      expect(result.errors[0]).toMatchObject({ file: 'src/lib.rs', line: 4, code: 'clippy::needless_return', severity: 'error' });
+    });
+
+    it('should keep one copy of warnings reported for several targets', () => {
+      const warning = `warning: unused import: \`std::fmt\`
+ --> src/lib.rs:1:5
+  |
+1 | use std::fmt;
+  |     ^^^^^^^^
+`;
+      const output = `${warning}\nwarning: \`calc\` (lib) generated 1 warning\n${warning}\nwarning: \`calc\` (lib test) generated 1 warning`;
+
+      const result = cargoPlugin.extract(output);
+      expectExtractionResult(result, { errorCount: 1, summaryPattern: '0 error(s), 1 warning(s)' });
+    });
+
+    it('should extract cargo test failures at their panic location', () => {
+      const result = cargoPlugin.extract(sampleInput('test-failures'));
+      expectExtractionResult(result, {
+        errorCount: 2,
+        summaryPattern: '2 test(s) failed',
+        guidanceContains: ['RUST_BACKTRACE=1', 'cargo test tests::it_subtracts -- --exact'],
+      });
+
+      expect(result.errors[0]).toEqual({
+        file: 'src/lib.rs',
+        line: 22,
+        column: 9,
+        message: 'assertion `left == right` failed left: 1 right: 2',
+        context: 'tests::it_subtracts',
+      });
+      expect(result.errors[1]).toMatchObject({ line: 27, message: 'attempt to divide by zero' });
+    });
+
+    it('should parse the panic format of Rust before 1.73', () => {
+      const output = `---- tests::it_works stdout ----
+thread 'tests::it_works' panicked at 'called \`Option::unwrap()\` on a \`None\` value', src/lib.rs:8:30
+
+failures:
+    tests::it_works
+
+test result: FAILED. 0 passed; 1 failed; 0 ignored; 0 measured; 0 filtered out`;
+
+      const result = cargoPlugin.extract(output);
+      expectExtractionResult(result, { errorCount: 1 });
+      expect(result.errors[0]).toMatchObject({
+        file: 'src/lib.rs',
+        line: 8,
+        column: 30,
+        message: 'called `Option::unwrap()` on a `None` value',
+      });
+    });
+
+    it('should report failed tests without a panic', () => {
+      const output = `test tests::should_panic_on_zero - should panic ... FAILED
+test tests::times_out ... FAILED
+
+failures:
+
+---- tests::should_panic_on_zero - should panic stdout ----
+note: test did not panic as expected
+
+failures:
+    tests::should_panic_on_zero - should panic
+    tests::times_out
+
+test result: FAILED. 0 passed; 2 failed; 0 ignored; 0 measured; 0 filtered out`;
+
+      const result = cargoPlugin.extract(output);
+      expectExtractionResult(result, { errorCount: 2 });
+      expect(result.errors[0]).toEqual({ message: 'note: test did not panic as expected', context: 'tests::should_panic_on_zero - should panic' });
+      expect(result.errors[1]).toEqual({ message: 'Test failed', context: 'tests::times_out' });
+    });
+
+    it('should extract JSON diagnostics and skip the aborting summary', () => {
+      const result = cargoPlugin.extract(sampleInput('json-messages'));
+      expectExtractionResult(result, { errorCount: 1 });
+      expect(result.errors[0]).toEqual({
+        file: 'src/lib.rs',
+        line: 10,
+        column: 5,
+        message: 'mismatched types',
+        code: 'E0308',
+        severity: 'error',
+      });
+    });
+
+    it('should parse test failures printed between JSON messages', () => {
+      const output = `{"reason":"compiler-artifact","target":{"name":"calc"},"fresh":true}
+{"reason":"build-finished","success":true}
+${sampleInput('test-failures')}`;
+
+      const result = cargoPlugin.extract(output);
+      expectExtractionResult(result, { errorCount: 2, summaryPattern: '2 test(s) failed' });
+    });
+
+    it('should return 0 errors for passing output', () => {
+      const output = `running 1 test
+test tests::it_adds ... ok
+
+test result: ok. 1 passed; 0 failed; 0 ignored; 0 measured; 0 filtered out; finished in 0.00s`;
+
+      const result = cargoPlugin.extract(output);
+      expectExtractionResult(result, { errorCount: 0, summaryPattern: '0 test(s) failed' });
+    });
+  });
+
+  describe('metadata', () => {
+    it('should have correct plugin metadata', () => {
+      expect(cargoPlugin.metadata.name).toBe('cargo');
+      expect(cargoPlugin.priority).toBe(90);
+      expect(cargoPlugin.hints?.anyOf).toContain('panicked at');
+      expect(cargoPlugin.metadata.tags).toContain('rust');
+      expect(cargoPlugin.metadata.tags).toContain('clippy');
+    });
+  });
+
+  describe('samples', () => {
+    it('should have at least 2 sample test cases', () => {
+      expect(cargoPlugin.samples.length).toBeGreaterThanOrEqual(2);
+    });
+
+    it('should successfully parse all sample inputs', () => {
+      expectSamplesParseSuccessfully(cargoPlugin);
+    });
+  });
+});
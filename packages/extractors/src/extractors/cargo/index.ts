@@ -0,0 +1,464 @@
+/**
+ * Cargo Error Extractor Plugin
+ *
+ * Extracts rustc and clippy diagnostics (`cargo build`, `cargo check`,
+ * `cargo clippy`, human or `--message-format=json` output) and `cargo test`
+ * failures.
+ *
+ * @package @vibe-validate/extractors
+ */
+
+import { MAX_ERRORS_IN_ARRAY } from '../../result-schema.js';
+import type {
+  ExtractorPlugin,
+  ErrorExtractorResult,
+  DetectionResult,
+  ExtractorSample,
+  FormattedError,
+} from '../../types.js';
+import { formatCleanOutput } from '../../utils/formatter-utils.js';
+
+/** Diagnostic header: `error[E0308]: mismatched types`, `warning: unused variable: \`x\`` */
+// eslint-disable-next-line security/detect-unsafe-regex -- Safe: anchored, the optional code group has no overlap with what follows
+const DIAGNOSTIC_HEADER_RE = /^(error|warning)(?:\[([\w:]+)\])?: (.+)$/;
+
+/** Primary location of a diagnostic: `  --> src/lib.rs:10:5` */
+const LOCATION_RE = /^\s*--> (\S+):(\d+):(\d+)$/;
+
+/** Lint named in a note or help line: `#[warn(unused_variables)]`, `#[allow(clippy::needless_return)]` */
+const LINT_ATTRIBUTE_RE = /#\[(?:warn|deny|forbid|allow)\(([\w:]+)\)\]/;
+
+/** Cargo and rustc summaries, reported with the same prefix as diagnostics */
+const CARGO_SUMMARY_RES = [
+  /^could not compile /,
+  /^aborting due to /,
+  /generated \d+ warnings?/,
+  /^\d+ warnings? emitted/,
+  /^test failed, to rerun/,
+  /^build failed/,
+];
+
+/** `---- tests::it_adds stdout ----` */
+const TEST_OUTPUT_HEADER_RE = /^---- (.+) stdout ----$/;
+
+/** Rust 1.73+: `thread 'tests::it_adds' panicked at src/lib.rs:12:9:` (message on the next lines) */
+const PANIC_RE = /panicked at (\S+):(\d+):(\d+):$/;
+
+/** Before Rust 1.73: `thread 'tests::it_adds' panicked at 'boom', src/lib.rs:12:9` */
+const LEGACY_PANIC_RE = /panicked at '(.*)', (\S+):(\d+):(\d+)$/;
+
+/** Panic messages longer than this many lines are cut (assertion diffs can be long) */
+const MAX_PANIC_MESSAGE_LINES = 5;
+
+/**
+ * rustc diagnostic, as printed by `cargo --message-format=json`
+ */
+interface RustcDiagnostic {
+  message: string;
+  level: string;
+  code?: { code: string } | null;
+  spans: Array<{ file_name: string; line_start: number; column_start: number; is_primary: boolean }>;
+}
+
+/**
+ * A `cargo test` failure
+ */
+interface CargoTestFailure {
+  name: string;
+  file?: string;
+  line?: number;
+  column?: number;
+  message: string;
+  panicked: boolean;
+}
+
+function isCargoSummary(message: string): boolean {
+  return CARGO_SUMMARY_RES.some(re => re.test(message));
+}
+
+function detect(output: string): DetectionResult {
+  if (output.includes('{"reason":"compiler-message"')) {
+    return {
+      confidence: 95,
+      patterns: ['cargo JSON compiler messages'],
+      reason: 'Cargo JSON message format detected (--message-format=json)',
+    };
+  }
+
+  const lines = output.split('\n');
+  const hasLocations = lines.some(line => LOCATION_RE.test(line) && line.includes('.rs:'));
+  if (hasLocations && /^error\[E\d{4}\]:/m.test(output)) {
+    return {
+      confidence: 95,
+      patterns: ['error[E####] code', '--> file.rs:line:col location'],
+      reason: 'rustc compile errors detected (error[E####] with --> locations)',
+    };
+  }
+
+  const hasTestOutput = lines.some(line => TEST_OUTPUT_HEADER_RE.test(line));
+  if (hasTestOutput || output.includes('test result: FAILED.')) {
+    return {
+      confidence: hasTestOutput ? 95 : 90,
+      patterns: [hasTestOutput ? '---- test stdout ---- section' : 'test result: FAILED. summary'],
+      reason: 'cargo test failures detected',
+    };
+  }
+
+  if (hasLocations || /^error: could not compile `/m.test(output)) {
+    return {
+      confidence: 85,
+      patterns: [hasLocations ? '--> file.rs:line:col location' : 'could not compile summary'],
+      reason: 'rustc or clippy diagnostics detected',
+    };
+  }
+
+  return { confidence: 0, patterns: [], reason: '' };
+}
+
+/**
+ * Convert a JSON diagnostic to a formatted error (located at its primary span)
+ */
+function toFormattedDiagnostic(diagnostic: RustcDiagnostic): FormattedError {
+  const span = diagnostic.spans.find(s => s.is_primary) ?? diagnostic.spans[0];
+  return {
+    ...(span ? { file: span.file_name, line: span.line_start, column: span.column_start } : {}),
+    message: diagnostic.message,
+    ...(diagnostic.code?.code ? { code: diagnostic.code.code } : {}),
+    severity: diagnostic.level === 'warning' ? 'warning' : 'error',
+  };
+}
+
+/**
+ * Split `--message-format=json` output into diagnostics and the remaining text
+ *
+ * `cargo test --message-format=json` prints compiler messages as JSON but
+ * test results as text, so the non-JSON lines are parsed like human output.
+ */
+function splitJsonMessages(output: string): { diagnostics: FormattedError[]; text: string[] } {
+  const diagnostics: FormattedError[] = [];
+  const text: string[] = [];
+  for (const line of output.split('\n')) {
+    if (!line.startsWith('{"reason":')) {
+      text.push(line);
+      continue;
+    }
+    try {
+      const message = JSON.parse(line) as { reason: string; message?: RustcDiagnostic };
+      const diagnostic = message.message;
+      if (
+        message.reason === 'compiler-message' &&
+        diagnostic &&
+        (diagnostic.level === 'error' || diagnostic.level === 'warning') &&
+        !isCargoSummary(diagnostic.message)
+      ) {
+        diagnostics.push(toFormattedDiagnostic(diagnostic));
+      }
+    } catch {
+      text.push(line);
+    }
+  }
+  return { diagnostics, text };
+}
+
+/**
+ * Start a diagnostic at its header line (undefined for cargo's summaries)
+ */
+function startDiagnostic(header: RegExpExecArray): FormattedError | undefined {
+  const [, level, code, message] = header;
+  if (isCargoSummary(message)) return undefined;
+  return { message: message.trim(), severity: level === 'warning' ? 'warning' : 'error', ...(code ? { code } : {}) };
+}
+
+/**
+ * Add the location or lint found on a line of a diagnostic's body
+ */
+function addDiagnosticDetail(diagnostic: FormattedError, line: string): void {
+  const location = LOCATION_RE.exec(line);
+  if (location && diagnostic.file === undefined) {
+    diagnostic.file = location[1];
+    diagnostic.line = Number.parseInt(location[2], 10);
+    diagnostic.column = Number.parseInt(location[3], 10);
+  }
+  const lint = LINT_ATTRIBUTE_RE.exec(line);
+  if (lint && diagnostic.code === undefined) {
+    diagnostic.code = lint[1];
+  }
+}
+
+/**
+ * Parse human-readable rustc and clippy diagnostics
+ *
+ * A diagnostic runs from its header to the next blank line. Its code is the
+ * bracketed error code, or the lint named in its notes.
+ */
+function parseTextDiagnostics(lines: string[]): FormattedError[] {
+  const diagnostics: FormattedError[] = [];
+  let current: FormattedError | undefined;
+
+  for (const line of lines) {
+    const header = DIAGNOSTIC_HEADER_RE.exec(line);
+    if (header) {
+      current = startDiagnostic(header);
+      if (current) diagnostics.push(current);
+    } else if (current && line.trim() !== '') {
+      addDiagnosticDetail(current, line);
+    } else {
+      current = undefined;
+    }
+  }
+
+  return diagnostics;
+}
+
+/**
+ * Parse one `---- name stdout ----` section
+ */
+function parseTestOutput(name: string, lines: string[]): CargoTestFailure {
+  for (const [index, line] of lines.entries()) {
+    const legacy = LEGACY_PANIC_RE.exec(line);
+    if (legacy) {
+      return { name, file: legacy[2], line: Number.parseInt(legacy[3], 10), column: Number.parseInt(legacy[4], 10), message: legacy[1], panicked: true };
+    }
+    const panic = PANIC_RE.exec(line);
+    if (panic) {
+      const messageLines = [];
+      for (const next of lines.slice(index + 1, index + 1 + MAX_PANIC_MESSAGE_LINES)) {
+        if (next.trim() === '' || next.startsWith('note: ')) break;
+        messageLines.push(next.trim());
+      }
+      return {
+        name,
+        file: panic[1],
+        line: Number.parseInt(panic[2], 10),
+        column: Number.parseInt(panic[3], 10),
+        message: messageLines.join(' ') || 'Test panicked',
+        panicked: true,
+      };
+    }
+  }
+
+  // No panic, e.g. a should_panic test that didn't, or a test returning Err
+  const output = lines.map(line => line.trim()).filter(line => line !== '');
+  return { name, message: output.slice(0, MAX_PANIC_MESSAGE_LINES).join(' ') || 'Test failed', panicked: false };
+}
+
+/**
+ * Parse `cargo test` failures: the `---- name stdout ----` sections, plus
+ * tests reported `FAILED` without one
+ */
+function parseTestFailures(lines: string[]): CargoTestFailure[] {
+  const failures: CargoTestFailure[] = [];
+  let section: { name: string; lines: string[] } | undefined;
+  const closeSection = (): void => {
+    if (section) failures.push(parseTestOutput(section.name, section.lines));
+    section = undefined;
+  };
+
+  for (const line of lines) {
+    const header = TEST_OUTPUT_HEADER_RE.exec(line);
+    if (header) {
+      closeSection();
+      section = { name: header[1], lines: [] };
+    } else if (line === 'failures:' || line.startsWith('test result: ')) {
+      closeSection();
+    } else {
+      section?.lines.push(line);
+    }
+  }
+  closeSection();
+
+  const reported = new Set(failures.map(failure => failure.name));
+  for (const line of lines) {
+    if (line.startsWith('test ') && line.endsWith(' ... FAILED')) {
+      const name = line.slice('test '.length, -' ... FAILED'.length);
+      if (!reported.has(name)) {
+        reported.add(name);
+        failures.push({ name, message: 'Test failed', panicked: false });
+      }
+    }
+  }
+
+  return failures;
+}
+
+/**
+ * Keep one copy of diagnostics reported more than once (cargo reports the
+ * warnings of a crate for each target it builds, e.g. lib and lib test)
+ */
+function dedupeDiagnostics(diagnostics: FormattedError[]): FormattedError[] {
+  const seen = new Set<string>();
+  return diagnostics.filter(diagnostic => {
+    const key = `${diagnostic.file ?? ''}:${String(diagnostic.line ?? '')}:${String(diagnostic.column ?? '')}:${diagnostic.message}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+function buildSummary(diagnostics: FormattedError[], failures: CargoTestFailure[]): string {
+  const warnings = diagnostics.filter(d => d.severity === 'warning').length;
+  const errors = diagnostics.length - warnings;
+  const parts = [
+    ...(diagnostics.length > 0 ? [`${errors} error(s), ${warnings} warning(s)`] : []),
+    ...(failures.length > 0 || diagnostics.length === 0 ? [`${failures.length} test(s) failed`] : []),
+  ];
+  return parts.join(', ');
+}
+
+function buildGuidance(diagnostics: FormattedError[], failures: CargoTestFailure[]): string {
+  const guidance: string[] = [];
+  const errorCode = diagnostics.find(d => d.code && /^E\d{4}$/.test(d.code))?.code;
+  if (errorCode) {
+    guidance.push(`Run: rustc --explain ${errorCode} for a detailed explanation of the error`);
+  }
+  const clippyLint = diagnostics.find(d => d.code?.startsWith('clippy::'))?.code;
+  if (clippyLint) {
+    const lint = clippyLint.slice('clippy::'.length);
+    guidance.push(`Clippy lint docs: https://rust-lang.github.io/rust-clippy/master/index.html#${lint} (silence one occurrence with #[allow(${clippyLint})])`);
+  }
+  if (failures.length > 0 && diagnostics.some(d => d.severity === 'error')) {
+    guidance.push('Fix the compile errors first - cargo test cannot run the tests of a crate that does not build');
+  }
+  if (failures.some(f => f.panicked)) {
+    guidance.push('Set RUST_BACKTRACE=1 to see where a panic came from');
+  }
+  if (failures.length > 0) {
+    guidance.push(`Re-run a failing test with: cargo test ${failures[0].name} -- --exact`);
+  }
+  return guidance.join('\n');
+}
+
+function extract(output: string): ErrorExtractorResult {
+  const { diagnostics: jsonDiagnostics, text } = splitJsonMessages(output);
+  const diagnostics = dedupeDiagnostics([...jsonDiagnostics, ...parseTextDiagnostics(text)]);
+  const failures = parseTestFailures(text);
+
+  const errors: FormattedError[] = [
+    ...diagnostics,
+    ...failures.map(({ name, panicked: _panicked, ...failure }) => ({ ...failure, context: name })),
+  ];
+  const shownErrors = errors.slice(0, MAX_ERRORS_IN_ARRAY);
+  const located = errors.filter(error => error.file !== undefined && error.line !== undefined).length;
+
+  return {
+    summary: buildSummary(diagnostics, failures),
+    totalErrors: errors.length,
+    errors: shownErrors,
+    guidance: buildGuidance(diagnostics, failures),
+    errorSummary: formatCleanOutput(shownErrors),
+    metadata: {
+      confidence: 95,
+      completeness: errors.length > 0 ? (located / errors.length) * 100 : 100,
+      issues: [],
+    },
+  };
+}
+
+const samples: ExtractorSample[] = [
+  {
+    name: 'compile-errors',
+    description: 'cargo build with a type error and an unused variable warning',
+    input: `   Compiling calc v0.1.0 (/home/dev/calc)
+warning: unused variable: \`x\`
+ --> src/main.rs:3:9
+  |
+3 |     let x = 5;
+  |         ^ help: if this is intentional, prefix it with an underscore: \`_x\`
+  |
+  = note: \`#[warn(unused_variables)]\` on by default
+
+error[E0308]: mismatched types
+  --> src/lib.rs:10:5
+   |
+9  | pub fn add(a: i32, b: i32) -> i32 {
+   |                               --- expected \`i32\` because of return type
+10 |     "hello"
+   |     ^^^^^^^ expected \`i32\`, found \`&str\`
+
+For more information about this error, try \`rustc --explain E0308\`.
+warning: \`calc\` (lib) generated 1 warning
+error: could not compile \`calc\` (lib) due to 1 previous error; 1 warning emitted`,
+    expectedErrors: 2,
+    expectedPatterns: ['mismatched types', 'unused variable'],
+  },
+  {
+    name: 'clippy-lints',
+    description: 'cargo clippy -- -D warnings',
+    input: `    Checking calc v0.1.0 (/home/dev/calc)
+error: unneeded \`return\` statement
+ --> src/lib.rs:4:5
+  |
+4 |     return a + b;
+  |     ^^^^^^^^^^^^
+  |
+  = help: for further information visit https://rust-lang.github.io/rust-clippy/master/index.html#needless_return
+  = note: \`-D clippy::needless-return\` implied by \`-D warnings\`
+  = help: to override \`-D warnings\` add \`#[allow(clippy::needless_return)]\`
+
+error: could not compile \`calc\` (lib) due to 1 previous error`,
+    expectedErrors: 1,
+    expectedPatterns: ['unneeded `return` statement'],
+  },
+  {
+    name: 'test-failures',
+    description: 'cargo test with an assertion failure and a panic',
+    input: `running 3 tests
+test tests::it_adds ... ok
+test tests::it_subtracts ... FAILED
+test tests::it_divides ... FAILED
+
+failures:
+
+---- tests::it_subtracts stdout ----
+thread 'tests::it_subtracts' panicked at src/lib.rs:22:9:
+assertion \`left == right\` failed
+  left: 1
+ right: 2
+note: run with \`RUST_BACKTRACE=1\` environment variable to display a backtrace
+
+---- tests::it_divides stdout ----
+thread 'tests::it_divides' panicked at src/lib.rs:27:9:
+attempt to divide by zero
+
+
+failures:
+    tests::it_subtracts
+    tests::it_divides
+
+test result: FAILED. 1 passed; 2 failed; 0 ignored; 0 measured; 0 filtered out; finished in 0.00s
+
+error: test failed, to rerun pass \`--lib\``,
+    expectedErrors: 2,
+    expectedPatterns: ['assertion `left == right` failed', 'attempt to divide by zero'],
+  },
+  {
+    name: 'json-messages',
+    description: 'cargo build --message-format=json',
+    input: String.raw`{"reason":"compiler-artifact","package_id":"path+file:///home/dev/calc#0.1.0","target":{"name":"calc"},"fresh":true}
+{"reason":"compiler-message","package_id":"path+file:///home/dev/calc#0.1.0","target":{"name":"calc"},"message":{"$message_type":"diagnostic","message":"mismatched types","code":{"code":"E0308","explanation":"Expected type did not match the received type.\n"},"level":"error","spans":[{"file_name":"src/lib.rs","line_start":10,"column_start":5,"is_primary":true}],"children":[],"rendered":"error[E0308]: mismatched types\n"}}
+{"reason":"compiler-message","package_id":"path+file:///home/dev/calc#0.1.0","target":{"name":"calc"},"message":{"$message_type":"diagnostic","message":"aborting due to 1 previous error","code":null,"level":"error","spans":[],"children":[],"rendered":"error: aborting due to 1 previous error\n"}}
+{"reason":"build-finished","success":false}`,
+    expectedErrors: 1,
+    expectedPatterns: ['mismatched types'],
+  },
+];
+
+const cargoPlugin: ExtractorPlugin = {
+  metadata: {
+    name: 'cargo',
+    version: '1.0.0',
+    author: 'vibe-validate',
+    description: 'Extracts rustc and clippy diagnostics and cargo test failures',
+    repository: 'https://github.com/jdutton/vibe-validate',
+    tags: ['rust', 'cargo', 'compiler', 'clippy', 'testing'],
+  },
+  hints: {
+    anyOf: ['-->', 'panicked at', '"reason":', 'test result:', 'could not compile'],
+  },
+  priority: 90,
+  detect,
+  extract,
+  samples,
+};
+
+export default cargoPlugin;
@@ -0,0 +1,206 @@
+/**
+ * Go Error Extractor Tests
+ *
+ * @package @vibe-validate/extractors
+ */
+
+import { describe, it, expect } from 'vitest';
+
+import { expectExtractionResult, expectSamplesParseSuccessfully } from '../../test/helpers/extractor-test-helpers.js';
+
+import goPlugin from './index.js';
+
+const VERBOSE_TEST_OUTPUT = `=== RUN   TestAdd
+    calc_test.go:12: Add(2, 3) = 6; want 5
+--- FAIL: TestAdd (0.00s)
+=== RUN   TestSub
+--- PASS: TestSub (0.00s)
+=== RUN   TestParse
+=== RUN   TestParse/empty
+    parse_test.go:20: Parse("") returned no error
+=== RUN   TestParse/number
+--- FAIL: TestParse (0.00s)
+    --- FAIL: TestParse/empty (0.00s)
+    --- PASS: TestParse/number (0.00s)
+FAIL
+FAIL	example.com/calc	0.002s
+FAIL`;
+
+const BUILD_OUTPUT = `# example.com/calc
+./calc.go:10:2: undefined: foo
+./calc.go:12:9: cannot use "x" (untyped string constant) as int value in return statement`;
+
+const VET_OUTPUT = `# [example.com/report]
+./report.go:15:2: fmt.Printf format %d has arg name of wrong type string`;
+
+describe('go extractor plugin', () => {
+  describe('detect', () => {
+    it('should detect go test failures at 95% confidence', () => {
+      const result = goPlugin.detect(VERBOSE_TEST_OUTPUT);
+      expect(result.confidence).toBe(95);
+      expect(result.patterns).toContain('--- FAIL: Test marker');
+    });
+
+    it('should detect go test -json events at 95% confidence', () => {
+      const output = `{"Time":"2026-03-01T10:00:00Z","Action":"start","Package":"example.com/calc"}`;
+
+      const result = goPlugin.detect(output);
+      expect(result.confidence).toBe(95);
+      expect(result.patterns).toContain('go test -json events');
+    });
+
+    it('should detect compile errors and vet diagnostics at 90% confidence', () => {
+      expect(goPlugin.detect(BUILD_OUTPUT).confidence).toBe(90);
+      expect(goPlugin.detect(VET_OUTPUT).confidence).toBe(90);
+    });
+
+    it('should NOT detect other tools', () => {
+      const tscOutput = `src/index.ts(10,5): error TS2322: Type 'string' is not assignable to type 'number'.`;
+      const pytestOutput = `FAILED tests/test_calc.py::test_divide - ZeroDivisionError: division by zero`;
+
+      expect(goPlugin.detect(tscOutput).confidence).toBe(0);
+      expect(goPlugin.detect(pytestOutput).confidence).toBe(0);
+    });
+  });
+
+  describe('extract', () => {
+    it('should extract failed tests with their log lines', () => {
+      const result = goPlugin.extract(VERBOSE_TEST_OUTPUT);
+      expectExtractionResult(result, {
+        errorCount: 2,
+        summaryPattern: '2 test(s) failed',
+        guidanceContains: ["go test -run '^TestAdd$' ./..."],
+      });
+
+      expect(result.errors[0]).toEqual({
+        file: 'calc_test.go',
+        line: 12,
+        message: 'Add(2, 3) = 6; want 5',
+        context: 'TestAdd',
+      });
+      // The parent of a failed subtest is not reported
+      expect(result.errors[1]).toMatchObject({ file: 'parse_test.go', line: 20, context: 'TestParse/empty' });
+    });
+
+    it('should attribute log lines printed after the FAIL line (non-verbose output)', () => {
+      const output = `--- FAIL: TestAdd (0.00s)
+    calc_test.go:12: Add(2, 3) = 6; want 5
+    calc_test.go:13: Add(0, 0) = 1; want 0
+FAIL
+FAIL	example.com/calc	0.002s`;
+
+      const result = goPlugin.extract(output);
+      expectExtractionResult(result, { errorCount: 1 });
+      expect(result.errors[0]).toMatchObject({
+        file: 'calc_test.go',
+        line: 12,
+        message: 'Add(2, 3) = 6; want 5; Add(0, 0) = 1; want 0',
+      });
+    });
+
+    it('should locate a panic at the first frame outside the Go runtime', () => {
+      const output = `=== RUN   TestDivide
+--- FAIL: TestDivide (0.00s)
+panic: runtime error: integer divide by zero [recovered]
+	panic: runtime error: integer divide by zero
+
+goroutine 7 [running]:
+testing.tRunner.func1.2({0x10a3c40, 0x11d2f80})
+	/usr/local/go/src/testing/testing.go:1545 +0x238
+panic({0x10a3c40?, 0x11d2f80?})
+	/usr/local/go/src/runtime/panic.go:914 +0x21f
+example.com/calc.Divide(...)
+	/home/dev/calc/calc.go:10
+FAIL	example.com/calc	0.003s`;
+
+      const result = goPlugin.extract(output);
+      expectExtractionResult(result, { errorCount: 1, guidanceContains: ['panicked'] });
+      expect(result.errors[0]).toMatchObject({
+        file: '/home/dev/calc/calc.go',
+        line: 10,
+        message: 'panic: runtime error: integer divide by zero',
+        context: 'TestDivide',
+      });
+    });
+
+    it('should report the tests still running when go test timed out', () => {
+      const output = `=== RUN   TestWait
+panic: test timed out after 10m0s
+running tests:
+	TestWait (10m0s)
+
+goroutine 17 [running]:
+testing.(*M).startAlarm.func1()
+	/usr/local/go/src/testing/testing.go:2259 +0x1fd
+FAIL	example.com/calc	600.004s`;
+
+      const result = goPlugin.extract(output);
+      expectExtractionResult(result, { errorCount: 1, guidanceContains: ['go test -timeout'] });
+      expect(result.errors[0]).toEqual({ message: 'Test failed', context: 'TestWait' });
+    });
+
+    it('should extract the failures of a go test -json stream', () => {
+      const sample = goPlugin.samples.find(s => s.name === 'json-events');
+      const result = goPlugin.extract(sample?.input ?? '');
+
+      expectExtractionResult(result, { errorCount: 1 });
+      expect(result.errors[0]).toMatchObject({ file: 'calc_test.go', line: 12, context: 'TestAdd' });
+    });
+
+    it('should extract compile errors', () => {
+      const result = goPlugin.extract(BUILD_OUTPUT);
+      expectExtractionResult(result, {
+        errorCount: 2,
+        summaryPattern: '2 compile error(s)',
+        guidanceContains: ['Fix the compile errors first'],
+      });
+      expect(result.errors[0]).toEqual({
+        file: 'calc.go',
+        line: 10,
+        column: 2,
+        message: 'undefined: foo',
+        severity: 'error',
+      });
+    });
+
+    it('should extract vet diagnostics', () => {
+      const result = goPlugin.extract(VET_OUTPUT);
+      expectExtractionResult(result, {
+        errorCount: 1,
+        summaryPattern: '1 vet issue(s)',
+        guidanceContains: ['go vet ./...'],
+      });
+      expect(result.errors[0]).toMatchObject({ file: 'report.go', line: 15, column: 2, context: 'go vet' });
+    });
+
+    it('should return 0 errors for passing output', () => {
+      const output = `=== RUN   TestAdd
+--- PASS: TestAdd (0.00s)
+PASS
+ok  	example.com/calc	0.002s`;
+
+      const result = goPlugin.extract(output);
+      expectExtractionResult(result, { errorCount: 0, summaryPattern: '0 test(s) failed' });
+    });
+  });
+
+  describe('metadata', () => {
+    it('should have correct plugin metadata', () => {
+      expect(goPlugin.metadata.name).toBe('go');
+      expect(goPlugin.priority).toBe(90);
+      expect(goPlugin.hints?.anyOf).toContain('--- FAIL:');
+      expect(goPlugin.metadata.tags).toContain('go');
+      expect(goPlugin.metadata.tags).toContain('testing');
+    });
+  });
+
+  describe('samples', () => {
+    it('should have at least 2 sample test cases', () => {
+      expect(goPlugin.samples.length).toBeGreaterThanOrEqual(2);
+    });
+
+    it('should successfully parse all sample inputs', () => {
+      expectSamplesParseSuccessfully(goPlugin);
+    });
+  });
+});
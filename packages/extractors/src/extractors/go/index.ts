@@ -0,0 +1,415 @@
+/**
+ * Go Error Extractor Plugin
+ *
+ * Extracts `go test` failures (text and `-json` event streams), `go build`
+ * compile errors and `go vet` diagnostics.
+ *
+ * @package @vibe-validate/extractors
+ */
+
+import { MAX_ERRORS_IN_ARRAY } from '../../result-schema.js';
+import type {
+  ExtractorPlugin,
+  ErrorExtractorResult,
+  DetectionResult,
+  ExtractorSample,
+  FormattedError,
+} from '../../types.js';
+import { formatCleanOutput } from '../../utils/formatter-utils.js';
+
+/** `--- FAIL: TestName (0.00s)` (indented for subtests) */
+const TEST_FAIL_RE = /^\s*--- FAIL: (\S+)/;
+
+/** `=== RUN   TestName`, `=== CONT  TestName`, `--- PASS: TestName` - output that follows belongs to this test */
+const TEST_CONTEXT_RE = /^\s*(?:=== (?:RUN|CONT|PAUSE|NAME)|--- (?:PASS|SKIP)):?\s+(\S+)/;
+
+/** Test log line: `    calc_test.go:12: got 6, want 5` */
+const TEST_LOG_RE = /^\s+(\S+\.go):(\d+): (.*)$/;
+
+/** Compile error or vet diagnostic: `./calc.go:10:2: undefined: foo` */
+const DIAGNOSTIC_RE = /^(\S+\.go):(\d+):(\d+): (.+)$/;
+
+/** Package header before compile errors (`# example.com/calc`) or vet diagnostics (`# [example.com/calc]`) */
+const PACKAGE_HEADER_RE = /^# (\[)?\S+/;
+
+/** Package result: `FAIL	example.com/calc	0.002s` or `FAIL	example.com/calc [build failed]` */
+const PACKAGE_FAIL_RE = /^FAIL\t\S+/m;
+
+/** `panic: message [recovered]` */
+const PANIC_RE = /^panic: (.+?)(?: \[recovered\])?$/;
+
+/** Test still running when `go test` timed out: `	TestWait (10m0s)` */
+const RUNNING_TEST_RE = /^\t(\S+) \(/;
+
+/** Stack frame location: `	/home/dev/calc/calc.go:10 +0x1d` */
+const STACK_FRAME_RE = /^\t(\S+\.go):(\d+)/;
+
+/** `go test -json` event (one JSON object per line) */
+const JSON_EVENT_RE = /^\{"Time":"[^"]*","Action":"/m;
+
+/** Go runtime and testing frames, skipped when locating a panic */
+const GOROOT_FRAME_PATHS = ['/src/runtime/', '/src/testing/', '/src/reflect/'];
+
+/**
+ * A failed test, with its log lines
+ */
+interface GoTestFailure {
+  name: string;
+  logs: Array<{ file: string; line: number; message: string }>;
+  panic?: string;
+}
+
+/**
+ * Where a diagnostic came from: the compiler (`go build`, or `go test` of a
+ * package that doesn't build) or `go vet`
+ */
+type DiagnosticSource = 'build' | 'vet';
+
+/**
+ * A compile error or vet diagnostic
+ */
+interface GoDiagnostic extends FormattedError {
+  source: DiagnosticSource;
+}
+
+function detect(output: string): DetectionResult {
+  if (JSON_EVENT_RE.test(output) && output.includes('"Package":"')) {
+    return {
+      confidence: 95,
+      patterns: ['go test -json events'],
+      reason: 'Go test JSON event stream detected (go test -json)',
+    };
+  }
+
+  const lines = output.split('\n');
+  if (lines.some(line => line.trimStart().startsWith('--- FAIL: Test'))) {
+    return {
+      confidence: 95,
+      patterns: ['--- FAIL: Test marker'],
+      reason: 'Go test output detected (--- FAIL: Test...)',
+    };
+  }
+
+  const hasDiagnostics = lines.some(line => DIAGNOSTIC_RE.test(line));
+  if (hasDiagnostics && lines.some(line => PACKAGE_HEADER_RE.test(line))) {
+    return {
+      confidence: 90,
+      patterns: ['# package header', 'file.go:line:col: diagnostics'],
+      reason: 'Go compiler or go vet output detected (package header with .go diagnostics)',
+    };
+  }
+
+  if (PACKAGE_FAIL_RE.test(output) || hasDiagnostics) {
+    return {
+      confidence: 80,
+      patterns: [hasDiagnostics ? 'file.go:line:col: diagnostics' : 'FAIL<tab>package line'],
+      reason: 'Possible Go output (.go diagnostics or failed package line)',
+    };
+  }
+
+  return { confidence: 0, patterns: [], reason: '' };
+}
+
+/**
+ * Turn a `go test -json` event stream back into the text `go test -v` prints
+ *
+ * Non-JSON lines (e.g. compile errors on stderr) are kept as they are.
+ */
+function goTestJsonToText(output: string): string {
+  const text: string[] = [];
+  for (const line of output.split('\n')) {
+    if (!line.startsWith('{')) {
+      text.push(`${line}\n`);
+      continue;
+    }
+    try {
+      const event = JSON.parse(line) as { Action?: string; Output?: string };
+      if ((event.Action === 'output' || event.Action === 'build-output') && event.Output) {
+        text.push(event.Output);
+      }
+    } catch {
+      text.push(`${line}\n`);
+    }
+  }
+  return text.join('');
+}
+
+/**
+ * Location of a panic: the first stack frame outside the Go runtime and testing packages
+ */
+function findPanicFrame(lines: string[], start: number): { file: string; line: number } | undefined {
+  for (let i = start; i < lines.length && !lines[i].startsWith('FAIL'); i++) {
+    const frame = STACK_FRAME_RE.exec(lines[i]);
+    if (frame && !GOROOT_FRAME_PATHS.some(path => frame[1].includes(path))) {
+      return { file: frame[1], line: Number.parseInt(frame[2], 10) };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Tests listed under `running tests:` after a `panic: test timed out` line
+ */
+function findTimedOutTests(lines: string[], start: number): string[] {
+  if (lines[start]?.trim() !== 'running tests:') return [];
+  const names: string[] = [];
+  for (let i = start + 1; i < lines.length; i++) {
+    const match = RUNNING_TEST_RE.exec(lines[i]);
+    if (!match) break;
+    names.push(match[1]);
+  }
+  return names;
+}
+
+/**
+ * Attribute a panic to the test that raised it, or to every test still
+ * running when `go test` timed out
+ */
+function recordPanic(
+  lines: string[],
+  index: number,
+  message: string,
+  current: GoTestFailure | undefined,
+  markFailed: (name: string) => GoTestFailure
+): void {
+  const timedOut = findTimedOutTests(lines, index + 1);
+  for (const name of timedOut) {
+    markFailed(name).panic = message;
+  }
+  if (timedOut.length > 0 || !current || current.panic !== undefined) return;
+
+  current.panic = message;
+  const frame = findPanicFrame(lines, index + 1);
+  if (frame) current.logs.unshift({ ...frame, message: `panic: ${message}` });
+}
+
+/**
+ * Parse failed tests, attributing log lines and panics to the test that printed them
+ *
+ * With `-v`, a test's log lines come before its `--- FAIL` line; without it,
+ * after. Either way they follow the last `=== RUN`/`--- FAIL` line naming the test.
+ */
+function parseTestFailures(lines: string[]): GoTestFailure[] {
+  const tests = new Map<string, GoTestFailure>();
+  const failed = new Set<string>();
+  let current: GoTestFailure | undefined;
+  const testNamed = (name: string): GoTestFailure => {
+    const test = tests.get(name) ?? { name, logs: [] };
+    tests.set(name, test);
+    return test;
+  };
+
+  for (const [index, line] of lines.entries()) {
+    const failMatch = TEST_FAIL_RE.exec(line);
+    const contextMatch = failMatch ?? TEST_CONTEXT_RE.exec(line);
+    if (contextMatch) {
+      current = testNamed(contextMatch[1]);
+      if (failMatch) failed.add(failMatch[1]);
+      continue;
+    }
+
+    const logMatch = TEST_LOG_RE.exec(line);
+    if (logMatch && current) {
+      current.logs.push({ file: logMatch[1], line: Number.parseInt(logMatch[2], 10), message: logMatch[3].trim() });
+      continue;
+    }
+
+    const panicMatch = PANIC_RE.exec(line);
+    if (panicMatch) {
+      recordPanic(lines, index, panicMatch[1], current, name => {
+        failed.add(name);
+        return testNamed(name);
+      });
+    }
+  }
+
+  // A parent test fails when a subtest fails: report the subtests only
+  const failedNames = [...failed];
+  return failedNames
+    .filter(name => !failedNames.some(other => other.startsWith(`${name}/`)))
+    .map(name => testNamed(name));
+}
+
+/**
+ * Parse compile errors and vet diagnostics
+ *
+ * Diagnostics after a `# [package]` header come from `go vet`; the others
+ * from the compiler.
+ */
+function parseDiagnostics(lines: string[]): GoDiagnostic[] {
+  const diagnostics: GoDiagnostic[] = [];
+  let source: DiagnosticSource = 'build';
+
+  for (const line of lines) {
+    const header = PACKAGE_HEADER_RE.exec(line);
+    if (header) {
+      source = header[1] ? 'vet' : 'build';
+      continue;
+    }
+    const match = DIAGNOSTIC_RE.exec(line);
+    if (match) {
+      diagnostics.push({
+        file: match[1].replace(/^\.\//, ''),
+        line: Number.parseInt(match[2], 10),
+        column: Number.parseInt(match[3], 10),
+        message: match[4].trim(),
+        severity: 'error',
+        source,
+      });
+    }
+  }
+
+  return diagnostics;
+}
+
+/**
+ * Convert a failed test to a formatted error (located at its first log line)
+ */
+function toFormattedError(failure: GoTestFailure): FormattedError {
+  const [first] = failure.logs;
+  const messages = failure.logs.map(log => log.message);
+  return {
+    ...(first ? { file: first.file, line: first.line } : {}),
+    message: messages.length > 0 ? messages.join('; ') : 'Test failed',
+    context: failure.name,
+  };
+}
+
+/**
+ * Summary part for each kind of problem found
+ */
+function buildSummary(failures: GoTestFailure[], diagnostics: GoDiagnostic[]): string {
+  const buildErrors = diagnostics.filter(d => d.source === 'build').length;
+  const vetIssues = diagnostics.length - buildErrors;
+  const parts = [
+    ...(buildErrors > 0 ? [`${buildErrors} compile error(s)`] : []),
+    ...(vetIssues > 0 ? [`${vetIssues} vet issue(s)`] : []),
+    ...(failures.length > 0 || diagnostics.length === 0 ? [`${failures.length} test(s) failed`] : []),
+  ];
+  return parts.join(', ');
+}
+
+/**
+ * Guidance for each kind of problem found
+ */
+function buildGuidance(failures: GoTestFailure[], diagnostics: GoDiagnostic[]): string {
+  const guidance: string[] = [];
+  if (diagnostics.some(d => d.source === 'build')) {
+    guidance.push('Fix the compile errors first - go test cannot run the tests of a package that does not build');
+  }
+  if (diagnostics.some(d => d.source === 'vet')) {
+    guidance.push('go vet reports suspicious code (format strings, unreachable code, copied locks) - fix the reported line, then run: go vet ./...');
+  }
+  if (failures.some(f => f.panic?.startsWith('test timed out'))) {
+    guidance.push('A test timed out - look for a deadlock or blocked channel, or raise the limit with go test -timeout');
+  } else if (failures.some(f => f.panic !== undefined)) {
+    guidance.push('A test panicked - the location shown is the first stack frame outside the Go runtime');
+  }
+  if (failures.length > 0) {
+    const [first] = failures;
+    const slash = first.name.indexOf('/');
+    const topLevel = slash === -1 ? first.name : first.name.slice(0, slash);
+    guidance.push(`Re-run a failing test with: go test -run '^${topLevel}$' ./...`);
+  }
+  return guidance.join('\n');
+}
+
+function extract(output: string): ErrorExtractorResult {
+  const text = JSON_EVENT_RE.test(output) ? goTestJsonToText(output) : output;
+  const lines = text.split('\n');
+
+  const diagnostics = parseDiagnostics(lines);
+  const failures = parseTestFailures(lines);
+  const errors: FormattedError[] = [
+    ...diagnostics.map(({ source, ...error }) => (source === 'vet' ? { ...error, context: 'go vet' } : error)),
+    ...failures.map(failure => toFormattedError(failure)),
+  ];
+  const shownErrors = errors.slice(0, MAX_ERRORS_IN_ARRAY);
+  const located = errors.filter(error => error.file !== undefined && error.line !== undefined).length;
+
+  return {
+    summary: buildSummary(failures, diagnostics),
+    totalErrors: errors.length,
+    errors: shownErrors,
+    guidance: buildGuidance(failures, diagnostics),
+    errorSummary: formatCleanOutput(shownErrors),
+    metadata: {
+      confidence: 95,
+      completeness: errors.length > 0 ? (located / errors.length) * 100 : 100,
+      issues: [],
+    },
+  };
+}
+
+const samples: ExtractorSample[] = [
+  {
+    name: 'test-failures',
+    description: 'go test failures, with a failed subtest and a panic',
+    input: `--- FAIL: TestAdd (0.00s)
+    calc_test.go:12: Add(2, 3) = 6; want 5
+--- FAIL: TestParse (0.00s)
+    --- FAIL: TestParse/empty (0.00s)
+        parse_test.go:20: Parse("") returned no error
+--- FAIL: TestDivide (0.00s)
+panic: runtime error: integer divide by zero [recovered]
+	panic: runtime error: integer divide by zero
+
+goroutine 7 [running]:
+testing.tRunner.func1.2({0x10a3c40, 0x11d2f80})
+	/usr/local/go/src/testing/testing.go:1545 +0x238
+example.com/calc.Divide(...)
+	/home/dev/calc/calc.go:10
+example.com/calc.TestDivide(0xc000007860)
+	/home/dev/calc/calc_test.go:25 +0x1f
+FAIL	example.com/calc	0.003s
+FAIL`,
+    expectedErrors: 3,
+    expectedPatterns: ['Add(2, 3) = 6; want 5', 'TestParse/empty', 'integer divide by zero'],
+  },
+  {
+    name: 'build-and-vet-errors',
+    description: 'go build compile errors and go vet diagnostics',
+    input: `# example.com/calc
+./calc.go:10:2: undefined: foo
+./calc.go:12:9: cannot use "x" (untyped string constant) as int value in return statement
+# example.com/report
+# [example.com/report]
+./report.go:15:2: fmt.Printf format %d has arg name of wrong type string`,
+    expectedErrors: 3,
+    expectedPatterns: ['undefined: foo', 'fmt.Printf format %d'],
+  },
+  {
+    name: 'json-events',
+    description: 'go test -json event stream with one failing test',
+    input: String.raw`{"Time":"2026-03-01T10:00:00Z","Action":"start","Package":"example.com/calc"}
+{"Time":"2026-03-01T10:00:00Z","Action":"run","Package":"example.com/calc","Test":"TestAdd"}
+{"Time":"2026-03-01T10:00:00Z","Action":"output","Package":"example.com/calc","Test":"TestAdd","Output":"=== RUN   TestAdd\n"}
+{"Time":"2026-03-01T10:00:00Z","Action":"output","Package":"example.com/calc","Test":"TestAdd","Output":"    calc_test.go:12: Add(2, 3) = 6; want 5\n"}
+{"Time":"2026-03-01T10:00:00Z","Action":"output","Package":"example.com/calc","Test":"TestAdd","Output":"--- FAIL: TestAdd (0.00s)\n"}
+{"Time":"2026-03-01T10:00:00Z","Action":"fail","Package":"example.com/calc","Test":"TestAdd","Elapsed":0}
+{"Time":"2026-03-01T10:00:00Z","Action":"output","Package":"example.com/calc","Output":"FAIL\n"}
+{"Time":"2026-03-01T10:00:00Z","Action":"fail","Package":"example.com/calc","Elapsed":0.003}`,
+    expectedErrors: 1,
+    expectedPatterns: ['Add(2, 3) = 6; want 5'],
+  },
+];
+
+const goPlugin: ExtractorPlugin = {
+  metadata: {
+    name: 'go',
+    version: '1.0.0',
+    author: 'vibe-validate',
+    description: 'Extracts go test failures, go build compile errors and go vet diagnostics',
+    repository: 'https://github.com/jdutton/vibe-validate',
+    tags: ['go', 'golang', 'testing', 'compiler', 'vet'],
+  },
+  hints: {
+    anyOf: ['--- FAIL:', '.go:', '"Action":'],
+  },
+  priority: 90,
+  detect,
+  extract,
+  samples,
+};
+
+export default goPlugin;
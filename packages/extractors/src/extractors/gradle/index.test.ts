@@ -0,0 +1,179 @@
+/**
+ * Gradle Error Extractor Tests
+ *
+ * @package @vibe-validate/extractors
+ */
+
+import { describe, it, expect } from 'vitest';
+
+import { expectExtractionResult, expectSamplesParseSuccessfully } from '../../test/helpers/extractor-test-helpers.js';
+
+import gradleExtractor from './index.js';
+
+const CART_KT = 'src/main/kotlin/com/example/Cart.kt';
+
+function sampleInput(name: string): string {
+  return gradleExtractor.samples.find(sample => sample.name === name)?.input ?? '';
+}
+
+describe('gradle extractor plugin', () => {
+  describe('detect', () => {
+    it('should detect a failed Kotlin compile task with high confidence', () => {
+      const result = gradleExtractor.detect(sampleInput('kotlin-compile-errors'));
+      expect(result.confidence).toBe(100);
+      expect(result.patterns).toContain('> Task :name FAILED');
+      expect(result.patterns).toContain('Kotlin e:/w: messages');
+      expect(result.reason).toBe('Gradle build output detected');
+    });
+
+    it('should detect test failures with high confidence', () => {
+      const result = gradleExtractor.detect(sampleInput('test-failures'));
+      expect(result.confidence).toBeGreaterThanOrEqual(70);
+      expect(result.patterns).toContain('N tests completed, N failed');
+    });
+
+    it('should NOT detect Maven output', () => {
+      const output = `[ERROR] COMPILATION ERROR :
+[ERROR] /home/dev/shop/src/main/java/com/example/Cart.java:[12,24] cannot find symbol
+[INFO] 1 error`;
+
+      expect(gradleExtractor.detect(output).confidence).toBeLessThan(40);
+    });
+  });
+
+  describe('extract', () => {
+    it('should extract Kotlin compiler errors with source-relative paths', () => {
+      const result = gradleExtractor.extract(sampleInput('kotlin-compile-errors'));
+      expectExtractionResult(result, {
+        errorCount: 2,
+        summaryPattern: '2 compilation error(s), 0 test failure(s) (failed: :app:compileKotlin)',
+        guidanceContains: ['./gradlew :app:compileKotlin'],
+      });
+
+      expect(result.errors[0]).toEqual({
+        file: CART_KT,
+        line: 12,
+        column: 5,
+        message: 'Unresolved reference: discount',
+        severity: 'error',
+      });
+    });
+
+    it('should extract the Kotlin message format of earlier versions', () => {
+      const output = `> Task :app:compileKotlin FAILED
+e: /home/dev/shop/app/${CART_KT}: (12, 5): Unresolved reference: discount
+e: file:///home/dev/shop/app/${CART_KT}:(20, 13): Type mismatch: inferred type is String but Int was expected`;
+
+      const result = gradleExtractor.extract(output);
+      expectExtractionResult(result, { errorCount: 2 });
+      expect(result.errors[0]).toMatchObject({ file: CART_KT, line: 12, column: 5 });
+      expect(result.errors[1]).toMatchObject({ file: CART_KT, line: 20, column: 13, message: 'Type mismatch: inferred type is String but Int was expected' });
+    });
+
+    it('should list Kotlin warnings after errors', () => {
+      const output = `w: file:///home/dev/shop/app/${CART_KT}:3:1 'toUpperCase(): String' is deprecated
+e: file:///home/dev/shop/app/${CART_KT}:12:5 Unresolved reference: discount
+> Task :app:compileKotlin FAILED`;
+
+      const result = gradleExtractor.extract(output);
+      expectExtractionResult(result, { errorCount: 2, summaryPattern: /^1 compilation error\(s\), 1 warning\(s\)/ });
+      expect(result.errors.map(error => error.severity)).toEqual(['error', 'warning']);
+    });
+
+    it('should extract javac errors with their symbol and location', () => {
+      const result = gradleExtractor.extract(sampleInput('javac-errors'));
+      expectExtractionResult(result, { errorCount: 1, guidanceContains: ['./gradlew :app:compileJava'] });
+
+      expect(result.errors[0]).toEqual({
+        file: 'src/main/java/com/example/Cart.java',
+        line: 12,
+        message: 'cannot find symbol\nsymbol:   variable discount\nlocation: class Cart',
+        severity: 'error',
+      });
+    });
+
+    it('should extract test failures at the test class frame and point at the report', () => {
+      const result = gradleExtractor.extract(sampleInput('test-failures'));
+      expectExtractionResult(result, {
+        errorCount: 1,
+        summaryPattern: '0 compilation error(s), 1 test failure(s) (failed: :app:test)',
+        guidanceContains: [
+          "./gradlew :app:test --tests 'CartTest'",
+          'Test report: /home/dev/shop/app/build/reports/tests/test/index.html',
+        ],
+      });
+
+      expect(result.errors[0]).toEqual({
+        file: 'CartTest.kt',
+        line: 18,
+        message: 'org.opentest4j.AssertionFailedError: expected: <90> but was: <100>',
+        context: 'CartTest > appliesDiscount()',
+      });
+    });
+
+    it('should read the short exception format of Android unit tests', () => {
+      const output = `> Task :app:testDebugUnitTest
+
+com.example.CartTest > appliesDiscount FAILED
+    java.lang.AssertionError at CartTest.java:18
+
+4 tests completed, 1 failed
+
+> Task :app:testDebugUnitTest FAILED`;
+
+      const result = gradleExtractor.extract(output);
+      expectExtractionResult(result, { errorCount: 1, guidanceContains: ["./gradlew :app:testDebugUnitTest --tests 'com.example.CartTest'"] });
+      expect(result.errors[0]).toMatchObject({ file: 'CartTest.java', line: 18, message: 'java.lang.AssertionError' });
+    });
+
+    it('should report what went wrong when no error was parsed', () => {
+      const output = `FAILURE: Build failed with an exception.
+
+* What went wrong:
+Execution failed for task ':app:checkDebugAarMetadata'.
+> Could not resolve all files for configuration ':app:debugRuntimeClasspath'.
+
+* Try:
+> Run with --stacktrace option to get the stack trace.
+
+BUILD FAILED in 3s`;
+
+      const result = gradleExtractor.extract(output);
+      expectExtractionResult(result, { errorCount: 1, guidanceContains: ['--stacktrace'] });
+      expect(result.errors[0]).toEqual({
+        message: "Execution failed for task ':app:checkDebugAarMetadata'.\n> Could not resolve all files for configuration ':app:debugRuntimeClasspath'.",
+        context: ':app:checkDebugAarMetadata',
+      });
+    });
+
+    it('should return 0 errors for a successful build', () => {
+      const output = `> Task :app:compileKotlin
+> Task :app:test
+
+BUILD SUCCESSFUL in 8s`;
+
+      const result = gradleExtractor.extract(output);
+      expectExtractionResult(result, { errorCount: 0, summaryPattern: '0 compilation error(s), 0 test failure(s)' });
+    });
+  });
+
+  describe('metadata', () => {
+    it('should have correct plugin metadata', () => {
+      expect(gradleExtractor.metadata.name).toBe('gradle');
+      expect(gradleExtractor.priority).toBe(90);
+      expect(gradleExtractor.hints?.anyOf).toContain('> Task :');
+      expect(gradleExtractor.metadata.tags).toContain('kotlin');
+      expect(gradleExtractor.metadata.tags).toContain('android');
+    });
+  });
+
+  describe('samples', () => {
+    it('should have at least 2 sample test cases', () => {
+      expect(gradleExtractor.samples.length).toBeGreaterThanOrEqual(2);
+    });
+
+    it('should successfully parse all sample inputs', () => {
+      expectSamplesParseSuccessfully(gradleExtractor);
+    });
+  });
+});
@@ -0,0 +1,481 @@
+/**
+ * Gradle Error Extractor Plugin
+ *
+ * Extracts Kotlin and javac compilation errors and test failures from Gradle
+ * builds (`./gradlew build`, `./gradlew test`, Android unit test tasks), and
+ * points at the test reports Gradle writes.
+ *
+ * @package @vibe-validate/extractors
+ */
+
+import { extractRelativePath } from '../../maven-utils.js';
+import { MAX_ERRORS_IN_ARRAY } from '../../result-schema.js';
+import type {
+  ExtractorPlugin,
+  DetectionResult,
+  ErrorExtractorResult,
+  FormattedError,
+} from '../../types.js';
+import { formatCleanOutput } from '../../utils/formatter-utils.js';
+
+// Extractor name constant
+const EXTRACTOR_NAME = 'gradle';
+
+/**
+ * Gradle output format:
+ *
+ * > Task :app:compileKotlin FAILED
+ * e: file:///home/dev/app/src/main/kotlin/com/example/App.kt:12:5 Unresolved reference: foo
+ *
+ * AppTest > testAdd() FAILED
+ *     org.opentest4j.AssertionFailedError: expected: <5> but was: <6>
+ *         at app//com.example.AppTest.testAdd(AppTest.kt:14)
+ *
+ * 3 tests completed, 1 failed
+ *
+ * FAILURE: Build failed with an exception.
+ *
+ * * What went wrong:
+ * Execution failed for task ':app:test'.
+ * > There were failing tests. See the report at: file:///home/dev/app/app/build/reports/tests/test/index.html
+ */
+
+/**
+ * A Kotlin or javac message
+ */
+interface CompilerMessage {
+  file: string;
+  line: number;
+  column?: number;
+  message: string;
+  severity: 'error' | 'warning';
+}
+
+/**
+ * A failed test, as reported by Gradle's test logging
+ */
+interface GradleTestFailure {
+  /** `AppTest > testAdd()` */
+  name: string;
+  file?: string;
+  line?: number;
+  message: string;
+}
+
+const GRADLE_PATTERNS = {
+  // > Task :app:compileKotlin FAILED
+  failedTask: /^> Task (:\S+) FAILED$/,
+
+  // Execution failed for task ':app:test'.
+  executionFailed: /^Execution failed for task '(:\S+)'/,
+
+  // Kotlin 1.8+: e: file:///path/App.kt:12:5 Unresolved reference: foo
+  kotlinMessage: /^([ew]): (?:file:\/\/)?(\S+\.kts?):(\d+):(\d+) (.+)$/,
+
+  // Earlier Kotlin: e: /path/App.kt: (12, 5): Unresolved reference: foo (or file:///path/App.kt:(12, 5):)
+  kotlinLegacyMessage: /^([ew]): (?:file:\/\/)?(\S+\.kts?): ?\((\d+), (\d+)\): (.+)$/,
+
+  // javac: /path/App.java:12: error: cannot find symbol
+  javacMessage: /^(\S+\.java):(\d+): (error|warning): (.+)$/,
+
+  // javac context after a message
+  javacContext: /^\s+(symbol|location):/,
+
+  // Stack frame: at app//com.example.AppTest.testAdd(AppTest.kt:14)
+  stackFrame: /^\s+at \S+\((\w+\.(?:java|kt)):(\d+)\)$/,
+
+  // Default (short) exception format: java.lang.AssertionError at AppTest.java:14
+  shortException: /^(\S+) at (\w+\.(?:java|kt)):(\d+)$/,
+
+  // 3 tests completed, 1 failed
+  testSummary: /^(\d+) tests? completed, (\d+) failed/,
+
+  // > There were failing tests. See the report at: file:///path/build/reports/tests/test/index.html
+  reportPath: /See the report at: (?:file:\/\/)?(\S+)/,
+};
+
+const WHAT_WENT_WRONG = '* What went wrong:';
+
+/**
+ * `AppTest > testAdd() FAILED` (not indented, unlike Gradle's own `>` lines)
+ */
+function parseTestHeader(line: string): string | undefined {
+  if (!line.endsWith(' FAILED') || !line.includes(' > ') || /^[\s>]/.test(line)) {
+    return undefined;
+  }
+  return line.slice(0, -' FAILED'.length);
+}
+
+/**
+ * Line checks used for detection: points and the pattern name reported when found
+ */
+const DETECTION_CHECKS: Array<{ points: number; pattern: string; matches: (line: string) => boolean }> = [
+  { points: 40, pattern: '> Task :name FAILED', matches: line => GRADLE_PATTERNS.failedTask.test(line) },
+  { points: 30, pattern: 'FAILURE: Build failed', matches: line => line.startsWith('FAILURE: Build failed with an exception.') },
+  { points: 20, pattern: 'BUILD FAILED in summary', matches: line => line.startsWith('BUILD FAILED in ') },
+  { points: 20, pattern: '* What went wrong: section', matches: line => line.startsWith(WHAT_WENT_WRONG) },
+  {
+    points: 30,
+    pattern: 'Kotlin e:/w: messages',
+    matches: line => GRADLE_PATTERNS.kotlinMessage.test(line) || GRADLE_PATTERNS.kotlinLegacyMessage.test(line),
+  },
+  { points: 30, pattern: 'N tests completed, N failed', matches: line => GRADLE_PATTERNS.testSummary.test(line) },
+  { points: 20, pattern: 'Class > test FAILED', matches: line => parseTestHeader(line) !== undefined },
+  { points: 10, pattern: 'javac file.java:line: error', matches: line => GRADLE_PATTERNS.javacMessage.test(line) },
+];
+
+/**
+ * Detects if output is from Gradle
+ */
+export function detectGradle(output: string): DetectionResult {
+  const lines = output.split('\n');
+  let score = 0;
+  const foundPatterns: string[] = [];
+
+  for (const check of DETECTION_CHECKS) {
+    if (lines.some(check.matches)) {
+      score += check.points;
+      foundPatterns.push(check.pattern);
+    }
+  }
+
+  // Determine reason based on score
+  let reason: string;
+  if (score >= 70) {
+    reason = 'Gradle build output detected';
+  } else if (score >= 40) {
+    reason = 'Possible Gradle build output';
+  } else {
+    reason = 'Not Gradle output';
+  }
+
+  return {
+    confidence: Math.min(score, 100),
+    patterns: foundPatterns,
+    reason,
+  };
+}
+
+/**
+ * Parse one compiler message line (Kotlin, either format, or javac)
+ */
+function parseCompilerLine(line: string): CompilerMessage | undefined {
+  const kotlin = GRADLE_PATTERNS.kotlinMessage.exec(line) ?? GRADLE_PATTERNS.kotlinLegacyMessage.exec(line);
+  if (kotlin) {
+    const [, level, file, lineStr, colStr, message] = kotlin;
+    return {
+      file: extractRelativePath(file),
+      line: Number.parseInt(lineStr, 10),
+      column: Number.parseInt(colStr, 10),
+      message: message.trim(),
+      severity: level === 'w' ? 'warning' : 'error',
+    };
+  }
+
+  const javac = GRADLE_PATTERNS.javacMessage.exec(line);
+  if (javac) {
+    const [, file, lineStr, severity, message] = javac;
+    return {
+      file: extractRelativePath(file),
+      line: Number.parseInt(lineStr, 10),
+      message: message.trim(),
+      severity: severity === 'warning' ? 'warning' : 'error',
+    };
+  }
+
+  return undefined;
+}
+
+/**
+ * Parse Kotlin and javac messages, errors first
+ *
+ * javac's `symbol:` and `location:` lines are added to the message, as the
+ * maven-compiler extractor does.
+ */
+function parseCompilerMessages(lines: string[]): CompilerMessage[] {
+  const messages: CompilerMessage[] = [];
+
+  for (const [index, line] of lines.entries()) {
+    const message = parseCompilerLine(line);
+    if (!message) continue;
+
+    if (line.includes('.java:')) {
+      const context = lines.slice(index + 1, index + 6).filter(next => GRADLE_PATTERNS.javacContext.test(next));
+      if (context.length > 0) {
+        message.message = `${message.message}\n${context.map(next => next.trim()).join('\n')}`;
+      }
+    }
+    messages.push(message);
+  }
+
+  return [...messages.filter(m => m.severity === 'error'), ...messages.filter(m => m.severity === 'warning')];
+}
+
+/**
+ * Parse the indented lines after a `Class > test FAILED` header
+ *
+ * The location is the stack frame in the test class's own file, or the file
+ * of the short exception format.
+ */
+function parseTestFailure(name: string, body: string[]): GradleTestFailure {
+  const testClass = name.split(' > ')[0];
+  const simpleName = testClass.slice(testClass.lastIndexOf('.') + 1);
+  let message: string | undefined;
+  let location: { file: string; line: number } | undefined;
+
+  for (const line of body) {
+    const frame = GRADLE_PATTERNS.stackFrame.exec(line);
+    if (frame) {
+      if (location === undefined && frame[1].startsWith(`${simpleName}.`)) {
+        location = { file: frame[1], line: Number.parseInt(frame[2], 10) };
+      }
+    } else if (message === undefined) {
+      const short = GRADLE_PATTERNS.shortException.exec(line.trim());
+      message = short ? short[1] : line.trim();
+      if (short) location = { file: short[2], line: Number.parseInt(short[3], 10) };
+    }
+  }
+
+  return { name, ...location, message: message ?? 'Test failed' };
+}
+
+/**
+ * Parse `Class > test FAILED` blocks
+ */
+function parseTestFailures(lines: string[]): GradleTestFailure[] {
+  const failures: GradleTestFailure[] = [];
+
+  for (const [index, line] of lines.entries()) {
+    const name = parseTestHeader(line);
+    if (!name) continue;
+
+    const body: string[] = [];
+    for (const next of lines.slice(index + 1)) {
+      if (!/^\s+\S/.test(next)) break;
+      body.push(next);
+    }
+    failures.push(parseTestFailure(name, body));
+  }
+
+  return failures;
+}
+
+/**
+ * Lines of the `* What went wrong:` sections
+ */
+function parseWhatWentWrong(lines: string[]): string[] {
+  const text: string[] = [];
+  let inSection = false;
+
+  for (const line of lines) {
+    if (line.startsWith(WHAT_WENT_WRONG)) {
+      inSection = true;
+    } else if (inSection && (line.trim() === '' || line.startsWith('* '))) {
+      inSection = false;
+    } else if (inSection) {
+      text.push(line.trim());
+    }
+  }
+
+  return text;
+}
+
+/**
+ * Failed tasks, from `> Task :x FAILED` and `Execution failed for task ':x'` lines
+ */
+function parseFailedTasks(lines: string[]): string[] {
+  const tasks = new Set<string>();
+  for (const line of lines) {
+    const match = GRADLE_PATTERNS.failedTask.exec(line) ?? GRADLE_PATTERNS.executionFailed.exec(line);
+    if (match) tasks.add(match[1]);
+  }
+  return [...tasks];
+}
+
+/**
+ * Test report paths Gradle printed
+ */
+function parseReportPaths(lines: string[]): string[] {
+  const paths = new Set<string>();
+  for (const line of lines) {
+    const match = GRADLE_PATTERNS.reportPath.exec(line);
+    if (match) paths.add(match[1]);
+  }
+  return [...paths];
+}
+
+/**
+ * Guidance: the task to re-run and the test reports to open
+ */
+function buildGuidance(
+  compileErrors: number,
+  testFailures: GradleTestFailure[],
+  failedTasks: string[],
+  reportPaths: string[]
+): string | undefined {
+  const guidance: string[] = [];
+
+  if (compileErrors > 0) {
+    const task = failedTasks.find(t => /compile/i.test(t)) ?? 'build';
+    guidance.push(`Fix the compilation errors, then re-run: ./gradlew ${task}`);
+  }
+  if (testFailures.length > 0) {
+    const task = failedTasks.find(t => /test/i.test(t)) ?? 'test';
+    const testClass = testFailures[0].name.split(' > ')[0];
+    guidance.push(`Re-run the failing tests with: ./gradlew ${task} --tests '${testClass}'`);
+  }
+  for (const path of reportPaths) {
+    guidance.push(`Test report: ${path}`);
+  }
+  if (compileErrors === 0 && testFailures.length === 0 && failedTasks.length > 0) {
+    guidance.push(`Re-run with --stacktrace for details: ./gradlew ${failedTasks[0]} --stacktrace`);
+  }
+
+  return guidance.length > 0 ? guidance.join('\n') : undefined;
+}
+
+/**
+ * Extracts compilation errors and test failures from Gradle output
+ */
+export function extractGradle(output: string): ErrorExtractorResult {
+  const detection = detectGradle(output);
+  const lines = output.split('\n');
+
+  const compilerMessages = parseCompilerMessages(lines);
+  const testFailures = parseTestFailures(lines);
+  const failedTasks = parseFailedTasks(lines);
+  const whatWentWrong = parseWhatWentWrong(lines);
+
+  const allErrors: FormattedError[] = [
+    ...compilerMessages,
+    ...testFailures.map(({ name, ...failure }) => ({ ...failure, context: name })),
+  ];
+
+  // Nothing parsed: report why Gradle failed (e.g. a dependency resolution or configuration error)
+  if (allErrors.length === 0 && whatWentWrong.length > 0) {
+    allErrors.push({
+      message: whatWentWrong.slice(0, 3).join('\n'),
+      ...(failedTasks.length > 0 ? { context: failedTasks[0] } : {}),
+    });
+  }
+
+  const errors = allErrors.slice(0, MAX_ERRORS_IN_ARRAY);
+  const compileErrors = compilerMessages.filter(m => m.severity === 'error').length;
+  const warnings = compilerMessages.length - compileErrors;
+  const summaryParts = [
+    `${compileErrors} compilation error(s)`,
+    ...(warnings > 0 ? [`${warnings} warning(s)`] : []),
+    `${testFailures.length} test failure(s)`,
+  ];
+  const failedTaskSummary = failedTasks.length > 0 ? ` (failed: ${failedTasks.join(', ')})` : '';
+
+  return {
+    summary: `${summaryParts.join(', ')}${failedTaskSummary}`,
+    totalErrors: allErrors.length,
+    errors,
+    guidance: buildGuidance(compileErrors, testFailures, failedTasks, parseReportPaths(lines)),
+    errorSummary: formatCleanOutput(errors),
+    metadata: {
+      detection: {
+        extractor: EXTRACTOR_NAME,
+        confidence: detection.confidence,
+        patterns: detection.patterns,
+        reason: detection.reason,
+      },
+      confidence: 95,
+      completeness: 100,
+      issues: [],
+    },
+  };
+}
+
+/**
+ * Gradle Extractor Plugin
+ */
+const gradleExtractor: ExtractorPlugin = {
+  metadata: {
+    name: EXTRACTOR_NAME,
+    version: '1.0.0',
+    author: 'vibe-validate',
+    description: 'Extracts Kotlin/javac compilation errors and test failures from Gradle builds',
+    repository: 'https://github.com/jdutton/vibe-validate',
+    tags: ['gradle', 'kotlin', 'java', 'android', 'compiler', 'testing'],
+  },
+
+  hints: {
+    anyOf: ['> Task :', 'FAILURE: Build failed', 'BUILD FAILED'],
+  },
+
+  priority: 90,
+
+  detect: detectGradle,
+  extract: extractGradle,
+
+  samples: [
+    {
+      name: 'kotlin-compile-errors',
+      description: 'compileKotlin failure with Kotlin 1.8+ messages',
+      input: `> Task :app:compileKotlin FAILED
+e: file:///home/dev/shop/app/src/main/kotlin/com/example/Cart.kt:12:5 Unresolved reference: discount
+e: file:///home/dev/shop/app/src/main/kotlin/com/example/Cart.kt:20:13 Type mismatch: inferred type is String but Int was expected
+
+FAILURE: Build failed with an exception.
+
+* What went wrong:
+Execution failed for task ':app:compileKotlin'.
+> A failure occurred while executing org.jetbrains.kotlin.compilerRunner.GradleCompilerRunnerWithWorkers$GradleKotlinCompilerWorkAction
+   > Compilation error. See log for more details
+
+BUILD FAILED in 4s`,
+      expectedErrors: 2,
+      expectedPatterns: ['Unresolved reference: discount', 'Type mismatch'],
+    },
+    {
+      name: 'javac-errors',
+      description: 'compileJava failure inside Gradle',
+      input: `> Task :app:compileJava FAILED
+/home/dev/shop/app/src/main/java/com/example/Cart.java:12: error: cannot find symbol
+        return total - discount;
+                       ^
+  symbol:   variable discount
+  location: class Cart
+1 error
+
+FAILURE: Build failed with an exception.
+
+* What went wrong:
+Execution failed for task ':app:compileJava'.
+> Compilation failed; see the compiler error output for details.
+
+BUILD FAILED in 2s`,
+      expectedErrors: 1,
+      expectedPatterns: ['cannot find symbol', 'variable discount'],
+    },
+    {
+      name: 'test-failures',
+      description: 'Gradle test task with a failing JUnit 5 test',
+      input: `> Task :app:test
+
+CartTest > appliesDiscount() FAILED
+    org.opentest4j.AssertionFailedError: expected: <90> but was: <100>
+        at app//org.junit.jupiter.api.AssertionFailureBuilder.build(AssertionFailureBuilder.java:151)
+        at app//com.example.CartTest.appliesDiscount(CartTest.kt:18)
+
+4 tests completed, 1 failed
+
+> Task :app:test FAILED
+
+FAILURE: Build failed with an exception.
+
+* What went wrong:
+Execution failed for task ':app:test'.
+> There were failing tests. See the report at: file:///home/dev/shop/app/build/reports/tests/test/index.html
+
+BUILD FAILED in 6s`,
+      expectedErrors: 1,
+      expectedPatterns: ['expected: <90> but was: <100>'],
+    },
+  ],
+};
+
+export default gradleExtractor;
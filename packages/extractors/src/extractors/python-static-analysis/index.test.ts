@@ -0,0 +1,163 @@
+/**
+ * Python Static Analysis Extractor Tests
+ *
+ * @package @vibe-validate/extractors
+ */
+
+import { describe, it, expect } from 'vitest';
+
+import { expectExtractionResult, expectSamplesParseSuccessfully } from '../../test/helpers/extractor-test-helpers.js';
+
+import pythonStaticAnalysisPlugin from './index.js';
+
+const USERS_PY = 'src/app/users.py';
+
+function sampleInput(name: string): string {
+  return pythonStaticAnalysisPlugin.samples.find(sample => sample.name === name)?.input ?? '';
+}
+
+describe('python-static-analysis extractor plugin', () => {
+  describe('detect', () => {
+    it('should detect mypy output with its summary at 95% confidence', () => {
+      const result = pythonStaticAnalysisPlugin.detect(sampleInput('mypy'));
+      expect(result.confidence).toBe(95);
+      expect(result.patterns).toContain('mypy diagnostics');
+    });
+
+    it('should detect flake8 output without a summary at 90% confidence', () => {
+      const result = pythonStaticAnalysisPlugin.detect(sampleInput('flake8'));
+      expect(result.confidence).toBe(90);
+      expect(result.patterns).toEqual(['ruff/flake8 diagnostics']);
+    });
+
+    it('should detect pyright text and JSON output', () => {
+      expect(pythonStaticAnalysisPlugin.detect(sampleInput('pyright')).patterns).toContain('pyright diagnostics');
+      expect(pythonStaticAnalysisPlugin.detect(sampleInput('pyright-json')).confidence).toBe(95);
+    });
+
+    it('should NOT detect pytest or TypeScript output', () => {
+      const pytestOutput = `tests/test_calc.py:15: ZeroDivisionError
+FAILED tests/test_calc.py::TestCalc::test_divide - ZeroDivisionError: division by zero`;
+      const tscOutput = `src/index.ts(10,5): error TS2322: Type 'string' is not assignable to type 'number'.`;
+
+      expect(pythonStaticAnalysisPlugin.detect(pytestOutput).confidence).toBe(0);
+      expect(pythonStaticAnalysisPlugin.detect(tscOutput).confidence).toBe(0);
+    });
+  });
+
+  describe('extract', () => {
+    it('should extract mypy errors with their codes and skip notes', () => {
+      const result = pythonStaticAnalysisPlugin.extract(sampleInput('mypy'));
+      expectExtractionResult(result, {
+        errorCount: 2,
+        summaryPattern: '2 error(s), 0 warning(s) (mypy)',
+        guidanceContains: ['Type mismatches', 'Optional values'],
+      });
+
+      expect(result.errors[0]).toEqual({
+        file: USERS_PY,
+        line: 12,
+        message: 'Argument 1 to "get_user" has incompatible type "str"; expected "int"',
+        code: 'arg-type',
+        severity: 'error',
+      });
+    });
+
+    it('should read mypy columns when shown', () => {
+      const result = pythonStaticAnalysisPlugin.extract(`${USERS_PY}:12:17: error: Name "usr" is not defined  [name-defined]`);
+      expect(result.errors[0]).toMatchObject({ line: 12, column: 17, code: 'name-defined' });
+    });
+
+    it('should extract ruff violations and count the fixable ones', () => {
+      const result = pythonStaticAnalysisPlugin.extract(sampleInput('ruff'));
+      expectExtractionResult(result, {
+        errorCount: 3,
+        summaryPattern: '3 error(s), 0 warning(s) (ruff/flake8)',
+        guidanceContains: ['Pyflakes (F)', 'isort (I)', 'flake8-bugbear (B)', '2 issue(s) can be fixed automatically'],
+      });
+
+      expect(result.errors[0]).toEqual({
+        file: 'src/app/__init__.py',
+        line: 3,
+        column: 8,
+        message: '`os` imported but unused',
+        code: 'F401',
+        severity: 'error',
+      });
+    });
+
+    it('should extract the ruff 0.12+ full output format', () => {
+      const output = `F401 [*] \`os\` imported but unused
+ --> src/app/__init__.py:3:8
+  |
+3 | import os
+  |        ^^
+  |
+help: Remove unused import: \`os\`
+
+Found 1 error.`;
+
+      const result = pythonStaticAnalysisPlugin.extract(output);
+      expectExtractionResult(result, { errorCount: 1 });
+      expect(result.errors[0]).toMatchObject({ file: 'src/app/__init__.py', line: 3, column: 8, code: 'F401' });
+    });
+
+    it('should report pycodestyle W codes as warnings', () => {
+      const result = pythonStaticAnalysisPlugin.extract(sampleInput('flake8'));
+      expectExtractionResult(result, { errorCount: 3, summaryPattern: '2 error(s), 1 warning(s) (ruff/flake8)' });
+      expect(result.errors.map(error => error.severity)).toEqual(['error', 'error', 'warning']);
+      expect(result.errors[0].file).toBe(USERS_PY);
+    });
+
+    it('should extract pyright text output with rules from continuation lines', () => {
+      const result = pythonStaticAnalysisPlugin.extract(sampleInput('pyright'));
+      expectExtractionResult(result, {
+        errorCount: 3,
+        summaryPattern: '2 error(s), 1 warning(s) (pyright)',
+        guidanceContains: ['Missing imports or stubs'],
+      });
+
+      expect(result.errors[0]).toEqual({
+        file: `/home/dev/app/${USERS_PY}`,
+        line: 12,
+        column: 14,
+        message: 'Argument of type "Literal[\'1\']" cannot be assigned to parameter "user_id" of type "int" in function "get_user"',
+        code: 'reportArgumentType',
+        severity: 'error',
+      });
+      expect(result.errors[1]).toMatchObject({ message: '"email" is not a known attribute of "None"', code: 'reportOptionalMemberAccess' });
+      expect(result.errors[2]).toMatchObject({ severity: 'warning', code: 'reportMissingModuleSource' });
+    });
+
+    it('should convert pyright JSON positions to 1-based lines and columns', () => {
+      const result = pythonStaticAnalysisPlugin.extract(sampleInput('pyright-json'));
+      expectExtractionResult(result, { errorCount: 1 });
+      expect(result.errors[0]).toMatchObject({ line: 12, column: 14, code: 'reportArgumentType', severity: 'error' });
+    });
+
+    it('should return 0 errors for clean output', () => {
+      const result = pythonStaticAnalysisPlugin.extract('Success: no issues found in 14 source files');
+      expectExtractionResult(result, { errorCount: 0, summaryPattern: '0 error(s), 0 warning(s)' });
+    });
+  });
+
+  describe('metadata', () => {
+    it('should have correct plugin metadata', () => {
+      expect(pythonStaticAnalysisPlugin.metadata.name).toBe('python-static-analysis');
+      expect(pythonStaticAnalysisPlugin.priority).toBe(90);
+      expect(pythonStaticAnalysisPlugin.hints?.anyOf).toContain('.py:');
+      expect(pythonStaticAnalysisPlugin.metadata.tags).toContain('python');
+      expect(pythonStaticAnalysisPlugin.metadata.tags).toContain('mypy');
+    });
+  });
+
+  describe('samples', () => {
+    it('should have at least 2 sample test cases', () => {
+      expect(pythonStaticAnalysisPlugin.samples.length).toBeGreaterThanOrEqual(2);
+    });
+
+    it('should successfully parse all sample inputs', () => {
+      expectSamplesParseSuccessfully(pythonStaticAnalysisPlugin);
+    });
+  });
+});
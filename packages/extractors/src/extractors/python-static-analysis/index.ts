@@ -0,0 +1,394 @@
+/**
+ * Python Static Analysis Extractor Plugin
+ *
+ * Extracts type errors and lint violations from mypy, pyright (text and
+ * `--outputjson`), ruff and flake8.
+ *
+ * @package @vibe-validate/extractors
+ */
+
+import { MAX_ERRORS_IN_ARRAY } from '../../result-schema.js';
+import type {
+  ExtractorPlugin,
+  ErrorExtractorResult,
+  DetectionResult,
+  ExtractorSample,
+  FormattedError,
+} from '../../types.js';
+import { formatCleanOutput } from '../../utils/formatter-utils.js';
+
+/** mypy: `src/app.py:12: error: Incompatible types in assignment  [assignment]` (column with --show-column-numbers) */
+// eslint-disable-next-line security/detect-unsafe-regex -- Safe: anchored, the optional column group is bounded by literal colons
+const MYPY_RE = /^(\S+\.pyi?):(\d+)(?::(\d+))?: (error|warning|note): (.+)$/;
+
+/** mypy error code at the end of a message: `  [arg-type]` */
+const MYPY_CODE_RE = / {2}\[([\w-]+)\]$/;
+
+/** ruff (concise) and flake8: `src/app.py:3:1: F401 [*] \`os\` imported but unused` */
+const LINT_RE = /^(\S+\.pyi?):(\d+):(\d+): ([A-Z]+\d+) (.+)$/;
+
+/** ruff 0.12+ full output: `F401 [*] \`os\` imported but unused` header, location on the next line */
+const RUFF_HEADER_RE = /^([A-Z]+\d+) (.+)$/;
+
+/** ruff 0.12+ location: ` --> src/app.py:3:8` */
+const RUFF_LOCATION_RE = /^\s*--> (\S+\.pyi?):(\d+):(\d+)$/;
+
+/** pyright: `  /app/src/app.py:12:5 - error: Argument of type ... (reportArgumentType)` */
+const PYRIGHT_RE = /^\s+(\S+\.pyi?):(\d+):(\d+) - (error|warning|information): (.+)$/;
+
+/** pyright rule at the end of a message or continuation line: `(reportArgumentType)` */
+const PYRIGHT_RULE_RE = / ?\((report\w+)\)$/;
+
+/** Tool summaries: mypy `Found 2 errors in 1 file`, ruff `Found 3 errors.`, pyright `2 errors, 0 warnings, 0 informations` */
+const TOOL_SUMMARY_RES = [/^Found \d+ errors? in \d+ files?/m, /^Found \d+ errors?\./m, /^\d+ errors?, \d+ warnings?, \d+ informations?/m];
+
+/** Marker of pyright `--outputjson` output */
+const PYRIGHT_JSON_MARKER = '"generalDiagnostics"';
+
+/** Marker of a violation `ruff check --fix` can fix */
+const RUFF_FIXABLE_MARKER = '[*] ';
+
+type PythonTool = 'mypy' | 'pyright' | 'ruff/flake8';
+
+/**
+ * A diagnostic, with the tool that reported it
+ */
+interface PythonDiagnostic extends FormattedError {
+  tool: PythonTool;
+  fixable?: boolean;
+}
+
+/**
+ * pyright `--outputjson` diagnostic (0-based positions)
+ */
+interface PyrightJsonDiagnostic {
+  file: string;
+  severity: 'error' | 'warning' | 'information';
+  message: string;
+  rule?: string;
+  range?: { start: { line: number; character: number } };
+}
+
+/**
+ * Guidance by rule family, matched against error codes (mypy codes, pyright
+ * rules, ruff/flake8 codes)
+ */
+const RULE_FAMILY_GUIDANCE: Array<{ codes: RegExp; guidance: string }> = [
+  {
+    codes: /^(?:import-not-found|import-untyped|reportMissingImports|reportMissingModuleSource|reportMissingTypeStubs)$/,
+    guidance: 'Missing imports or stubs: install the package (or its types-* stubs) in the environment the checker uses, or ignore the module in its config',
+  },
+  {
+    codes: /^(?:arg-type|assignment|return-value|call-arg|call-overload|reportArgumentType|reportAssignmentType|reportReturnType|reportCallIssue)$/,
+    guidance: 'Type mismatches: fix the value or the annotation - reveal_type(x) shows the type the checker inferred',
+  },
+  {
+    codes: /^(?:union-attr|reportOptional\w+)$/,
+    guidance: 'Optional values: narrow them (if x is not None) before using them',
+  },
+  {
+    codes: /^(?:attr-defined|name-defined|reportAttributeAccessIssue|reportUndefinedVariable)$/,
+    guidance: 'Unknown names or attributes: check the spelling, the imports, and that the attribute exists on every type of a union',
+  },
+  {
+    codes: /^(?:no-untyped-def|no-untyped-call|var-annotated|reportUnknown\w+|reportMissingParameterType)$/,
+    guidance: 'Missing annotations: add type hints to the reported functions and variables (required by strict settings)',
+  },
+  {
+    codes: /^F\d/,
+    guidance: 'Pyflakes (F): unused imports and variables, undefined names - remove the unused code or define the name',
+  },
+  {
+    codes: /^[EW]\d/,
+    guidance: 'pycodestyle (E/W): style issues - ruff format (or black) fixes most of them',
+  },
+  {
+    codes: /^I\d/,
+    guidance: 'isort (I): import order - ruff check --fix sorts the imports',
+  },
+  {
+    codes: /^B\d/,
+    guidance: 'flake8-bugbear (B): likely bugs such as mutable default arguments - fix the code rather than ignoring the rule',
+  },
+  {
+    codes: /^S\d/,
+    guidance: 'flake8-bandit (S): security issues - review each one, and suppress with # noqa only with a reason',
+  },
+  {
+    codes: /^C90\d/,
+    guidance: 'mccabe (C901): function too complex - split it into smaller functions',
+  },
+  {
+    codes: /^UP\d/,
+    guidance: 'pyupgrade (UP): outdated syntax - ruff check --fix rewrites it',
+  },
+];
+
+/**
+ * ruff/flake8 severity: pycodestyle warnings (W) are warnings, every other rule an error
+ */
+function lintSeverity(code: string): 'error' | 'warning' {
+  return code.startsWith('W') ? 'warning' : 'error';
+}
+
+/**
+ * Build a ruff/flake8 diagnostic (flake8's `./` path prefix and ruff's fixable marker removed)
+ */
+function lintDiagnostic(file: string, line: string, column: string, code: string, message: string): PythonDiagnostic {
+  const fixable = message.startsWith(RUFF_FIXABLE_MARKER);
+  return {
+    file: file.replace(/^\.\//, ''),
+    line: Number.parseInt(line, 10),
+    column: Number.parseInt(column, 10),
+    message: fixable ? message.slice(RUFF_FIXABLE_MARKER.length) : message,
+    code,
+    severity: lintSeverity(code),
+    tool: 'ruff/flake8',
+    ...(fixable ? { fixable } : {}),
+  };
+}
+
+function parseMypyLine(line: string): PythonDiagnostic | undefined {
+  const match = MYPY_RE.exec(line);
+  if (!match || match[4] === 'note') return undefined; // Notes explain the error before them
+
+  const [, file, lineNumber, column, severity, text] = match;
+  const code = MYPY_CODE_RE.exec(text);
+  return {
+    file,
+    line: Number.parseInt(lineNumber, 10),
+    ...(column ? { column: Number.parseInt(column, 10) } : {}),
+    message: code ? text.slice(0, code.index).trim() : text.trim(),
+    ...(code ? { code: code[1] } : {}),
+    severity: severity === 'warning' ? 'warning' : 'error',
+    tool: 'mypy',
+  };
+}
+
+function parseLintLine(line: string, nextLine: string | undefined): PythonDiagnostic | undefined {
+  const match = LINT_RE.exec(line);
+  if (match) {
+    return lintDiagnostic(match[1], match[2], match[3], match[4], match[5].trim());
+  }
+
+  const header = RUFF_HEADER_RE.exec(line);
+  const location = header && nextLine !== undefined ? RUFF_LOCATION_RE.exec(nextLine) : null;
+  return header && location
+    ? lintDiagnostic(location[1], location[2], location[3], header[1], header[2].trim())
+    : undefined;
+}
+
+function parsePyrightLine(line: string): PythonDiagnostic | undefined {
+  const match = PYRIGHT_RE.exec(line);
+  if (!match || match[4] === 'information') return undefined;
+
+  const [, file, lineNumber, column, severity, text] = match;
+  const rule = PYRIGHT_RULE_RE.exec(text);
+  return {
+    file,
+    line: Number.parseInt(lineNumber, 10),
+    column: Number.parseInt(column, 10),
+    message: rule ? text.slice(0, rule.index).trim() : text.trim(),
+    ...(rule ? { code: rule[1] } : {}),
+    severity: severity === 'warning' ? 'warning' : 'error',
+    tool: 'pyright',
+  };
+}
+
+/**
+ * Parse text output (mypy, ruff, flake8, pyright)
+ *
+ * A pyright message can continue on more indented lines, the last of which
+ * ends with the rule.
+ */
+function parseTextOutput(lines: string[]): PythonDiagnostic[] {
+  const diagnostics: PythonDiagnostic[] = [];
+  let pyright: PythonDiagnostic | undefined;
+
+  for (const [index, line] of lines.entries()) {
+    const diagnostic = parseMypyLine(line) ?? parseLintLine(line, lines[index + 1]) ?? parsePyrightLine(line);
+    if (diagnostic) {
+      diagnostics.push(diagnostic);
+      pyright = diagnostic.tool === 'pyright' ? diagnostic : undefined;
+      continue;
+    }
+
+    const rule = pyright && /^\s{4,}\S/.test(line) ? PYRIGHT_RULE_RE.exec(line) : null;
+    if (pyright && rule) {
+      pyright.code ??= rule[1];
+    } else if (!/^\s{4,}\S/.test(line)) {
+      pyright = undefined;
+    }
+  }
+
+  return diagnostics;
+}
+
+/**
+ * Parse pyright `--outputjson` output (undefined when the output isn't pyright JSON)
+ */
+function parsePyrightJson(output: string): PythonDiagnostic[] | undefined {
+  const start = output.indexOf('{');
+  const end = output.lastIndexOf('}');
+  if (start === -1 || end < start) return undefined;
+
+  try {
+    const report = JSON.parse(output.slice(start, end + 1)) as { generalDiagnostics?: PyrightJsonDiagnostic[] };
+    return report.generalDiagnostics
+      ?.filter(d => d.severity !== 'information')
+      .map(d => ({
+        file: d.file,
+        ...(d.range ? { line: d.range.start.line + 1, column: d.range.start.character + 1 } : {}),
+        message: d.message.split('\n')[0].trim(),
+        ...(d.rule ? { code: d.rule } : {}),
+        severity: d.severity === 'warning' ? 'warning' : 'error',
+        tool: 'pyright' as const,
+      }));
+  } catch {
+    return undefined;
+  }
+}
+
+function detect(output: string): DetectionResult {
+  if (output.includes(PYRIGHT_JSON_MARKER)) {
+    return {
+      confidence: 95,
+      patterns: ['pyright JSON generalDiagnostics'],
+      reason: 'pyright JSON output detected (--outputjson)',
+    };
+  }
+
+  const tools = [...new Set(parseTextOutput(output.split('\n')).map(d => d.tool))];
+  if (tools.length === 0) {
+    return { confidence: 0, patterns: [], reason: '' };
+  }
+
+  const hasSummary = TOOL_SUMMARY_RES.some(re => re.test(output));
+  return {
+    confidence: hasSummary ? 95 : 90,
+    patterns: [...tools.map(tool => `${tool} diagnostics`), ...(hasSummary ? ['tool summary line'] : [])],
+    reason: `Python static analysis output detected (${tools.join(', ')})`,
+  };
+}
+
+function buildGuidance(diagnostics: PythonDiagnostic[]): string {
+  const codes = diagnostics.flatMap(d => (d.code ? [d.code] : []));
+  const guidance = RULE_FAMILY_GUIDANCE
+    .filter(family => codes.some(code => family.codes.test(code)))
+    .map(family => family.guidance);
+
+  const fixable = diagnostics.filter(d => d.fixable).length;
+  if (fixable > 0) {
+    guidance.push(`${fixable} issue(s) can be fixed automatically with: ruff check --fix`);
+  }
+  return guidance.join('\n');
+}
+
+function extract(output: string): ErrorExtractorResult {
+  const diagnostics = (output.includes(PYRIGHT_JSON_MARKER) ? parsePyrightJson(output) : undefined)
+    ?? parseTextOutput(output.split('\n'));
+
+  const errors: FormattedError[] = diagnostics.map(({ tool: _tool, fixable: _fixable, ...error }) => error);
+  const shownErrors = errors.slice(0, MAX_ERRORS_IN_ARRAY);
+  const warnings = errors.filter(error => error.severity === 'warning').length;
+  const tools = [...new Set(diagnostics.map(d => d.tool))];
+  const counts = `${errors.length - warnings} error(s), ${warnings} warning(s)`;
+
+  return {
+    summary: tools.length > 0 ? `${counts} (${tools.join(', ')})` : counts,
+    totalErrors: errors.length,
+    errors: shownErrors,
+    guidance: buildGuidance(diagnostics),
+    errorSummary: formatCleanOutput(shownErrors),
+    metadata: {
+      confidence: 95,
+      completeness: 100,
+      issues: [],
+    },
+  };
+}
+
+const samples: ExtractorSample[] = [
+  {
+    name: 'mypy',
+    description: 'mypy type errors with error codes and a note',
+    input: `src/app/users.py:12: error: Argument 1 to "get_user" has incompatible type "str"; expected "int"  [arg-type]
+src/app/users.py:20: error: Item "None" of "User | None" has no attribute "email"  [union-attr]
+src/app/users.py:20: note: See https://mypy.rtfd.io/en/stable/_refs.html#code-union-attr for more info
+Found 2 errors in 1 file (checked 14 source files)`,
+    expectedErrors: 2,
+    expectedPatterns: ['incompatible type "str"', 'has no attribute "email"'],
+  },
+  {
+    name: 'ruff',
+    description: 'ruff check (concise output) with fixable violations',
+    input: `src/app/__init__.py:3:8: F401 [*] \`os\` imported but unused
+src/app/users.py:1:1: I001 [*] Import block is un-sorted or un-formatted
+src/app/users.py:45:5: B006 Do not use mutable data structures for argument defaults
+Found 3 errors.
+[*] 2 fixable with the \`--fix\` option.`,
+    expectedErrors: 3,
+    expectedPatterns: ['imported but unused', 'mutable data structures'],
+  },
+  {
+    name: 'flake8',
+    description: 'flake8 with a pycodestyle warning',
+    input: `./src/app/users.py:3:1: F401 'os' imported but unused
+./src/app/users.py:88:80: E501 line too long (95 > 79 characters)
+./src/app/users.py:90:1: W391 blank line at end of file`,
+    expectedErrors: 3,
+    expectedPatterns: ['line too long', 'blank line at end of file'],
+  },
+  {
+    name: 'pyright',
+    description: 'pyright text output with a multi-line message',
+    input: `/home/dev/app/src/app/users.py
+  /home/dev/app/src/app/users.py:12:14 - error: Argument of type "Literal['1']" cannot be assigned to parameter "user_id" of type "int" in function "get_user"
+    "Literal['1']" is not assignable to "int" (reportArgumentType)
+  /home/dev/app/src/app/users.py:20:10 - error: "email" is not a known attribute of "None" (reportOptionalMemberAccess)
+  /home/dev/app/src/app/users.py:31:5 - warning: Import "yaml" could not be resolved from source (reportMissingModuleSource)
+2 errors, 1 warning, 0 informations`,
+    expectedErrors: 3,
+    expectedPatterns: ['cannot be assigned to parameter', 'is not a known attribute'],
+  },
+  {
+    name: 'pyright-json',
+    description: 'pyright --outputjson',
+    input: String.raw`{
+  "version": "1.1.385",
+  "time": "1760000000000",
+  "generalDiagnostics": [
+    {
+      "file": "/home/dev/app/src/app/users.py",
+      "severity": "error",
+      "message": "Argument of type \"Literal['1']\" cannot be assigned to parameter \"user_id\" of type \"int\"",
+      "range": { "start": { "line": 11, "character": 13 }, "end": { "line": 11, "character": 16 } },
+      "rule": "reportArgumentType"
+    }
+  ],
+  "summary": { "filesAnalyzed": 14, "errorCount": 1, "warningCount": 0, "informationCount": 0, "timeInSec": 0.8 }
+}`,
+    expectedErrors: 1,
+    expectedPatterns: ['cannot be assigned to parameter'],
+  },
+];
+
+const pythonStaticAnalysisPlugin: ExtractorPlugin = {
+  metadata: {
+    name: 'python-static-analysis',
+    version: '1.0.0',
+    author: 'vibe-validate',
+    description: 'Extracts type errors and lint violations from mypy, pyright, ruff and flake8',
+    repository: 'https://github.com/jdutton/vibe-validate',
+    tags: ['python', 'mypy', 'pyright', 'ruff', 'flake8', 'linting', 'type-checking'],
+  },
+  hints: {
+    anyOf: ['.py:', '.pyi:', PYRIGHT_JSON_MARKER],
+  },
+  priority: 90,
+  detect,
+  extract,
+  samples,
+};
+
+export default pythonStaticAnalysisPlugin;
@@ -69,13 +69,17 @@ export { default as mavenCheckstylePlugin } from './extractors/maven-checkstyle/
 export { default as mavenSurefirePlugin } from './extractors/maven-surefire/index.js';
 export { default as avaPlugin } from './extractors/ava/index.js';
 export { default as tapPlugin } from './extractors/tap/index.js';
+export { default as goPlugin } from './extractors/go/index.js';
+export { default as cargoPlugin } from './extractors/cargo/index.js';
+export { default as pythonStaticAnalysisPlugin } from './extractors/python-static-analysis/index.js';
+export { default as gradlePlugin } from './extractors/gradle/index.js';
 export { default as genericPlugin } from './extractors/generic/index.js';
 
 // Smart extractor (auto-detection - recommended)
-export { autoDetectAndExtract } from './smart-extractor.js';
+export { autoDetectAndExtract, extractWithExtractors } from './smart-extractor.js';
 
 // Extractor registry (for advanced use cases)
-export { EXTRACTOR_REGISTRY, registerPlugins as registerPluginsToRegistry } from './extractor-registry.js';
+export { EXTRACTOR_REGISTRY, getExtractorByName, registerPlugins as registerPluginsToRegistry } from './extractor-registry.js';
 export type { ExtractorDescriptor, ExtractorTrustLevel } from './extractor-registry.js';
 
 // Plugin loader (NEW - external plugin support)
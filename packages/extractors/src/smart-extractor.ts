@@ -6,9 +6,11 @@
  * @package @vibe-validate/extractors
  */
 
-import { EXTRACTOR_REGISTRY } from './extractor-registry.js';
+import { EXTRACTOR_REGISTRY, getExtractorByName, type ExtractorDescriptor } from './extractor-registry.js';
 import genericPlugin from './extractors/generic/index.js';
-import type { ErrorExtractorResult, ExtractorInput } from './types.js';
+import { MAX_ERRORS_IN_ARRAY } from './result-schema.js';
+import type { ErrorExtractorResult, ExtractorInput, FormattedError } from './types.js';
+import { formatCleanOutput } from './utils/formatter-utils.js';
 import { stripAnsiCodes } from './utils.js';
 
 /**
@@ -87,6 +89,104 @@ export function autoDetectAndExtract(input: string | ExtractorInput, exitCode?:
   return sequentialDetection(errorSummary);
 }
 
+/**
+ * Extract errors with the extractors set on a step, skipping detection
+ *
+ * With one extractor, its result is returned as is. With several (chained
+ * mode, e.g. `pnpm build && pnpm test`), every extractor runs over the whole
+ * output and the results are merged: the summary lists each extractor's own
+ * summary, and errors reported by more than one extractor (same file, line
+ * and message) are kept once.
+ *
+ * @param input - Raw command output (string) or separated streams (ExtractorInput)
+ * @param extractors - Extractor names, as registered (e.g. `['typescript', 'vitest']`)
+ * @returns Structured error information
+ * @throws Error if an extractor name is not registered
+ *
+ * @example
+ * ```typescript
+ * const result = extractWithExtractors(output, ['typescript', 'vitest']);
+ * // result.summary: "typescript: 2 type error(s), 0 warning(s); vitest: 1 test failure(s)"
+ * ```
+ */
+export function extractWithExtractors(input: string | ExtractorInput, extractors: string[]): ErrorExtractorResult {
+  const descriptors = [...new Set(extractors)].map(name => {
+    const descriptor = getExtractorByName(name);
+    if (!descriptor) {
+      throw new Error(`Unknown extractor "${name}"`);
+    }
+    return descriptor;
+  });
+
+  // Strip ANSI codes centrally, as autoDetectAndExtract does
+  const errorSummary = stripAnsiCodes(typeof input === 'string' ? input : input.combined);
+
+  if (descriptors.length === 1) {
+    const [descriptor] = descriptors;
+    return addDetectionMetadata(
+      descriptor.extract(errorSummary),
+      descriptor.name,
+      100,
+      ['set in step config'],
+      `Extractor "${descriptor.name}" set in step config`
+    );
+  }
+
+  return mergeExtractionResults(descriptors, errorSummary);
+}
+
+/**
+ * Run several extractors over the same output and merge their results
+ *
+ * @internal
+ */
+function mergeExtractionResults(descriptors: ExtractorDescriptor[], errorSummary: string): ErrorExtractorResult {
+  const sources = descriptors.map(descriptor => ({ name: descriptor.name, result: descriptor.extract(errorSummary) }));
+
+  // Deduplicate by file/line/message (e.g. a type error reported by both tsc and a test runner)
+  const seen = new Set<string>();
+  const errors: FormattedError[] = [];
+  let duplicates = 0;
+  for (const { result } of sources) {
+    for (const error of result.errors) {
+      const key = `${error.file ?? ''}:${String(error.line ?? '')}:${error.message}`;
+      if (seen.has(key)) {
+        duplicates++;
+        continue;
+      }
+      seen.add(key);
+      errors.push(error);
+    }
+  }
+
+  const totalErrors = sources.reduce((total, { result }) => total + result.totalErrors, 0) - duplicates;
+  const guidance = [...new Set(sources.map(({ result }) => result.guidance?.trim() ?? '').filter(Boolean))].join('\n');
+  const shownErrors = errors.slice(0, MAX_ERRORS_IN_ARRAY);
+  const summaries = shownErrors.length > 0
+    ? formatCleanOutput(shownErrors)
+    : sources.map(({ result }) => result.errorSummary?.trim() ?? '').filter(Boolean).join('\n');
+
+  const names = sources.map(({ name }) => name);
+  return {
+    summary: sources.map(({ name, result }) => `${name}: ${result.summary}`).join('; '),
+    totalErrors,
+    errors: shownErrors,
+    ...(guidance ? { guidance } : {}),
+    ...(summaries ? { errorSummary: summaries } : {}),
+    metadata: {
+      confidence: Math.min(...sources.map(({ result }) => result.metadata?.confidence ?? 100)),
+      completeness: Math.min(...sources.map(({ result }) => result.metadata?.completeness ?? 100)),
+      issues: sources.flatMap(({ name, result }) => (result.metadata?.issues ?? []).map(issue => `${name}: ${issue}`)),
+      detection: {
+        extractor: names.join('+'),
+        confidence: 100,
+        patterns: ['set in step config'],
+        reason: `Extractors ${names.join(', ')} set in step config (results merged)`,
+      },
+    },
+  };
+}
+
 /**
  * Sequential detection (legacy behavior)
  * Returns first extractor that matches with confidence >= 70
@@ -33,6 +33,10 @@ describe('Extractor Registry - Trust Level Integration', () => {
         'jasmine',
         'playwright',
         'pytest',
+        'go',
+        'cargo',
+        'python-static-analysis',
+        'gradle',
         'junit',
         'maven-compiler',
         'maven-checkstyle',
@@ -374,15 +378,15 @@ src/example.ts(15,10): error TS2304: Cannot find name 'foo'.
   });
 
   describe('Complete coverage of trust field', () => {
-    it('should have exactly 16 extractors with trust levels', () => {
+    it('should have exactly 20 extractors with trust levels', () => {
       // Count unique extractor names
       const uniqueNames = new Set(EXTRACTOR_REGISTRY.map(e => e.name));
 
-      // Should have 15 unique extractors (vitest appears twice with different priorities)
-      expect(uniqueNames.size).toBe(15);
+      // Should have 19 unique extractors (vitest appears twice with different priorities)
+      expect(uniqueNames.size).toBe(19);
 
-      // All 16+ registry entries should have trust field
-      expect(EXTRACTOR_REGISTRY.length).toBeGreaterThanOrEqual(16);
+      // All 20+ registry entries should have trust field
+      expect(EXTRACTOR_REGISTRY.length).toBeGreaterThanOrEqual(20);
       expect(EXTRACTOR_REGISTRY.every(e => e.trust === 'full')).toBe(true);
     });
 
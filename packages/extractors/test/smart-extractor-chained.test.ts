@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+
+import { registerPlugins } from '../src/extractor-registry.js';
+import { autoDetectAndExtract, extractWithExtractors } from '../src/smart-extractor.js';
+import type { ErrorExtractorResult, FormattedError } from '../src/types.js';
+
+const TSC_OUTPUT = `src/index.ts(10,5): error TS2322: Type 'string' is not assignable to type 'number'.`;
+
+const VITEST_OUTPUT = ` RUN  v3.2.4 /repo
+
+ ❯ test/math.test.ts (1 test | 1 failed) 5ms
+   × adds numbers 3ms
+
+⎯⎯⎯⎯⎯⎯⎯ Failed Tests 1 ⎯⎯⎯⎯⎯⎯⎯
+
+ FAIL  test/math.test.ts > adds numbers
+AssertionError: expected 3 to be 4
+ ❯ test/math.test.ts:5:17
+
+ Test Files  1 failed (1)
+      Tests  1 failed (1)`;
+
+// Output of `pnpm build && pnpm test` when both tools report errors
+const BUILD_AND_TEST_OUTPUT = `${TSC_OUTPUT}\n${VITEST_OUTPUT}`;
+
+/**
+ * Extractor plugin that always reports the given errors
+ */
+function fakePlugin(name: string, errors: FormattedError[]): Parameters<typeof registerPlugins>[0][0] {
+  return {
+    metadata: { name },
+    priority: 1,
+    detect: () => ({ confidence: 0, patterns: [], reason: '' }),
+    extract: (): ErrorExtractorResult => ({ summary: `${errors.length} error(s)`, totalErrors: errors.length, errors }),
+  };
+}
+
+describe('extractWithExtractors', () => {
+  it('should use a single configured extractor without detection', () => {
+    // ESLint would be detected first from the "✖ N problems" summary
+    const output = `${TSC_OUTPUT}\n✖ 1 problem (1 error, 0 warnings)`;
+
+    const result = extractWithExtractors(output, ['typescript']);
+
+    expect(result.summary).toBe('1 type error(s), 0 warning(s)');
+    expect(result.errors.map(error => error.code)).toEqual(['TS2322']);
+    expect(result.metadata?.detection).toMatchObject({ extractor: 'typescript', confidence: 100 });
+  });
+
+  it('should keep the errors of every chained extractor', () => {
+    // Auto-detection picks one tool and drops the other's errors
+    expect(autoDetectAndExtract(BUILD_AND_TEST_OUTPUT).errors.map(error => error.file)).not.toContain('src/index.ts');
+
+    const result = extractWithExtractors(BUILD_AND_TEST_OUTPUT, ['typescript', 'vitest']);
+
+    expect(result.totalErrors).toBe(2);
+    expect(result.errors.map(error => error.file)).toEqual(['src/index.ts', 'test/math.test.ts']);
+    expect(result.metadata?.detection?.extractor).toBe('typescript+vitest');
+  });
+
+  it('should summarize each source', () => {
+    const result = extractWithExtractors(BUILD_AND_TEST_OUTPUT, ['typescript', 'vitest']);
+
+    expect(result.summary).toBe('typescript: 1 type error(s), 0 warning(s); vitest: 1 test failure(s)');
+    expect(result.errorSummary).toContain("src/index.ts:10: Type 'string' is not assignable to type 'number'.");
+    expect(result.errorSummary).toContain('test/math.test.ts:5: AssertionError: expected 3 to be 4');
+  });
+
+  it('should keep an error reported by more than one extractor once', () => {
+    const shared = { file: 'src/a.ts', line: 3, message: 'Broken' };
+    registerPlugins([
+      fakePlugin('fake-build', [shared, { file: 'src/b.ts', line: 1, message: 'Also broken' }]),
+      fakePlugin('fake-lint', [{ ...shared, code: 'no-broken' }]),
+    ]);
+
+    const result = extractWithExtractors('output', ['fake-build', 'fake-lint']);
+
+    expect(result.errors).toEqual([shared, { file: 'src/b.ts', line: 1, message: 'Also broken' }]);
+    expect(result.totalErrors).toBe(2);
+  });
+
+  it('should throw on an unknown extractor', () => {
+    expect(() => extractWithExtractors(TSC_OUTPUT, ['typescript', 'tsc'])).toThrow('Unknown extractor "tsc"');
+  });
+});
@@ -39,19 +39,22 @@ function normalizeWhitespace(str: string): string {
 /**
  * Encode a run command cache key
  *
- * Cache keys uniquely identify command+workdir combinations for caching purposes.
+ * Cache keys uniquely identify command+workdir (+env) combinations for caching purposes.
  *
  * Normalization rules:
  * - Always trim leading/trailing whitespace from command and workdir
  * - For simple commands (no quotes/escapes/shell metacharacters): collapse multiple spaces
  * - For complex commands (has quotes, escapes, etc.): preserve internal spacing
+ * - Environment variables are sorted by name, so their order never matters
  *
  * Format:
  * - SHA256 hash of `command__workdir` (first 16 chars for brevity)
+ * - With env: SHA256 hash of `command__workdir__NAME=value\n...` (sorted by name)
  * - Examples: `85ac6127576393ac` (for command+workdir combination)
  *
  * @param command - The command to run (e.g., "npm test")
  * @param workdir - Working directory relative to git root ("" for root, "packages/cli" for subdirectory)
+ * @param env - Optional environment variables the command runs with (omitted or empty keeps the key unchanged)
  * @returns SHA256 hash (first 16 chars) suitable for use in git ref paths
  *
  * @example
@@ -71,9 +74,13 @@ function normalizeWhitespace(str: string): string {
  * // Complex command (preserve internal spacing)
  * encodeRunCacheKey('echo "hello  world"', '')
  * // → SHA256('echo "hello  world"__')[:16]
+ *
+ * // With environment variables
+ * encodeRunCacheKey('npm test', '', { NODE_ENV: 'test' })
+ * // → SHA256('npm test____NODE_ENV=test')[:16]
  * ```
  */
-export function encodeRunCacheKey(command: string, workdir: string): string {
+export function encodeRunCacheKey(command: string, workdir: string, env?: Record<string, string>): string {
   // Trim leading/trailing whitespace
   const trimmedCommand = command.trim();
   const trimmedWorkdir = workdir.trim();
@@ -88,8 +95,11 @@ export function encodeRunCacheKey(command: string, workdir: string): string {
     ? trimmedCommand
     : normalizeWhitespace(trimmedCommand);
 
-  // Construct cache key input (command__workdir)
-  const cacheKeyInput = `${normalizedCommand}__${trimmedWorkdir}`;
+  // Construct cache key input (command__workdir, then __env sorted by name)
+  const envEntries = Object.entries(env ?? {}).sort(([a], [b]) => a.localeCompare(b));
+  const envLines = envEntries.map(([name, value]) => `${name}=${value}`).join('\n');
+  const envSuffix = envLines ? `__${envLines}` : '';
+  const cacheKeyInput = `${normalizedCommand}__${trimmedWorkdir}${envSuffix}`;
 
   // Hash for safe use in git ref paths (URL encoding produces % which git rejects)
   // Use first 16 chars for brevity while maintaining uniqueness
@@ -0,0 +1,87 @@
+/**
+ * Changed paths — whether the working tree touches given globs, compared to
+ * where the branch left the main branch.
+ *
+ * Used by conditional validation steps (`when.changed`): a step for
+ * `backend/**` only runs when something under `backend/` differs from the
+ * merge-base with the main branch.
+ *
+ * The comparison is between the merge-base commit and a tree hash from
+ * {@link "./tree-hash".getGitTreeHash}, so unstaged edits and untracked files
+ * count as changes, and changes made on the main branch since the merge-base
+ * do not. Patterns use the same syntax as step `inputs` (see
+ * {@link "./inputs-hash"}): root-relative git glob pathspecs, `!` excludes.
+ *
+ * @packageDocumentation
+ */
+
+import { executeGitCommand, validateGitRef } from './git-executor.js';
+import { splitInputPatterns } from './inputs-hash.js';
+import type { TreeHash } from './types.js';
+
+/**
+ * Where the current branch left the main branch
+ */
+export interface ChangeBase {
+  /** The main branch ref that resolved (e.g. "origin/main") */
+  ref: string;
+  /** Merge-base of that ref and HEAD */
+  commit: string;
+}
+
+/**
+ * Find the commit the current branch forked from
+ *
+ * Tries each ref in order (e.g. `origin/main`, then `main`) and returns the
+ * merge-base of the first one that exists.
+ *
+ * @param refs - Candidate main branch refs, most preferred first
+ * @returns The ref used and the merge-base commit, or null when none of the
+ *   refs resolves (unborn HEAD, missing branch, shallow clone without the history)
+ *
+ * @example
+ * ```typescript
+ * const base = findChangeBase(['origin/main', 'main']);
+ * // { ref: 'origin/main', commit: '3f9a1c2...' }
+ * ```
+ */
+export function findChangeBase(refs: string[]): ChangeBase | null {
+  for (const ref of refs) {
+    validateGitRef(ref);
+    const result = executeGitCommand(['merge-base', ref, 'HEAD'], { ignoreErrors: true, suppressStderr: true });
+    if (result.success && result.stdout) {
+      return { ref, commit: result.stdout };
+    }
+  }
+  return null;
+}
+
+/**
+ * Check whether any path matching the patterns differs between two trees
+ *
+ * @param base - Commit (or tree) to compare against, usually from findChangeBase
+ * @param tree - Tree hash of the working tree
+ * @param patterns - Globs; a leading `!` excludes
+ * @returns true if at least one matching path was added, removed or modified
+ * @throws Error if git cannot compare the two (e.g. an unknown object)
+ */
+export function hasChangedPaths(base: string, tree: TreeHash, patterns: string[]): boolean {
+  const { include, exclude } = splitInputPatterns(patterns);
+  const pathspecs = [
+    ...include.map(pattern => `:(glob)${pattern}`),
+    ...exclude.map(pattern => `:(exclude,glob)${pattern}`),
+  ];
+
+  // --quiet exits 1 when there are differences, 0 when there are none
+  const result = executeGitCommand(['diff', '--quiet', '--no-ext-diff', base, tree, '--', ...pathspecs], {
+    ignoreErrors: true,
+  });
+  if (result.success) {
+    return false;
+  }
+  if (result.exitCode === 1 && !result.error && !result.stderr) {
+    return true;
+  }
+  const detail = result.stderr || `exit code ${result.exitCode}`;
+  throw new Error(`git diff failed: ${detail}`);
+}
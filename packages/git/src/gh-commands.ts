@@ -56,6 +56,10 @@ export interface GitHubRun {
   createdAt: string;
   updatedAt: string;
   url: string;
+  /** Only when requested in `fields` */
+  headBranch?: string;
+  /** Only when requested in `fields` */
+  headSha?: string;
 }
 
 /**
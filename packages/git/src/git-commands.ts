@@ -8,7 +8,7 @@
 import { existsSync } from 'node:fs';
 import { join } from 'node:path';
 
-import { execGitCommand, tryGitCommand } from './git-executor.js';
+import { executeGitCommand, execGitCommand, tryGitCommand } from './git-executor.js';
 
 /**
  * Check if the current directory is inside a git repository
@@ -141,6 +141,20 @@ export function getDiffStats(baseRef: string, headRef = 'HEAD'): string {
   return execGitCommand(['diff', '--numstat', `${baseRef}...${headRef}`]);
 }
 
+/**
+ * Get diff statistics between two commits or trees (two-dot, not from the merge base)
+ *
+ * The refs may come from history notes fetched from a remote, so they are
+ * passed after `--end-of-options` and can't be read as options.
+ *
+ * @param fromRef - Commit or tree the diff starts from
+ * @param toRef - Commit or tree the diff ends at
+ * @returns Diff output from git diff --numstat
+ */
+export function getCommitDiffStats(fromRef: string, toRef: string): string {
+  return execGitCommand(['diff', '--numstat', '--end-of-options', fromRef, toRef]);
+}
+
 /**
  * Get commit count between two refs
  * @param baseRef - Base reference (e.g., 'origin/main')
@@ -151,6 +165,29 @@ export function getCommitCount(baseRef: string, headRef = 'HEAD'): string {
   return execGitCommand(['rev-list', '--count', `${baseRef}...${headRef}`]);
 }
 
+/**
+ * Check if a commit is in the history of a ref
+ * @param commit - Commit SHA
+ * @param ref - Branch or other ref (e.g., 'main', 'origin/main')
+ * @returns true if reachable, false if not or if either is unknown
+ */
+export function isCommitReachableFrom(commit: string, ref: string): boolean {
+  return tryGitCommand(['merge-base', '--is-ancestor', commit, ref], { suppressStderr: true });
+}
+
+/**
+ * Check if any local or remote-tracking branch contains a commit
+ * @param commit - Commit SHA
+ * @returns true if some branch contains it, false if none does or the commit is unknown
+ */
+export function isCommitOnAnyBranch(commit: string): boolean {
+  const result = executeGitCommand(
+    ['for-each-ref', '--count=1', '--format=%(refname)', `--contains=${commit}`, 'refs/heads', 'refs/remotes'],
+    { ignoreErrors: true, suppressStderr: true }
+  );
+  return result.success && result.stdout !== '';
+}
+
 /**
  * List notes references matching a pattern
  * @param pattern - Pattern to match (e.g., 'refs/notes/vibe-validate/run/*')
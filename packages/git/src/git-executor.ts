@@ -36,9 +36,9 @@ export interface GitExecutionOptions {
   encoding?: BufferEncoding;
 
   /**
-   * Standard input to pass to command
+   * Standard input to pass to command (a Buffer for binary content)
    */
-  stdin?: string;
+  stdin?: string | Buffer;
 
   /**
    * Whether to ignore errors (return empty string instead of throwing)
@@ -33,11 +33,45 @@ export type NoteMergeStrategy = (existing: string, incoming: string) => string;
  */
 export const mergeReplace: NoteMergeStrategy = (_existing, incoming) => incoming;
 
+/**
+ * Order runs by timestamp (ISO 8601 sorts lexically), keeping the first of
+ * each run ID
+ *
+ * @internal
+ */
+function combineRuns(existingRuns: unknown[], newRuns: unknown[]): unknown[] {
+  const seen = new Set<unknown>();
+  const timestampOf = (run: unknown): string => {
+    const timestamp = (run as { timestamp?: unknown } | null)?.timestamp;
+    return typeof timestamp === 'string' ? timestamp : '';
+  };
+  return [...existingRuns, ...newRuns]
+    .filter(run => {
+      const id = (run as { id?: unknown } | null)?.id;
+      if (id === undefined) {
+        return true;
+      }
+      if (seen.has(id)) {
+        return false;
+      }
+      seen.add(id);
+      return true;
+    })
+    .sort((a, b) => {
+      const [first, second] = [timestampOf(a), timestampOf(b)];
+      if (first === second) return 0;
+      return first < second ? -1 : 1;
+    });
+}
+
 /**
  * Merge strategy: append runs arrays from both notes, new fields win.
  *
  * Used by validation history where multiple runs accumulate per tree hash.
- * Parses YAML with `uniqueKeys: false` to tolerate corrupted notes with duplicate keys.
+ * Runs already in the existing note (same `id`) are not added again, so
+ * merging notes synced from a remote is idempotent, and runs are kept in
+ * timestamp order. Parses YAML with `uniqueKeys: false` to tolerate corrupted
+ * notes with duplicate keys.
  *
  * @example
  * ```typescript
@@ -60,7 +94,7 @@ export const mergeAppendRuns: NoteMergeStrategy = (existing, incoming) => {
 
     // Only include runs when at least one side has them (avoids spurious runs: [] on cache notes)
     if (existingRuns.length > 0 || newRuns.length > 0) {
-      merged.runs = [...existingRuns, ...newRuns];
+      merged.runs = combineRuns(existingRuns, newRuns);
     }
 
     return stringifyYaml(merged);
@@ -217,6 +251,33 @@ export function removeNote(notesRef: NotesRef, object: TreeHash): boolean {
   });
 }
 
+/**
+ * Remove the notes of many objects at once (single git spawn, one notes commit)
+ *
+ * @param notesRef - The notes reference
+ * @param objects - Objects whose notes to remove (those without a note are skipped)
+ * @returns true if the notes were removed, false if git failed
+ *
+ * @example
+ * ```typescript
+ * removeNotes('vibe-validate/blobs', unreferencedBlobs);
+ * ```
+ */
+export function removeNotes(notesRef: NotesRef, objects: TreeHash[]): boolean {
+  validateNotesRef(notesRef);
+  for (const object of objects) {
+    validateTreeHash(object);
+  }
+  if (objects.length === 0) {
+    return true;
+  }
+
+  return tryGitCommand(['notes', `--ref=${notesRef}`, 'remove', '--ignore-missing', '--stdin'], {
+    stdin: `${objects.join('\n')}\n`,
+    suppressStderr: true,
+  });
+}
+
 /**
  * List all note object hashes in a notes reference (O(1) - single git spawn)
  *
@@ -428,3 +489,61 @@ export function getNotesRefSha(notesRef: string): string | null {
 
   return result.success ? result.stdout : null;
 }
+
+/**
+ * Store content as a blob kept reachable by a notes ref
+ *
+ * The blob is attached to itself as a note in `notesRef`, so it survives
+ * `git gc` and is pushed and pulled with the other notes refs. Identical
+ * content is the same blob, so it is only stored once.
+ *
+ * @param notesRef - The notes reference holding the blobs
+ * @param content - Content to store (may be binary)
+ * @returns The blob SHA, or null if it could not be stored
+ *
+ * @example
+ * ```typescript
+ * const sha = writeNoteBlob('vibe-validate/blobs', gzipSync(payload));
+ * const stored = sha ? readNoteBlob(sha) : null;
+ * ```
+ */
+export function writeNoteBlob(notesRef: NotesRef, content: Buffer): string | null {
+  validateNotesRef(notesRef);
+
+  const hashResult = executeGitCommand(['hash-object', '-w', '--stdin'], {
+    stdin: content,
+    ignoreErrors: true,
+    suppressStderr: true,
+  });
+  if (!hashResult.success) {
+    return null;
+  }
+
+  const blob = hashResult.stdout;
+  const attached = tryGitCommand(['notes', `--ref=${notesRef}`, 'add', '-C', blob, blob], {
+    suppressStderr: true,
+  });
+
+  // Adding fails when the blob is already attached (stored before)
+  return attached || hasNote(notesRef, blob as TreeHash) ? blob : null;
+}
+
+/**
+ * Read a blob's content as bytes
+ *
+ * @param blob - Blob SHA (e.g., from writeNoteBlob())
+ * @returns The content, or null if the blob does not exist
+ */
+export function readNoteBlob(blob: string): Buffer | null {
+  validateTreeHash(blob);
+
+  const result = executeGitCommand(['cat-file', 'blob', blob], {
+    encoding: 'latin1',
+    trimOutput: false,
+    ignoreErrors: true,
+    suppressStderr: true,
+  });
+
+  // latin1 maps each byte to one character, so this restores the exact bytes
+  return result.success ? Buffer.from(result.stdout, 'latin1') : null;
+}
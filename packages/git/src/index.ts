@@ -27,6 +27,18 @@ export {
   type GitTreeSnapshotOptions
 } from './tree-snapshot.js';
 
+// Tree hashes restricted to a step's input globs
+export {
+  getInputTreeHashes
+} from './inputs-hash.js';
+
+// Changed paths since the main branch (conditional steps)
+export {
+  findChangeBase,
+  hasChangedPaths,
+  type ChangeBase
+} from './changed-paths.js';
+
 // Git environment hazard handling (recursive-git / pre-commit-hook safety)
 export {
   stripGitEnv
@@ -74,7 +86,10 @@ export {
   isMergeInProgress,
   isRebaseInProgress,
   getDiffStats,
+  getCommitDiffStats,
   getCommitCount,
+  isCommitReachableFrom,
+  isCommitOnAnyBranch,
   getNotesRefs
 } from './git-commands.js';
 
@@ -95,16 +110,34 @@ export {
   addNote,
   readNote,
   removeNote,
+  removeNotes,
   listNoteObjects,
   hasNote,
   listNotesRefs,
   removeNotesRefs,
   getNotesRefSha,
+  writeNoteBlob,
+  readNoteBlob,
   mergeReplace,
   mergeAppendRuns,
 } from './git-notes.js';
 export type { NoteMergeStrategy } from './git-notes.js';
 
+// Validation history sync (push/pull notes refs to a remote)
+export {
+  pullNotes,
+  pushNotes,
+  type NotesSyncResult
+} from './notes-sync.js';
+
+// Payload signing with git's GPG/SSH signing (signed validation runs)
+export {
+  signWithGit,
+  verifyGitSignature,
+  type GitSignature,
+  type GitSignatureVerification
+} from './signing.js';
+
 // Git staging detection (prevent partially staged files in pre-commit)
 export {
   getStagedFiles,
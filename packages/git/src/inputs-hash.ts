@@ -0,0 +1,107 @@
+/**
+ * Input tree hashes — a {@link "./tree-hash".getGitTreeHash} restricted to the
+ * files a single validation step reads.
+ *
+ * A step declares its inputs as globs (`['packages/cli/**', '!**\/*.md']`). The
+ * hash of those inputs is a real git tree object, written from the same
+ * throwaway index as the whole-tree hash, with every path outside the globs
+ * removed first. It therefore inherits the whole-tree hash's properties:
+ * unstaged edits and untracked files are included, gitignored files are not,
+ * the real index is never written, and there is no timestamp in the key.
+ *
+ * Because the result is a git object, per-step results can be attached to it
+ * with git notes exactly as validation history is attached to the tree hash.
+ *
+ * ## Pattern syntax
+ *
+ * Patterns are git `glob` pathspecs relative to the repository root — NOT
+ * `.gitignore` patterns. `*` does not cross a `/` (`*.md` is top-level only;
+ * use `**\/*.md`), and `dir/**` matches everything below `dir`. A leading `!`
+ * excludes. A pattern list with only exclusions starts from the whole tree.
+ *
+ * ## ⚠️ Submodule content is not covered
+ *
+ * A submodule is one gitlink entry naming a commit, exactly as in
+ * {@link "./tree-snapshot".GitTreeSnapshot.hash}: uncommitted edits inside a
+ * submodule do not change an input hash that matches it.
+ *
+ * @packageDocumentation
+ */
+
+import { withStagedTempIndex } from './temp-index.js';
+import type { TreeHash } from './types.js';
+
+/**
+ * `git rm --cached` against the throwaway index: no working-tree writes, `-f`
+ * because the temp index legitimately differs from HEAD, and `--ignore-unmatch`
+ * because a pattern matching nothing is an ordinary answer, not a failure.
+ */
+const RM_CACHED = ['rm', '--cached', '-r', '-q', '-f', '--ignore-unmatch', '--'];
+
+/**
+ * Split input patterns into included and excluded globs.
+ *
+ * @param patterns - Input globs; a leading `!` excludes
+ * @returns The two lists with the `!` removed from exclusions
+ *
+ * @internal Exported for testing
+ */
+export function splitInputPatterns(patterns: string[]): { include: string[]; exclude: string[] } {
+  const include: string[] = [];
+  const exclude: string[] = [];
+  for (const pattern of patterns) {
+    if (pattern.startsWith('!')) {
+      exclude.push(pattern.slice(1));
+    } else {
+      include.push(pattern);
+    }
+  }
+  return { include, exclude };
+}
+
+/**
+ * Compute the input tree hash for each set of input patterns.
+ *
+ * The working tree is staged ONCE; each set is then written from a copy of that
+ * staged tree with the non-matching paths removed from the index. Removing from
+ * the index costs no file reads, so N steps cost one `git add --all` plus a few
+ * index-only commands each.
+ *
+ * AMBIENT BY CONTRACT, like {@link "./tree-hash".getGitTreeHash}: it means "the
+ * repository I am in", and the two agree on which files exist.
+ *
+ * @param inputSets - One pattern list per step
+ * @returns One tree hash per pattern list, in the same order
+ * @throws Error if not in a git repository or a git command fails
+ *
+ * @example
+ * ```typescript
+ * const [cliInputs] = getInputTreeHashes([['packages/cli/**', '!**\/*.md']]);
+ * // Same hash after editing packages/cli/README.md; new hash after editing a .ts file
+ * ```
+ */
+export function getInputTreeHashes(inputSets: string[][]): TreeHash[] {
+  if (inputSets.length === 0) {
+    return [];
+  }
+
+  return withStagedTempIndex({}, ({ runGit }) => {
+    const fullTree = runGit(['write-tree']).stdout.trim();
+
+    return inputSets.map(patterns => {
+      // Start every set from the full staged tree, not from the previous set
+      runGit(['read-tree', fullTree]);
+
+      const { include, exclude } = splitInputPatterns(patterns);
+      if (include.length > 0) {
+        // Remove everything that matches no include pattern
+        runGit([...RM_CACHED, '.', ...include.map(pattern => `:(exclude,glob)${pattern}`)]);
+      }
+      if (exclude.length > 0) {
+        runGit([...RM_CACHED, ...exclude.map(pattern => `:(glob)${pattern}`)]);
+      }
+
+      return runGit(['write-tree']).stdout.trim() as TreeHash;
+    });
+  });
+}
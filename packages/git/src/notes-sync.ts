@@ -0,0 +1,355 @@
+/**
+ * Validation History Sync
+ *
+ * Shares the notes under `refs/notes/vibe-validate/` with a remote, so CI can
+ * reuse a teammate's passing validation of the same tree hash.
+ *
+ * ## Pull
+ *
+ * The remote's notes are fetched into `refs/notes/vibe-validate-remote/<remote>/`
+ * and then integrated ref by ref:
+ *
+ * - a ref that only exists remotely is created locally
+ * - a ref that is behind the remote is fast-forwarded
+ * - refs that have diverged are merged note by note with {@link mergeAppendRuns},
+ *   then joined with a merge commit whose parents are both sides, so the next
+ *   push fast-forwards the remote
+ *
+ * The merge is three-way against the notes commit both sides last shared: a
+ * run or note one side removed since then (e.g. pruned by history retention)
+ * stays removed, instead of being copied back from the side that still has it.
+ *
+ * ## Push
+ *
+ * Pulls first (a push of diverged notes would be rejected), then pushes every
+ * vibe-validate notes ref. If someone else pushed in between, it pulls and
+ * pushes once more.
+ *
+ * ## Failure is reported, never thrown
+ *
+ * As with {@link "./fetch-refs".fetchRemoteRefs}, being offline is a normal
+ * state: callers get `ok: false` with git's message and decide how loud to be.
+ */
+
+import { parse as parseYaml, stringify as stringifyYaml } from 'yaml';
+
+import { executeGitCommand, tryGitCommand } from './git-executor.js';
+import { addNote, listNotesRefs, mergeAppendRuns, readNoteBlob, removeNote } from './git-notes.js';
+import type { NotesRef, TreeHash } from './types.js';
+
+/** Sync contacts the network; allow more headroom than a local git call. */
+const SYNC_TIMEOUT = 60000;
+
+/** Namespace of the notes refs that are synced */
+const NOTES_NAMESPACE = 'refs/notes/vibe-validate';
+
+/** Namespace the remote's notes are fetched into (one directory per remote) */
+const REMOTE_NOTES_NAMESPACE = 'refs/notes/vibe-validate-remote';
+
+/** Outcome of a pull or push */
+export interface NotesSyncResult {
+  ok: boolean;
+  /** Populated when `ok` is false — git's stderr, for reporting. */
+  error?: string;
+  /** Local notes refs that were created, fast-forwarded or merged */
+  refsUpdated: string[];
+  /** Notes written or removed by merging local and remote runs */
+  notesMerged: number;
+}
+
+/**
+ * Run a git command that may contact the network, never throwing
+ *
+ * @internal
+ */
+function runNetworkCommand(args: string[]): { success: boolean; error: string } {
+  try {
+    const result = executeGitCommand(args, { timeout: SYNC_TIMEOUT, ignoreErrors: true });
+    return { success: result.success, error: (result.stderr || result.stdout).trim() || `git ${args[0]} failed` };
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Resolve a ref to its commit SHA
+ *
+ * @internal
+ */
+function resolveRef(ref: string): string | null {
+  const result = executeGitCommand(['rev-parse', '--verify', '--quiet', ref], {
+    ignoreErrors: true,
+    suppressStderr: true,
+  });
+  return result.success && result.stdout ? result.stdout : null;
+}
+
+/**
+ * Whether a commit is an ancestor of (or the same as) another
+ *
+ * @internal
+ */
+function isAncestor(ancestor: string, descendant: string): boolean {
+  return tryGitCommand(['merge-base', '--is-ancestor', ancestor, descendant], { suppressStderr: true });
+}
+
+/**
+ * List the notes of a notes commit as object → note blob SHA
+ *
+ * Reads the notes tree, so it works for commits no ref points at (a merge
+ * base) too. Fan-out directories are joined back into the object name.
+ *
+ * @internal
+ */
+function listNoteBlobs(commitish: string): Map<string, string> {
+  const result = executeGitCommand(['ls-tree', '-r', commitish], {
+    ignoreErrors: true,
+    suppressStderr: true,
+    maxBuffer: 256 * 1024 * 1024,
+  });
+  const blobs = new Map<string, string>();
+  for (const line of result.success ? result.stdout.split('\n') : []) {
+    const match = /^\d+ blob ([0-9a-f]+)\t(.+)$/.exec(line);
+    if (match) {
+      blobs.set(match[2].replaceAll('/', ''), match[1]);
+    }
+  }
+  return blobs;
+}
+
+/**
+ * Read a note blob as text (empty when there is no note)
+ *
+ * @internal
+ */
+function readNoteText(blob: string | undefined): string {
+  return blob ? readNoteBlob(blob)?.toString('utf-8') ?? '' : '';
+}
+
+/**
+ * IDs of the runs in a history note
+ *
+ * @internal
+ */
+function getRunIds(content: string): Set<unknown> {
+  try {
+    const runs: unknown = parseYaml(content, { uniqueKeys: false })?.runs;
+    return new Set(Array.isArray(runs) ? runs.map(run => (run as { id?: unknown } | null)?.id) : []);
+  } catch {
+    return new Set();
+  }
+}
+
+/**
+ * Merge a note both sides changed since their merge base: runs either side
+ * added are kept, runs either side removed (pruned) stay removed
+ *
+ * @returns The merged note, or null when no runs are left
+ * @internal
+ */
+function mergeChangedNote(base: string, local: string, remote: string): string | null {
+  const merged = mergeAppendRuns(local, remote);
+  const [localIds, remoteIds] = [getRunIds(local), getRunIds(remote)];
+  const removed = new Set([...getRunIds(base)].filter(id => !localIds.has(id) || !remoteIds.has(id)));
+  if (removed.size === 0) {
+    return merged;
+  }
+
+  const data = parseYaml(merged, { uniqueKeys: false }) as Record<string, unknown>;
+  const runs = (Array.isArray(data.runs) ? data.runs : [])
+    .filter(run => !removed.has((run as { id?: unknown } | null)?.id));
+  return runs.length > 0 ? stringifyYaml({ ...data, runs }) : null;
+}
+
+/**
+ * Bring the local note of one object up to date with the remote's
+ *
+ * @returns true if the local note was written or removed
+ * @internal
+ */
+function mergeNote(
+  localRef: string,
+  object: string,
+  blobs: { local?: string; remote?: string; base?: string }
+): boolean {
+  if (blobs.local === blobs.base) {
+    // Only the remote changed it: take its note as is (keeps binary notes
+    // intact), or its removal
+    return blobs.remote === undefined
+      ? removeNote(localRef as NotesRef, object as TreeHash)
+      : tryGitCommand(['notes', `--ref=${localRef}`, 'add', '-f', '-C', blobs.remote, object], { suppressStderr: true });
+  }
+
+  const existing = readNoteText(blobs.local);
+  const merged = mergeChangedNote(readNoteText(blobs.base), existing, readNoteText(blobs.remote));
+  if (merged === null) {
+    return blobs.local !== undefined && removeNote(localRef as NotesRef, object as TreeHash);
+  }
+  return merged.trim() !== existing.trim() && addNote(localRef as NotesRef, object as TreeHash, merged);
+}
+
+/**
+ * Merge the remote's notes into a local ref, three-way against the notes
+ * commit both last shared
+ *
+ * Notes and runs one side removed since the merge base (e.g. by pruning) are
+ * not brought back by the other side still having them.
+ *
+ * @param base - Merge base of the two refs (null when they share no history)
+ * @returns Number of notes written or removed
+ * @internal
+ */
+function mergeNotes(localRef: string, remoteRef: string, base: string | null): number {
+  const localBlobs = listNoteBlobs(localRef);
+  const remoteBlobs = listNoteBlobs(remoteRef);
+  const baseBlobs = base ? listNoteBlobs(base) : new Map<string, string>();
+  let written = 0;
+
+  for (const object of new Set([...localBlobs.keys(), ...remoteBlobs.keys()])) {
+    const blobs = { local: localBlobs.get(object), remote: remoteBlobs.get(object), base: baseBlobs.get(object) };
+    // Same on both sides, or only changed (or removed) locally
+    if (blobs.local === blobs.remote || blobs.remote === blobs.base) {
+      continue;
+    }
+    if (mergeNote(localRef, object, blobs)) {
+      written++;
+    }
+  }
+
+  return written;
+}
+
+/**
+ * Bring one local notes ref up to date with its fetched remote counterpart
+ *
+ * @returns Number of notes merged, or null if the local ref was left unchanged
+ * @internal
+ */
+function integrateRemoteRef(localRef: string, remoteRef: string, remote: string): number | null {
+  const remoteSha = resolveRef(remoteRef);
+  const localSha = resolveRef(localRef);
+  if (!remoteSha || localSha === remoteSha) {
+    return null;
+  }
+
+  if (!localSha || isAncestor(localSha, remoteSha)) {
+    // New or behind: take the remote's history as is
+    const updated = tryGitCommand(['update-ref', localRef, remoteSha, ...(localSha ? [localSha] : [])], {
+      suppressStderr: true,
+    });
+    return updated ? 0 : null;
+  }
+
+  if (isAncestor(remoteSha, localSha)) {
+    return null; // Ahead: nothing to pull
+  }
+
+  // Diverged: merge the notes, then record both parents so a push fast-forwards
+  const base = executeGitCommand(['merge-base', localSha, remoteSha], { ignoreErrors: true, suppressStderr: true });
+  const merged = mergeNotes(localRef, remoteRef, base.success && base.stdout ? base.stdout : null);
+  const mergedSha = resolveRef(localRef);
+  const tree = resolveRef(`${localRef}^{tree}`);
+  if (!mergedSha || !tree) {
+    return null;
+  }
+  const commit = executeGitCommand(
+    ['commit-tree', tree, '-p', mergedSha, '-p', remoteSha, '-m', `Merge validation history from ${remote}`],
+    { ignoreErrors: true, suppressStderr: true }
+  );
+  if (!commit.success || !tryGitCommand(['update-ref', localRef, commit.stdout, mergedSha], { suppressStderr: true })) {
+    return null;
+  }
+  return merged;
+}
+
+/**
+ * Reject remote names git would read as an option
+ *
+ * @internal
+ */
+function invalidRemote(remote: string): NotesSyncResult | null {
+  return remote && !remote.startsWith('-') && !/\s/.test(remote)
+    ? null
+    : { ok: false, error: `Invalid remote name: "${remote}"`, refsUpdated: [], notesMerged: 0 };
+}
+
+/**
+ * Fetch the remote's validation history and merge it into the local notes
+ *
+ * @param remote - Remote name (e.g. `origin`)
+ * @returns Which refs changed and how many notes were merged
+ *
+ * @example
+ * ```typescript
+ * const result = pullNotes('origin');
+ * if (!result.ok) {
+ *   console.warn(`Could not pull validation history: ${result.error}`);
+ * }
+ * ```
+ */
+export function pullNotes(remote: string): NotesSyncResult {
+  const invalid = invalidRemote(remote);
+  if (invalid) {
+    return invalid;
+  }
+
+  const remoteNamespace = `${REMOTE_NOTES_NAMESPACE}/${remote}`;
+  const fetch = runNetworkCommand([
+    'fetch', '--quiet', '--prune', remote, `+${NOTES_NAMESPACE}/*:${remoteNamespace}/*`,
+  ]);
+  if (!fetch.success) {
+    return { ok: false, error: fetch.error, refsUpdated: [], notesMerged: 0 };
+  }
+
+  const result: NotesSyncResult = { ok: true, refsUpdated: [], notesMerged: 0 };
+  for (const remoteRef of listNotesRefs(remoteNamespace)) {
+    const localRef = `${NOTES_NAMESPACE}${remoteRef.slice(remoteNamespace.length)}`;
+    const merged = integrateRemoteRef(localRef, remoteRef, remote);
+    if (merged !== null) {
+      result.refsUpdated.push(localRef);
+      result.notesMerged += merged;
+    }
+  }
+  return result;
+}
+
+/**
+ * Share the local validation history with a remote
+ *
+ * Pulls first, so notes recorded elsewhere are merged rather than overwritten.
+ *
+ * @param remote - Remote name (e.g. `origin`)
+ * @returns The pull's changes, and whether the push succeeded
+ *
+ * @example
+ * ```typescript
+ * const result = pushNotes('origin');
+ * console.log(result.ok ? 'History pushed' : result.error);
+ * ```
+ */
+export function pushNotes(remote: string): NotesSyncResult {
+  let result = pullNotes(remote);
+  if (!result.ok) {
+    return result;
+  }
+
+  const push = (): { success: boolean; error: string } =>
+    runNetworkCommand(['push', '--quiet', remote, `${NOTES_NAMESPACE}/*:${NOTES_NAMESPACE}/*`]);
+
+  let pushed = push();
+  if (!pushed.success) {
+    // Rejected because the remote moved since the pull: merge again and retry once
+    const retry = pullNotes(remote);
+    if (!retry.ok) {
+      return retry;
+    }
+    result = {
+      ok: true,
+      refsUpdated: [...new Set([...result.refsUpdated, ...retry.refsUpdated])],
+      notesMerged: result.notesMerged + retry.notesMerged,
+    };
+    pushed = push();
+  }
+
+  return pushed.success ? result : { ...result, ok: false, error: pushed.error };
+}
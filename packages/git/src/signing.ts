@@ -0,0 +1,124 @@
+/**
+ * Payload Signing with git's own signing
+ *
+ * git can only sign objects, so a payload is signed as the message of a
+ * commit on the empty tree, created with `commit-tree -S`. That uses whatever
+ * the user configured for commit signing (`gpg.format`, `user.signingKey`),
+ * GPG or SSH alike. The raw signed commit object is the signature: anyone can
+ * write it back into their object database and let git check it against
+ * their own keyring or allowed signers file.
+ *
+ * Signing and verification never throw - an unsigned or unverifiable payload
+ * is a normal outcome, not an error.
+ */
+
+import { executeGitCommand } from './git-executor.js';
+
+/** A payload signed through git */
+export interface GitSignature {
+  /** Signature format, from `gpg.format` (`x509` is reported as `gpg`) */
+  format: 'gpg' | 'ssh';
+  /** The raw signed commit object whose message is the payload */
+  signedObject: string;
+}
+
+/** Outcome of verifying a {@link GitSignature} */
+export interface GitSignatureVerification {
+  valid: boolean;
+  /** Who signed, as git reports it (key owner or SSH principal) */
+  signer?: string;
+}
+
+/**
+ * Read the configured signature format
+ *
+ * @internal
+ */
+function getSignatureFormat(): GitSignature['format'] {
+  const result = executeGitCommand(['config', '--get', 'gpg.format'], { ignoreErrors: true, suppressStderr: true });
+  return result.success && result.stdout === 'ssh' ? 'ssh' : 'gpg';
+}
+
+/**
+ * Extract the message of a raw commit object (everything after the headers)
+ *
+ * @internal
+ */
+function getCommitMessage(rawCommit: string): string | null {
+  const separator = rawCommit.indexOf('\n\n');
+  return separator === -1 ? null : rawCommit.slice(separator + 2);
+}
+
+/**
+ * Sign a payload with the user's git signing key
+ *
+ * @param payload - Text to sign
+ * @returns The signature, or null when signing is not set up or fails
+ *
+ * @example
+ * ```typescript
+ * const signature = signWithGit('tree abc123 passed');
+ * if (!signature) {
+ *   console.warn('Set user.signingKey to sign validation runs');
+ * }
+ * ```
+ */
+export function signWithGit(payload: string): GitSignature | null {
+  const emptyTree = executeGitCommand(['mktree'], { stdin: '', ignoreErrors: true, suppressStderr: true });
+  if (!emptyTree.success) {
+    return null;
+  }
+
+  const commit = executeGitCommand(['commit-tree', '-S', '-F', '-', emptyTree.stdout], {
+    stdin: payload,
+    ignoreErrors: true,
+    suppressStderr: true,
+  });
+  if (!commit.success) {
+    return null;
+  }
+
+  const raw = executeGitCommand(['cat-file', 'commit', commit.stdout], {
+    ignoreErrors: true,
+    suppressStderr: true,
+    trimOutput: false,
+  });
+  return raw.success ? { format: getSignatureFormat(), signedObject: raw.stdout } : null;
+}
+
+/**
+ * Verify a payload signed with {@link signWithGit}
+ *
+ * Valid means the signed object's message is the payload and git reports a
+ * good, valid signature (`%G?` of `G`): a trusted key in the local GPG
+ * keyring, or a key listed in the SSH allowed signers file. A good signature
+ * from an unknown or untrusted key (`U`) is not valid.
+ *
+ * @param signature - Signature to check
+ * @param payload - The payload it should sign
+ * @returns Whether the signature is valid, and who made it
+ */
+export function verifyGitSignature(signature: GitSignature, payload: string): GitSignatureVerification {
+  if (getCommitMessage(signature.signedObject) !== payload) {
+    return { valid: false };
+  }
+
+  const written = executeGitCommand(['hash-object', '-t', 'commit', '-w', '--stdin'], {
+    stdin: signature.signedObject,
+    ignoreErrors: true,
+    suppressStderr: true,
+  });
+  if (!written.success) {
+    return { valid: false };
+  }
+
+  const status = executeGitCommand(['show', '-s', '--format=%G?%n%GS', written.stdout], {
+    ignoreErrors: true,
+    suppressStderr: true,
+  });
+  const [code, signer] = status.success ? status.stdout.split('\n') : [];
+  if (code !== 'G') {
+    return { valid: false };
+  }
+  return signer ? { valid: true, signer } : { valid: true };
+}
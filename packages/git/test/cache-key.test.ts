@@ -168,6 +168,17 @@ describe('encodeRunCacheKey', () => {
     it('should produce different keys for different workdirs', () => {
       expectDifferentKeys(['npm test', ''], ['npm test', 'packages/cli']); // NOSONAR - helper contains assertions
     });
+
+    it('should produce different keys for different env values', () => {
+      expect(encodeRunCacheKey('npm test', '', { NODE_ENV: 'test' })).not.toBe(
+        encodeRunCacheKey('npm test', '', { NODE_ENV: 'production' })
+      );
+    });
+
+    it('should ignore env order and keep the key unchanged without env', () => {
+      expect(encodeRunCacheKey('npm test', '', { A: '1', B: '2' })).toBe(encodeRunCacheKey('npm test', '', { B: '2', A: '1' }));
+      expect(encodeRunCacheKey('npm test', '', {})).toBe(encodeRunCacheKey('npm test', ''));
+    });
   });
 
   describe('real-world commands', () => {
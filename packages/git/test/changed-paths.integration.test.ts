@@ -0,0 +1,102 @@
+/**
+ * Integration tests for changed-path detection
+ *
+ * Uses REAL git repositories (in temp directories): merge-base resolution and
+ * pathspec matching are git's, so a mock would only restate the assumptions.
+ *
+ * CRITICAL: Uses isolated temp repos - does NOT touch main .git directory
+ */
+
+import { existsSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+
+import { mkdirSyncReal, normalizedTmpdir } from '@vibe-validate/utils';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { findChangeBase, hasChangedPaths, type ChangeBase } from '../src/changed-paths.js';
+import { executeGitCommand } from '../src/git-executor.js';
+import { commitTestChanges, setupTestRepoWithCommit, stageTestFiles } from '../src/test-helpers.js';
+import { getGitTreeHash } from '../src/tree-hash.js';
+
+/**
+ * Write a file relative to the repository, creating directories as needed
+ *
+ * @param repoPath - Repository root
+ * @param path - Root-relative path
+ * @param content - File content
+ */
+function writeRepoFile(repoPath: string, path: string, content: string): void {
+  const full = join(repoPath, path);
+  mkdirSyncReal(join(full, '..'), { recursive: true });
+  writeFileSync(full, content);
+}
+
+describe('changed paths - integration tests', () => {
+  let testRepoPath: string;
+  let originalCwd: string;
+
+  beforeEach(() => {
+    // Git environment variables override process.cwd() (see tree-hash.integration.test.ts)
+    delete process.env.GIT_DIR;
+    delete process.env.GIT_WORK_TREE;
+    delete process.env.GIT_INDEX_FILE;
+
+    originalCwd = process.cwd();
+    testRepoPath = mkdtempSync(join(normalizedTmpdir(), 'vibe-validate-changed-paths-'));
+    setupTestRepoWithCommit(testRepoPath);
+    writeRepoFile(testRepoPath, 'backend/src/App.java', 'class App {}\n');
+    writeRepoFile(testRepoPath, 'frontend/src/index.ts', 'export {};\n');
+    stageTestFiles(testRepoPath);
+    commitTestChanges(testRepoPath, 'Add apps');
+    process.chdir(testRepoPath);
+    executeGitCommand(['branch', '-M', 'main']);
+    executeGitCommand(['checkout', '-q', '-b', 'feature']);
+  });
+
+  afterEach(() => {
+    process.chdir(originalCwd);
+    if (existsSync(testRepoPath)) {
+      rmSync(testRepoPath, { recursive: true, force: true });
+    }
+  });
+
+  it('should find the merge-base with the first ref that exists', () => {
+    const main = executeGitCommand(['rev-parse', 'main']).stdout;
+
+    expect(findChangeBase(['origin/main', 'main'])).toEqual({ ref: 'main', commit: main });
+    expect(findChangeBase(['origin/main'])).toBeNull();
+  });
+
+  it('should detect committed, unstaged and untracked changes inside the patterns only', async () => {
+    const base = (findChangeBase(['main']) as ChangeBase).commit;
+    expect(hasChangedPaths(base, (await getGitTreeHash()).hash, ['backend/**'])).toBe(false);
+
+    writeRepoFile(testRepoPath, 'frontend/src/index.ts', 'export const x = 1;\n');
+    expect(hasChangedPaths(base, (await getGitTreeHash()).hash, ['backend/**'])).toBe(false);
+    expect(hasChangedPaths(base, (await getGitTreeHash()).hash, ['frontend/**'])).toBe(true);
+
+    writeRepoFile(testRepoPath, 'backend/src/New.java', 'class New {}\n');
+    expect(hasChangedPaths(base, (await getGitTreeHash()).hash, ['backend/**'])).toBe(true);
+  });
+
+  it('should honour exclusions', async () => {
+    const base = (findChangeBase(['main']) as ChangeBase).commit;
+    writeRepoFile(testRepoPath, 'backend/README.md', '# Backend\n');
+    const tree = (await getGitTreeHash()).hash;
+
+    expect(hasChangedPaths(base, tree, ['backend/**', '!**/*.md'])).toBe(false);
+    expect(hasChangedPaths(base, tree, ['!frontend/**'])).toBe(true);
+  });
+
+  it('should ignore changes made on the main branch after the fork', async () => {
+    executeGitCommand(['checkout', '-q', 'main']);
+    writeRepoFile(testRepoPath, 'backend/src/App.java', 'class App { int x; }\n');
+    stageTestFiles(testRepoPath);
+    commitTestChanges(testRepoPath, 'Change backend on main');
+    executeGitCommand(['checkout', '-q', 'feature']);
+
+    const base = (findChangeBase(['main']) as ChangeBase).commit;
+
+    expect(hasChangedPaths(base, (await getGitTreeHash()).hash, ['backend/**'])).toBe(false);
+  });
+});
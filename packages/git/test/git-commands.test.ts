@@ -24,7 +24,10 @@ import {
   isMergeInProgress,
   isRebaseInProgress,
   getDiffStats,
+  getCommitDiffStats,
   getCommitCount,
+  isCommitReachableFrom,
+  isCommitOnAnyBranch,
   getNotesRefs,
 } from '../src/git-commands.js';
 import * as gitExecutor from '../src/git-executor.js';
@@ -34,6 +37,7 @@ vi.mock('../src/git-executor.js', async () => {
   const actual = await vi.importActual('../src/git-executor.js');
   return {
     ...actual,
+    executeGitCommand: vi.fn(),
     execGitCommand: vi.fn(),
     tryGitCommand: vi.fn(),
   };
@@ -335,6 +339,15 @@ describe('git-commands', () => {
     });
   });
 
+  describe('getCommitDiffStats', () => {
+    it('should diff the two refs directly, not from their merge base', () => {
+      vi.mocked(gitExecutor.execGitCommand).mockReturnValue('5\t3\tfile1.ts');
+
+      expect(getCommitDiffStats('abc123', 'def456')).toBe('5\t3\tfile1.ts');
+      expect(gitExecutor.execGitCommand).toHaveBeenCalledWith(['diff', '--numstat', '--end-of-options', 'abc123', 'def456']);
+    });
+  });
+
   describe('getCommitCount', () => {
     it('should return commit count between refs', () => {
       const mockCount = '5';
@@ -355,6 +368,35 @@ describe('git-commands', () => {
     });
   });
 
+  describe('isCommitReachableFrom', () => {
+    it('should check ancestry with merge-base', () => {
+      vi.mocked(gitExecutor.tryGitCommand).mockReturnValue(true);
+
+      expect(isCommitReachableFrom('abc123', 'main')).toBe(true);
+      expect(gitExecutor.tryGitCommand).toHaveBeenCalledWith(['merge-base', '--is-ancestor', 'abc123', 'main'], { suppressStderr: true });
+    });
+  });
+
+  describe('isCommitOnAnyBranch', () => {
+    it('should return true when a branch contains the commit', () => {
+      vi.mocked(gitExecutor.executeGitCommand).mockReturnValue({ success: true, stdout: 'refs/heads/main', stderr: '', exitCode: 0 });
+
+      expect(isCommitOnAnyBranch('abc123')).toBe(true);
+      expect(gitExecutor.executeGitCommand).toHaveBeenCalledWith(
+        ['for-each-ref', '--count=1', '--format=%(refname)', '--contains=abc123', 'refs/heads', 'refs/remotes'],
+        { ignoreErrors: true, suppressStderr: true }
+      );
+    });
+
+    it('should return false when no branch contains it or the commit is unknown', () => {
+      vi.mocked(gitExecutor.executeGitCommand).mockReturnValueOnce({ success: true, stdout: '', stderr: '', exitCode: 0 });
+      expect(isCommitOnAnyBranch('abc123')).toBe(false);
+
+      vi.mocked(gitExecutor.executeGitCommand).mockReturnValueOnce({ success: false, stdout: '', stderr: 'malformed object name', exitCode: 129 });
+      expect(isCommitOnAnyBranch('0000')).toBe(false);
+    });
+  });
+
   describe('getNotesRefs', () => {
     it('should list notes refs matching pattern', () => {
       const mockRefs = 'refs/notes/vibe-validate/run/1\nrefs/notes/vibe-validate/run/2';
@@ -6,12 +6,15 @@ import {
   addNote,
   readNote,
   removeNote,
+  removeNotes,
   hasNote,
   listNoteObjects,
   listNotesRefs,
   removeNotesRefs,
   hasNotesRef,
   getNotesRefSha,
+  writeNoteBlob,
+  readNoteBlob,
   mergeReplace,
   mergeAppendRuns,
 } from '../src/git-notes.js';
@@ -414,6 +417,25 @@ runs:
       expect(parsed.runs[1].id).toBe('run-2');
     });
 
+    it('should skip runs already present and keep runs in timestamp order', () => {
+      const existing = `runs:
+  - id: run-1
+    timestamp: "2026-01-01T00:00:00.000Z"
+  - id: run-3
+    timestamp: "2026-01-03T00:00:00.000Z"
+`;
+      const incoming = `runs:
+  - id: run-1
+    timestamp: "2026-01-01T00:00:00.000Z"
+  - id: run-2
+    timestamp: "2026-01-02T00:00:00.000Z"
+`;
+
+      const parsed = parseYaml(mergeAppendRuns(existing, incoming));
+
+      expect(parsed.runs.map((run: { id: string }) => run.id)).toEqual(['run-1', 'run-2', 'run-3']);
+    });
+
     it('should let new data fields win over existing', () => {
       const existing = `treeHash: abc123
 runs:
@@ -549,6 +571,35 @@ runs:
     });
   });
 
+  describe('removeNotes', () => {
+    it('should remove all notes in one git spawn', () => {
+      mockSuccessfulValidation();
+      vi.mocked(gitExecutor.tryGitCommand).mockReturnValue(true);
+      const other = 'fedcba9876543210fedcba9876543210fedcba98' as TreeHash;
+
+      expect(removeNotes(TEST_REF, [VALID_HASH, other])).toBe(true);
+      expect(gitExecutor.tryGitCommand).toHaveBeenCalledTimes(1);
+      expect(gitExecutor.tryGitCommand).toHaveBeenCalledWith(
+        ['notes', '--ref=vibe-validate/test', 'remove', '--ignore-missing', '--stdin'],
+        expect.objectContaining({ stdin: `${VALID_HASH}\n${other}\n` })
+      );
+    });
+
+    it('should validate every object before removing any', () => {
+      mockTreeHashValidation();
+
+      expect(() => removeNotes(TEST_REF, [VALID_HASH, 'HEAD' as TreeHash])).toThrow('must be hexadecimal');
+      expect(gitExecutor.tryGitCommand).not.toHaveBeenCalled();
+    });
+
+    it('should not run git for no objects', () => {
+      mockSuccessfulValidation();
+
+      expect(removeNotes(TEST_REF, [])).toBe(true);
+      expect(gitExecutor.tryGitCommand).not.toHaveBeenCalled();
+    });
+  });
+
   describe('hasNote', () => {
     it('should reject symbolic refs like HEAD', () => {
       mockTreeHashValidation();
@@ -574,6 +625,62 @@ runs:
     });
   });
 
+  describe('writeNoteBlob', () => {
+    it('should write the blob and attach it to itself', () => {
+      mockSuccessfulValidation();
+      vi.mocked(gitExecutor.executeGitCommand).mockReturnValue({ success: true, stdout: VALID_HASH, stderr: '', exitCode: 0 });
+      vi.mocked(gitExecutor.tryGitCommand).mockReturnValue(true);
+      const content = Buffer.from([0x1f, 0x8b, 0x00, 0xff]);
+
+      expect(writeNoteBlob(TEST_REF, content)).toBe(VALID_HASH);
+      expect(gitExecutor.executeGitCommand).toHaveBeenCalledWith(
+        ['hash-object', '-w', '--stdin'],
+        expect.objectContaining({ stdin: content })
+      );
+      expect(gitExecutor.tryGitCommand).toHaveBeenCalledWith(
+        ['notes', `--ref=${TEST_REF}`, 'add', '-C', VALID_HASH, VALID_HASH],
+        { suppressStderr: true }
+      );
+    });
+
+    it('should return the blob when it was stored before, and null when git fails', () => {
+      mockSuccessfulValidation();
+      vi.mocked(gitExecutor.executeGitCommand).mockReturnValue({ success: true, stdout: VALID_HASH, stderr: '', exitCode: 0 });
+      // add fails (already attached), show succeeds
+      vi.mocked(gitExecutor.tryGitCommand).mockReturnValueOnce(false).mockReturnValueOnce(true);
+      expect(writeNoteBlob(TEST_REF, Buffer.from('x'))).toBe(VALID_HASH);
+
+      vi.mocked(gitExecutor.executeGitCommand).mockReturnValue({ success: false, stdout: '', stderr: 'error', exitCode: 128 });
+      expect(writeNoteBlob(TEST_REF, Buffer.from('x'))).toBeNull();
+    });
+  });
+
+  describe('readNoteBlob', () => {
+    it('should restore binary content from latin1 output', () => {
+      mockSuccessfulValidation();
+      const bytes = Buffer.from([0x1f, 0x8b, 0x00, 0xff, 0x0a]);
+      vi.mocked(gitExecutor.executeGitCommand).mockReturnValue({
+        success: true,
+        stdout: bytes.toString('latin1'),
+        stderr: '',
+        exitCode: 0,
+      });
+
+      expect(readNoteBlob(VALID_HASH)?.equals(bytes)).toBe(true);
+      expect(gitExecutor.executeGitCommand).toHaveBeenCalledWith(
+        ['cat-file', 'blob', VALID_HASH],
+        expect.objectContaining({ encoding: 'latin1', trimOutput: false })
+      );
+    });
+
+    it('should return null for a missing blob', () => {
+      mockSuccessfulValidation();
+      vi.mocked(gitExecutor.executeGitCommand).mockReturnValue({ success: false, stdout: '', stderr: 'bad object', exitCode: 128 });
+
+      expect(readNoteBlob(VALID_HASH)).toBeNull();
+    });
+  });
+
   describe('listNoteObjects', () => {
     it('should return empty array, and stay silent, when no notes exist', () => {
       const warn = mockFailedNotesList();
@@ -0,0 +1,119 @@
+/**
+ * Integration tests for input tree hashes
+ *
+ * Uses REAL git repositories (in temp directories): what matters is which
+ * paths git's own pathspec matching keeps, and a mock would only restate the
+ * implementation's assumptions.
+ *
+ * CRITICAL: Uses isolated temp repos - does NOT touch main .git directory
+ */
+
+import { existsSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+
+import { mkdirSyncReal, normalizedTmpdir } from '@vibe-validate/utils';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { executeGitCommand } from '../src/git-executor.js';
+import { getInputTreeHashes, splitInputPatterns } from '../src/inputs-hash.js';
+import { commitTestChanges, setupTestRepoWithCommit, stageTestFiles } from '../src/test-helpers.js';
+
+const CLI_INPUTS = ['packages/cli/**', '!**/*.md'];
+
+/**
+ * Write a file relative to the repository, creating directories as needed
+ *
+ * @param repoPath - Repository root
+ * @param path - Root-relative path
+ * @param content - File content
+ */
+function writeRepoFile(repoPath: string, path: string, content: string): void {
+  const full = join(repoPath, path);
+  mkdirSyncReal(join(full, '..'), { recursive: true });
+  writeFileSync(full, content);
+}
+
+describe('splitInputPatterns', () => {
+  it('should separate exclusions and strip the leading "!"', () => {
+    expect(splitInputPatterns(['src/**', '!**/*.md', 'package.json'])).toEqual({
+      include: ['src/**', 'package.json'],
+      exclude: ['**/*.md'],
+    });
+  });
+});
+
+describe('getInputTreeHashes - integration tests', () => {
+  let testRepoPath: string;
+  let originalCwd: string;
+
+  beforeEach(() => {
+    // Git environment variables override process.cwd() (see tree-hash.integration.test.ts)
+    delete process.env.GIT_DIR;
+    delete process.env.GIT_WORK_TREE;
+    delete process.env.GIT_INDEX_FILE;
+
+    originalCwd = process.cwd();
+    testRepoPath = mkdtempSync(join(normalizedTmpdir(), 'vibe-validate-inputs-hash-'));
+    setupTestRepoWithCommit(testRepoPath);
+    writeRepoFile(testRepoPath, 'packages/cli/src/index.ts', 'export {};\n');
+    writeRepoFile(testRepoPath, 'packages/cli/README.md', '# CLI\n');
+    writeRepoFile(testRepoPath, 'packages/core/src/index.ts', 'export {};\n');
+    stageTestFiles(testRepoPath);
+    commitTestChanges(testRepoPath, 'Add packages');
+    process.chdir(testRepoPath);
+  });
+
+  afterEach(() => {
+    process.chdir(originalCwd);
+    if (existsSync(testRepoPath)) {
+      rmSync(testRepoPath, { recursive: true, force: true });
+    }
+  });
+
+  it('should return a git tree containing only the matching paths', () => {
+    const [hash] = getInputTreeHashes([CLI_INPUTS]);
+
+    const paths = executeGitCommand(['ls-tree', '-r', '--name-only', hash]).stdout.trim().split('\n');
+    expect(paths).toEqual(['packages/cli/src/index.ts']);
+  });
+
+  it('should ignore changes outside the inputs', () => {
+    const [before] = getInputTreeHashes([CLI_INPUTS]);
+
+    writeRepoFile(testRepoPath, 'packages/cli/README.md', '# CLI (edited)\n');
+    writeRepoFile(testRepoPath, 'packages/core/src/index.ts', 'export const x = 1;\n');
+
+    expect(getInputTreeHashes([CLI_INPUTS])).toEqual([before]);
+  });
+
+  it('should include unstaged edits and untracked files inside the inputs', () => {
+    const [committed] = getInputTreeHashes([CLI_INPUTS]);
+
+    writeRepoFile(testRepoPath, 'packages/cli/src/index.ts', 'export const edited = true;\n');
+    const [edited] = getInputTreeHashes([CLI_INPUTS]);
+
+    writeRepoFile(testRepoPath, 'packages/cli/src/new.ts', 'export {};\n');
+    const [added] = getInputTreeHashes([CLI_INPUTS]);
+
+    expect(new Set([committed, edited, added]).size).toBe(3);
+  });
+
+  it('should compute each set independently', () => {
+    const [cli, core, onlyExcludes] = getInputTreeHashes([
+      CLI_INPUTS,
+      ['packages/core/**'],
+      ['!packages/**'],
+    ]);
+
+    expect(getInputTreeHashes([CLI_INPUTS])).toEqual([cli]);
+    const corePaths = executeGitCommand(['ls-tree', '-r', '--name-only', core]).stdout.trim();
+    expect(corePaths).toBe('packages/core/src/index.ts');
+    const rootPaths = executeGitCommand(['ls-tree', '-r', '--name-only', onlyExcludes]).stdout.trim();
+    expect(rootPaths).toBe('README.md');
+  });
+
+  it('should return an empty list without touching git', () => {
+    process.chdir(normalizedTmpdir());
+    expect(getInputTreeHashes([])).toEqual([]);
+  });
+});
@@ -0,0 +1,210 @@
+/**
+ * Integration tests for validation history sync
+ *
+ * Uses REAL git repositories (in temp directories): two clones sharing a bare
+ * remote, since fetch, push and ref ancestry are git's behaviour to exercise.
+ *
+ * CRITICAL: Uses isolated temp repos - does NOT touch main .git directory
+ */
+
+import { existsSync, mkdtempSync, rmSync } from 'node:fs';
+import { join } from 'node:path';
+import { gzipSync } from 'node:zlib';
+
+import { mkdirSyncReal, normalizedTmpdir } from '@vibe-validate/utils';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { parse as parseYaml, stringify as stringifyYaml } from 'yaml';
+
+import { executeGitCommand } from '../src/git-executor.js';
+import { addNote, mergeAppendRuns, mergeReplace, readNoteBlob, removeNote, writeNoteBlob } from '../src/git-notes.js';
+import { pullNotes, pushNotes } from '../src/notes-sync.js';
+import { getTestTreeHash, readTestNote, setupTestRepoWithCommit } from '../src/test-helpers.js';
+import type { NotesRef, TreeHash } from '../src/types.js';
+
+const NOTES_REF = 'refs/notes/vibe-validate/validate';
+
+/**
+ * Record a run on the current repository's tree
+ */
+function recordRun(repoPath: string, id: string, timestamp: string): void {
+  const tree = getTestTreeHash(repoPath) as TreeHash;
+  const note = `treeHash: ${tree}\nruns:\n  - id: ${id}\n    timestamp: "${timestamp}"\n    passed: true\n`;
+  expect(addNote(NOTES_REF as NotesRef, tree, note, mergeAppendRuns)).toBe(true);
+}
+
+/**
+ * IDs of the runs in a repository's note for its tree
+ */
+function runIds(repoPath: string): string[] {
+  const note = readTestNote(repoPath, NOTES_REF, getTestTreeHash(repoPath));
+  return note ? (parseYaml(note) as { runs: Array<{ id: string }> }).runs.map(run => run.id) : [];
+}
+
+/**
+ * Remove runs from the repository's note for its tree (removing the note
+ * when none are left), as history retention does
+ */
+function pruneRuns(repoPath: string, ids: string[]): void {
+  const tree = getTestTreeHash(repoPath) as TreeHash;
+  const kept = runIds(repoPath).filter(id => !ids.includes(id));
+  if (kept.length === 0) {
+    expect(removeNote(NOTES_REF as NotesRef, tree)).toBe(true);
+    return;
+  }
+  const note = readTestNote(repoPath, NOTES_REF, tree) ?? '';
+  const data = parseYaml(note) as { runs: Array<{ id: string }> };
+  const pruned = stringifyYaml({ ...data, runs: data.runs.filter(run => kept.includes(run.id)) });
+  expect(addNote(NOTES_REF as NotesRef, tree, pruned, mergeReplace)).toBe(true);
+}
+
+describe('notes sync - integration tests', () => {
+  let rootPath: string;
+  let alicePath: string;
+  let bobPath: string;
+  let originalCwd: string;
+
+  beforeEach(() => {
+    // Git environment variables override process.cwd() (see tree-hash.integration.test.ts)
+    delete process.env.GIT_DIR;
+    delete process.env.GIT_WORK_TREE;
+    delete process.env.GIT_INDEX_FILE;
+
+    originalCwd = process.cwd();
+    rootPath = mkdtempSync(join(normalizedTmpdir(), 'vibe-validate-notes-sync-'));
+    const remotePath = join(rootPath, 'remote.git');
+    mkdirSyncReal(remotePath, { recursive: true });
+    executeGitCommand(['init', '--bare', '--quiet'], { cwd: remotePath });
+
+    alicePath = join(rootPath, 'alice');
+    bobPath = join(rootPath, 'bob');
+    for (const clonePath of [alicePath, bobPath]) {
+      mkdirSyncReal(clonePath, { recursive: true });
+      setupTestRepoWithCommit(clonePath);
+      executeGitCommand(['remote', 'add', 'origin', remotePath], { cwd: clonePath });
+    }
+  });
+
+  afterEach(() => {
+    process.chdir(originalCwd);
+    if (existsSync(rootPath)) {
+      rmSync(rootPath, { recursive: true, force: true });
+    }
+  });
+
+  it('should share history pushed from one clone with another', () => {
+    process.chdir(alicePath);
+    recordRun(alicePath, 'run-1', '2026-01-01T00:00:00.000Z');
+    expect(pushNotes('origin')).toMatchObject({ ok: true });
+
+    process.chdir(bobPath);
+    const result = pullNotes('origin');
+
+    expect(result).toEqual({ ok: true, refsUpdated: [NOTES_REF], notesMerged: 0 });
+    expect(runIds(bobPath)).toEqual(['run-1']);
+  });
+
+  it('should merge runs recorded on both sides and push the merge', () => {
+    process.chdir(alicePath);
+    recordRun(alicePath, 'run-1', '2026-01-01T00:00:00.000Z');
+    pushNotes('origin');
+
+    process.chdir(bobPath);
+    recordRun(bobPath, 'run-2', '2026-01-02T00:00:00.000Z');
+    const pushed = pushNotes('origin');
+
+    expect(pushed).toEqual({ ok: true, refsUpdated: [NOTES_REF], notesMerged: 1 });
+    expect(runIds(bobPath)).toEqual(['run-1', 'run-2']);
+
+    process.chdir(alicePath);
+    pullNotes('origin');
+    expect(runIds(alicePath)).toEqual(['run-1', 'run-2']);
+  });
+
+  it('should copy binary note blobs intact when merging diverged refs', () => {
+    const blobsRef = 'vibe-validate/blobs' as NotesRef;
+    const payload = gzipSync(Buffer.from('errors: []\n'.repeat(100)));
+
+    process.chdir(alicePath);
+    const blob = writeNoteBlob(blobsRef, payload);
+    expect(blob).not.toBeNull();
+    // Storing the same content again is the same blob
+    expect(writeNoteBlob(blobsRef, payload)).toBe(blob);
+    pushNotes('origin');
+
+    process.chdir(bobPath);
+    writeNoteBlob(blobsRef, gzipSync(Buffer.from('other')));
+    expect(pullNotes('origin')).toMatchObject({ ok: true, notesMerged: 1 });
+
+    expect(readNoteBlob(blob ?? '')?.equals(payload)).toBe(true);
+  });
+
+  it('should not bring back runs pruned locally when merging diverged history', () => {
+    process.chdir(alicePath);
+    recordRun(alicePath, 'run-1', '2026-01-01T00:00:00.000Z');
+    recordRun(alicePath, 'run-2', '2026-01-02T00:00:00.000Z');
+    pushNotes('origin');
+
+    process.chdir(bobPath);
+    pullNotes('origin');
+    pruneRuns(bobPath, ['run-1']);
+
+    process.chdir(alicePath);
+    recordRun(alicePath, 'run-3', '2026-01-03T00:00:00.000Z');
+    pushNotes('origin');
+
+    process.chdir(bobPath);
+    expect(pushNotes('origin')).toMatchObject({ ok: true, notesMerged: 1 });
+    expect(runIds(bobPath)).toEqual(['run-2', 'run-3']);
+
+    // The prune reaches the other clone too
+    process.chdir(alicePath);
+    pullNotes('origin');
+    expect(runIds(alicePath)).toEqual(['run-2', 'run-3']);
+  });
+
+  it('should not bring back notes removed locally when merging diverged history', () => {
+    process.chdir(alicePath);
+    recordRun(alicePath, 'run-1', '2026-01-01T00:00:00.000Z');
+    pushNotes('origin');
+
+    process.chdir(bobPath);
+    pullNotes('origin');
+    pruneRuns(bobPath, ['run-1']);
+
+    process.chdir(alicePath);
+    const commit = executeGitCommand(['rev-parse', 'HEAD']).stdout as TreeHash;
+    addNote(NOTES_REF as NotesRef, commit, 'runs:\n  - id: run-3\n', mergeAppendRuns);
+    pushNotes('origin');
+
+    process.chdir(bobPath);
+    expect(pullNotes('origin')).toMatchObject({ ok: true, refsUpdated: [NOTES_REF] });
+    expect(readTestNote(bobPath, NOTES_REF, getTestTreeHash(bobPath))).toBeNull();
+    expect(readTestNote(bobPath, NOTES_REF, commit)).toContain('run-3');
+  });
+
+  it('should leave history unchanged when pulled twice', () => {
+    process.chdir(alicePath);
+    recordRun(alicePath, 'run-1', '2026-01-01T00:00:00.000Z');
+    pushNotes('origin');
+
+    process.chdir(bobPath);
+    pullNotes('origin');
+
+    expect(pullNotes('origin')).toEqual({ ok: true, refsUpdated: [], notesMerged: 0 });
+    expect(runIds(bobPath)).toEqual(['run-1']);
+  });
+
+  it('should report an unreachable remote without throwing', () => {
+    process.chdir(alicePath);
+    executeGitCommand(['remote', 'set-url', 'origin', join(rootPath, 'missing.git')]);
+
+    const result = pullNotes('origin');
+
+    expect(result.ok).toBe(false);
+    expect(result.error).toBeTruthy();
+  });
+
+  it('should reject a remote name git would read as an option', () => {
+    expect(pullNotes('--upload-pack=evil')).toMatchObject({ ok: false, error: 'Invalid remote name: "--upload-pack=evil"' });
+  });
+});
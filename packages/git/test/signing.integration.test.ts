@@ -0,0 +1,88 @@
+/**
+ * Integration tests for payload signing through git
+ *
+ * Uses a REAL git repository (in a temp directory) and a throwaway SSH key:
+ * what counts as a good signature is git's decision, so a mock would only
+ * restate the assumptions.
+ *
+ * CRITICAL: Uses isolated temp repos - does NOT touch main .git directory
+ */
+
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+
+import { normalizedTmpdir, safeExecResult } from '@vibe-validate/utils';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { executeGitCommand } from '../src/git-executor.js';
+import { signWithGit, verifyGitSignature } from '../src/signing.js';
+import { setupTestRepoWithCommit } from '../src/test-helpers.js';
+
+const PAYLOAD = 'vibe-validate run {"passed":true,"treeHash":"abc123"}';
+
+const hasSshKeygen = safeExecResult('ssh-keygen', ['-?'], { stdio: 'pipe' }).error === undefined;
+
+describe.skipIf(!hasSshKeygen)('git signing - integration tests', () => {
+  let testRepoPath: string;
+  let originalCwd: string;
+
+  beforeEach(() => {
+    // Git environment variables override process.cwd() (see tree-hash.integration.test.ts)
+    delete process.env.GIT_DIR;
+    delete process.env.GIT_WORK_TREE;
+    delete process.env.GIT_INDEX_FILE;
+
+    originalCwd = process.cwd();
+    testRepoPath = mkdtempSync(join(normalizedTmpdir(), 'vibe-validate-signing-'));
+    setupTestRepoWithCommit(testRepoPath);
+    process.chdir(testRepoPath);
+  });
+
+  afterEach(() => {
+    process.chdir(originalCwd);
+    if (existsSync(testRepoPath)) {
+      rmSync(testRepoPath, { recursive: true, force: true });
+    }
+  });
+
+  /**
+   * Create an SSH signing key and configure git to sign with it
+   *
+   * @param trusted - Whether to list the key in the allowed signers file
+   */
+  function configureSshSigning(trusted: boolean): void {
+    const keyPath = join(testRepoPath, 'signing-key');
+    safeExecResult('ssh-keygen', ['-q', '-t', 'ed25519', '-N', '', '-C', 'ci', '-f', keyPath], { stdio: 'pipe' });
+    const allowedSigners = join(testRepoPath, 'allowed-signers');
+    const publicKey = readFileSync(`${keyPath}.pub`, 'utf-8');
+    writeFileSync(allowedSigners, trusted ? `ci@example.com ${publicKey}` : '');
+
+    executeGitCommand(['config', 'gpg.format', 'ssh']);
+    executeGitCommand(['config', 'user.signingKey', keyPath]);
+    executeGitCommand(['config', 'gpg.ssh.allowedSignersFile', allowedSigners]);
+  }
+
+  it('should sign a payload that verifies against the allowed signers', () => {
+    configureSshSigning(true);
+
+    const signature = signWithGit(PAYLOAD);
+
+    expect(signature?.format).toBe('ssh');
+    expect(verifyGitSignature(signature!, PAYLOAD)).toEqual({ valid: true, signer: 'ci@example.com' });
+  });
+
+  it('should reject a signature for another payload or from an unknown key', () => {
+    configureSshSigning(false);
+    const signature = signWithGit(PAYLOAD)!;
+
+    expect(verifyGitSignature(signature, PAYLOAD).valid).toBe(false);
+    expect(verifyGitSignature(signature, `${PAYLOAD} tampered`).valid).toBe(false);
+  });
+
+  it('should not sign when no signing key is configured', () => {
+    executeGitCommand(['config', 'gpg.format', 'ssh']);
+    executeGitCommand(['config', 'user.signingKey', join(testRepoPath, 'missing-key')]);
+
+    expect(signWithGit(PAYLOAD)).toBeNull();
+  });
+});
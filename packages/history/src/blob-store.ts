@@ -0,0 +1,302 @@
+/**
+ * Blob store - compressed, content-addressed storage for large payloads
+ *
+ * A note holds every run recorded for its tree, and git keeps every version
+ * of every note, so large payloads inlined in runs make the notes ref grow
+ * with each run. Step extractions of at least {@link BLOB_THRESHOLD_BYTES} are
+ * instead stored once, as gzip-compressed blobs kept in
+ * `refs/notes/vibe-validate/blobs`, and the step only keeps
+ * `extractionBlob: <sha>`. The same extraction in many runs is the same blob.
+ *
+ * Reading resolves the references again (see readHistoryNote), so callers
+ * never see them.
+ * Pruning removes the blobs no run references any more.
+ *
+ * @packageDocumentation
+ */
+
+import { gunzipSync, gzipSync } from 'node:zlib';
+
+import type { PhaseResult, StepResult, ValidationResult } from '@vibe-validate/core';
+import {
+  executeGitCommand,
+  listNoteObjects,
+  readNoteBlob,
+  removeNotes,
+  writeNoteBlob,
+  type NotesRef,
+} from '@vibe-validate/git';
+
+/** Notes ref that keeps the blobs reachable (and synced with the history) */
+export const HISTORY_BLOBS_REF = 'vibe-validate/blobs';
+
+/** Extractions smaller than this stay inline in the note */
+export const BLOB_THRESHOLD_BYTES = 1024;
+
+/** Matches a blob reference in a note's YAML */
+const BLOB_REFERENCE_PATTERN = String.raw`extractionBlob: "?[0-9a-f]{40,64}`;
+
+type Extraction = NonNullable<StepResult['extraction']>;
+
+/**
+ * A step as stored in a note: a large extraction is replaced by its blob
+ */
+export type StoredStepResult = Omit<StepResult, 'extraction'> & {
+  extraction?: Extraction;
+  /** SHA of the gzip-compressed JSON extraction */
+  extractionBlob?: string;
+};
+
+/**
+ * A validation result as stored in a note
+ */
+export type StoredValidationResult = Omit<ValidationResult, 'phases'> & {
+  phases?: Array<Omit<PhaseResult, 'steps'> & { steps: StoredStepResult[] }>;
+};
+
+/**
+ * Space used by the blob store
+ */
+export interface BlobStorageStats {
+  /** Distinct blobs stored */
+  blobs: number;
+  /** Steps in the history that reference a blob */
+  references: number;
+  /** Size of the compressed blobs, each counted once */
+  storedBytes: number;
+  /** Size the referenced extractions would take inline, uncompressed */
+  inlineBytes: number;
+  /** inlineBytes - storedBytes */
+  savedBytes: number;
+}
+
+/** Extractions already read, by blob (content-addressed, so never stale) */
+const extractionCache = new Map<string, unknown>();
+
+/**
+ * Store a step's extraction as a blob if it is large
+ *
+ * @internal
+ */
+function storeStepPayload(step: StepResult): StoredStepResult {
+  if (!step.extraction) {
+    return step;
+  }
+
+  const payload = Buffer.from(JSON.stringify(step.extraction), 'utf-8');
+  if (payload.length < BLOB_THRESHOLD_BYTES) {
+    return step;
+  }
+
+  const blob = writeNoteBlob(HISTORY_BLOBS_REF as NotesRef, gzipSync(payload));
+  if (!blob) {
+    return step; // Keep it inline rather than lose it
+  }
+
+  return { ...step, extraction: undefined, extractionBlob: blob };
+}
+
+/**
+ * Move a result's large extractions into the blob store
+ *
+ * @param result - Validation result about to be written to a note
+ * @returns The result to write, with large extractions replaced by `extractionBlob`
+ */
+export function storeLargePayloads(result: ValidationResult): StoredValidationResult {
+  if (!result.phases) {
+    return result;
+  }
+  return {
+    ...result,
+    phases: result.phases.map(phase => ({ ...phase, steps: phase.steps.map(storeStepPayload) })),
+  };
+}
+
+/**
+ * Read an extraction from the blob store
+ *
+ * @internal
+ */
+function readExtractionBlob(blob: string): unknown {
+  if (extractionCache.has(blob)) {
+    return extractionCache.get(blob);
+  }
+
+  try {
+    const content = readNoteBlob(blob);
+    if (!content) {
+      return undefined;
+    }
+    const extraction: unknown = JSON.parse(gunzipSync(content).toString('utf-8'));
+    extractionCache.set(blob, extraction);
+    return extraction;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Replace a step's blob reference by the extraction
+ *
+ * @internal
+ */
+function loadStepPayload(step: unknown): unknown {
+  if (!step || typeof step !== 'object' || !('extractionBlob' in step) || typeof step.extractionBlob !== 'string') {
+    return step;
+  }
+
+  const { extractionBlob, ...rest } = step;
+  const extraction = readExtractionBlob(extractionBlob);
+  // A blob that was never pulled (or is corrupt): keep the step, without its extraction
+  return extraction === undefined ? rest : { ...rest, extraction };
+}
+
+/**
+ * Resolve the blob references of a result read from a note
+ *
+ * @param result - Parsed (not yet validated) result of a stored run
+ * @returns The result with each `extractionBlob` replaced by its extraction
+ */
+export function loadLargePayloads(result: unknown): unknown {
+  if (!result || typeof result !== 'object' || !('phases' in result) || !Array.isArray(result.phases)) {
+    return result;
+  }
+
+  const phases: unknown[] = result.phases;
+  return {
+    ...result,
+    phases: phases.map(phase =>
+      phase && typeof phase === 'object' && 'steps' in phase && Array.isArray(phase.steps)
+        ? { ...phase, steps: (phase.steps as unknown[]).map(loadStepPayload) }
+        : phase
+    ),
+  };
+}
+
+/**
+ * Count the blob references in a notes ref (one git spawn)
+ *
+ * @internal
+ * @returns Count per blob, or null if git could not answer (e.g. output over maxBuffer)
+ */
+function countBlobReferences(notesRef: string): Map<string, number> | null {
+  const result = executeGitCommand(
+    ['grep', '--no-color', '-h', '-o', '-E', BLOB_REFERENCE_PATTERN, `refs/notes/${notesRef}`, '--'],
+    { ignoreErrors: true, suppressStderr: true, maxBuffer: 256 * 1024 * 1024 }
+  );
+  if (result.error) {
+    return null;
+  }
+
+  // Exits 1 when nothing matches, 128 when the ref does not exist
+  const counts = new Map<string, number>();
+  for (const line of result.success ? result.stdout.split('\n') : []) {
+    const blob = /[0-9a-f]{40,64}/.exec(line)?.[0];
+    if (blob) {
+      counts.set(blob, (counts.get(blob) ?? 0) + 1);
+    }
+  }
+  return counts;
+}
+
+/**
+ * Get each blob's compressed and uncompressed size (one git spawn)
+ *
+ * @internal
+ */
+function getBlobSizes(blobs: string[]): Map<string, { stored: number; inline: number }> {
+  const sizes = new Map<string, { stored: number; inline: number }>();
+  if (blobs.length === 0) {
+    return sizes;
+  }
+
+  const result = executeGitCommand(['cat-file', '--batch'], {
+    stdin: `${blobs.join('\n')}\n`,
+    encoding: 'latin1',
+    trimOutput: false,
+    ignoreErrors: true,
+    suppressStderr: true,
+    maxBuffer: 256 * 1024 * 1024,
+  });
+  const output = Buffer.from(result.stdout, 'latin1');
+
+  // Each object: "<sha> blob <size>\n<content>\n", or "<sha> missing\n"
+  let offset = 0;
+  while (offset < output.length) {
+    const headerEnd = output.indexOf(0x0a, offset);
+    if (headerEnd === -1) {
+      break;
+    }
+    const [blob, type, size] = output.toString('latin1', offset, headerEnd).split(' ');
+    offset = headerEnd + 1;
+    if (type !== 'blob') {
+      continue;
+    }
+
+    const stored = Number.parseInt(size, 10);
+    // gzip ends with the uncompressed size (mod 2^32), little-endian
+    const inline = stored >= 4 ? output.readUInt32LE(offset + stored - 4) : 0;
+    sizes.set(blob, { stored, inline });
+    offset += stored + 1;
+  }
+  return sizes;
+}
+
+/**
+ * Measure the space the blob store saves
+ *
+ * Two git spawns, whatever the size of the history.
+ *
+ * @param notesRef - Validation history notes ref (default: vibe-validate/validate)
+ * @returns Blob count and sizes; all zero when nothing is stored as a blob
+ */
+export function getBlobStorageStats(notesRef: string = 'vibe-validate/validate'): BlobStorageStats {
+  const references = countBlobReferences(notesRef) ?? new Map<string, number>();
+  const sizes = getBlobSizes([...references.keys()]);
+
+  let storedBytes = 0;
+  let inlineBytes = 0;
+  let referenceCount = 0;
+  for (const [blob, count] of references) {
+    const size = sizes.get(blob);
+    if (!size) {
+      continue; // Referenced but not pulled
+    }
+    storedBytes += size.stored;
+    inlineBytes += size.inline * count;
+    referenceCount += count;
+  }
+
+  return {
+    blobs: sizes.size,
+    references: referenceCount,
+    storedBytes,
+    inlineBytes,
+    savedBytes: inlineBytes - storedBytes,
+  };
+}
+
+/**
+ * Remove the blobs no run in the history references any more
+ *
+ * Pruning runs leaves their blobs behind. Removing the blobs' notes lets git
+ * collect them. Blobs are listed before the references are counted, so a blob
+ * stored meanwhile is kept. Three git spawns, whatever the size of the history.
+ *
+ * @param notesRef - Validation history notes ref (default: vibe-validate/validate)
+ * @returns Number of blobs removed
+ */
+export function removeUnreferencedBlobs(notesRef: string = 'vibe-validate/validate'): number {
+  const blobs = listNoteObjects(HISTORY_BLOBS_REF as NotesRef);
+  if (blobs.length === 0) {
+    return 0;
+  }
+
+  const references = countBlobReferences(notesRef);
+  if (!references) {
+    return 0; // Unknown which are in use - keep them all
+  }
+
+  const unreferenced = blobs.filter(blob => !references.has(blob));
+  return removeNotes(HISTORY_BLOBS_REF as NotesRef, unreferenced) ? unreferenced.length : 0;
+}
@@ -0,0 +1,250 @@
+/**
+ * Run diff - what changed between two validation runs
+ *
+ * When a branch goes red, the useful question is what changed since the last
+ * green run. Compares two runs step by step (newly failing, fixed, still
+ * failing) and error by error, and adds the git diffstat between the commits
+ * they ran on.
+ *
+ * Errors are matched by step, file, code and the first line of the message -
+ * not by line number, which any edit above the error shifts.
+ *
+ * @packageDocumentation
+ */
+
+import { getCommitDiffStats } from '@vibe-validate/git';
+
+import type { HistoryNote, ValidationRun } from './types.js';
+
+/**
+ * Full SHA-1 or SHA-256 object id
+ */
+const OBJECT_ID_PATTERN = /^(?:[0-9a-f]{40}|[0-9a-f]{64})$/;
+
+/**
+ * A run and the tree hash it was recorded under
+ */
+export interface RunRef {
+  treeHash: string;
+  run: ValidationRun;
+}
+
+/**
+ * One side of a diff
+ */
+export interface DiffedRun {
+  treeHash: string;
+  runId: string;
+  timestamp: string;
+  passed: boolean;
+  branch: string;
+  headCommit: string;
+  /** The tree had changes not in headCommit (the diffstat then misses them) */
+  uncommittedChanges: boolean;
+}
+
+/**
+ * An error of a failing step
+ */
+export interface DiffedError {
+  step: string;
+  file?: string;
+  line?: number;
+  code?: string;
+  message: string;
+}
+
+/**
+ * Lines changed in one file
+ */
+export interface FileDiffStat {
+  file: string;
+  insertions: number;
+  deletions: number;
+}
+
+/**
+ * Files changed between the two runs' commits
+ */
+export interface DiffStat {
+  filesChanged: number;
+  insertions: number;
+  deletions: number;
+  files: FileDiffStat[];
+}
+
+/**
+ * Differences between two validation runs
+ */
+export interface RunDiff {
+  from: DiffedRun;
+  to: DiffedRun;
+  /** Steps that fail in `to` but passed (or did not exist) in `from` */
+  newlyFailing: string[];
+  /** Steps that failed in `from` and pass in `to` */
+  fixed: string[];
+  /** Steps that fail in both */
+  stillFailing: string[];
+  errors: {
+    /** Only in `to` */
+    new: DiffedError[];
+    /** Only in `from` */
+    resolved: DiffedError[];
+    /** In both (as reported in `to`) */
+    unchanged: DiffedError[];
+  };
+  /** Absent when it could not be computed (see diffstatError) */
+  diffstat?: DiffStat;
+  /** Why there is no diffstat (e.g. a commit not fetched locally) */
+  diffstatError?: string;
+}
+
+/**
+ * Describe one side of a diff
+ *
+ * @internal
+ */
+function toDiffedRun({ treeHash, run }: RunRef): DiffedRun {
+  return {
+    treeHash,
+    runId: run.id,
+    timestamp: run.timestamp,
+    passed: run.passed,
+    branch: run.branch,
+    headCommit: run.headCommit,
+    uncommittedChanges: run.uncommittedChanges,
+  };
+}
+
+/**
+ * Map each step name to whether it passed
+ *
+ * @internal
+ */
+function getStepOutcomes(run: ValidationRun): Map<string, boolean> {
+  return new Map((run.result.phases ?? []).flatMap(phase => phase.steps).map(step => [step.name, step.passed]));
+}
+
+/**
+ * Collect the errors of a run's failing steps, keyed for matching
+ *
+ * @internal
+ */
+function getErrors(run: ValidationRun): Map<string, DiffedError> {
+  const errors = new Map<string, DiffedError>();
+  for (const step of (run.result.phases ?? []).flatMap(phase => phase.steps)) {
+    if (step.passed) {
+      continue;
+    }
+    for (const error of step.extraction?.errors ?? []) {
+      const message = error.message.split('\n')[0].trim();
+      const key = [step.name, error.file ?? '', error.code ?? '', message].join('\0');
+      errors.set(key, {
+        step: step.name,
+        ...(error.file === undefined ? {} : { file: error.file }),
+        ...(error.line === undefined ? {} : { line: error.line }),
+        ...(error.code === undefined ? {} : { code: error.code }),
+        message,
+      });
+    }
+  }
+  return errors;
+}
+
+/**
+ * Compare two validation runs step by step and error by error
+ *
+ * Does not include the diffstat (see {@link getRunDiffStat}).
+ *
+ * @param from - Earlier run (e.g. the last green one)
+ * @param to - Later run
+ * @returns Step and error changes from `from` to `to`
+ */
+export function diffValidationRuns(from: RunRef, to: RunRef): RunDiff {
+  const stepsBefore = getStepOutcomes(from.run);
+  const stepsAfter = getStepOutcomes(to.run);
+  const failingAfter = [...stepsAfter].filter(([, passed]) => !passed).map(([name]) => name);
+
+  const errorsBefore = getErrors(from.run);
+  const errorsAfter = getErrors(to.run);
+
+  return {
+    from: toDiffedRun(from),
+    to: toDiffedRun(to),
+    newlyFailing: failingAfter.filter(name => stepsBefore.get(name) !== false),
+    fixed: [...stepsBefore].filter(([name, passed]) => !passed && stepsAfter.get(name) === true).map(([name]) => name),
+    stillFailing: failingAfter.filter(name => stepsBefore.get(name) === false),
+    errors: {
+      new: [...errorsAfter].filter(([key]) => !errorsBefore.has(key)).map(([, error]) => error),
+      resolved: [...errorsBefore].filter(([key]) => !errorsAfter.has(key)).map(([, error]) => error),
+      unchanged: [...errorsAfter].filter(([key]) => errorsBefore.has(key)).map(([, error]) => error),
+    },
+  };
+}
+
+/**
+ * Pick the runs to diff by default: the latest passing run and the latest run
+ *
+ * @param notes - History notes (e.g. from getAllHistoryNotes())
+ * @param branch - Only consider runs on this branch
+ * @returns The two runs, or null if there is no passing run or nothing after it
+ */
+export function findDefaultDiffRuns(
+  notes: HistoryNote[],
+  branch?: string
+): { from: RunRef; to: RunRef } | null {
+  const runs = notes
+    // treeHash is always populated by readHistoryNote (falls back to ref path)
+    // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+    .flatMap(note => note.runs.map(run => ({ treeHash: note.treeHash!, run })))
+    .filter(({ run }) => branch === undefined || run.branch === branch)
+    .sort((a, b) => a.run.timestamp.localeCompare(b.run.timestamp, 'en'));
+
+  const to = runs.at(-1);
+  const from = runs.findLast(({ run }) => run.passed);
+  if (!to || !from || from === to) {
+    return null;
+  }
+  return { from, to };
+}
+
+/**
+ * Get the diffstat between the commits two runs were made on
+ *
+ * As `git diff from to`: every change between the two commits, whichever
+ * branch each is on and in whichever order they are given.
+ *
+ * @param fromCommit - Earlier run's headCommit
+ * @param toCommit - Later run's headCommit
+ * @returns Files changed with line counts
+ * @throws Error if a commit is not a full object id (notes may come from a
+ *   remote) or git can't diff the commits (e.g. one was not fetched)
+ */
+export function getRunDiffStat(fromCommit: string, toCommit: string): DiffStat {
+  for (const commit of [fromCommit, toCommit]) {
+    if (!OBJECT_ID_PATTERN.test(commit)) {
+      throw new Error(`Invalid headCommit: expected a 40 or 64 character hex object id, got "${commit}"`);
+    }
+  }
+
+  const files: FileDiffStat[] = [];
+  for (const line of getCommitDiffStats(fromCommit, toCommit).split('\n')) {
+    const [insertions, deletions, file] = line.split('\t');
+    if (!file) {
+      continue;
+    }
+    // Binary files are reported as "-\t-\tpath"
+    files.push({
+      file,
+      insertions: insertions === '-' ? 0 : Number.parseInt(insertions, 10),
+      deletions: deletions === '-' ? 0 : Number.parseInt(deletions, 10),
+    });
+  }
+
+  return {
+    filesChanged: files.length,
+    insertions: files.reduce((sum, file) => sum + file.insertions, 0),
+    deletions: files.reduce((sum, file) => sum + file.deletions, 0),
+    files,
+  };
+}
@@ -0,0 +1,445 @@
+/**
+ * History export - normalized rows for dashboards and test-report tooling
+ *
+ * Flattens validation runs and run cache entries into three tables:
+ *
+ * - **runs**: one row per validation run or cached `run` command
+ * - **steps**: one row per step of a validation run
+ * - **errors**: one row per extracted error, of a step or a cached command
+ *
+ * and formats them as JSON Lines (`type` tells the table), SQL statements for
+ * SQLite, or JUnit XML with one test suite per run.
+ *
+ * @packageDocumentation
+ */
+
+import type { StepResult } from '@vibe-validate/core';
+import { encodeRunCacheKey } from '@vibe-validate/git';
+
+import type { HistoryNote, RunCacheNote } from './types.js';
+
+/** Export formats */
+export type HistoryExportFormat = 'junit' | 'jsonl' | 'sqlite';
+
+/**
+ * A validation run or cached command
+ */
+export interface ExportedRun {
+  /** `validate:<treeHash>:<run id>` or `run:<treeHash>:<cache key>` (see encodeRunCacheKey) */
+  id: string;
+  kind: 'validate' | 'run';
+  treeHash: string;
+  timestamp: string;
+  passed: boolean;
+  durationSecs: number;
+  branch?: string;
+  headCommit?: string;
+  profile?: string;
+  partial?: boolean;
+  /** Cached command (kind `run`) */
+  command?: string;
+  /** Working directory of the cached command, relative to the git root */
+  workdir?: string;
+}
+
+/**
+ * A step of a validation run
+ */
+export interface ExportedStep {
+  runId: string;
+  phase: string;
+  name: string;
+  passed: boolean;
+  durationSecs: number;
+  exitCode: number;
+  cached: boolean;
+  skipped: boolean;
+  flaky: boolean;
+  timedOut: boolean;
+}
+
+/**
+ * An extracted error
+ */
+export interface ExportedError {
+  runId: string;
+  /** Step that reported it (absent for cached commands) */
+  step?: string;
+  file?: string;
+  line?: number;
+  column?: number;
+  code?: string;
+  severity?: string;
+  message: string;
+}
+
+/**
+ * Normalized history
+ */
+export interface HistoryExport {
+  runs: ExportedRun[];
+  steps: ExportedStep[];
+  errors: ExportedError[];
+}
+
+/** An extracted error, as stored in an extraction */
+type ExtractedError = NonNullable<StepResult['extraction']>['errors'][number];
+
+/**
+ * Build an error row
+ *
+ * @internal
+ */
+function toErrorRow(runId: string, step: string | undefined, error: ExtractedError): ExportedError {
+  return {
+    runId,
+    ...(step === undefined ? {} : { step }),
+    ...(error.file === undefined ? {} : { file: error.file }),
+    ...(error.line === undefined ? {} : { line: error.line }),
+    ...(error.column === undefined ? {} : { column: error.column }),
+    ...(error.code === undefined ? {} : { code: error.code }),
+    ...(error.severity === undefined ? {} : { severity: error.severity }),
+    message: error.message,
+  };
+}
+
+/**
+ * Add a validation run with its steps and their errors
+ *
+ * @internal
+ */
+function addValidationRun(exported: HistoryExport, treeHash: string, run: HistoryNote['runs'][number]): void {
+  const runId = `validate:${treeHash}:${run.id}`;
+  exported.runs.push({
+    id: runId,
+    kind: 'validate',
+    treeHash,
+    timestamp: run.timestamp,
+    passed: run.passed,
+    durationSecs: run.duration / 1000,
+    branch: run.branch,
+    headCommit: run.headCommit,
+    ...(run.result.profile ? { profile: run.result.profile } : {}),
+    ...(run.result.partial ? { partial: true } : {}),
+  });
+
+  for (const phase of run.result.phases ?? []) {
+    for (const step of phase.steps) {
+      exported.steps.push({
+        runId,
+        phase: phase.name,
+        name: step.name,
+        passed: step.passed,
+        durationSecs: step.durationSecs,
+        exitCode: step.exitCode,
+        cached: step.isCachedResult ?? false,
+        skipped: step.skipped !== undefined,
+        flaky: step.flaky ?? false,
+        timedOut: step.timedOut ?? false,
+      });
+      exported.errors.push(...(step.extraction?.errors ?? []).map(error => toErrorRow(runId, step.name, error)));
+    }
+  }
+}
+
+/**
+ * Add a cached command with its errors
+ *
+ * @internal
+ */
+function addRunCacheEntry(exported: HistoryExport, entry: RunCacheNote): void {
+  const treeHash = entry.treeHash ?? '';
+  // One note per tree and command + workdir, so the cache key keeps the id unique
+  const runId = `run:${treeHash}:${encodeRunCacheKey(entry.command, entry.workdir)}`;
+  exported.runs.push({
+    id: runId,
+    kind: 'run',
+    treeHash,
+    timestamp: entry.timestamp,
+    passed: entry.exitCode === 0,
+    durationSecs: entry.durationSecs,
+    command: entry.command,
+    workdir: entry.workdir,
+  });
+  exported.errors.push(...(entry.extraction?.errors ?? []).map(error => toErrorRow(runId, undefined, error)));
+}
+
+/**
+ * Flatten validation and run cache history into normalized rows
+ *
+ * @param notes - Validation history notes (e.g. from getAllHistoryNotes())
+ * @param runCacheEntries - Run cache entries (e.g. from getAllRunCacheEntries())
+ * @returns Runs (oldest first), steps and errors
+ */
+export function buildHistoryExport(notes: HistoryNote[], runCacheEntries: RunCacheNote[]): HistoryExport {
+  const exported: HistoryExport = { runs: [], steps: [], errors: [] };
+
+  for (const note of notes) {
+    for (const run of note.runs) {
+      // treeHash is always populated by readHistoryNote (falls back to ref path)
+      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+      addValidationRun(exported, note.treeHash!, run);
+    }
+  }
+  for (const entry of runCacheEntries) {
+    addRunCacheEntry(exported, entry);
+  }
+
+  exported.runs.sort((a, b) => a.timestamp.localeCompare(b.timestamp, 'en'));
+  return exported;
+}
+
+/**
+ * Format as JSON Lines: one object per row, with `type` run, step or error
+ *
+ * @param data - Normalized history
+ * @returns JSON Lines text
+ */
+export function formatHistoryJsonl(data: HistoryExport): string {
+  const lines = [
+    ...data.runs.map(row => JSON.stringify({ type: 'run', ...row })),
+    ...data.steps.map(row => JSON.stringify({ type: 'step', ...row })),
+    ...data.errors.map(row => JSON.stringify({ type: 'error', ...row })),
+  ];
+  return lines.map(line => `${line}\n`).join('');
+}
+
+const SQL_TEXT_REQUIRED = 'TEXT NOT NULL';
+const SQL_INTEGER_REQUIRED = 'INTEGER NOT NULL';
+const SQL_RUN_ID = 'TEXT NOT NULL REFERENCES runs(id)';
+
+/** SQLite tables, their columns and the row field each column holds */
+const SQL_TABLES = {
+  runs: [
+    ['id', 'TEXT PRIMARY KEY'],
+    ['kind', SQL_TEXT_REQUIRED],
+    ['tree_hash', SQL_TEXT_REQUIRED],
+    ['timestamp', SQL_TEXT_REQUIRED],
+    ['passed', SQL_INTEGER_REQUIRED],
+    ['duration_secs', 'REAL'],
+    ['branch', 'TEXT'],
+    ['head_commit', 'TEXT'],
+    ['profile', 'TEXT'],
+    ['partial', 'INTEGER'],
+    ['command', 'TEXT'],
+    ['workdir', 'TEXT'],
+  ],
+  steps: [
+    ['run_id', SQL_RUN_ID],
+    ['phase', SQL_TEXT_REQUIRED],
+    ['name', SQL_TEXT_REQUIRED],
+    ['passed', SQL_INTEGER_REQUIRED],
+    ['duration_secs', 'REAL'],
+    ['exit_code', 'INTEGER'],
+    ['cached', SQL_INTEGER_REQUIRED],
+    ['skipped', SQL_INTEGER_REQUIRED],
+    ['flaky', SQL_INTEGER_REQUIRED],
+    ['timed_out', SQL_INTEGER_REQUIRED],
+  ],
+  errors: [
+    ['run_id', SQL_RUN_ID],
+    ['step', 'TEXT'],
+    ['file', 'TEXT'],
+    ['line', 'INTEGER'],
+    ['column', 'INTEGER'],
+    ['code', 'TEXT'],
+    ['severity', 'TEXT'],
+    ['message', SQL_TEXT_REQUIRED],
+  ],
+} as const;
+
+/** A field of an exported row */
+type ExportedValue = string | number | boolean | undefined;
+
+/**
+ * Quote a value as an SQL literal
+ *
+ * @internal
+ */
+function toSqlLiteral(value: ExportedValue): string {
+  if (value === undefined) {
+    return 'NULL';
+  }
+  if (typeof value === 'boolean') {
+    return value ? '1' : '0';
+  }
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? String(value) : 'NULL';
+  }
+  return `'${value.replaceAll("'", "''")}'`;
+}
+
+/**
+ * Name of the row field a snake_case column holds (`tree_hash` -> `treeHash`)
+ *
+ * @internal
+ */
+function toFieldName(column: string): string {
+  return column.replaceAll(/_([a-z])/g, (_match, letter: string) => letter.toUpperCase());
+}
+
+/**
+ * Format as SQL statements that create and fill the runs, steps and errors
+ * tables (for `sqlite3 <db> < export.sql`)
+ *
+ * @param data - Normalized history
+ * @returns SQL script, in one transaction
+ */
+export function formatHistorySql(data: HistoryExport): string {
+  const statements = ['BEGIN TRANSACTION;'];
+  for (const [table, columns] of Object.entries(SQL_TABLES)) {
+    const definitions = columns.map(([column, type]) => `"${column}" ${type}`).join(', ');
+    statements.push(`CREATE TABLE ${table} (${definitions});`);
+
+    const names = columns.map(([column]) => `"${column}"`).join(', ');
+    for (const row of data[table as keyof HistoryExport]) {
+      const record: Record<string, ExportedValue> = { ...row };
+      const values = columns.map(([column]) => toSqlLiteral(record[toFieldName(column)])).join(', ');
+      statements.push(`INSERT INTO ${table} (${names}) VALUES (${values});`);
+    }
+  }
+  statements.push('COMMIT;');
+  return `${statements.join('\n')}\n`;
+}
+
+/**
+ * Whether XML 1.0 allows a character (control characters other than tab and
+ * newlines are not, e.g. a stray ANSI escape)
+ *
+ * @internal
+ */
+function isXmlCharacter(char: string): boolean {
+  const code = char.codePointAt(0) ?? 0;
+  return code >= 0x20 || code === 0x09 || code === 0x0a || code === 0x0d;
+}
+
+/**
+ * Escape text for an XML attribute or element
+ *
+ * @internal
+ */
+function escapeXml(text: string): string {
+  const escaped = text
+    .replaceAll('&', '&amp;')
+    .replaceAll('<', '&lt;')
+    .replaceAll('>', '&gt;')
+    .replaceAll('"', '&quot;');
+  return [...escaped].filter(isXmlCharacter).join('');
+}
+
+/**
+ * Format an error as a line of a failure body
+ *
+ * @internal
+ */
+function formatFailureLine(error: ExportedError): string {
+  const location = [error.file, error.line, error.column].filter(part => part !== undefined).join(':');
+  const prefix = location ? `${location}: ` : '';
+  const code = error.code ? ` [${error.code}]` : '';
+  return `${prefix}${error.message}${code}`;
+}
+
+/**
+ * Format one test case, with its errors as the failure body
+ *
+ * @internal
+ */
+function formatTestCase(
+  className: string,
+  name: string,
+  durationSecs: number,
+  outcome: { passed: boolean; skipped?: boolean; exitCode?: number; errors: ExportedError[] }
+): string[] {
+  const open = `    <testcase classname="${escapeXml(className)}" name="${escapeXml(name)}" time="${durationSecs}"`;
+  if (outcome.skipped) {
+    return [`${open}>`, '      <skipped/>', '    </testcase>'];
+  }
+  if (outcome.passed) {
+    return [`${open}/>`];
+  }
+
+  const [first] = outcome.errors;
+  const message = first ? first.message.split('\n')[0] : `exit code ${outcome.exitCode ?? 'unknown'}`;
+  const body = outcome.errors.map(formatFailureLine).join('\n');
+  return [
+    `${open}>`,
+    `      <failure message="${escapeXml(message)}">${escapeXml(body)}</failure>`,
+    '    </testcase>',
+  ];
+}
+
+/**
+ * Group rows by the run they belong to
+ *
+ * @internal
+ */
+function groupByRun<T extends { runId: string }>(rows: T[]): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const row of rows) {
+    const group = groups.get(row.runId);
+    if (group) {
+      group.push(row);
+    } else {
+      groups.set(row.runId, [row]);
+    }
+  }
+  return groups;
+}
+
+/**
+ * Format a validation run as a test suite, one test case per step
+ *
+ * @internal
+ */
+function formatValidationSuite(run: ExportedRun, steps: ExportedStep[], errors: ExportedError[]): string[] {
+  const failures = steps.filter(step => !step.passed).length;
+  const skipped = steps.filter(step => step.skipped).length;
+  const name = `validate ${run.treeHash.slice(0, 7)} (${run.branch ?? 'unknown'})`;
+
+  return [
+    `  <testsuite name="${escapeXml(name)}" id="${escapeXml(run.id)}" timestamp="${run.timestamp}" tests="${steps.length}" failures="${failures}" skipped="${skipped}" time="${run.durationSecs}">`,
+    ...steps.flatMap(step =>
+      formatTestCase(step.phase, step.name, step.durationSecs, {
+        ...step,
+        errors: errors.filter(error => error.step === step.name),
+      })
+    ),
+    '  </testsuite>',
+  ];
+}
+
+/**
+ * Format a cached command as a test suite with one test case
+ *
+ * @internal
+ */
+function formatRunCacheSuite(run: ExportedRun, errors: ExportedError[]): string[] {
+  const className = run.workdir ? `run (${run.workdir})` : 'run';
+  const name = `run ${run.treeHash.slice(0, 7)}`;
+
+  return [
+    `  <testsuite name="${escapeXml(name)}" id="${escapeXml(run.id)}" timestamp="${run.timestamp}" tests="1" failures="${Number(!run.passed)}" skipped="0" time="${run.durationSecs}">`,
+    ...formatTestCase(className, run.command ?? '', run.durationSecs, { passed: run.passed, errors }),
+    '  </testsuite>',
+  ];
+}
+
+/**
+ * Format as JUnit XML: one test suite per run, one test case per step (or
+ * per cached command)
+ *
+ * @param data - Normalized history
+ * @returns JUnit XML document
+ */
+export function formatHistoryJunit(data: HistoryExport): string {
+  const stepsByRun = groupByRun(data.steps);
+  const errorsByRun = groupByRun(data.errors);
+  const suites = data.runs.flatMap(run => {
+    const errors = errorsByRun.get(run.id) ?? [];
+    return run.kind === 'validate'
+      ? formatValidationSuite(run, stepsByRun.get(run.id) ?? [], errors)
+      : formatRunCacheSuite(run, errors);
+  });
+  const lines = ['<?xml version="1.0" encoding="UTF-8"?>', '<testsuites name="vibe-validate">', ...suites, '</testsuites>'];
+  return `${lines.join('\n')}\n`;
+}
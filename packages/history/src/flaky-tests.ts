@@ -0,0 +1,305 @@
+/**
+ * Flaky test index - flakiness of individual tests across the history
+ *
+ * A step's `flaky` flag only covers a retry within one run. The history holds
+ * more evidence: the extracted errors of every failed step, on every tree.
+ * A test is identified by the file, test name and first message line of its
+ * error, and followed through every run of its step:
+ *
+ * - it **failed** when the step failed with that error
+ * - it **passed** when the step passed
+ * - otherwise its outcome is unknown (the step failed for another reason)
+ *
+ * Two patterns make a test flaky. It failed and later passed on the same tree
+ * hash, so nothing in the code changed. Or it keeps coming back: it failed,
+ * passed, then failed again. A test broken once and then fixed shows neither.
+ *
+ * Score: `0.5` per tree where it failed and then passed, plus the share of its
+ * failures that came back after a pass, capped at 1.
+ *
+ * @packageDocumentation
+ */
+
+import type { StepResult, ValidationResult } from '@vibe-validate/core';
+
+import { loadNoteIndex } from './note-index.js';
+import type { HistoryNote } from './types.js';
+
+const DEFAULT_NOTES_REF = 'vibe-validate/validate';
+
+/** Flaky test index file, under `.git/vibe-validate/` */
+const FLAKY_TEST_INDEX_FILE = 'flaky-test-index.json';
+
+/** Bump when the indexed fields change (older indexes are rebuilt) */
+const FLAKY_TEST_INDEX_VERSION = 1;
+
+/** Score from which a failure is reported as probably flaky */
+export const FLAKY_TEST_THRESHOLD = 0.3;
+
+/** Score added per tree where the test failed and then passed */
+const SAME_TREE_WEIGHT = 0.5;
+
+/**
+ * Flakiness of one test of one step
+ */
+export interface FlakyTestRecord {
+  /** Step the test belongs to */
+  step: string;
+  /** Test identity (see {@link getTestId}) */
+  test: string;
+  /** Runs where the test's outcome is known */
+  runs: number;
+  /** Runs where it failed */
+  failures: number;
+  /** Tree hashes where it failed and later passed */
+  sameTreeFlips: number;
+  /** Failures that came after it had passed again */
+  recurrences: number;
+  /** Between 0 and 1 */
+  score: number;
+  /** Timestamp of the most recent failure */
+  lastFailed: string;
+}
+
+/** An extracted error, as stored in a step's extraction */
+type ExtractedError = NonNullable<StepResult['extraction']>['errors'][number];
+
+/**
+ * Identify the test an extracted error belongs to
+ *
+ * Test extractors (JUnit, Playwright, Go, Cargo, Ava, TAP, Gradle) put the
+ * test name in the error's `context`, so tests in one file that fail with
+ * the same assertion stay apart.
+ *
+ * @param error - Error from a step's extraction
+ * @returns "file › test name › first line of message", leaving out the parts
+ *   the error does not have
+ */
+export function getTestId(error: ExtractedError): string {
+  const message = error.message.split('\n')[0].trim();
+  const testName = error.context?.split('\n')[0].trim();
+  return [error.file, testName, message].filter(Boolean).join(' › ');
+}
+
+/**
+ * One run of a test
+ *
+ * @internal
+ */
+interface TestOutcome {
+  treeHash: string;
+  timestamp: string;
+  failed: boolean;
+}
+
+/**
+ * Tests a step reports as failed
+ *
+ * @internal
+ */
+function getFailedTests(step: StepResult): string[] {
+  return step.passed ? [] : (step.extraction?.errors ?? []).map(getTestId);
+}
+
+/**
+ * What the flaky test index needs of a run: the outcome of each step that
+ * ran, with the tests it reported as failed
+ *
+ * @internal
+ */
+interface FlakyIndexedRun {
+  treeHash: string;
+  timestamp: string;
+  steps: Array<{ name: string; passed: boolean; failedTests: string[] }>;
+}
+
+/**
+ * Extract what the flaky test index needs of a note's runs
+ *
+ * @internal
+ */
+function indexNoteRuns(note: HistoryNote): FlakyIndexedRun[] {
+  return note.runs.map(run => ({
+    // treeHash is always populated by readHistoryNote (falls back to ref path)
+    // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+    treeHash: note.treeHash!,
+    timestamp: run.timestamp,
+    steps: (run.result?.phases ?? [])
+      .flatMap(phase => phase.steps ?? [])
+      .filter(step => !step.skipped && !step.isCachedResult)
+      .map(step => ({ name: step.name, passed: step.passed, failedTests: getFailedTests(step) })),
+  }));
+}
+
+/**
+ * Collect each test's outcomes in chronological order, keyed by step and test
+ *
+ * @internal
+ */
+function collectOutcomes(runs: FlakyIndexedRun[]): Map<string, { step: string; test: string; outcomes: TestOutcome[] }> {
+  const stepRuns = [...runs]
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp, 'en'))
+    .flatMap(({ steps, treeHash, timestamp }) => steps.map(step => ({ step, treeHash, timestamp })));
+
+  // Every test that ever failed, per step
+  const tests = new Map<string, { step: string; test: string; outcomes: TestOutcome[] }>();
+  for (const { step } of stepRuns) {
+    for (const test of step.failedTests) {
+      tests.set(`${step.name}\0${test}`, { step: step.name, test, outcomes: [] });
+    }
+  }
+
+  for (const { step, treeHash, timestamp } of stepRuns) {
+    const failedTests = new Set(step.failedTests);
+    for (const entry of tests.values()) {
+      if (entry.step !== step.name) {
+        continue;
+      }
+      if (failedTests.has(entry.test)) {
+        entry.outcomes.push({ treeHash, timestamp, failed: true });
+      } else if (step.passed) {
+        entry.outcomes.push({ treeHash, timestamp, failed: false });
+      }
+    }
+  }
+
+  return tests;
+}
+
+/**
+ * Score one test from its outcomes
+ *
+ * @internal
+ */
+function scoreTest(step: string, test: string, outcomes: TestOutcome[]): FlakyTestRecord {
+  const failedTrees = new Set<string>();
+  const flippedTrees = new Set<string>();
+  let recurrences = 0;
+  let lastFailed = '';
+  let hasFailed = false;
+  let hasPassedSinceFailure = false;
+
+  for (const outcome of outcomes) {
+    if (outcome.failed) {
+      if (hasPassedSinceFailure) {
+        recurrences++;
+      }
+      failedTrees.add(outcome.treeHash);
+      lastFailed = outcome.timestamp;
+      hasFailed = true;
+      hasPassedSinceFailure = false;
+    } else {
+      if (failedTrees.has(outcome.treeHash)) {
+        flippedTrees.add(outcome.treeHash);
+      }
+      hasPassedSinceFailure = hasFailed;
+    }
+  }
+
+  const failures = outcomes.filter(outcome => outcome.failed).length;
+  const score = Math.min(1, SAME_TREE_WEIGHT * flippedTrees.size + recurrences / failures);
+  return {
+    step,
+    test,
+    runs: outcomes.length,
+    failures,
+    sameTreeFlips: flippedTrees.size,
+    recurrences,
+    score: Math.round(score * 100) / 100,
+    lastFailed,
+  };
+}
+
+/**
+ * Build the flaky test index from the validation history
+ *
+ * @param notes - History notes (e.g. from getAllHistoryNotes())
+ * @returns Every test that failed at least once and shows signs of flakiness,
+ *   most flaky first
+ *
+ * @example
+ * ```typescript
+ * const index = buildFlakyTestIndex(await getAllHistoryNotes());
+ * // [{ step: 'Tests', test: 'src/api.test.ts › expected 200 to be 503', score: 1, ... }]
+ * ```
+ */
+export function buildFlakyTestIndex(notes: HistoryNote[]): FlakyTestRecord[] {
+  return scoreTests(notes.flatMap(indexNoteRuns));
+}
+
+/**
+ * Score every test that failed in the given runs
+ *
+ * @internal
+ */
+function scoreTests(runs: FlakyIndexedRun[]): FlakyTestRecord[] {
+  return [...collectOutcomes(runs).values()]
+    .map(({ step, test, outcomes }) => scoreTest(step, test, outcomes))
+    .filter(record => record.score > 0)
+    .sort((a, b) => b.score - a.score || b.failures - a.failures);
+}
+
+/**
+ * Load the flaky test index, kept up to date in `.git/vibe-validate/flaky-test-index.json`
+ *
+ * Like the search index, only notes added or changed since the last load
+ * are read. With `maxNoteReads`, a load reads no more than that many: a
+ * large history is then indexed over several loads, and scored meanwhile
+ * from the notes read so far.
+ *
+ * @param notesRef - Git notes ref (default: vibe-validate/validate)
+ * @param maxNoteReads - Read at most this many notes (default: all)
+ * @returns The flaky test index, as {@link buildFlakyTestIndex} builds it
+ *
+ * @example
+ * ```typescript
+ * // Bounded, before printing a failure
+ * const index = await loadFlakyTestIndex(undefined, 200);
+ * ```
+ */
+export async function loadFlakyTestIndex(
+  notesRef: string = DEFAULT_NOTES_REF,
+  maxNoteReads?: number
+): Promise<FlakyTestRecord[]> {
+  const runs = await loadNoteIndex({
+    file: FLAKY_TEST_INDEX_FILE,
+    version: FLAKY_TEST_INDEX_VERSION,
+    notesRef,
+    indexNote: indexNoteRuns,
+    maxNoteReads,
+  });
+  return scoreTests(runs);
+}
+
+/**
+ * Annotate failing steps with the tests among their errors that are probably flaky
+ *
+ * @param result - Validation result
+ * @param index - Flaky test index (from {@link buildFlakyTestIndex})
+ * @param threshold - Minimum score (default: {@link FLAKY_TEST_THRESHOLD})
+ * @returns The result, with `flakyTests` set on failing steps where any match
+ */
+export function annotateFlakyTests(
+  result: ValidationResult,
+  index: FlakyTestRecord[],
+  threshold: number = FLAKY_TEST_THRESHOLD
+): ValidationResult {
+  const scores = new Map(
+    index.filter(record => record.score >= threshold).map(record => [`${record.step}\0${record.test}`, record.score])
+  );
+
+  const annotateStep = (step: StepResult): StepResult => {
+    const flakyTests = [...new Set(getFailedTests(step))]
+      .filter(test => scores.has(`${step.name}\0${test}`))
+      .map(test => ({ test, score: scores.get(`${step.name}\0${test}`) ?? 0 }));
+    return flakyTests.length > 0 ? { ...step, flakyTests } : step;
+  };
+
+  if (!result.phases) {
+    return result;
+  }
+  return {
+    ...result,
+    phases: result.phases.map(phase => ({ ...phase, steps: phase.steps.map(annotateStep) })),
+  };
+}
@@ -6,6 +6,7 @@
 
 // Types
 export type {
+  RunSignature,
   ValidationRun,
   HistoryNote,
   RecordResult,
@@ -14,6 +15,7 @@ export type {
   HealthCheckResult,
   PruneResult,
   RunCacheNote,
+  StepCacheNote,
 } from './types.js';
 
 export { DEFAULT_HISTORY_CONFIG } from './types.js';
@@ -21,6 +23,7 @@ export { DEFAULT_HISTORY_CONFIG } from './types.js';
 // Recorder
 export {
   recordValidationHistory,
+  recordImportedRun,
   checkWorktreeStability,
 } from './recorder.js';
 
@@ -35,6 +38,83 @@ export {
 // Cache lookup
 export { findCachedValidation } from './lookup.js';
 
+// Signed runs and the trust policy
+export {
+  HISTORY_SIGNING_KEY_ENV,
+  getRunSignaturePayload,
+  getResultSignaturePayload,
+  signRun,
+  signResult,
+  parseResultSignature,
+  verifyRunSignature,
+  isTrustedRun,
+  getStepCacheSignaturePayload,
+  signStepCacheNote,
+  isTrustedStepCacheNote,
+  type HistoryTrust,
+  type RunSigningMethod,
+} from './signing.js';
+
+// Statistics
+export {
+  computeHistoryStats,
+  parseStatsPeriod,
+  type HistoryStats,
+  type HistoryStatsOptions,
+  type StepStats,
+  type StepTrend,
+  type FailureGroup,
+} from './stats.js';
+
+// Flaky test index
+export {
+  FLAKY_TEST_THRESHOLD,
+  getTestId,
+  buildFlakyTestIndex,
+  loadFlakyTestIndex,
+  annotateFlakyTests,
+  type FlakyTestRecord,
+} from './flaky-tests.js';
+
+// Run diff
+export {
+  diffValidationRuns,
+  findDefaultDiffRuns,
+  getRunDiffStat,
+  type RunRef,
+  type RunDiff,
+  type DiffedRun,
+  type DiffedError,
+  type DiffStat,
+  type FileDiffStat,
+} from './diff.js';
+
+// Search (indexed in .git/vibe-validate/)
+export {
+  searchHistory,
+  searchIndexedRuns,
+  indexHistoryNote,
+  loadSearchIndex,
+  getSearchIndexPath,
+  type SearchQuery,
+  type SearchMatch,
+  type IndexedRun,
+  type IndexedStep,
+} from './search.js';
+
+// Export
+export {
+  buildHistoryExport,
+  formatHistoryJsonl,
+  formatHistorySql,
+  formatHistoryJunit,
+  type HistoryExport,
+  type HistoryExportFormat,
+  type ExportedRun,
+  type ExportedStep,
+  type ExportedError,
+} from './export.js';
+
 // Run cache reader
 export {
   listRunCacheEntries,
@@ -45,12 +125,35 @@ export {
   type RunCacheEntryMeta,
 } from './run-cache-reader.js';
 
+// Step cache (per-step results keyed by input tree hash)
+export {
+  STEP_CACHE_REF_PREFIX,
+  getStepCacheRef,
+  findCachedStepResult,
+  recordStepResults,
+} from './step-cache.js';
+
 // Pruner
-export { pruneHistoryByAge, pruneAllHistory, pruneLegacyNotes, pruneAllRunCache } from './pruner.js';
+export {
+  pruneHistoryByAge,
+  pruneHistoryByPolicy,
+  pruneHistoryByPolicyIfDue,
+  pruneAllHistory,
+  pruneLegacyNotes,
+  pruneAllRunCache,
+} from './pruner.js';
 
 // Health check
 export { checkHistoryHealth } from './health-check.js';
 
+// Blob store (compressed, deduplicated large payloads)
+export {
+  HISTORY_BLOBS_REF,
+  BLOB_THRESHOLD_BYTES,
+  getBlobStorageStats,
+  type BlobStorageStats,
+} from './blob-store.js';
+
 // Truncate
 export { truncateValidationOutput } from './truncate.js';
 
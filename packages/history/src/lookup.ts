@@ -5,6 +5,7 @@
 import type { TreeHashResult } from '@vibe-validate/git';
 
 import { readHistoryNote } from './reader.js';
+import { isTrustedRun, type HistoryTrust } from './signing.js';
 import type { ValidationRun } from './types.js';
 
 const DEFAULT_NOTES_REF = 'vibe-validate/validate';
@@ -12,15 +13,30 @@ const DEFAULT_NOTES_REF = 'vibe-validate/validate';
 /**
  * Find cached validation result matching current worktree state
  *
- * Matches both parent tree hash and submodule state (if present).
+ * Matches both parent tree hash and submodule state (if present). A passing
+ * run that skipped a step on a non-deterministic condition (`when.env` or
+ * `when.changed`) is not a pass for the tree, so it is never returned.
+ *
+ * Runs are keyed by profile: a run limited to a profile only answers for
+ * that profile, so a passing `quick` run never counts as a full pass. A
+ * passing full run answers for every profile. Partial runs (`--only`,
+ * `--skip`) answer for nothing.
+ *
+ * Runs the trust policy does not accept (unsigned, or not signed with the CI
+ * key) are skipped, so history pulled from a remote only counts when its
+ * signature checks out.
  *
  * @param treeHashResult - Current worktree state
  * @param notesRef - Git notes reference
+ * @param profile - Profile being validated (omit for a full run)
+ * @param trust - Which runs may be reused (`history.trust`, default: any)
  * @returns Matching validation run or null
  */
 export async function findCachedValidation(
   treeHashResult: TreeHashResult,
-  notesRef: string = DEFAULT_NOTES_REF
+  notesRef: string = DEFAULT_NOTES_REF,
+  profile?: string,
+  trust: HistoryTrust = 'any'
 ): Promise<ValidationRun | null> {
   // Read note at root tree hash
   const note = await readHistoryNote(treeHashResult.hash, notesRef);
@@ -32,7 +48,12 @@ export async function findCachedValidation(
   // Iterate backwards since new runs are appended to the end (git-notes.ts mergeNotes)
   for (let i = note.runs.length - 1; i >= 0; i--) {
     const run = note.runs[i];
-    if (submoduleHashesMatch(run.submoduleHashes, treeHashResult.submoduleHashes)) {
+    if (
+      matchesProfile(run, profile) &&
+      submoduleHashesMatch(run.submoduleHashes, treeHashResult.submoduleHashes) &&
+      isReusable(run) &&
+      isTrustedRun(treeHashResult.hash, run, trust)
+    ) {
       return run;
     }
   }
@@ -40,6 +61,41 @@ export async function findCachedValidation(
   return null;
 }
 
+/**
+ * Check if a run answers for the requested profile
+ *
+ * @param run - Cached run
+ * @param profile - Requested profile (undefined for a full run)
+ * @returns true for a run of the same profile, or a passing full run
+ */
+function matchesProfile(run: ValidationRun, profile: string | undefined): boolean {
+  const runProfile = run.result?.profile;
+  if (runProfile === profile) {
+    return true;
+  }
+  return runProfile === undefined && run.passed;
+}
+
+/**
+ * Check if a run can stand in for running validation on its tree
+ *
+ * Partial runs are never reusable. Failed runs are (for --retry-failed);
+ * passing runs only when every skipped step was skipped deterministically.
+ *
+ * @param run - Cached run
+ * @returns true if the run can be reused
+ */
+function isReusable(run: ValidationRun): boolean {
+  if (run.result?.partial) {
+    return false;
+  }
+  if (!run.passed) {
+    return true;
+  }
+  const steps = run.result?.phases?.flatMap(phase => phase.steps ?? []) ?? [];
+  return steps.every(step => step.skipped?.deterministic !== false);
+}
+
 /**
  * Check if submodule hashes match
  *
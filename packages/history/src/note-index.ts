@@ -0,0 +1,154 @@
+/**
+ * Note indexes - per-note caches of the history in `.git/vibe-validate/`
+ *
+ * Reading every note (and its compressed extractions) is slow on repos with
+ * thousands of notes. An index file keeps what a feature needs from each
+ * note, with the notes ref it was built from and the blob of each note: when
+ * the ref moved, only notes whose blob changed are read again.
+ *
+ * Used by the search index and the flaky test index.
+ *
+ * @packageDocumentation
+ */
+
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+
+import { executeGitCommand, getGitDir, getNotesRefSha } from '@vibe-validate/git';
+import { mkdirSyncReal } from '@vibe-validate/utils';
+
+import { readHistoryNote } from './reader.js';
+import type { HistoryNote } from './types.js';
+
+/**
+ * Index file contents
+ *
+ * @internal
+ */
+interface NoteIndexFile<T> {
+  version: number;
+  notesRef: string;
+  /** Commit of the notes ref the index was built from (null while incomplete) */
+  refSha: string | null;
+  /** Indexed notes by tree hash */
+  notes: Record<string, { blob: string; runs: T[] }>;
+}
+
+/**
+ * How to build a note index
+ */
+export interface NoteIndexOptions<T> {
+  /** File name under `.git/vibe-validate/` */
+  file: string;
+  /** Bump when the indexed fields change (older indexes are rebuilt) */
+  version: number;
+  notesRef: string;
+  /** Extract what the index keeps of a note */
+  indexNote: (note: HistoryNote) => T[];
+  /**
+   * Read at most this many notes (default: all). Notes left over keep their
+   * previous entry, if any, and are read by the next load.
+   */
+  maxNoteReads?: number;
+}
+
+/**
+ * Path of a note index (`.git/vibe-validate/<file>`)
+ *
+ * @param file - Index file name
+ * @returns Absolute or cwd-relative path
+ */
+export function getNoteIndexPath(file: string): string {
+  return join(getGitDir(), 'vibe-validate', file);
+}
+
+/**
+ * Read an index file, if it is usable for this version and notes ref
+ *
+ * @internal
+ */
+function readNoteIndex<T>(indexPath: string, version: number, notesRef: string): NoteIndexFile<T> | null {
+  try {
+    if (!existsSync(indexPath)) {
+      return null;
+    }
+    const index = JSON.parse(readFileSync(indexPath, 'utf-8')) as NoteIndexFile<T>;
+    return index.version === version && index.notesRef === notesRef ? index : null;
+  } catch {
+    return null; // Corrupt: rebuilt
+  }
+}
+
+/**
+ * List the notes of a ref with their blobs (one git spawn)
+ *
+ * @internal
+ */
+function listNoteBlobs(notesRef: string): Map<string, string> {
+  const result = executeGitCommand(['notes', `--ref=${notesRef}`, 'list'], {
+    ignoreErrors: true,
+    suppressStderr: true,
+    maxBuffer: 256 * 1024 * 1024,
+  });
+
+  // "<note blob> <annotated object>" per line
+  const blobs = new Map<string, string>();
+  for (const line of result.success ? result.stdout.split('\n') : []) {
+    const [blob, object] = line.split(' ');
+    if (blob && object) {
+      blobs.set(object, blob);
+    }
+  }
+  return blobs;
+}
+
+/**
+ * Bring a note index up to date with the notes ref
+ *
+ * Reads only the notes added or changed since the index was written. An
+ * index that can't be written is still returned (the next load redoes the
+ * work).
+ *
+ * @param options - Index file, notes ref and what to keep of each note
+ * @returns Every indexed entry
+ */
+export async function loadNoteIndex<T>(options: NoteIndexOptions<T>): Promise<T[]> {
+  const { file, version, notesRef, indexNote, maxNoteReads = Infinity } = options;
+  const indexPath = getNoteIndexPath(file);
+  const refSha = getNotesRefSha(notesRef);
+  const cached = readNoteIndex<T>(indexPath, version, notesRef);
+  // An incomplete index (null) is never up to date
+  if (refSha !== null && cached?.refSha === refSha) {
+    return Object.values(cached.notes).flatMap(note => note.runs);
+  }
+
+  const index: NoteIndexFile<T> = { version, notesRef, refSha, notes: {} };
+  let reads = 0;
+  for (const [treeHash, blob] of refSha ? listNoteBlobs(notesRef) : []) {
+    const previous = cached?.notes[treeHash];
+    if (previous?.blob === blob) {
+      index.notes[treeHash] = previous;
+      continue;
+    }
+    if (reads >= maxNoteReads) {
+      // Out of reads: keep the stale entry, and finish on the next load
+      index.refSha = null;
+      if (previous) {
+        index.notes[treeHash] = previous;
+      }
+      continue;
+    }
+    reads++;
+    const note = await readHistoryNote(treeHash, notesRef);
+    index.notes[treeHash] = { blob, runs: note ? indexNote(note) : [] };
+  }
+
+  try {
+    mkdirSyncReal(dirname(indexPath), { recursive: true });
+    writeFileSync(indexPath, JSON.stringify(index), 'utf-8');
+  } catch {
+    // Read-only .git: load without caching
+  }
+
+  return Object.values(index.notes).flatMap(note => note.runs);
+}
@@ -2,11 +2,28 @@
  * History pruning utilities
  */
 
-import { removeNote, removeNotesRefs, type TreeHash, type NotesRef } from '@vibe-validate/git';
-
-import { getAllHistoryNotes } from './reader.js';
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+
+import {
+  addNote,
+  getGitDir,
+  getNotesRefSha,
+  isCommitOnAnyBranch,
+  isCommitReachableFrom,
+  readNote,
+  removeNote,
+  removeNotesRefs,
+  type TreeHash,
+  type NotesRef,
+} from '@vibe-validate/git';
+import { mkdirSyncReal } from '@vibe-validate/utils';
+import { parse as parseYaml, stringify as stringifyYaml } from 'yaml';
+
+import { HISTORY_BLOBS_REF, removeUnreferencedBlobs } from './blob-store.js';
+import { getAllHistoryNotes, listHistoryTreeHashes, parseHistoryNote } from './reader.js';
 import { listRunCacheTreeHashes, getAllRunCacheForTree } from './run-cache-reader.js';
-import type { PruneResult, HistoryConfig } from './types.js';
+import type { PruneResult, HistoryConfig, HistoryNote, ValidationRun } from './types.js';
 import { DEFAULT_HISTORY_CONFIG } from './types.js';
 
 // Removed: Git operations now use secure @vibe-validate/git functions
@@ -31,6 +48,8 @@ function mergeConfig(config: HistoryConfig = {}): {
 /**
  * Prune validation history older than specified days
  *
+ * Blobs that only the pruned runs referenced are removed too.
+ *
  * @param olderThanDays - Remove notes older than this many days
  * @param config - History configuration
  * @param dryRun - If true, don't actually delete (default: false)
@@ -78,6 +97,10 @@ export async function pruneHistoryByAge(
     }
   }
 
+  if (!dryRun && runsPruned > 0) {
+    removeUnreferencedBlobs(notesRef);
+  }
+
   return {
     notesPruned,
     runsPruned,
@@ -86,6 +109,269 @@ export async function pruneHistoryByAge(
   };
 }
 
+/**
+ * Cache a per-commit git check (many runs share a commit)
+ *
+ * @internal
+ */
+function cachePerCommit(check: (commit: string) => boolean): (commit: string) => boolean {
+  const results = new Map<string, boolean>();
+  return commit => {
+    let result = results.get(commit);
+    if (result === undefined) {
+      result = check(commit);
+      results.set(commit, result);
+    }
+    return result;
+  };
+}
+
+/**
+ * Find the runs beyond the newest `keep` of each branch
+ *
+ * @internal
+ */
+function findExcessRuns(notes: HistoryNote[], keep: number): Set<ValidationRun> {
+  const runsByBranch = new Map<string, ValidationRun[]>();
+  for (const run of notes.flatMap(note => note.runs)) {
+    const runs = runsByBranch.get(run.branch) ?? [];
+    runs.push(run);
+    runsByBranch.set(run.branch, runs);
+  }
+
+  const excess = new Set<ValidationRun>();
+  for (const runs of runsByBranch.values()) {
+    runs.sort((a, b) => b.timestamp.localeCompare(a.timestamp, 'en'));
+    for (const run of runs.slice(keep)) {
+      excess.add(run);
+    }
+  }
+  return excess;
+}
+
+/**
+ * Check if a note's newest run is older than the cutoff and no branch has any of its commits
+ *
+ * @internal
+ */
+function isStaleAndUnreachable(note: HistoryNote, cutoffTime: number, isOnBranch: (commit: string) => boolean): boolean {
+  const newest = Math.max(...note.runs.map(run => new Date(run.timestamp).getTime()));
+  return newest < cutoffTime && !note.runs.some(run => isOnBranch(run.headCommit));
+}
+
+/**
+ * A note as read at the start of a prune: its content and what it parses to
+ *
+ * @internal
+ */
+interface LoadedNote {
+  treeHash: TreeHash;
+  yaml: string;
+  note: HistoryNote;
+}
+
+/**
+ * Read every note with its content (as many git spawns as getAllHistoryNotes)
+ *
+ * @internal
+ */
+async function loadNotes(notesRef: NotesRef): Promise<LoadedNote[]> {
+  const loaded: LoadedNote[] = [];
+  for (const treeHash of await listHistoryTreeHashes(notesRef)) {
+    const yaml = readNote(notesRef, treeHash as TreeHash);
+    const note = yaml ? parseHistoryNote(yaml, treeHash) : null;
+    if (yaml && note) {
+      loaded.push({ treeHash: treeHash as TreeHash, yaml, note });
+    }
+  }
+  return loaded;
+}
+
+/**
+ * Remove runs from a note's content by ID
+ *
+ * Works on the YAML as stored, so runs the reader skips (no result, or one
+ * that does not validate), fields the schema does not know and
+ * `extractionBlob` references are all kept as they are.
+ *
+ * @internal
+ * @returns The new content (null when no run is left) and how many runs were removed
+ */
+function removeRunsFromNote(yaml: string, runIds: Set<string>): { content: string | null; removed: number } {
+  const data = parseYaml(yaml, { uniqueKeys: false }) as Record<string, unknown>;
+  const runs: unknown[] = Array.isArray(data.runs) ? data.runs : [];
+  const kept = runs.filter(run => {
+    const id = (run as { id?: unknown } | null)?.id;
+    return typeof id !== 'string' || !runIds.has(id);
+  });
+
+  return {
+    content: kept.length === 0 ? null : stringifyYaml({ ...data, runs: kept }),
+    removed: runs.length - kept.length,
+  };
+}
+
+/**
+ * Write a pruned note, unless it changed since it was read
+ *
+ * @internal
+ * @returns false if the note changed and was left alone
+ */
+function writePrunedNote(notesRef: NotesRef, treeHash: TreeHash, readYaml: string, content: string | null): boolean {
+  if (readNote(notesRef, treeHash) !== readYaml) {
+    return false;
+  }
+  if (content === null) {
+    removeNote(notesRef, treeHash);
+  } else {
+    addNote(notesRef, treeHash, content);
+  }
+  return true;
+}
+
+/**
+ * Prune validation history by the retention policy in `config.retention`
+ *
+ * - `keepRunsPerBranch`: runs beyond the newest N of their branch are removed
+ * - `pruneUnreachableAfterDays`: notes whose newest run is older than N days,
+ *   with no run on a commit that a branch contains, are removed entirely
+ * - `keepReachableFrom`: runs on commits reachable from this ref are never
+ *   removed, whatever the other rules say
+ *
+ * Notes that lose only some of their runs are rewritten with the rest,
+ * editing the stored YAML so nothing else in the note changes. Blobs that
+ * only the pruned runs referenced are removed too. A note that
+ * changed since the prune read it (e.g. a validate recorded a run meanwhile)
+ * is left alone until the next prune.
+ *
+ * @param config - History configuration (with the retention policy)
+ * @param dryRun - If true, don't actually delete (default: false)
+ * @returns Prune result (`prunedTreeHashes` includes notes that lost some runs)
+ */
+export async function pruneHistoryByPolicy(
+  config: HistoryConfig = {},
+  dryRun: boolean = false
+): Promise<PruneResult> {
+  const notesRef = mergeConfig(config).gitNotes.ref as NotesRef;
+  const { keepRunsPerBranch, keepReachableFrom, pruneUnreachableAfterDays } = config.retention ?? {};
+
+  const loadedNotes = await loadNotes(notesRef);
+  const allNotes = loadedNotes.map(({ note }) => note);
+  const excessRuns = keepRunsPerBranch === undefined ? new Set<ValidationRun>() : findExcessRuns(allNotes, keepRunsPerBranch);
+  const cutoffTime = pruneUnreachableAfterDays === undefined
+    ? undefined
+    : Date.now() - pruneUnreachableAfterDays * 24 * 60 * 60 * 1000;
+  const isOnBranch = cachePerCommit(isCommitOnAnyBranch);
+  const isKept = cachePerCommit(commit => keepReachableFrom !== undefined && isCommitReachableFrom(commit, keepReachableFrom));
+
+  let notesPruned = 0;
+  let runsPruned = 0;
+  const prunedTreeHashes: string[] = [];
+
+  for (const { treeHash, yaml, note } of loadedNotes) {
+    const unreachable = cutoffTime !== undefined && note.runs.length > 0 && isStaleAndUnreachable(note, cutoffTime, isOnBranch);
+    // Reachability is only checked for runs another rule would prune (one git spawn per commit)
+    const prunedIds = new Set(
+      note.runs
+        .filter(run => (unreachable || excessRuns.has(run)) && !isKept(run.headCommit))
+        .map(run => run.id)
+    );
+    if (prunedIds.size === 0) {
+      continue;
+    }
+
+    const { content, removed } = removeRunsFromNote(yaml, prunedIds);
+    if (!dryRun && !writePrunedNote(notesRef, treeHash, yaml, content)) {
+      continue; // Changed since it was read - leave it to the next prune
+    }
+
+    if (content === null) {
+      notesPruned++;
+    }
+    runsPruned += removed;
+    prunedTreeHashes.push(treeHash);
+  }
+
+  if (!dryRun && runsPruned > 0) {
+    removeUnreferencedBlobs(notesRef);
+  }
+
+  return {
+    notesPruned,
+    runsPruned,
+    notesRemaining: loadedNotes.length - notesPruned,
+    prunedTreeHashes,
+  };
+}
+
+/** How long after the retention policy was applied it is applied again */
+const POLICY_PRUNE_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * When the retention policy was last applied
+ *
+ * @internal
+ */
+interface RetentionState {
+  notesRef: string;
+  /** The policy applied (JSON) */
+  policy: string;
+  /** Notes ref commit the prune left */
+  refSha: string | null;
+  prunedAt: string;
+}
+
+/**
+ * Read the retention state file (null if missing or corrupt)
+ *
+ * @internal
+ */
+function readRetentionState(statePath: string): RetentionState | null {
+  try {
+    return existsSync(statePath) ? JSON.parse(readFileSync(statePath, 'utf-8')) as RetentionState : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Prune by the retention policy unless it was applied recently
+ *
+ * Reading every note and checking reachability is too slow to repeat after
+ * every recorded run, so the policy is applied again only once a day has
+ * passed and the notes ref has moved since, or as soon as the policy itself
+ * changes. When it was last applied is kept next to the search index, in
+ * `.git/vibe-validate/retention-state.json`.
+ *
+ * @param config - History configuration (with the retention policy)
+ * @returns Prune result, or null when the policy was not due
+ */
+export async function pruneHistoryByPolicyIfDue(config: HistoryConfig = {}): Promise<PruneResult | null> {
+  const notesRef = mergeConfig(config).gitNotes.ref as NotesRef;
+  const statePath = join(getGitDir(), 'vibe-validate', 'retention-state.json');
+  const policy = JSON.stringify(config.retention ?? {});
+
+  const state = readRetentionState(statePath);
+  if (state?.notesRef === notesRef && state.policy === policy) {
+    const recent = Date.now() - Date.parse(state.prunedAt) < POLICY_PRUNE_INTERVAL_MS;
+    if (recent || state.refSha === getNotesRefSha(notesRef)) {
+      return null;
+    }
+  }
+
+  const result = await pruneHistoryByPolicy(config);
+
+  const newState: RetentionState = { notesRef, policy, refSha: getNotesRefSha(notesRef), prunedAt: new Date().toISOString() };
+  try {
+    mkdirSyncReal(dirname(statePath), { recursive: true });
+    writeFileSync(statePath, JSON.stringify(newState), 'utf-8');
+  } catch {
+    // Read-only .git: the policy is applied again next time
+  }
+
+  return result;
+}
+
 /**
  * Prune all validation history
  *
@@ -120,6 +406,11 @@ export async function pruneAllHistory(
     prunedTreeHashes.push(treeHash);
   }
 
+  if (!dryRun && notesPruned > 0) {
+    // Nothing references the extraction blobs any more
+    removeNotesRefs(`refs/notes/${HISTORY_BLOBS_REF}`);
+  }
+
   return {
     notesPruned,
     runsPruned,
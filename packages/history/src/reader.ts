@@ -6,6 +6,7 @@ import { safeValidateResult } from '@vibe-validate/core';
 import { listNoteObjects, readNote, type TreeHash, type NotesRef } from '@vibe-validate/git';
 import { parse as parseYaml } from 'yaml';
 
+import { loadLargePayloads } from './blob-store.js';
 import type { HistoryNote } from './types.js';
 
 // Removed: Git operations now use secure @vibe-validate/git functions
@@ -13,24 +14,16 @@ import type { HistoryNote } from './types.js';
 const DEFAULT_NOTES_REF = 'vibe-validate/validate';
 
 /**
- * Read validation history note for a tree hash
+ * Parse the YAML of a validation history note
  *
- * @param treeHash - Git tree hash
- * @param notesRef - Git notes ref (default: vibe-validate/validate)
- * @returns History note or null if not found
+ * Runs whose result does not validate (or that have none) are left out.
+ *
+ * @param yaml - Note content
+ * @param treeHash - Tree hash the note is attached to (used when the note has none)
+ * @returns History note, or null for content that is not a history note
  */
-export async function readHistoryNote(
-  treeHash: string,
-  notesRef: string = DEFAULT_NOTES_REF
-): Promise<HistoryNote | null> {
+export function parseHistoryNote(yaml: string, treeHash: string): HistoryNote | null {
   try {
-    // Use secure readNote function (no command injection risk)
-    const yaml = readNote(notesRef as NotesRef, treeHash as TreeHash);
-
-    if (!yaml) {
-      return null;
-    }
-
     // Try strict parsing first to detect corruption, then fall back to permissive.
     // This makes corruption visible (logged warning) while keeping the system functional.
     let parsed: Record<string, unknown>;
@@ -59,7 +52,7 @@ export async function readHistoryNote(
         continue;
       }
 
-      const validationResult = safeValidateResult(run.result);
+      const validationResult = safeValidateResult(loadLargePayloads(run.result));
       if (!validationResult.success) {
         continue;
       }
@@ -74,6 +67,31 @@ export async function readHistoryNote(
       treeHash: parsed.treeHash ?? treeHash,
       runs: validatedRuns,
     } as HistoryNote;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read validation history note for a tree hash
+ *
+ * @param treeHash - Git tree hash
+ * @param notesRef - Git notes ref (default: vibe-validate/validate)
+ * @returns History note or null if not found
+ */
+export async function readHistoryNote(
+  treeHash: string,
+  notesRef: string = DEFAULT_NOTES_REF
+): Promise<HistoryNote | null> {
+  try {
+    // Use secure readNote function (no command injection risk)
+    const yaml = readNote(notesRef as NotesRef, treeHash as TreeHash);
+
+    if (!yaml) {
+      return null;
+    }
+
+    return parseHistoryNote(yaml, treeHash);
   } catch {
     // Note doesn't exist - this is expected for first-time validation
     return null;
@@ -11,14 +11,16 @@ import {
   addNote,
   mergeAppendRuns,
   type NotesRef,
+  type TreeHash,
   type TreeHashResult,
 } from '@vibe-validate/git';
 import { stringify as stringifyYaml } from 'yaml';
 
+import { storeLargePayloads } from './blob-store.js';
+import { HISTORY_SIGNING_KEY_ENV, signRun } from './signing.js';
 import { truncateValidationOutput } from './truncate.js';
 import type {
   ValidationRun,
-  HistoryNote,
   RecordResult,
   StabilityCheck,
   HistoryConfig,
@@ -104,11 +106,22 @@ export async function recordValidationHistory(
       );
     }
 
-    // 2. Create note with ONLY the new run
+    // Sign after the run is complete - the signature covers its outcome
+    let signingError: string | undefined;
+    if (mergedConfig.sign) {
+      newRun.signature = signRun(treeHashResult.hash, newRun, mergedConfig.sign);
+      if (!newRun.signature) {
+        signingError = mergedConfig.sign === 'hmac'
+          ? `${HISTORY_SIGNING_KEY_ENV} is not set`
+          : 'git could not sign (is user.signingKey set?)';
+      }
+    }
+
+    // 2. Create note with ONLY the new run, large extractions moved to blobs
     // The addNote function will handle merging with existing runs atomically
-    const note: HistoryNote = {
+    const note = {
       treeHash: treeHashResult.hash,
-      runs: [newRun],
+      runs: [{ ...newRun, result: storeLargePayloads(newRun.result) }],
     };
 
     // 3. Add note to git (mergeAppendRuns appends new run to existing history)
@@ -126,6 +139,7 @@ export async function recordValidationHistory(
     return {
       recorded: true,
       treeHash: treeHashResult.hash,
+      ...(signingError ? { signingError } : {}),
     };
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
@@ -137,6 +151,42 @@ export async function recordValidationHistory(
   }
 }
 
+/**
+ * Record a run made elsewhere (e.g. imported from CI) under its tree hash
+ *
+ * A run whose ID is already in the note is kept as it is, so importing the
+ * same run twice records it once.
+ *
+ * @param treeHash - Tree hash the run validated
+ * @param run - The run, with its full validation result
+ * @param config - History configuration
+ * @returns Record result
+ */
+export async function recordImportedRun(
+  treeHash: string,
+  run: ValidationRun,
+  config: HistoryConfig = {}
+): Promise<RecordResult> {
+  const notesRef = (config.gitNotes?.ref ?? DEFAULT_HISTORY_CONFIG.gitNotes.ref) as NotesRef;
+  const maxOutputBytes = config.gitNotes?.maxOutputBytes ?? DEFAULT_HISTORY_CONFIG.gitNotes.maxOutputBytes;
+
+  try {
+    const result = truncateValidationOutput(run.result, maxOutputBytes);
+    const note = {
+      treeHash,
+      runs: [{ ...run, result: storeLargePayloads(result) }],
+    };
+
+    if (!addNote(notesRef, treeHash as TreeHash, stringifyYaml(note), mergeAppendRuns)) {
+      return { recorded: false, reason: 'Failed to add git note', treeHash };
+    }
+    return { recorded: true, treeHash };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return { recorded: false, reason: errorMessage, treeHash };
+  }
+}
+
 /**
  * Check worktree stability (compare tree hash before and after)
  *
@@ -11,6 +11,7 @@ import {
   ValidationResultSchema,
   OperationMetadataSchema,
   CommandExecutionSchema,
+  StepResultSchema,
 } from '@vibe-validate/core';
 import { z } from 'zod';
 
@@ -53,6 +54,21 @@ export const RunCacheNoteSchema = OperationMetadataSchema
     isCachedResult: z.boolean().optional(),
   });
 
+/**
+ * Run Signature Schema
+ *
+ * Lets a run pulled from another machine prove where it came from (see
+ * `history.trust`). Signs the tree hash, the run's identity and outcome, and a
+ * digest of its full result.
+ */
+export const RunSignatureSchema = z.object({
+  /** `gpg`/`ssh`: git's own signing; `hmac`: HMAC-SHA256 with a shared key */
+  method: z.enum(['gpg', 'ssh', 'hmac']),
+
+  /** The signed commit object (gpg/ssh) or the hex HMAC digest (hmac) */
+  value: z.string().min(1),
+});
+
 /**
  * Validation Run Schema
  *
@@ -96,6 +112,15 @@ export const ValidationRunSchema = z.object({
 
   /** Full validation result (with truncated output) */
   result: ValidationResultSchema,
+
+  /** Signature, when the recording machine signs runs (`history.sign`) */
+  signature: RunSignatureSchema.optional(),
+
+  /** `ci` for runs imported from CI (`history import`); absent for local runs */
+  source: z.enum(['local', 'ci']).optional(),
+
+  /** CI job the run was imported from (source: ci) */
+  url: z.string().optional(),
 });
 
 /**
@@ -115,6 +140,33 @@ export const HistoryNoteSchema = z.object({
   runs: z.array(ValidationRunSchema),
 });
 
+/**
+ * Step Cache Note Schema
+ *
+ * Stored in: refs/notes/vibe-validate/step/{cacheKey}, attached to the step's
+ * input tree hash (see `inputs` on ValidationStep).
+ *
+ * Records the latest passing result of a step for one set of input files, so
+ * the step can be skipped while those files are unchanged. Only passes are
+ * recorded.
+ */
+export const StepCacheNoteSchema = z.object({
+  /** Input tree hash this note is attached to */
+  inputsHash: z.string().min(1),
+
+  /** ISO 8601 timestamp of the run that recorded the pass */
+  timestamp: z.string().datetime(),
+
+  /** Whole-tree hash of the run that recorded the pass */
+  treeHash: z.string().optional(),
+
+  /** The passing step result */
+  result: StepResultSchema,
+
+  /** Signature, when the recording machine signs runs (`history.sign`) */
+  signature: RunSignatureSchema.optional(),
+});
+
 /**
  * History Configuration Schema
  */
@@ -134,6 +186,9 @@ export const HistoryConfigSchema = z.object({
     maxOutputBytes: z.number().positive().optional(),
   }).optional(),
 
+  /** Sign recorded runs: with git's signing key or the shared HMAC key */
+  sign: z.enum(['git', 'hmac']).optional(),
+
   /** Retention policy */
   retention: z.object({
     /** Warn after this many days */
@@ -141,6 +196,15 @@ export const HistoryConfigSchema = z.object({
 
     /** Warn after this many total notes */
     warnAfterCount: z.number().positive().optional(),
+
+    /** Keep only the newest N runs per branch */
+    keepRunsPerBranch: z.number().int().positive().optional(),
+
+    /** Never prune runs on commits reachable from this ref (e.g. 'main') */
+    keepReachableFrom: z.string().min(1).optional(),
+
+    /** Remove notes whose newest run is older than N days and on no branch */
+    pruneUnreachableAfterDays: z.number().positive().optional(),
   }).optional(),
 }).optional();
 
@@ -148,8 +212,10 @@ export const HistoryConfigSchema = z.object({
  * Inferred TypeScript types from Zod schemas
  */
 export type RunCacheNote = z.infer<typeof RunCacheNoteSchema>;
+export type RunSignature = z.infer<typeof RunSignatureSchema>;
 export type ValidationRun = z.infer<typeof ValidationRunSchema>;
 export type HistoryNote = z.infer<typeof HistoryNoteSchema>;
+export type StepCacheNote = z.infer<typeof StepCacheNoteSchema>;
 export type HistoryConfig = z.infer<typeof HistoryConfigSchema>;
 
 /**
@@ -0,0 +1,245 @@
+/**
+ * History search - find runs by branch, step, outcome, error and date
+ *
+ * Answers questions such as "runs on feature/* where Typecheck failed with
+ * TS2322 in the last week". Filters on a run (branch, date, uncommitted
+ * changes) and on its steps: a run matches when one of its steps matches
+ * every step filter (name, outcome, error code, error file).
+ *
+ * Reading every note (and its compressed extractions) is slow on repos with
+ * thousands of notes, so the fields searched are kept in a note index
+ * (see {@link "./note-index".loadNoteIndex}), `.git/vibe-validate/search-index.json`: when
+ * the notes ref moved, only notes whose blob changed are read again.
+ *
+ * @packageDocumentation
+ */
+
+import { getNoteIndexPath, loadNoteIndex } from './note-index.js';
+import type { HistoryNote } from './types.js';
+
+const DEFAULT_NOTES_REF = 'vibe-validate/validate';
+
+/** Bump when the indexed fields change (older indexes are rebuilt) */
+const SEARCH_INDEX_VERSION = 1;
+
+/**
+ * A step of an indexed run
+ */
+export interface IndexedStep {
+  name: string;
+  passed: boolean;
+  /** Extracted errors (failed steps only) */
+  errors: Array<{ code?: string; file?: string }>;
+}
+
+/**
+ * The searchable fields of a run
+ */
+export interface IndexedRun {
+  treeHash: string;
+  runId: string;
+  timestamp: string;
+  branch: string;
+  headCommit: string;
+  passed: boolean;
+  uncommittedChanges: boolean;
+  /** `ci` for runs imported from CI */
+  source?: 'local' | 'ci';
+  steps: IndexedStep[];
+}
+
+/**
+ * Search filters (all optional; every given filter must match)
+ *
+ * Globs support `*` (any characters, `/` included) and `?`.
+ */
+export interface SearchQuery {
+  /** Branch glob, e.g. `feature/*` */
+  branch?: string;
+  /** Step name glob */
+  step?: string;
+  /**
+   * Outcome: of a matching step when a step filter is given, else of the run
+   */
+  status?: 'passed' | 'failed';
+  /** Error code reported by a step, e.g. `TS2322` */
+  errorCode?: string;
+  /** Glob on the file of an error reported by a step */
+  file?: string;
+  /** Only runs at or after this time */
+  since?: Date;
+  /** Only runs at or before this time */
+  until?: Date;
+  /** Only runs with (true) or without (false) uncommitted changes */
+  uncommittedChanges?: boolean;
+}
+
+/**
+ * A run that matched a search
+ */
+export interface SearchMatch {
+  treeHash: string;
+  runId: string;
+  timestamp: string;
+  branch: string;
+  headCommit: string;
+  passed: boolean;
+  uncommittedChanges: boolean;
+  source?: 'local' | 'ci';
+  /** Steps that matched the step filters (empty when there are none) */
+  steps: string[];
+}
+
+/**
+ * Convert a glob (`*`, `?`) to an anchored regular expression
+ *
+ * @internal
+ */
+function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .replaceAll(/[.+^${}()|[\]\\]/g, String.raw`\$&`)
+    .replaceAll('*', '.*')
+    .replaceAll('?', '.');
+  // eslint-disable-next-line security/detect-non-literal-regexp -- Pattern is escaped; only * and ? become wildcards
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Extract the searchable fields of a note's runs
+ *
+ * @param note - History note (as read by readHistoryNote)
+ * @returns One indexed run per run
+ */
+export function indexHistoryNote(note: HistoryNote): IndexedRun[] {
+  return note.runs.map(run => ({
+    // treeHash is always populated by readHistoryNote (falls back to ref path)
+    // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+    treeHash: note.treeHash!,
+    runId: run.id,
+    timestamp: run.timestamp,
+    branch: run.branch,
+    headCommit: run.headCommit,
+    passed: run.passed,
+    uncommittedChanges: run.uncommittedChanges,
+    ...(run.source === undefined ? {} : { source: run.source }),
+    steps: (run.result.phases ?? []).flatMap(phase => phase.steps).map(step => ({
+      name: step.name,
+      passed: step.passed,
+      errors: step.passed
+        ? []
+        : (step.extraction?.errors ?? []).map(error => ({
+            ...(error.code === undefined ? {} : { code: error.code }),
+            ...(error.file === undefined ? {} : { file: error.file }),
+          })),
+    })),
+  }));
+}
+
+/**
+ * Check the run-level filters
+ *
+ * @internal
+ */
+function matchesRun(run: IndexedRun, query: SearchQuery, branch: RegExp | undefined): boolean {
+  if (branch && !branch.test(run.branch)) {
+    return false;
+  }
+  if (query.uncommittedChanges !== undefined && run.uncommittedChanges !== query.uncommittedChanges) {
+    return false;
+  }
+  const time = new Date(run.timestamp).getTime();
+  return (!query.since || time >= query.since.getTime()) && (!query.until || time <= query.until.getTime());
+}
+
+/**
+ * Check the step-level filters
+ *
+ * @internal
+ */
+function matchesStep(step: IndexedStep, query: SearchQuery, name: RegExp | undefined, file: RegExp | undefined): boolean {
+  if (name && !name.test(step.name)) {
+    return false;
+  }
+  if (query.status && step.passed !== (query.status === 'passed')) {
+    return false;
+  }
+  if (query.errorCode === undefined && !file) {
+    return true;
+  }
+  return step.errors.some(error =>
+    (query.errorCode === undefined || error.code === query.errorCode) &&
+    (!file || (error.file !== undefined && file.test(error.file)))
+  );
+}
+
+/**
+ * Search indexed runs
+ *
+ * @param runs - Indexed runs (e.g. from indexHistoryNote)
+ * @param query - Filters
+ * @returns Matching runs, newest first
+ */
+export function searchIndexedRuns(runs: IndexedRun[], query: SearchQuery): SearchMatch[] {
+  const branch = query.branch === undefined ? undefined : globToRegExp(query.branch);
+  const stepName = query.step === undefined ? undefined : globToRegExp(query.step);
+  const file = query.file === undefined ? undefined : globToRegExp(query.file);
+  const filtersSteps = stepName !== undefined || file !== undefined || query.errorCode !== undefined;
+
+  const matches: SearchMatch[] = [];
+  for (const run of runs) {
+    if (!matchesRun(run, query, branch)) {
+      continue;
+    }
+    if (!filtersSteps && query.status && run.passed !== (query.status === 'passed')) {
+      continue;
+    }
+
+    const steps = filtersSteps
+      ? run.steps.filter(step => matchesStep(step, query, stepName, file)).map(step => step.name)
+      : [];
+    if (filtersSteps && steps.length === 0) {
+      continue;
+    }
+
+    matches.push({ ...run, steps });
+  }
+
+  return matches.sort((a, b) => b.timestamp.localeCompare(a.timestamp, 'en'));
+}
+
+/** Search index file, under `.git/vibe-validate/` */
+const SEARCH_INDEX_FILE = 'search-index.json';
+
+/**
+ * Path of the search index (`.git/vibe-validate/search-index.json`)
+ *
+ * @returns Absolute or cwd-relative path
+ */
+export function getSearchIndexPath(): string {
+  return getNoteIndexPath(SEARCH_INDEX_FILE);
+}
+
+/**
+ * Bring the search index up to date with the notes ref
+ *
+ * Reads only the notes added or changed since the index was written. An
+ * index that can't be written is still returned (the next search redoes
+ * the work).
+ *
+ * @param notesRef - Git notes ref (default: vibe-validate/validate)
+ * @returns Every indexed run
+ */
+export async function loadSearchIndex(notesRef: string = DEFAULT_NOTES_REF): Promise<IndexedRun[]> {
+  return loadNoteIndex({ file: SEARCH_INDEX_FILE, version: SEARCH_INDEX_VERSION, notesRef, indexNote: indexHistoryNote });
+}
+
+/**
+ * Search the validation history
+ *
+ * @param query - Filters
+ * @param notesRef - Git notes ref (default: vibe-validate/validate)
+ * @returns Matching runs, newest first
+ */
+export async function searchHistory(query: SearchQuery, notesRef: string = DEFAULT_NOTES_REF): Promise<SearchMatch[]> {
+  return searchIndexedRuns(await loadSearchIndex(notesRef), query);
+}
@@ -0,0 +1,291 @@
+/**
+ * Signed validation runs and the trust policy
+ *
+ * History pulled from a shared remote was recorded on someone else's machine,
+ * so a "passed" run there is a claim, not a fact. Runs can carry a signature
+ * over the tree hash, the run's identity and outcome, and a digest of its
+ * full result (phases, steps, extractions and skips):
+ *
+ * - `gpg` / `ssh`: git's own signing (see `signWithGit` in `@vibe-validate/git`),
+ *   verified against the local keyring or SSH allowed signers file
+ * - `hmac`: HMAC-SHA256 with a key shared through `VV_HISTORY_SIGNING_KEY`,
+ *   typically a CI secret
+ *
+ * The trust policy decides which runs the validation cache may reuse:
+ * `any` (every run), `signed` (runs with a valid signature of any kind) or
+ * `ci-only` (runs with a valid HMAC signature, i.e. recorded where the CI key
+ * is). Untrusted runs are still history - they only stop counting as cache hits.
+ * Step cache notes are signed and checked the same way, and so are runs
+ * imported from CI, by the signature CI printed with their result.
+ */
+
+import { createHash, createHmac, timingSafeEqual } from 'node:crypto';
+
+import { safeValidateResult, type ValidationResult } from '@vibe-validate/core';
+import { signWithGit, verifyGitSignature } from '@vibe-validate/git';
+
+import { RunSignatureSchema, type RunSignature, type StepCacheNote, type ValidationRun } from './types.js';
+
+/** Environment variable holding the shared HMAC key */
+export const HISTORY_SIGNING_KEY_ENV = 'VV_HISTORY_SIGNING_KEY';
+
+/** Which runs the validation cache may reuse */
+export type HistoryTrust = 'any' | 'signed' | 'ci-only';
+
+/** How this machine signs the runs it records */
+export type RunSigningMethod = 'git' | 'hmac';
+
+/**
+ * Serialize with object keys sorted, so the payload does not depend on the
+ * order fields were written or parsed in
+ *
+ * @internal
+ */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : Number(a > b)));
+    const fields = entries.map(([key, entry]) => `${JSON.stringify(key)}:${canonicalJson(entry)}`);
+    return `{${fields.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Digest of a run's result
+ *
+ * Taken over the result as the schema reads it, with extractions inline, so
+ * the digest is the same before a large extraction is moved to the blob store
+ * and after it is read back (a blob that was never pulled changes the digest,
+ * so such a run does not verify).
+ *
+ * @internal
+ */
+function getResultDigest(result: ValidationRun['result']): string | undefined {
+  if (!result) {
+    return undefined;
+  }
+  const parsed = safeValidateResult(result);
+  const normalized: unknown = parsed.success ? parsed.data : result;
+  return createHash('sha256').update(canonicalJson(normalized)).digest('hex');
+}
+
+/**
+ * The text a run's signature covers
+ *
+ * @param treeHash - Tree hash the run's note is attached to
+ * @param run - The run (its signature is ignored)
+ * @returns Canonical payload
+ */
+export function getRunSignaturePayload(treeHash: string, run: ValidationRun): string {
+  return `vibe-validate run ${canonicalJson({
+    treeHash,
+    id: run.id,
+    timestamp: run.timestamp,
+    passed: run.passed,
+    branch: run.branch,
+    headCommit: run.headCommit,
+    submoduleHashes: run.submoduleHashes,
+    profile: run.result?.profile,
+    partial: run.result?.partial,
+    resultDigest: getResultDigest(run.result),
+  })}`;
+}
+
+/**
+ * The text the signature of a printed result covers
+ *
+ * CI prints this signature with its result, and `history import` carries it
+ * over to the imported run. It covers the tree hash and the full result; the
+ * rest of an imported run (branch, commit, job URL) comes from the CI
+ * provider's API.
+ *
+ * @param treeHash - Tree hash the result validated
+ * @param result - The result, without its signature
+ * @returns Canonical payload
+ */
+export function getResultSignaturePayload(treeHash: string, result: ValidationRun['result']): string {
+  return `vibe-validate result ${canonicalJson({ treeHash, resultDigest: getResultDigest(result) })}`;
+}
+
+/**
+ * Compute the HMAC of a payload
+ *
+ * @internal
+ */
+function computeHmac(key: string, payload: string): string {
+  return createHmac('sha256', key).update(payload).digest('hex');
+}
+
+/**
+ * Sign a payload
+ *
+ * @internal
+ */
+function signPayload(payload: string, method: RunSigningMethod): RunSignature | undefined {
+  if (method === 'hmac') {
+    const key = process.env[HISTORY_SIGNING_KEY_ENV];
+    return key ? { method: 'hmac', value: computeHmac(key, payload) } : undefined;
+  }
+  const signature = signWithGit(payload);
+  return signature ? { method: signature.format, value: signature.signedObject } : undefined;
+}
+
+/**
+ * Verify a payload's signature
+ *
+ * @internal
+ */
+function verifyPayload(payload: string, signature: RunSignature | undefined): RunSignature['method'] | null {
+  if (!signature) {
+    return null;
+  }
+
+  if (signature.method === 'hmac') {
+    const key = process.env[HISTORY_SIGNING_KEY_ENV];
+    if (!key) {
+      return null;
+    }
+    const expected = Buffer.from(computeHmac(key, payload));
+    const actual = Buffer.from(signature.value);
+    return expected.length === actual.length && timingSafeEqual(expected, actual) ? 'hmac' : null;
+  }
+
+  const verification = verifyGitSignature({ format: signature.method, signedObject: signature.value }, payload);
+  return verification.valid ? signature.method : null;
+}
+
+/**
+ * Check whether the trust policy accepts a verified signature method
+ *
+ * @internal
+ */
+function acceptsSignature(method: RunSignature['method'] | null, trust: Exclude<HistoryTrust, 'any'>): boolean {
+  return trust === 'signed' ? method !== null : method === 'hmac';
+}
+
+/**
+ * Sign a run
+ *
+ * @param treeHash - Tree hash the run is recorded under
+ * @param run - The run to sign
+ * @param method - `git` (the user's GPG/SSH signing key) or `hmac` (the shared key)
+ * @returns The signature, or undefined when signing is not set up (no signing
+ *   key, or `VV_HISTORY_SIGNING_KEY` unset)
+ */
+export function signRun(treeHash: string, run: ValidationRun, method: RunSigningMethod): RunSignature | undefined {
+  return signPayload(getRunSignaturePayload(treeHash, run), method);
+}
+
+/**
+ * Sign a result about to be printed (e.g. by CI, for `history import`)
+ *
+ * @param result - The result (must have its tree hash)
+ * @param method - `git` (the user's GPG/SSH signing key) or `hmac` (the shared key)
+ * @returns The signature, or undefined when the result has no tree hash or
+ *   signing is not set up
+ */
+export function signResult(result: ValidationResult, method: RunSigningMethod): RunSignature | undefined {
+  return result.treeHash ? signPayload(getResultSignaturePayload(result.treeHash, result), method) : undefined;
+}
+
+/**
+ * Read the signature printed with a result
+ *
+ * @param value - The printed `signature` field
+ * @returns The signature, or undefined if there is none or it is malformed
+ */
+export function parseResultSignature(value: unknown): RunSignature | undefined {
+  const parsed = RunSignatureSchema.safeParse(value);
+  return parsed.success ? parsed.data : undefined;
+}
+
+/**
+ * Verify a run's signature
+ *
+ * An HMAC can only be checked where the shared key is available; elsewhere
+ * it counts as unverified. A run imported from CI (`source: ci`) carries the
+ * signature of its printed result, so it is checked against the result, and
+ * its outcome must be the result's.
+ *
+ * @param treeHash - Tree hash the run's note is attached to
+ * @param run - The run to check
+ * @returns The signature method if the run carries a valid signature, else null
+ */
+export function verifyRunSignature(treeHash: string, run: ValidationRun): RunSignature['method'] | null {
+  if (!run.signature) {
+    return null;
+  }
+  if (run.source === 'ci') {
+    return run.passed === run.result?.passed
+      ? verifyPayload(getResultSignaturePayload(treeHash, run.result), run.signature)
+      : null;
+  }
+  return verifyPayload(getRunSignaturePayload(treeHash, run), run.signature);
+}
+
+/**
+ * Check whether the trust policy lets the cache reuse a run
+ *
+ * @param treeHash - Tree hash the run's note is attached to
+ * @param run - Cached run
+ * @param trust - Trust policy (`history.trust`)
+ * @returns true if the run may be reused
+ */
+export function isTrustedRun(treeHash: string, run: ValidationRun, trust: HistoryTrust): boolean {
+  if (trust === 'any') {
+    return true;
+  }
+  return acceptsSignature(verifyRunSignature(treeHash, run), trust);
+}
+
+/**
+ * The text a step cache note's signature covers
+ *
+ * @param notesRef - Step cache ref the note is in (identifies command, cwd and env)
+ * @param note - The note (its signature is ignored)
+ * @returns Canonical payload
+ */
+export function getStepCacheSignaturePayload(notesRef: string, note: StepCacheNote): string {
+  return `vibe-validate step ${canonicalJson({
+    notesRef,
+    inputsHash: note.inputsHash,
+    timestamp: note.timestamp,
+    treeHash: note.treeHash,
+    result: note.result,
+  })}`;
+}
+
+/**
+ * Sign a step cache note
+ *
+ * @param notesRef - Step cache ref the note is written to
+ * @param note - The note to sign
+ * @param method - `git` or `hmac` (as for runs)
+ * @returns The signature, or undefined when signing is not set up
+ */
+export function signStepCacheNote(notesRef: string, note: StepCacheNote, method: RunSigningMethod): RunSignature | undefined {
+  return signPayload(getStepCacheSignaturePayload(notesRef, note), method);
+}
+
+/**
+ * Check whether the trust policy lets the step cache reuse a recorded pass
+ *
+ * Step cache notes are synced with the rest of the history, so they are held
+ * to the same policy as runs.
+ *
+ * @param notesRef - Step cache ref the note was read from
+ * @param note - Recorded pass
+ * @param trust - Trust policy (`history.trust`)
+ * @returns true if the pass may be reused
+ */
+export function isTrustedStepCacheNote(notesRef: string, note: StepCacheNote, trust: HistoryTrust): boolean {
+  if (trust === 'any') {
+    return true;
+  }
+  return acceptsSignature(verifyPayload(getStepCacheSignaturePayload(notesRef, note), note.signature), trust);
+}
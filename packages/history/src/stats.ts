@@ -0,0 +1,277 @@
+/**
+ * History statistics - pass rates, durations and failures per step
+ *
+ * Aggregates the steps of every run in a period: how often each step passed,
+ * its median and 95th percentile duration, and how both moved compared with
+ * the period of the same length just before. Failures are grouped by the
+ * extracted error code, so recurring problems stand out from one-offs.
+ *
+ * Skipped steps and steps served from the step cache did not run, so they
+ * count towards neither pass rates nor durations.
+ *
+ * @packageDocumentation
+ */
+
+import type { StepResult } from '@vibe-validate/core';
+
+import type { HistoryNote } from './types.js';
+
+/** Failure groups reported by {@link computeHistoryStats} */
+const TOP_FAILURES_LIMIT = 10;
+
+/** Units accepted by {@link parseStatsPeriod} */
+const PERIOD_UNITS_MS: Record<string, number> = {
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Options for {@link computeHistoryStats}
+ */
+export interface HistoryStatsOptions {
+  /** Start of the period */
+  since: Date;
+  /** End of the period (default: now) */
+  until?: Date;
+  /** Only count runs on this branch */
+  branch?: string;
+}
+
+/**
+ * Change of a step's figures compared with the previous period
+ */
+export interface StepTrend {
+  /** Pass rate now minus pass rate then (e.g. -0.05 is five points worse) */
+  passRate: number;
+  /** Median duration now minus median duration then, in seconds */
+  p50Secs: number;
+}
+
+/**
+ * Figures for one step over the period
+ */
+export interface StepStats {
+  name: string;
+  /** Times the step ran */
+  runs: number;
+  /** Times it passed */
+  passed: number;
+  /** passed / runs, between 0 and 1 */
+  passRate: number;
+  /** Median duration in seconds */
+  p50Secs: number;
+  /** 95th percentile duration in seconds */
+  p95Secs: number;
+  /** Omitted when the step did not run in the previous period */
+  trend?: StepTrend;
+}
+
+/**
+ * Failures sharing an error code (or, without a code, a message)
+ */
+export interface FailureGroup {
+  /** Extracted error code (e.g. TS2322, an ESLint rule) */
+  code?: string;
+  /** Message of the most recent error in the group */
+  message: string;
+  /** Errors in the group */
+  count: number;
+  /** Steps that reported them */
+  steps: string[];
+  /** Timestamp of the most recent run that reported one */
+  lastSeen: string;
+}
+
+/**
+ * Statistics of the validation history over a period
+ */
+export interface HistoryStats {
+  period: { since: string; until: string; runs: number; passed: number; passRate: number };
+  previousPeriod: { since: string; until: string; runs: number };
+  /** Slowest first (by 95th percentile) */
+  steps: StepStats[];
+  /** Most frequent first */
+  topFailures: FailureGroup[];
+}
+
+/**
+ * Parse a period such as `30d`, `12h` or `2w`, or an ISO 8601 date
+ *
+ * @param value - Period length back from `now`, or a start date
+ * @param now - Reference time (default: now)
+ * @returns Start of the period
+ * @throws Error if the value is neither
+ */
+export function parseStatsPeriod(value: string, now: Date = new Date()): Date {
+  const match = /^(\d+)([hdw])$/.exec(value.trim());
+  if (match) {
+    return new Date(now.getTime() - Number(match[1]) * PERIOD_UNITS_MS[match[2]]);
+  }
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new TypeError(`Invalid period "${value}": use e.g. 30d, 12h, 2w or a date (2026-01-31)`);
+  }
+  return date;
+}
+
+/**
+ * Nearest-rank percentile of sorted values
+ *
+ * @internal
+ */
+function percentile(sorted: number[], fraction: number): number {
+  if (sorted.length === 0) {
+    return 0;
+  }
+  const index = Math.max(0, Math.ceil(fraction * sorted.length) - 1);
+  return sorted[index];
+}
+
+/**
+ * Round to two decimal places
+ *
+ * @internal
+ */
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * A step that ran, with the run it belongs to
+ *
+ * @internal
+ */
+interface StepSample {
+  step: StepResult;
+  timestamp: string;
+}
+
+/**
+ * Collect the steps that ran in runs within a time range
+ *
+ * @internal
+ */
+function collectSteps(notes: HistoryNote[], from: number, to: number, branch: string | undefined) {
+  const runs = notes
+    .flatMap(note => note.runs)
+    .filter(run => {
+      const time = new Date(run.timestamp).getTime();
+      return time >= from && time < to && (branch === undefined || run.branch === branch);
+    });
+
+  const samples: StepSample[] = runs.flatMap(run =>
+    (run.result?.phases ?? [])
+      .flatMap(phase => phase.steps ?? [])
+      .filter(step => !step.skipped && !step.isCachedResult)
+      .map(step => ({ step, timestamp: run.timestamp }))
+  );
+
+  return { runs, samples };
+}
+
+/**
+ * Compute pass rate and duration percentiles per step
+ *
+ * @internal
+ */
+function summarizeSteps(samples: StepSample[]): Map<string, Omit<StepStats, 'trend'>> {
+  const byName = new Map<string, StepResult[]>();
+  for (const { step } of samples) {
+    byName.set(step.name, [...(byName.get(step.name) ?? []), step]);
+  }
+
+  const summaries = new Map<string, Omit<StepStats, 'trend'>>();
+  for (const [name, steps] of byName) {
+    const durations = steps.map(step => step.durationSecs).sort((a, b) => a - b);
+    const passed = steps.filter(step => step.passed).length;
+    summaries.set(name, {
+      name,
+      runs: steps.length,
+      passed,
+      passRate: round(passed / steps.length),
+      p50Secs: round(percentile(durations, 0.5)),
+      p95Secs: round(percentile(durations, 0.95)),
+    });
+  }
+  return summaries;
+}
+
+/**
+ * Group the extracted errors of failed steps by code
+ *
+ * @internal
+ */
+function groupFailures(samples: StepSample[]): FailureGroup[] {
+  const groups = new Map<string, FailureGroup>();
+  const failed = samples
+    .filter(({ step }) => !step.passed)
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp, 'en'));
+
+  for (const { step, timestamp } of failed) {
+    for (const error of step.extraction?.errors ?? []) {
+      const message = error.message.split('\n')[0].trim();
+      const key = error.code ? `code:${error.code}` : `message:${message}`;
+      const group = groups.get(key) ?? { ...(error.code ? { code: error.code } : {}), message, count: 0, steps: [], lastSeen: timestamp };
+      group.count++;
+      group.message = message;
+      group.lastSeen = timestamp;
+      if (!group.steps.includes(step.name)) {
+        group.steps.push(step.name);
+      }
+      groups.set(key, group);
+    }
+  }
+
+  return [...groups.values()].sort((a, b) => b.count - a.count).slice(0, TOP_FAILURES_LIMIT);
+}
+
+/**
+ * Aggregate the validation history over a period
+ *
+ * @param notes - History notes (e.g. from getAllHistoryNotes())
+ * @param options - Period and branch filter
+ * @returns Per-step statistics, trends against the previous period of the
+ *   same length, and the most frequent failures
+ *
+ * @example
+ * ```typescript
+ * const stats = computeHistoryStats(await getAllHistoryNotes(), { since: parseStatsPeriod('30d') });
+ * const slowest = stats.steps[0]; // { name: 'E2E', p95Secs: 612.4, ... }
+ * ```
+ */
+export function computeHistoryStats(notes: HistoryNote[], options: HistoryStatsOptions): HistoryStats {
+  const until = (options.until ?? new Date()).getTime();
+  const since = options.since.getTime();
+  const previousSince = since - (until - since);
+
+  const current = collectSteps(notes, since, until, options.branch);
+  const previous = collectSteps(notes, previousSince, since, options.branch);
+  const previousSteps = summarizeSteps(previous.samples);
+
+  const steps: StepStats[] = [...summarizeSteps(current.samples).values()].map(stats => {
+    const before = previousSteps.get(stats.name);
+    return before
+      ? { ...stats, trend: { passRate: round(stats.passRate - before.passRate), p50Secs: round(stats.p50Secs - before.p50Secs) } }
+      : stats;
+  });
+  steps.sort((a, b) => b.p95Secs - a.p95Secs);
+
+  const passedRuns = current.runs.filter(run => run.passed).length;
+  return {
+    period: {
+      since: new Date(since).toISOString(),
+      until: new Date(until).toISOString(),
+      runs: current.runs.length,
+      passed: passedRuns,
+      passRate: current.runs.length > 0 ? round(passedRuns / current.runs.length) : 0,
+    },
+    previousPeriod: {
+      since: new Date(previousSince).toISOString(),
+      until: new Date(since).toISOString(),
+      runs: previous.runs.length,
+    },
+    steps,
+    topFailures: groupFailures(current.samples),
+  };
+}
@@ -0,0 +1,130 @@
+/**
+ * Per-step result cache keyed by input tree hash
+ *
+ * A step that declares `inputs` gets an input tree hash (see
+ * `getInputTreeHashes` in @vibe-validate/git). Its passing result is stored as
+ * a git note on that hash, in a notes ref per command + working directory:
+ *
+ *   refs/notes/vibe-validate/step/{cacheKey}  →  note on {inputsHash}
+ *
+ * so a later run with the same input files can reuse the pass even though
+ * the whole-tree hash changed. Notes are signed and checked like runs (see
+ * `history.sign` and `history.trust`), since they are synced with the history.
+ */
+
+import type { StepResult, ValidationResult, ValidationStep } from '@vibe-validate/core';
+import {
+  addNote,
+  encodeRunCacheKey,
+  readNote,
+  type NotesRef,
+  type TreeHash,
+} from '@vibe-validate/git';
+import { parse as parseYaml, stringify as stringifyYaml } from 'yaml';
+
+import { StepCacheNoteSchema, type StepCacheNote } from './schemas.js';
+import { isTrustedStepCacheNote, signStepCacheNote, type HistoryTrust, type RunSigningMethod } from './signing.js';
+
+/**
+ * Notes ref namespace for the step cache
+ */
+export const STEP_CACHE_REF_PREFIX = 'vibe-validate/step';
+
+/**
+ * Get the notes ref holding cached results for a step
+ *
+ * Keyed by command, working directory and env (like the run cache, plus
+ * env), so changing a step's command or environment never reuses a pass
+ * recorded for the old one.
+ *
+ * @param step - Step configuration
+ * @returns Notes ref (without the refs/notes/ prefix)
+ */
+export function getStepCacheRef(step: Pick<ValidationStep, 'command' | 'cwd' | 'env'>): NotesRef {
+  return `${STEP_CACHE_REF_PREFIX}/${encodeRunCacheKey(step.command, step.cwd ?? '', step.env)}` as NotesRef;
+}
+
+/**
+ * Find a recorded pass for a step whose inputs hash to `inputsHash`
+ *
+ * @param step - Step configuration
+ * @param inputsHash - Input tree hash computed for this run
+ * @param trust - Which recorded passes may be reused (`history.trust`, default: any)
+ * @returns The recorded passing step result, or null on a miss (or an
+ *   unreadable note, or one the trust policy does not accept)
+ */
+export async function findCachedStepResult(
+  step: Pick<ValidationStep, 'command' | 'cwd' | 'env'>,
+  inputsHash: string,
+  trust: HistoryTrust = 'any'
+): Promise<StepResult | null> {
+  const notesRef = getStepCacheRef(step);
+  const yaml = readNote(notesRef, inputsHash as TreeHash);
+  if (!yaml) {
+    return null;
+  }
+
+  try {
+    const parsed = StepCacheNoteSchema.safeParse(parseYaml(yaml));
+    if (!parsed.success || !parsed.data.result.passed || !isTrustedStepCacheNote(notesRef, parsed.data, trust)) {
+      return null;
+    }
+    return parsed.data.result;
+  } catch {
+    // Corrupted note - treat as a miss, the step simply runs
+    return null;
+  }
+}
+
+/**
+ * Record the passing steps of a validation run that have an input hash
+ *
+ * Steps reused from the cache are not re-recorded, so a note keeps the
+ * timestamp and duration of the run that actually executed the step.
+ *
+ * @param steps - Step configurations (matched to results by name)
+ * @param result - Validation result
+ * @param sign - How to sign the notes (`history.sign`); unsigned when omitted
+ *   or when signing is not set up
+ * @returns Number of step results recorded
+ */
+export async function recordStepResults(
+  steps: ValidationStep[],
+  result: ValidationResult,
+  sign?: RunSigningMethod
+): Promise<number> {
+  const stepsByName = new Map(steps.map(step => [step.name, step]));
+  let recorded = 0;
+
+  for (const stepResult of result.phases?.flatMap(phase => phase.steps) ?? []) {
+    const step = stepsByName.get(stepResult.name);
+    if (!step || !stepResult.inputsHash || !stepResult.passed || stepResult.isCachedResult) {
+      continue;
+    }
+
+    const note: StepCacheNote = {
+      inputsHash: stepResult.inputsHash,
+      timestamp: result.timestamp,
+      ...(result.treeHash ? { treeHash: result.treeHash } : {}),
+      result: {
+        name: stepResult.name,
+        command: stepResult.command,
+        exitCode: stepResult.exitCode,
+        durationSecs: stepResult.durationSecs,
+        passed: true,
+        inputsHash: stepResult.inputsHash,
+      },
+    };
+
+    const notesRef = getStepCacheRef(step);
+    if (sign) {
+      note.signature = signStepCacheNote(notesRef, note, sign);
+    }
+
+    if (addNote(notesRef, stepResult.inputsHash as TreeHash, stringifyYaml(note))) {
+      recorded++;
+    }
+  }
+
+  return recorded;
+}
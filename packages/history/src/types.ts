@@ -9,17 +9,21 @@
 
 // Re-export YAML-serializable types from Zod schemas
 export type {
+  RunSignature,
   ValidationRun,
   HistoryNote,
   HistoryConfig,
   RunCacheNote,
+  StepCacheNote,
 } from './schemas.js';
 
 export {
+  RunSignatureSchema,
   ValidationRunSchema,
   HistoryNoteSchema,
   HistoryConfigSchema,
   RunCacheNoteSchema,
+  StepCacheNoteSchema,
   DEFAULT_HISTORY_CONFIG,
 } from './schemas.js';
 
@@ -35,6 +39,9 @@ export interface RecordResult {
 
   /** Tree hash that was recorded (or attempted) */
   treeHash: string;
+
+  /** Why the run was recorded unsigned although signing was requested */
+  signingError?: string;
 }
 
 /**
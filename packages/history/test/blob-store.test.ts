@@ -0,0 +1,247 @@
+/**
+ * Tests for the blob store (compressed, deduplicated large payloads)
+ */
+
+import { gzipSync } from 'node:zlib';
+
+import type { StepResult, ValidationResult } from '@vibe-validate/core';
+import { executeGitCommand, listNoteObjects, readNoteBlob, removeNotes, writeNoteBlob } from '@vibe-validate/git';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+import {
+  BLOB_THRESHOLD_BYTES,
+  HISTORY_BLOBS_REF,
+  getBlobStorageStats,
+  loadLargePayloads,
+  removeUnreferencedBlobs,
+  storeLargePayloads,
+} from '../src/blob-store.js';
+
+vi.mock('@vibe-validate/git', () => ({
+  executeGitCommand: vi.fn(),
+  listNoteObjects: vi.fn(),
+  readNoteBlob: vi.fn(),
+  removeNotes: vi.fn(),
+  writeNoteBlob: vi.fn(),
+}));
+
+const BLOB_A = 'a'.repeat(40);
+const BLOB_B = 'b'.repeat(40);
+
+function step(name: string, errorCount: number): StepResult {
+  const errors = Array.from({ length: errorCount }, (_, i) => ({
+    file: `src/file-${i}.ts`,
+    line: i + 1,
+    message: `Type 'string' is not assignable to type 'number' (${name})`,
+  }));
+  return {
+    name,
+    passed: errorCount === 0,
+    durationSecs: 1,
+    ...(errorCount > 0 ? { extraction: { summary: `${errorCount} error(s)`, totalErrors: errorCount, errors } } : {}),
+  };
+}
+
+function result(steps: StepResult[]): ValidationResult {
+  return {
+    passed: steps.every(s => s.passed),
+    timestamp: '2025-10-21T14:30:15.123Z',
+    treeHash: 'abc123',
+    phases: [{ name: 'checks', durationSecs: 1, passed: steps.every(s => s.passed), steps }],
+  };
+}
+
+function storedSteps(stored: ReturnType<typeof storeLargePayloads>) {
+  return stored.phases?.[0].steps ?? [];
+}
+
+describe('storeLargePayloads', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(writeNoteBlob).mockReturnValue(BLOB_A);
+  });
+
+  it('should keep small extractions inline', () => {
+    const stored = storeLargePayloads(result([step('Lint', 1), step('Test', 0)]));
+
+    expect(storedSteps(stored)[0].extraction?.totalErrors).toBe(1);
+    expect(storedSteps(stored)[0].extractionBlob).toBeUndefined();
+    expect(writeNoteBlob).not.toHaveBeenCalled();
+  });
+
+  it('should replace large extractions by a compressed blob', () => {
+    const large = step('Typecheck', 50);
+    expect(JSON.stringify(large.extraction).length).toBeGreaterThanOrEqual(BLOB_THRESHOLD_BYTES);
+
+    const stored = storeLargePayloads(result([large]));
+
+    expect(storedSteps(stored)[0]).not.toHaveProperty('extraction', expect.anything());
+    expect(storedSteps(stored)[0].extractionBlob).toBe(BLOB_A);
+    expect(storedSteps(stored)[0].name).toBe('Typecheck');
+
+    const [ref, content] = vi.mocked(writeNoteBlob).mock.calls[0];
+    expect(ref).toBe(HISTORY_BLOBS_REF);
+    expect(content.length).toBeLessThan(JSON.stringify(large.extraction).length);
+  });
+
+  it('should write identical extractions as identical blobs (deduplicated by git)', () => {
+    storeLargePayloads(result([step('Typecheck', 50)]));
+    storeLargePayloads(result([step('Typecheck', 50)]));
+
+    const [first, second] = vi.mocked(writeNoteBlob).mock.calls.map(([, content]) => content);
+    expect(first.equals(second)).toBe(true);
+  });
+
+  it('should keep the extraction inline when the blob cannot be written', () => {
+    vi.mocked(writeNoteBlob).mockReturnValue(null);
+
+    const stored = storeLargePayloads(result([step('Typecheck', 50)]));
+
+    expect(storedSteps(stored)[0].extraction?.totalErrors).toBe(50);
+    expect(storedSteps(stored)[0].extractionBlob).toBeUndefined();
+  });
+});
+
+describe('loadLargePayloads', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should restore extractions stored as blobs', () => {
+    const original = result([step('Typecheck', 50), step('Lint', 1)]);
+    let written: Buffer | undefined;
+    vi.mocked(writeNoteBlob).mockImplementation((_ref, content) => {
+      written = content;
+      return BLOB_A;
+    });
+    vi.mocked(readNoteBlob).mockImplementation(() => written ?? null);
+
+    const loaded = loadLargePayloads(storeLargePayloads(original));
+
+    expect(loaded).toEqual(original);
+    expect(readNoteBlob).toHaveBeenCalledWith(BLOB_A);
+  });
+
+  it('should keep the step without its extraction when the blob is missing', () => {
+    vi.mocked(readNoteBlob).mockReturnValue(null);
+    const stored = { ...result([]), phases: [{ name: 'checks', durationSecs: 1, passed: false, steps: [
+      { name: 'Typecheck', passed: false, durationSecs: 1, extractionBlob: BLOB_B },
+    ] }] };
+
+    const loaded = loadLargePayloads(stored) as ValidationResult;
+
+    expect(loaded.phases?.[0].steps[0]).toEqual({ name: 'Typecheck', passed: false, durationSecs: 1 });
+  });
+
+  it('should leave results without blob references unchanged', () => {
+    const original = result([step('Lint', 1)]);
+
+    expect(loadLargePayloads(original)).toEqual(original);
+    expect(loadLargePayloads(null)).toBeNull();
+    expect(readNoteBlob).not.toHaveBeenCalled();
+  });
+});
+
+describe('getBlobStorageStats', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should report the space saved by each blob and its references', () => {
+    const payloadA = Buffer.alloc(4000, 'x');
+    const payloadB = Buffer.alloc(2000, 'y');
+    const blobA = gzipSync(payloadA);
+    const blobB = gzipSync(payloadB);
+
+    vi.mocked(executeGitCommand).mockImplementation(args => {
+      if (args[0] === 'grep') {
+        return {
+          success: true,
+          stdout: [`extractionBlob: ${BLOB_A}`, `extractionBlob: "${BLOB_A}`, `extractionBlob: ${BLOB_B}`].join('\n'),
+          stderr: '',
+          exitCode: 0,
+        };
+      }
+      const output = Buffer.concat([
+        Buffer.from(`${BLOB_A} blob ${blobA.length}\n`), blobA, Buffer.from('\n'),
+        Buffer.from(`${BLOB_B} blob ${blobB.length}\n`), blobB, Buffer.from('\n'),
+      ]);
+      return { success: true, stdout: output.toString('latin1'), stderr: '', exitCode: 0 };
+    });
+
+    const stats = getBlobStorageStats();
+
+    expect(stats).toEqual({
+      blobs: 2,
+      references: 3,
+      storedBytes: blobA.length + blobB.length,
+      inlineBytes: 2 * 4000 + 2000,
+      savedBytes: 2 * 4000 + 2000 - blobA.length - blobB.length,
+    });
+  });
+
+  it('should skip blobs referenced but not pulled', () => {
+    vi.mocked(executeGitCommand).mockImplementation(args =>
+      args[0] === 'grep'
+        ? { success: true, stdout: `extractionBlob: ${BLOB_A}`, stderr: '', exitCode: 0 }
+        : { success: true, stdout: `${BLOB_A} missing\n`, stderr: '', exitCode: 0 }
+    );
+
+    expect(getBlobStorageStats()).toEqual({ blobs: 0, references: 0, storedBytes: 0, inlineBytes: 0, savedBytes: 0 });
+  });
+
+  it('should report nothing when no blob is referenced', () => {
+    vi.mocked(executeGitCommand).mockReturnValue({ success: false, stdout: '', stderr: '', exitCode: 1 });
+
+    expect(getBlobStorageStats()).toEqual({ blobs: 0, references: 0, storedBytes: 0, inlineBytes: 0, savedBytes: 0 });
+    expect(executeGitCommand).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('removeUnreferencedBlobs', () => {
+  const BLOB_C = 'c'.repeat(40);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(removeNotes).mockReturnValue(true);
+  });
+
+  it('should remove the blobs no note references', () => {
+    vi.mocked(listNoteObjects).mockReturnValue([BLOB_A, BLOB_B, BLOB_C] as never);
+    vi.mocked(executeGitCommand).mockReturnValue({ success: true, stdout: `extractionBlob: ${BLOB_B}`, stderr: '', exitCode: 0 });
+
+    expect(removeUnreferencedBlobs()).toBe(2);
+    expect(listNoteObjects).toHaveBeenCalledWith(HISTORY_BLOBS_REF);
+    expect(executeGitCommand).toHaveBeenCalledWith(expect.arrayContaining(['grep', 'refs/notes/vibe-validate/validate']), expect.anything());
+    expect(removeNotes).toHaveBeenCalledWith(HISTORY_BLOBS_REF, [BLOB_A, BLOB_C]);
+  });
+
+  it('should remove every blob when no note references one', () => {
+    vi.mocked(listNoteObjects).mockReturnValue([BLOB_A] as never);
+    vi.mocked(executeGitCommand).mockReturnValue({ success: false, stdout: '', stderr: '', exitCode: 1 });
+
+    expect(removeUnreferencedBlobs()).toBe(1);
+    expect(removeNotes).toHaveBeenCalledWith(HISTORY_BLOBS_REF, [BLOB_A]);
+  });
+
+  it('should keep all blobs when the references could not be read', () => {
+    vi.mocked(listNoteObjects).mockReturnValue([BLOB_A] as never);
+    vi.mocked(executeGitCommand).mockReturnValue({
+      success: false,
+      stdout: '',
+      stderr: '',
+      exitCode: 0,
+      error: new Error('spawnSync git ENOBUFS'),
+    });
+
+    expect(removeUnreferencedBlobs()).toBe(0);
+    expect(removeNotes).not.toHaveBeenCalled();
+  });
+
+  it('should not look for references when there are no blobs', () => {
+    vi.mocked(listNoteObjects).mockReturnValue([]);
+
+    expect(removeUnreferencedBlobs()).toBe(0);
+    expect(executeGitCommand).not.toHaveBeenCalled();
+  });
+});
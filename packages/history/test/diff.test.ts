@@ -0,0 +1,121 @@
+/**
+ * Tests for diffing validation runs
+ */
+
+import type { StepResult } from '@vibe-validate/core';
+import { getCommitDiffStats } from '@vibe-validate/git';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { diffValidationRuns, findDefaultDiffRuns, getRunDiffStat } from '../src/diff.js';
+import type { HistoryNote, ValidationRun } from '../src/types.js';
+
+vi.mock('@vibe-validate/git', () => ({
+  getCommitDiffStats: vi.fn(),
+}));
+
+const LINT_ERROR = { file: 'src/a.ts', line: 3, message: 'Unexpected any', code: 'no-explicit-any' };
+const TYPE_ERROR = { file: 'src/b.ts', line: 7, message: "Type 'string' is not assignable", code: 'TS2322' };
+
+function step(name: string, errors: Array<{ file: string; line: number; message: string; code: string }> = []): StepResult {
+  return {
+    name,
+    command: `npm run ${name.toLowerCase()}`,
+    exitCode: errors.length > 0 ? 1 : 0,
+    passed: errors.length === 0,
+    durationSecs: 1,
+    ...(errors.length > 0 ? { extraction: { summary: `${errors.length} error(s)`, totalErrors: errors.length, errors } } : {}),
+  };
+}
+
+function createRun(id: string, timestamp: string, steps: StepResult[], branch = 'main'): ValidationRun {
+  const passed = steps.every(s => s.passed);
+  return {
+    id,
+    timestamp,
+    duration: 1000,
+    passed,
+    branch,
+    headCommit: `commit-${id}`,
+    uncommittedChanges: false,
+    result: { passed, timestamp, phases: [{ name: 'Checks', passed, durationSecs: 1, steps }] },
+  };
+}
+
+describe('diffValidationRuns', () => {
+  it('should report step and error changes between two runs', () => {
+    const from = createRun('run-1', '2026-03-01T00:00:00.000Z', [step('Lint', [LINT_ERROR]), step('Typecheck'), step('Build', [TYPE_ERROR])]);
+    // The lint error moved down a line: still the same error
+    const to = createRun('run-2', '2026-03-02T00:00:00.000Z', [
+      step('Lint', [{ ...LINT_ERROR, line: 4 }]),
+      step('Typecheck', [TYPE_ERROR]),
+      step('Build'),
+      step('Docs', [{ file: 'README.md', line: 1, message: 'Broken link\n  see docs/x.md', code: 'MD042' }]),
+    ]);
+
+    const diff = diffValidationRuns({ treeHash: 'tree-1', run: from }, { treeHash: 'tree-2', run: to });
+
+    expect(diff.from).toMatchObject({ treeHash: 'tree-1', runId: 'run-1', passed: false, headCommit: 'commit-run-1' });
+    expect(diff.newlyFailing).toEqual(['Typecheck', 'Docs']);
+    expect(diff.fixed).toEqual(['Build']);
+    expect(diff.stillFailing).toEqual(['Lint']);
+    expect(diff.errors).toEqual({
+      new: [
+        { step: 'Typecheck', ...TYPE_ERROR },
+        { step: 'Docs', file: 'README.md', line: 1, code: 'MD042', message: 'Broken link' },
+      ],
+      resolved: [{ step: 'Build', ...TYPE_ERROR }],
+      unchanged: [{ step: 'Lint', ...LINT_ERROR, line: 4 }],
+    });
+  });
+});
+
+describe('findDefaultDiffRuns', () => {
+  const green = createRun('run-1', '2026-03-01T00:00:00.000Z', [step('Lint')]);
+  const red = createRun('run-2', '2026-03-02T00:00:00.000Z', [step('Lint', [LINT_ERROR])]);
+  const other = createRun('run-3', '2026-03-03T00:00:00.000Z', [step('Lint', [LINT_ERROR])], 'feature');
+  const notes: HistoryNote[] = [
+    { treeHash: 'tree-1', runs: [green] },
+    { treeHash: 'tree-2', runs: [red, other] },
+  ];
+
+  it('should pick the latest passing run and the latest run', () => {
+    expect(findDefaultDiffRuns(notes)).toEqual({ from: { treeHash: 'tree-1', run: green }, to: { treeHash: 'tree-2', run: other } });
+    expect(findDefaultDiffRuns(notes, 'main')?.to.run).toBe(red);
+  });
+
+  it('should return null without a passing run or when it is the latest', () => {
+    expect(findDefaultDiffRuns(notes, 'feature')).toBeNull();
+    expect(findDefaultDiffRuns([{ treeHash: 'tree-1', runs: [green] }])).toBeNull();
+  });
+});
+
+describe('getRunDiffStat', () => {
+  const FROM_COMMIT = 'a'.repeat(40);
+  const TO_COMMIT = 'b'.repeat(64);
+
+  beforeEach(() => {
+    vi.mocked(getCommitDiffStats).mockReset();
+  });
+
+  it('should parse numstat output, counting binary files as changed', () => {
+    vi.mocked(getCommitDiffStats).mockReturnValue('3\t1\tsrc/a.ts\n-\t-\tlogo.png\n10\t0\tsrc/new.ts');
+
+    expect(getRunDiffStat(FROM_COMMIT, TO_COMMIT)).toEqual({
+      filesChanged: 3,
+      insertions: 13,
+      deletions: 1,
+      files: [
+        { file: 'src/a.ts', insertions: 3, deletions: 1 },
+        { file: 'logo.png', insertions: 0, deletions: 0 },
+        { file: 'src/new.ts', insertions: 10, deletions: 0 },
+      ],
+    });
+    expect(getCommitDiffStats).toHaveBeenCalledWith(FROM_COMMIT, TO_COMMIT);
+  });
+
+  it('should refuse a headCommit that is not an object id before calling git', () => {
+    expect(() => getRunDiffStat('--output=/home/u/.bashrc', TO_COMMIT)).toThrow('Invalid headCommit');
+    expect(() => getRunDiffStat(FROM_COMMIT, 'main')).toThrow('Invalid headCommit');
+    expect(getCommitDiffStats).not.toHaveBeenCalled();
+  });
+});
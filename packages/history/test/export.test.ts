@@ -0,0 +1,106 @@
+/**
+ * Tests for history export
+ */
+
+import type { StepResult } from '@vibe-validate/core';
+import { encodeRunCacheKey } from '@vibe-validate/git';
+import { describe, expect, it } from 'vitest';
+
+import { buildHistoryExport, formatHistoryJsonl, formatHistoryJunit, formatHistorySql } from '../src/export.js';
+import type { HistoryNote, RunCacheNote } from '../src/types.js';
+
+const TYPE_ERROR = { file: 'src/a.ts', line: 3, column: 5, message: "Type 'string' is not assignable", code: 'TS2322' };
+
+const STEPS: StepResult[] = [
+  {
+    name: 'Typecheck',
+    command: 'tsc --noEmit',
+    exitCode: 2,
+    passed: false,
+    durationSecs: 4.5,
+    extraction: { summary: '1 error', totalErrors: 1, errors: [TYPE_ERROR] },
+  },
+  { name: 'E2E', command: 'npm run e2e', exitCode: 0, passed: true, durationSecs: 0, skipped: { reason: 'ci-only', deterministic: true } },
+];
+
+const NOTE: HistoryNote = {
+  treeHash: 'abc1234def',
+  runs: [
+    {
+      id: 'run-1',
+      timestamp: '2026-03-02T10:00:00.000Z',
+      duration: 5000,
+      passed: false,
+      branch: 'feature/<x>',
+      headCommit: 'def456',
+      uncommittedChanges: false,
+      result: {
+        passed: false,
+        timestamp: '2026-03-02T10:00:00.000Z',
+        phases: [{ name: 'Checks', passed: false, durationSecs: 4.5, steps: STEPS }],
+      },
+    },
+  ],
+};
+
+const RUN_CACHE_ENTRY: RunCacheNote = {
+  treeHash: 'abc1234def',
+  timestamp: '2026-03-01T09:00:00.000Z',
+  command: "echo 'hi'",
+  exitCode: 0,
+  durationSecs: 0.2,
+  workdir: 'packages/cli',
+  outputFiles: { combined: 'combined.jsonl' },
+};
+
+const RUN_CACHE_ID = `run:abc1234def:${encodeRunCacheKey("echo 'hi'", 'packages/cli')}`;
+
+describe('buildHistoryExport', () => {
+  it('should produce one row per run, step and extracted error', () => {
+    const exported = buildHistoryExport([NOTE], [RUN_CACHE_ENTRY]);
+
+    expect(exported.runs.map(run => run.id)).toEqual([RUN_CACHE_ID, 'validate:abc1234def:run-1']);
+    expect(exported.runs[1]).toMatchObject({ kind: 'validate', passed: false, durationSecs: 5, branch: 'feature/<x>' });
+    expect(exported.runs[0]).toMatchObject({ kind: 'run', passed: true, command: "echo 'hi'", workdir: 'packages/cli' });
+    expect(exported.steps).toEqual([
+      expect.objectContaining({ name: 'Typecheck', phase: 'Checks', passed: false, exitCode: 2, skipped: false }),
+      expect.objectContaining({ name: 'E2E', passed: true, skipped: true }),
+    ]);
+    expect(exported.errors).toEqual([{ runId: 'validate:abc1234def:run-1', step: 'Typecheck', ...TYPE_ERROR }]);
+  });
+
+  it('should give cached commands on one tree distinct ids, even with the same timestamp', () => {
+    const lint: RunCacheNote = { ...RUN_CACHE_ENTRY, command: 'npm run lint' };
+    const rootLint: RunCacheNote = { ...lint, workdir: '' };
+    const ids = buildHistoryExport([], [RUN_CACHE_ENTRY, lint, rootLint]).runs.map(run => run.id);
+
+    expect(new Set(ids).size).toBe(3);
+  });
+});
+
+describe('formats', () => {
+  const exported = buildHistoryExport([NOTE], [RUN_CACHE_ENTRY]);
+
+  it('should write JSON Lines with the table as type', () => {
+    const rows = formatHistoryJsonl(exported).trimEnd().split('\n').map(line => JSON.parse(line) as { type: string });
+
+    expect(rows.map(row => row.type)).toEqual(['run', 'run', 'step', 'step', 'error']);
+  });
+
+  it('should write SQL that creates the tables and quotes text', () => {
+    const sql = formatHistorySql(exported);
+
+    expect(sql).toContain('CREATE TABLE runs ("id" TEXT PRIMARY KEY, "kind" TEXT NOT NULL, "tree_hash" TEXT NOT NULL');
+    expect(sql).toContain(`VALUES ('${RUN_CACHE_ID}', 'run', 'abc1234def', '2026-03-01T09:00:00.000Z', 1, 0.2, NULL, NULL, NULL, NULL, 'echo ''hi''', 'packages/cli');`);
+    expect(sql.trimEnd().endsWith('COMMIT;')).toBe(true);
+  });
+
+  it('should write a JUnit test suite per run with a test case per step', () => {
+    const xml = formatHistoryJunit(exported);
+
+    expect(xml).toContain('<testsuite name="validate abc1234 (feature/&lt;x&gt;)" id="validate:abc1234def:run-1" timestamp="2026-03-02T10:00:00.000Z" tests="2" failures="1" skipped="1" time="5">');
+    expect(xml).toContain(`<failure message="Type 'string' is not assignable">src/a.ts:3:5: Type 'string' is not assignable [TS2322]</failure>`);
+    expect(xml).toContain('<testcase classname="Checks" name="E2E" time="0">\n      <skipped/>');
+    expect(xml).toContain(`<testcase classname="run (packages/cli)" name="echo 'hi'" time="0.2"/>`);
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Tests for the flaky test index
+ */
+
+import type { StepResult, ValidationResult } from '@vibe-validate/core';
+import { describe, expect, it } from 'vitest';
+
+import { annotateFlakyTests, buildFlakyTestIndex, getTestId } from '../src/flaky-tests.js';
+import type { HistoryNote, ValidationRun } from '../src/types.js';
+
+const TIMEOUT_ERROR = { file: 'src/api.test.ts', line: 12, message: 'Test timed out in 5000ms\n  at api.test.ts:12' };
+const ASSERTION_ERROR = { file: 'src/math.test.ts', line: 3, message: 'expected 3 to be 4' };
+const TIMEOUT_TEST = 'src/api.test.ts › Test timed out in 5000ms';
+
+let clock = 0;
+
+function testsStep(errors: Array<{ file: string; line: number; message: string; context?: string }>): StepResult {
+  return {
+    name: 'Tests',
+    passed: errors.length === 0,
+    durationSecs: 5,
+    ...(errors.length > 0 ? { extraction: { summary: `${errors.length} failure(s)`, totalErrors: errors.length, errors } } : {}),
+  };
+}
+
+function createRun(steps: StepResult[]): ValidationRun {
+  clock++;
+  const timestamp = new Date(Date.UTC(2026, 0, 1, 0, clock)).toISOString();
+  const passed = steps.every(step => step.passed);
+  return {
+    id: `run-${clock}`,
+    timestamp,
+    duration: 1000,
+    passed,
+    branch: 'main',
+    headCommit: 'def456',
+    uncommittedChanges: false,
+    result: { passed, timestamp, treeHash: 'tree', phases: [{ name: 'Testing', passed, durationSecs: 5, steps }] },
+  };
+}
+
+function note(treeHash: string, ...runs: ValidationRun[]): HistoryNote {
+  return { treeHash, runs };
+}
+
+describe('getTestId', () => {
+  it('should combine the file and the first line of the message', () => {
+    expect(getTestId(TIMEOUT_ERROR)).toBe(TIMEOUT_TEST);
+    expect(getTestId({ message: 'Segmentation fault' })).toBe('Segmentation fault');
+  });
+
+  it('should include the test name when the extractor provides one', () => {
+    expect(getTestId({ ...ASSERTION_ERROR, context: 'MathTest > adds()' })).toBe('src/math.test.ts › MathTest > adds() › expected 3 to be 4');
+    expect(getTestId({ message: 'expected 3 to be 4', context: 'TestAdd' })).toBe('TestAdd › expected 3 to be 4');
+  });
+});
+
+describe('buildFlakyTestIndex', () => {
+  it('should score a test that failed and then passed on the same tree', () => {
+    const notes = [note('tree-a', createRun([testsStep([TIMEOUT_ERROR])]), createRun([testsStep([])]))];
+
+    expect(buildFlakyTestIndex(notes)).toEqual([
+      {
+        step: 'Tests',
+        test: TIMEOUT_TEST,
+        runs: 2,
+        failures: 1,
+        sameTreeFlips: 1,
+        recurrences: 0,
+        score: 0.5,
+        lastFailed: notes[0].runs[0].timestamp,
+      },
+    ]);
+  });
+
+  it('should score a test that keeps failing again across trees', () => {
+    const notes = [
+      note('tree-a', createRun([testsStep([TIMEOUT_ERROR])])),
+      note('tree-b', createRun([testsStep([])])),
+      note('tree-c', createRun([testsStep([TIMEOUT_ERROR])])),
+      note('tree-d', createRun([testsStep([])])),
+      note('tree-e', createRun([testsStep([TIMEOUT_ERROR])])),
+    ];
+
+    expect(buildFlakyTestIndex(notes)[0]).toMatchObject({ failures: 3, recurrences: 2, sameTreeFlips: 0, score: 0.67 });
+  });
+
+  it('should keep tests that fail with the same assertion message apart', () => {
+    const health = { file: 'src/api.test.ts', line: 8, message: 'expected 200 to be 503', context: 'api › health' };
+    const status = { file: 'src/api.test.ts', line: 20, message: 'expected 200 to be 503', context: 'api › status' };
+    const notes = [
+      note('tree-a', createRun([testsStep([health])]), createRun([testsStep([])])),
+      note('tree-b', createRun([testsStep([status])])),
+      note('tree-c', createRun([testsStep([])])),
+    ];
+
+    // health flipped on one tree; status was broken once and fixed
+    expect(buildFlakyTestIndex(notes)).toEqual([
+      expect.objectContaining({ test: 'src/api.test.ts › api › health › expected 200 to be 503', failures: 1, recurrences: 0, score: 0.5 }),
+    ]);
+  });
+
+  it('should not list a test that was broken and then fixed', () => {
+    const notes = [
+      note('tree-a', createRun([testsStep([ASSERTION_ERROR])]), createRun([testsStep([ASSERTION_ERROR])])),
+      note('tree-b', createRun([testsStep([])])),
+    ];
+
+    expect(buildFlakyTestIndex(notes)).toEqual([]);
+  });
+
+  it('should not count a pass when the step failed for another reason', () => {
+    const notes = [
+      note(
+        'tree-a',
+        createRun([testsStep([TIMEOUT_ERROR])]),
+        createRun([testsStep([ASSERTION_ERROR])]),
+        createRun([testsStep([ASSERTION_ERROR])])
+      ),
+    ];
+
+    expect(buildFlakyTestIndex(notes)).toEqual([]);
+  });
+});
+
+describe('annotateFlakyTests', () => {
+  it('should annotate failing steps whose errors include a flaky test', () => {
+    const index = buildFlakyTestIndex([note('tree-a', createRun([testsStep([TIMEOUT_ERROR])]), createRun([testsStep([])]))]);
+    const step = testsStep([TIMEOUT_ERROR, ASSERTION_ERROR]);
+    const result: ValidationResult = {
+      passed: false,
+      timestamp: '2026-01-02T00:00:00.000Z',
+      treeHash: 'tree-b',
+      phases: [{ name: 'Testing', passed: false, durationSecs: 5, steps: [step] }],
+    };
+
+    const annotated = annotateFlakyTests(result, index);
+
+    expect(annotated.phases?.[0].steps[0].flakyTests).toEqual([{ test: TIMEOUT_TEST, score: 0.5 }]);
+    expect(annotateFlakyTests(result, index, 0.6).phases?.[0].steps[0].flakyTests).toBeUndefined();
+    expect(step.flakyTests).toBeUndefined();
+  });
+});
@@ -3,6 +3,7 @@ import { describe, it, expect, beforeEach, vi } from 'vitest';
 
 import { findCachedValidation } from '../src/lookup.js';
 import * as reader from '../src/reader.js';
+import { signRun } from '../src/signing.js';
 import type { HistoryNote, ValidationRun } from '../src/types.js';
 
 vi.mock('../src/reader.js');
@@ -49,6 +50,23 @@ describe('findCachedValidation', () => {
     expect(result).toBeNull();
   });
 
+  it('should skip runs the trust policy rejects', async () => {
+    vi.stubEnv('VV_HISTORY_SIGNING_KEY', 'ci-secret');
+    const treeHashResult: TreeHashResult = { hash: 'abc123' as TreeHash };
+    const ciRun = createMockRun({ id: 'run-ci' });
+    ciRun.signature = signRun('abc123', ciRun, 'hmac');
+    const foreignRun = createMockRun({ id: 'run-foreign' });
+    mockNoteWithRuns([ciRun, foreignRun]);
+
+    expect(await findCachedValidation(treeHashResult)).toBe(foreignRun);
+    expect(await findCachedValidation(treeHashResult, undefined, undefined, 'signed')).toBe(ciRun);
+    expect(await findCachedValidation(treeHashResult, undefined, undefined, 'ci-only')).toBe(ciRun);
+
+    mockNoteWithRuns([foreignRun]);
+    expect(await findCachedValidation(treeHashResult, undefined, undefined, 'signed')).toBeNull();
+    vi.unstubAllEnvs();
+  });
+
   it('should find exact match with no submodules', async () => {
     const mockRun = createMockRun();
     mockNoteWithRuns([mockRun]);
@@ -188,4 +206,92 @@ describe('findCachedValidation', () => {
     expect(result?.id).toBe('run-2');
     expect(result?.passed).toBe(true);
   });
+
+  it('should not return a passing run that skipped a step on a when condition', async () => {
+    const skippedStep = {
+      name: 'Deploy Check',
+      command: 'npm run deploy:check',
+      exitCode: 0,
+      durationSecs: 0,
+      passed: true,
+    };
+    const envSkippedRun = createMockRun({
+      id: 'run-env',
+      result: {
+        passed: true,
+        phases: [{
+          name: 'Checks',
+          passed: true,
+          durationSecs: 0,
+          steps: [{ ...skippedStep, skipped: { reason: 'DEPLOY_TARGET is not "production"', deterministic: false } }],
+        }],
+      } as any,
+    });
+    const changedSkippedRun = createMockRun({
+      id: 'run-changed',
+      result: {
+        passed: true,
+        phases: [{
+          name: 'Checks',
+          passed: true,
+          durationSecs: 0,
+          steps: [{ ...skippedStep, skipped: { reason: 'no changes in deploy/** since origin/main', deterministic: false } }],
+        }],
+      } as any,
+    });
+    const scopeSkippedRun = createMockRun({
+      id: 'run-scope',
+      result: {
+        passed: true,
+        phases: [{
+          name: 'Checks',
+          passed: true,
+          durationSecs: 0,
+          steps: [{ ...skippedStep, skipped: { reason: 'ci-only', deterministic: true } }],
+        }],
+      } as any,
+    });
+
+    mockNoteWithRuns([scopeSkippedRun, changedSkippedRun, envSkippedRun]);
+
+    const result = await findCachedValidation({ hash: 'abc123' as TreeHash });
+
+    expect(result?.id).toBe('run-scope');
+  });
+
+  it('should only return a profile run for the same profile', async () => {
+    const fullRun = createMockRun({ id: 'run-full', passed: false, result: { passed: false, phases: [] } as any });
+    const quickRun = createMockRun({ id: 'run-quick', result: { passed: true, profile: 'quick', phases: [] } as any });
+    mockNoteWithRuns([fullRun, quickRun]);
+
+    const treeHashResult: TreeHashResult = { hash: 'abc123' as TreeHash };
+
+    expect((await findCachedValidation(treeHashResult))?.id).toBe('run-full');
+    expect((await findCachedValidation(treeHashResult, undefined, 'quick'))?.id).toBe('run-quick');
+    expect(await findCachedValidation(treeHashResult, undefined, 'backend')).toBeNull();
+  });
+
+  it('should answer a profile with a passing full run', async () => {
+    const fullRun = createMockRun({ id: 'run-full' });
+    mockNoteWithRuns([fullRun]);
+
+    const result = await findCachedValidation({ hash: 'abc123' as TreeHash }, undefined, 'quick');
+
+    expect(result?.id).toBe('run-full');
+  });
+
+  it('should never return a partial run', async () => {
+    const partialPass = createMockRun({ id: 'run-only', result: { passed: true, partial: true, phases: [] } as any });
+    const partialFail = createMockRun({
+      id: 'run-skip',
+      passed: false,
+      result: { passed: false, partial: true, phases: [] } as any,
+    });
+    mockNoteWithRuns([partialPass, partialFail]);
+
+    const treeHashResult: TreeHashResult = { hash: 'abc123' as TreeHash };
+
+    expect(await findCachedValidation(treeHashResult)).toBeNull();
+    expect(await findCachedValidation(treeHashResult, undefined, 'quick')).toBeNull();
+  });
 });
@@ -0,0 +1,89 @@
+/**
+ * Tests for note indexes (per-note caches of the history)
+ */
+
+import { executeGitCommand, getNotesRefSha } from '@vibe-validate/git';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+import { loadNoteIndex } from '../src/note-index.js';
+import { readHistoryNote } from '../src/reader.js';
+import type { HistoryNote } from '../src/types.js';
+
+const files = new Map<string, string>();
+
+vi.mock('node:fs', () => ({
+  existsSync: vi.fn((path: string) => files.has(path)),
+  readFileSync: vi.fn((path: string) => files.get(path)),
+  writeFileSync: vi.fn((path: string, content: string) => files.set(path, content)),
+}));
+
+vi.mock('@vibe-validate/utils', () => ({
+  mkdirSyncReal: vi.fn(),
+}));
+
+vi.mock('@vibe-validate/git', () => ({
+  executeGitCommand: vi.fn(),
+  getGitDir: vi.fn(() => '/repo/.git'),
+  getNotesRefSha: vi.fn(),
+}));
+
+vi.mock('../src/reader.js', () => ({
+  readHistoryNote: vi.fn(),
+}));
+
+const OPTIONS = {
+  file: 'test-index.json',
+  version: 1,
+  notesRef: 'vibe-validate/validate',
+  indexNote: (note: HistoryNote) => [note.treeHash ?? ''],
+};
+
+function listNotes(treeHashes: string[]): void {
+  vi.mocked(executeGitCommand).mockReturnValue({
+    success: true,
+    stdout: treeHashes.map(treeHash => `blob-${treeHash} ${treeHash}`).join('\n'),
+    stderr: '',
+    exitCode: 0,
+  });
+}
+
+describe('loadNoteIndex', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    files.clear();
+    vi.mocked(readHistoryNote).mockImplementation(async treeHash => ({ treeHash, runs: [] }));
+    vi.mocked(getNotesRefSha).mockReturnValue('ref1');
+  });
+
+  it('should read no more than maxNoteReads notes, and the rest on the next loads', async () => {
+    listNotes(['aaa111', 'bbb222', 'ccc333']);
+
+    expect(await loadNoteIndex({ ...OPTIONS, maxNoteReads: 2 })).toEqual(['aaa111', 'bbb222']);
+    expect(readHistoryNote).toHaveBeenCalledTimes(2);
+
+    vi.mocked(readHistoryNote).mockClear();
+    expect(await loadNoteIndex({ ...OPTIONS, maxNoteReads: 2 })).toEqual(['aaa111', 'bbb222', 'ccc333']);
+    expect(readHistoryNote).toHaveBeenCalledTimes(1);
+
+    // Complete now: the ref has not moved, so nothing is listed or read
+    vi.mocked(executeGitCommand).mockClear();
+    await loadNoteIndex({ ...OPTIONS, maxNoteReads: 2 });
+    expect(executeGitCommand).not.toHaveBeenCalled();
+  });
+
+  it('should keep stale entries of notes it had no reads left for', async () => {
+    listNotes(['aaa111']);
+    await loadNoteIndex(OPTIONS);
+
+    vi.mocked(getNotesRefSha).mockReturnValue('ref2');
+    vi.mocked(executeGitCommand).mockReturnValue({
+      success: true,
+      stdout: 'blob-changed aaa111\nblob-bbb222 bbb222',
+      stderr: '',
+      exitCode: 0,
+    });
+
+    expect(await loadNoteIndex({ ...OPTIONS, maxNoteReads: 0 })).toEqual(['aaa111']);
+    expect(JSON.parse(files.get('/repo/.git/vibe-validate/test-index.json') ?? '{}')).toMatchObject({ refSha: null });
+  });
+});
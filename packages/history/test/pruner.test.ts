@@ -2,16 +2,26 @@
  * Tests for validation history pruning
  */
 
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { join } from 'node:path';
+
 import * as git from '@vibe-validate/git';
-import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { normalizedTmpdir } from '@vibe-validate/utils';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { stringify as stringifyYaml } from 'yaml';
 
-import { pruneHistoryByAge, pruneAllHistory } from '../src/pruner.js';
+import { pruneHistoryByAge, pruneHistoryByPolicy, pruneHistoryByPolicyIfDue, pruneAllHistory } from '../src/pruner.js';
 import * as reader from '../src/reader.js';
 import type { HistoryNote } from '../src/types.js';
 
 // Mock dependencies using secure git API
 vi.mock('@vibe-validate/git');
-vi.mock('../src/reader.js');
+vi.mock('../src/reader.js', async (importOriginal) => ({
+  // eslint-disable-next-line @typescript-eslint/consistent-type-imports -- Dynamic import in mock
+  ...(await importOriginal<typeof import('../src/reader.js')>()),
+  getAllHistoryNotes: vi.fn(),
+  listHistoryTreeHashes: vi.fn(),
+}));
 
 /**
  * Helper: Create a date N days ago
@@ -76,14 +86,24 @@ function createHistoryNote(overrides: Partial<{
  */
 function setupPrunerTest(notes: HistoryNote[], removeNoteResolves = true) {
   vi.mocked(reader.getAllHistoryNotes).mockResolvedValue(notes);
+  setupNoteContents(Object.fromEntries(notes.map(note => [note.treeHash ?? '', stringifyYaml(note)])));
   if (removeNoteResolves) {
     vi.mocked(git.removeNote).mockResolvedValue();
   }
 }
 
+/**
+ * Helper: Serve notes as stored YAML, by tree hash
+ */
+function setupNoteContents(contents: Record<string, string>) {
+  vi.mocked(reader.listHistoryTreeHashes).mockResolvedValue(Object.keys(contents));
+  vi.mocked(git.readNote).mockImplementation((_ref, treeHash) => contents[treeHash] ?? null);
+}
+
 describe('pruner', () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    vi.mocked(git.listNoteObjects).mockReturnValue([]);
   });
 
   describe('pruneHistoryByAge', () => {
@@ -132,6 +152,8 @@ describe('pruner', () => {
           'vibe-validate/validate',
           'old-abc123'
         );
+        // Then looks for blobs the pruned runs left behind
+        expect(git.listNoteObjects).toHaveBeenCalledWith('vibe-validate/blobs');
       });
 
       it('should prune multiple old notes', async () => {
@@ -345,6 +367,7 @@ describe('pruner', () => {
           'vibe-validate/validate',
           'def456'
         );
+        expect(git.removeNotesRefs).toHaveBeenCalledWith('refs/notes/vibe-validate/blobs');
       });
 
       it('should count all runs in pruned notes', async () => {
@@ -392,6 +415,7 @@ describe('pruner', () => {
 
         // But should NOT actually delete
         expect(git.removeNote).not.toHaveBeenCalled();
+        expect(git.removeNotesRefs).not.toHaveBeenCalled();
       });
     });
 
@@ -442,4 +466,235 @@ describe('pruner', () => {
       });
     });
   });
+
+  describe('pruneHistoryByPolicy', () => {
+    const day = (daysAgo: number) => createOldDate(daysAgo).toISOString();
+
+    it('should keep the newest runs per branch and rewrite notes that lose some', async () => {
+      const notes = [
+        createHistoryNote({
+          treeHash: 'tree-1',
+          runs: [
+            createRun({ id: 'run-1', timestamp: day(5), branch: 'feature', headCommit: 'c1' }),
+            createRun({ id: 'run-2', timestamp: day(4), branch: 'main', headCommit: 'c2' }),
+          ],
+        }),
+        createHistoryNote({
+          treeHash: 'tree-2',
+          runs: [
+            createRun({ id: 'run-3', timestamp: day(3), branch: 'feature', headCommit: 'c3' }),
+            createRun({ id: 'run-4', timestamp: day(2), branch: 'feature', headCommit: 'c4' }),
+          ],
+        }),
+      ];
+      setupPrunerTest(notes);
+
+      const result = await pruneHistoryByPolicy({ retention: { keepRunsPerBranch: 2 } });
+
+      expect(result).toEqual({ notesPruned: 0, runsPruned: 1, notesRemaining: 2, prunedTreeHashes: ['tree-1'] });
+      expect(git.addNote).toHaveBeenCalledWith('vibe-validate/validate', 'tree-1', expect.stringContaining('run-2'));
+      expect(vi.mocked(git.addNote).mock.calls[0][2]).not.toContain('run-1');
+      expect(git.removeNote).not.toHaveBeenCalled();
+    });
+
+    it('should never prune runs on commits reachable from keepReachableFrom', async () => {
+      setupPrunerTest([
+        createHistoryNote({
+          treeHash: 'tree-1',
+          runs: [
+            createRun({ id: 'run-1', timestamp: day(3), headCommit: 'merged' }),
+            createRun({ id: 'run-2', timestamp: day(2), headCommit: 'unmerged' }),
+            createRun({ id: 'run-3', timestamp: day(1), headCommit: 'unmerged' }),
+          ],
+        }),
+      ]);
+      vi.mocked(git.isCommitReachableFrom).mockImplementation(commit => commit === 'merged');
+
+      const result = await pruneHistoryByPolicy({ retention: { keepRunsPerBranch: 1, keepReachableFrom: 'main' } });
+
+      expect(result.runsPruned).toBe(1);
+      expect(git.isCommitReachableFrom).toHaveBeenCalledWith('merged', 'main');
+      // One git check per commit
+      expect(git.isCommitReachableFrom).toHaveBeenCalledTimes(2);
+      const content = vi.mocked(git.addNote).mock.calls[0][2];
+      expect(content).toContain('run-1');
+      expect(content).not.toContain('run-2');
+      expect(content).toContain('run-3');
+    });
+
+    it('should only check reachability for runs another rule would prune', async () => {
+      setupPrunerTest([
+        createHistoryNote({
+          treeHash: 'tree-1',
+          runs: [
+            createRun({ id: 'run-1', timestamp: day(2), headCommit: 'c1' }),
+            createRun({ id: 'run-2', timestamp: day(1), headCommit: 'c2' }),
+          ],
+        }),
+      ]);
+
+      const result = await pruneHistoryByPolicy({ retention: { keepRunsPerBranch: 5, keepReachableFrom: 'main' } });
+
+      expect(result.runsPruned).toBe(0);
+      expect(git.isCommitReachableFrom).not.toHaveBeenCalled();
+    });
+
+    it('should remove old notes whose commits are on no branch', async () => {
+      setupPrunerTest([
+        createHistoryNote({ treeHash: 'old-orphan', runs: [createRun({ timestamp: day(40), headCommit: 'orphan' })] }),
+        createHistoryNote({ treeHash: 'old-merged', runs: [createRun({ timestamp: day(40), headCommit: 'merged' })] }),
+        createHistoryNote({ treeHash: 'new-orphan', runs: [createRun({ timestamp: day(1), headCommit: 'orphan' })] }),
+      ]);
+      vi.mocked(git.isCommitOnAnyBranch).mockImplementation(commit => commit === 'merged');
+
+      const result = await pruneHistoryByPolicy({ retention: { pruneUnreachableAfterDays: 30 } });
+
+      expect(result).toEqual({ notesPruned: 1, runsPruned: 1, notesRemaining: 2, prunedTreeHashes: ['old-orphan'] });
+      expect(git.removeNote).toHaveBeenCalledWith('vibe-validate/validate', 'old-orphan');
+    });
+
+    it('should rewrite the stored note, keeping runs, fields and blobs the reader leaves out', async () => {
+      const blob = 'b'.repeat(40);
+      setupNoteContents({
+        'tree-1': stringifyYaml({
+          treeHash: 'tree-1',
+          runs: [
+            createRun({ id: 'run-old', timestamp: day(3), headCommit: 'c1' }),
+            { ...createRun({ id: 'run-invalid', timestamp: day(2) }), result: { passed: 'not a boolean' } },
+            { id: 'run-no-result', timestamp: day(2), branch: 'main' },
+            {
+              ...createRun({ id: 'run-new', timestamp: day(1), headCommit: 'c2' }),
+              ciJob: 42,
+              result: {
+                ...createRun({ timestamp: day(1) }).result,
+                phases: [{
+                  name: 'Test',
+                  passed: true,
+                  durationSecs: 1,
+                  steps: [{ name: 'Unit', command: 'npm test', exitCode: 0, durationSecs: 1, passed: true, extractionBlob: blob }],
+                }],
+              },
+            },
+          ],
+        }),
+      });
+
+      const result = await pruneHistoryByPolicy({ retention: { keepRunsPerBranch: 1 } });
+
+      expect(result).toMatchObject({ runsPruned: 1, prunedTreeHashes: ['tree-1'] });
+      const content = vi.mocked(git.addNote).mock.calls[0][2];
+      expect(content).not.toContain('run-old');
+      expect(content).toContain('run-invalid');
+      expect(content).toContain('run-no-result');
+      expect(content).toContain('ciJob: 42');
+      expect(content).toContain(`extractionBlob: ${blob}`);
+    });
+
+    it('should remove the blobs only pruned runs referenced', async () => {
+      const blob = 'b'.repeat(40) as git.TreeHash;
+      setupPrunerTest([
+        createHistoryNote({
+          treeHash: 'tree-1',
+          runs: [
+            createRun({ id: 'run-1', timestamp: day(2) }),
+            createRun({ id: 'run-2', timestamp: day(1) }),
+          ],
+        }),
+      ]);
+      vi.mocked(git.listNoteObjects).mockReturnValue([blob]);
+      vi.mocked(git.executeGitCommand).mockReturnValue({ success: false, stdout: '', stderr: '', exitCode: 1 });
+      vi.mocked(git.removeNotes).mockReturnValue(true);
+
+      await pruneHistoryByPolicy({ retention: { keepRunsPerBranch: 1 } }, true);
+      expect(git.removeNotes).not.toHaveBeenCalled();
+
+      await pruneHistoryByPolicy({ retention: { keepRunsPerBranch: 1 } });
+      expect(git.removeNotes).toHaveBeenCalledWith('vibe-validate/blobs', [blob]);
+    });
+
+    it('should leave a note alone if it changed since it was read', async () => {
+      const notes = [
+        createHistoryNote({
+          treeHash: 'tree-1',
+          runs: [
+            createRun({ id: 'run-1', timestamp: day(2) }),
+            createRun({ id: 'run-2', timestamp: day(1) }),
+          ],
+        }),
+      ];
+      setupPrunerTest(notes);
+      const original = stringifyYaml(notes[0]);
+      vi.mocked(git.readNote)
+        .mockReturnValueOnce(original)
+        .mockReturnValueOnce(`${original}  - id: run-concurrent\n`);
+
+      const result = await pruneHistoryByPolicy({ retention: { keepRunsPerBranch: 1 } });
+
+      expect(result.runsPruned).toBe(0);
+      expect(git.addNote).not.toHaveBeenCalled();
+    });
+
+    it('should not change anything in dry run mode', async () => {
+      setupPrunerTest([createHistoryNote({ runs: [createRun({ timestamp: day(40) })] })]);
+      vi.mocked(git.isCommitOnAnyBranch).mockReturnValue(false);
+
+      const result = await pruneHistoryByPolicy({ retention: { pruneUnreachableAfterDays: 30 } }, true);
+
+      expect(result.notesPruned).toBe(1);
+      expect(git.removeNote).not.toHaveBeenCalled();
+      expect(git.addNote).not.toHaveBeenCalled();
+    });
+
+    it('should prune nothing without a policy', async () => {
+      setupPrunerTest([createHistoryNote({ runs: [createRun({ timestamp: day(400) })] })]);
+
+      const result = await pruneHistoryByPolicy();
+
+      expect(result.runsPruned).toBe(0);
+      expect(git.isCommitOnAnyBranch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('pruneHistoryByPolicyIfDue', () => {
+    const config = { retention: { keepRunsPerBranch: 20 } };
+    let gitDir: string;
+
+    beforeEach(() => {
+      gitDir = mkdtempSync(join(normalizedTmpdir(), 'vibe-validate-retention-'));
+      vi.mocked(git.getGitDir).mockReturnValue(gitDir);
+      vi.mocked(git.getNotesRefSha).mockReturnValue('sha-1');
+      setupPrunerTest([createHistoryNote()]);
+    });
+
+    afterEach(() => {
+      rmSync(gitDir, { recursive: true, force: true });
+    });
+
+    it('should apply the policy once, then skip it until a day has passed', async () => {
+      expect(await pruneHistoryByPolicyIfDue(config)).toMatchObject({ runsPruned: 0, notesRemaining: 1 });
+      vi.mocked(git.getNotesRefSha).mockReturnValue('sha-2');
+
+      expect(await pruneHistoryByPolicyIfDue(config)).toBeNull();
+      expect(reader.listHistoryTreeHashes).toHaveBeenCalledTimes(1);
+
+      vi.spyOn(Date, 'now').mockReturnValue(Date.now() + 25 * 60 * 60 * 1000);
+      expect(await pruneHistoryByPolicyIfDue(config)).not.toBeNull();
+      vi.mocked(Date.now).mockRestore();
+    });
+
+    it('should skip when the notes ref has not moved since, however long ago', async () => {
+      await pruneHistoryByPolicyIfDue(config);
+      vi.spyOn(Date, 'now').mockReturnValue(Date.now() + 25 * 60 * 60 * 1000);
+
+      expect(await pruneHistoryByPolicyIfDue(config)).toBeNull();
+      vi.mocked(Date.now).mockRestore();
+    });
+
+    it('should apply a changed policy straight away', async () => {
+      await pruneHistoryByPolicyIfDue(config);
+
+      expect(await pruneHistoryByPolicyIfDue({ retention: { keepRunsPerBranch: 5 } })).not.toBeNull();
+      expect(readFileSync(join(gitDir, 'vibe-validate', 'retention-state.json'), 'utf-8')).toContain('keepRunsPerBranch');
+    });
+  });
 });
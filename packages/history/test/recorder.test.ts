@@ -6,7 +6,8 @@ import type { ValidationResult } from '@vibe-validate/core';
 import type { TreeHash, TreeHashResult } from '@vibe-validate/git';
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 
-import { recordValidationHistory, checkWorktreeStability } from '../src/recorder.js';
+import { recordValidationHistory, recordImportedRun, checkWorktreeStability } from '../src/recorder.js';
+import type { ValidationRun } from '../src/types.js';
 
 // Mock dependencies
 vi.mock('@vibe-validate/git', () => ({
@@ -76,6 +77,25 @@ describe('recordValidationHistory', () => {
     );
   });
 
+  it('should sign the run when signing is requested', async () => {
+    const treeHash = 'abc123def456' as TreeHash;
+    const result: ValidationResult = { passed: true, timestamp: '2025-10-21T14:30:15.123Z', treeHash, phases: [] };
+    vi.stubEnv('VV_HISTORY_SIGNING_KEY', 'ci-secret');
+
+    const recordResult = await recordValidationHistory({ hash: treeHash }, result, { sign: 'hmac' });
+
+    const { addNote } = await import('@vibe-validate/git');
+    const noteContent = vi.mocked(addNote).mock.calls[0][2];
+    expect(recordResult.signingError).toBeUndefined();
+    expect(noteContent).toMatch(/signature:\n\s+method: hmac\n\s+value: [0-9a-f]{64}/);
+
+    vi.stubEnv('VV_HISTORY_SIGNING_KEY', '');
+    const unsigned = await recordValidationHistory({ hash: treeHash }, result, { sign: 'hmac' });
+    expect(unsigned).toMatchObject({ recorded: true, signingError: 'VV_HISTORY_SIGNING_KEY is not set' });
+
+    vi.unstubAllEnvs();
+  });
+
   it('should append to existing note', async () => {
     const { readHistoryNote } = await import('../src/reader.js');
     const treeHash = 'abc123def456' as TreeHash;
@@ -207,6 +227,57 @@ describe('recordValidationHistory', () => {
   });
 });
 
+describe('recordImportedRun', () => {
+  const ciRun: ValidationRun = {
+    id: 'ci-1234-5678',
+    timestamp: '2025-10-21T14:30:15.123Z',
+    duration: 2300,
+    passed: true,
+    branch: 'feature/foo',
+    headCommit: 'def7890',
+    uncommittedChanges: false,
+    source: 'ci',
+    url: 'https://github.com/acme/app/actions/runs/1234/job/5678',
+    result: {
+      passed: true,
+      timestamp: '2025-10-21T14:30:15.123Z',
+      treeHash: 'abc123def456',
+      phases: [{ name: 'test', durationSecs: 2.3, passed: true, steps: [] }],
+    },
+  };
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    const { addNote } = await import('@vibe-validate/git');
+    vi.mocked(addNote).mockReturnValue(true);
+  });
+
+  it('should append the run to the note of its tree hash', async () => {
+    const { addNote, mergeAppendRuns } = await import('@vibe-validate/git');
+
+    const recordResult = await recordImportedRun('abc123def456', ciRun);
+
+    expect(recordResult).toEqual({ recorded: true, treeHash: 'abc123def456' });
+    const [ref, object, content, merge] = vi.mocked(addNote).mock.calls[0];
+    expect(ref).toBe('vibe-validate/validate');
+    expect(object).toBe('abc123def456');
+    expect(merge).toBe(mergeAppendRuns);
+    expect(content).toContain('id: ci-1234-5678');
+    expect(content).toContain('source: ci');
+    expect(content).toContain('url: https://github.com/acme/app/actions/runs/1234/job/5678');
+  });
+
+  it('should report a note that could not be written', async () => {
+    const { addNote } = await import('@vibe-validate/git');
+    vi.mocked(addNote).mockReturnValue(false);
+
+    const recordResult = await recordImportedRun('abc123def456', ciRun);
+
+    expect(recordResult.recorded).toBe(false);
+    expect(recordResult.reason).toBe('Failed to add git note');
+  });
+});
+
 describe('checkWorktreeStability', () => {
   it('should detect stable worktree', async () => {
     const { getGitTreeHash } = await import('@vibe-validate/git');
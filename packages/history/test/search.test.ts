@@ -0,0 +1,196 @@
+/**
+ * Tests for history search
+ */
+
+import type { StepResult } from '@vibe-validate/core';
+import { executeGitCommand, getNotesRefSha } from '@vibe-validate/git';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+import { readHistoryNote } from '../src/reader.js';
+import { indexHistoryNote, loadSearchIndex, searchIndexedRuns, type IndexedRun } from '../src/search.js';
+import type { HistoryNote, ValidationRun } from '../src/types.js';
+
+const files = new Map<string, string>();
+
+vi.mock('node:fs', () => ({
+  existsSync: vi.fn((path: string) => files.has(path)),
+  readFileSync: vi.fn((path: string) => files.get(path)),
+  writeFileSync: vi.fn((path: string, content: string) => files.set(path, content)),
+}));
+
+vi.mock('@vibe-validate/utils', () => ({
+  mkdirSyncReal: vi.fn(),
+}));
+
+vi.mock('@vibe-validate/git', () => ({
+  executeGitCommand: vi.fn(),
+  getGitDir: vi.fn(() => '/repo/.git'),
+  getNotesRefSha: vi.fn(),
+}));
+
+vi.mock('../src/reader.js', () => ({
+  readHistoryNote: vi.fn(),
+}));
+
+const INDEX_PATH = '/repo/.git/vibe-validate/search-index.json';
+
+function step(name: string, passed: boolean, errors: Array<{ code?: string; file?: string }> = []): StepResult {
+  return {
+    name,
+    passed,
+    durationSecs: 1,
+    ...(errors.length > 0
+      ? { extraction: { summary: `${errors.length} error(s)`, totalErrors: errors.length, errors: errors.map(e => ({ ...e, message: 'error' })) } }
+      : {}),
+  };
+}
+
+function createRun(id: string, timestamp: string, branch: string, steps: StepResult[], uncommittedChanges = false): ValidationRun {
+  const passed = steps.every(s => s.passed);
+  return {
+    id,
+    timestamp,
+    duration: 1000,
+    passed,
+    branch,
+    headCommit: 'abc1234',
+    uncommittedChanges,
+    result: { passed, timestamp, treeHash: 'tree', phases: [{ name: 'Checks', durationSecs: 1, passed, steps }] },
+  };
+}
+
+const TS_ERROR = { code: 'TS2322', file: 'src/auth/login.ts' };
+
+const NOTES: HistoryNote[] = [
+  {
+    treeHash: 'aaa111',
+    runs: [createRun('run-1', '2026-03-01T10:00:00.000Z', 'feature/login', [step('Typecheck', false, [TS_ERROR]), step('Test', true)])],
+  },
+  {
+    treeHash: 'bbb222',
+    runs: [
+      createRun('run-2', '2026-03-05T10:00:00.000Z', 'feature/signup', [step('Typecheck', false, [{ code: 'TS2345', file: 'src/signup.ts' }])], true),
+      createRun('run-3', '2026-03-06T10:00:00.000Z', 'main', [step('Typecheck', true), step('Test', true)]),
+    ],
+  },
+];
+
+const RUNS: IndexedRun[] = NOTES.flatMap(indexHistoryNote);
+
+function ids(runs: Array<{ runId: string }>): string[] {
+  return runs.map(run => run.runId);
+}
+
+describe('searchIndexedRuns', () => {
+  it('should return every run, newest first, without filters', () => {
+    expect(ids(searchIndexedRuns(RUNS, {}))).toEqual(['run-3', 'run-2', 'run-1']);
+  });
+
+  it('should find runs on matching branches where a step failed with an error code', () => {
+    const matches = searchIndexedRuns(RUNS, { branch: 'feature/*', step: 'Typecheck', status: 'failed', errorCode: 'TS2322' });
+
+    expect(matches).toEqual([{
+      treeHash: 'aaa111',
+      runId: 'run-1',
+      timestamp: '2026-03-01T10:00:00.000Z',
+      branch: 'feature/login',
+      headCommit: 'abc1234',
+      passed: false,
+      uncommittedChanges: false,
+      steps: ['Typecheck'],
+    }]);
+  });
+
+  it('should apply the status to the run when no step filter is given', () => {
+    expect(ids(searchIndexedRuns(RUNS, { status: 'passed' }))).toEqual(['run-3']);
+    expect(ids(searchIndexedRuns(RUNS, { status: 'failed' }))).toEqual(['run-2', 'run-1']);
+  });
+
+  it('should apply the status to the matching step when a step filter is given', () => {
+    expect(ids(searchIndexedRuns(RUNS, { step: 'Test', status: 'passed' }))).toEqual(['run-3', 'run-1']);
+  });
+
+  it('should match error files by glob', () => {
+    expect(ids(searchIndexedRuns(RUNS, { file: 'src/auth/*' }))).toEqual(['run-1']);
+    expect(ids(searchIndexedRuns(RUNS, { file: '*.ts' }))).toEqual(['run-2', 'run-1']);
+  });
+
+  it('should filter by date range and uncommitted changes', () => {
+    const since = new Date('2026-03-02T00:00:00.000Z');
+    const until = new Date('2026-03-05T23:59:59.000Z');
+
+    expect(ids(searchIndexedRuns(RUNS, { since, until }))).toEqual(['run-2']);
+    expect(ids(searchIndexedRuns(RUNS, { uncommittedChanges: true }))).toEqual(['run-2']);
+    expect(ids(searchIndexedRuns(RUNS, { uncommittedChanges: false }))).toEqual(['run-3', 'run-1']);
+  });
+});
+
+describe('loadSearchIndex', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    files.clear();
+    vi.mocked(readHistoryNote).mockImplementation(async treeHash => NOTES.find(note => note.treeHash === treeHash) ?? null);
+    vi.mocked(executeGitCommand).mockReturnValue({
+      success: true,
+      stdout: 'note1 aaa111\nnote2 bbb222',
+      stderr: '',
+      exitCode: 0,
+    });
+  });
+
+  it('should index every note and write the index under the git directory', async () => {
+    vi.mocked(getNotesRefSha).mockReturnValue('ref1');
+
+    const runs = await loadSearchIndex();
+
+    expect(ids(runs)).toEqual(['run-1', 'run-2', 'run-3']);
+    expect(readHistoryNote).toHaveBeenCalledTimes(2);
+    expect(JSON.parse(files.get(INDEX_PATH) ?? '{}')).toMatchObject({ refSha: 'ref1', notesRef: 'vibe-validate/validate' });
+  });
+
+  it('should reuse the index while the notes ref has not moved', async () => {
+    vi.mocked(getNotesRefSha).mockReturnValue('ref1');
+    await loadSearchIndex();
+    vi.clearAllMocks();
+
+    const runs = await loadSearchIndex();
+
+    expect(ids(runs)).toEqual(['run-1', 'run-2', 'run-3']);
+    expect(executeGitCommand).not.toHaveBeenCalled();
+    expect(readHistoryNote).not.toHaveBeenCalled();
+  });
+
+  it('should only read the notes that changed when the ref moved', async () => {
+    vi.mocked(getNotesRefSha).mockReturnValue('ref1');
+    await loadSearchIndex();
+    vi.mocked(readHistoryNote).mockClear();
+
+    vi.mocked(getNotesRefSha).mockReturnValue('ref2');
+    vi.mocked(executeGitCommand).mockReturnValue({
+      success: true,
+      stdout: 'note1 aaa111\nnote3 bbb222',
+      stderr: '',
+      exitCode: 0,
+    });
+    await loadSearchIndex();
+
+    expect(readHistoryNote).toHaveBeenCalledTimes(1);
+    expect(readHistoryNote).toHaveBeenCalledWith('bbb222', 'vibe-validate/validate');
+  });
+
+  it('should rebuild a corrupt index', async () => {
+    vi.mocked(getNotesRefSha).mockReturnValue('ref1');
+    files.set(INDEX_PATH, '{not json');
+
+    const runs = await loadSearchIndex();
+
+    expect(runs).toHaveLength(3);
+  });
+
+  it('should return no runs when there is no history', async () => {
+    vi.mocked(getNotesRefSha).mockReturnValue(null);
+
+    expect(await loadSearchIndex()).toEqual([]);
+    expect(executeGitCommand).not.toHaveBeenCalled();
+  });
+});
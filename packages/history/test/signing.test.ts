@@ -0,0 +1,139 @@
+/**
+ * Tests for signed validation runs and the trust policy
+ */
+
+import { signWithGit, verifyGitSignature } from '@vibe-validate/git';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import {
+  getRunSignaturePayload,
+  isTrustedRun,
+  parseResultSignature,
+  signResult,
+  signRun,
+  verifyRunSignature,
+} from '../src/signing.js';
+import type { ValidationRun } from '../src/types.js';
+
+vi.mock('@vibe-validate/git', () => ({
+  signWithGit: vi.fn(),
+  verifyGitSignature: vi.fn(),
+}));
+
+const TREE_HASH = 'abc123';
+
+function createRun(overrides: Partial<ValidationRun> = {}): ValidationRun {
+  return {
+    id: 'run-1',
+    timestamp: '2026-01-01T00:00:00.000Z',
+    duration: 1000,
+    passed: true,
+    branch: 'main',
+    headCommit: 'def456',
+    uncommittedChanges: false,
+    result: { passed: true, timestamp: '2026-01-01T00:00:00.000Z', treeHash: TREE_HASH, phases: [] },
+    ...overrides,
+  };
+}
+
+function signedWithHmac(run: ValidationRun): ValidationRun {
+  return { ...run, signature: signRun(TREE_HASH, run, 'hmac') };
+}
+
+describe('run signing', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    vi.stubEnv('VV_HISTORY_SIGNING_KEY', 'ci-secret');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('should sign the same payload regardless of field order', () => {
+    const run = createRun({ submoduleHashes: { b: '2', a: '1' } });
+    const reordered = createRun({ submoduleHashes: { a: '1', b: '2' } });
+
+    expect(getRunSignaturePayload(TREE_HASH, run)).toBe(getRunSignaturePayload(TREE_HASH, reordered));
+  });
+
+  it('should verify an HMAC only with the key, for the same tree and outcome', () => {
+    const run = signedWithHmac(createRun());
+
+    expect(verifyRunSignature(TREE_HASH, run)).toBe('hmac');
+    expect(verifyRunSignature('other-tree', run)).toBeNull();
+    expect(verifyRunSignature(TREE_HASH, { ...run, passed: false })).toBeNull();
+
+    vi.stubEnv('VV_HISTORY_SIGNING_KEY', '');
+    expect(signRun(TREE_HASH, createRun(), 'hmac')).toBeUndefined();
+    expect(verifyRunSignature(TREE_HASH, run)).toBeNull();
+  });
+
+  it('should not verify a run whose steps were changed after signing', () => {
+    const step = { name: 'Test', command: 'npm test', exitCode: 1, durationSecs: 2, passed: false };
+    const run = signedWithHmac(createRun({
+      passed: false,
+      result: {
+        passed: false,
+        timestamp: '2026-01-01T00:00:00.000Z',
+        treeHash: TREE_HASH,
+        phases: [{ name: 'Testing', passed: false, durationSecs: 2, steps: [step] }],
+      },
+    }));
+    expect(verifyRunSignature(TREE_HASH, run)).toBe('hmac');
+
+    const tampered: ValidationRun = {
+      ...run,
+      result: {
+        ...run.result,
+        phases: [{ name: 'Testing', passed: false, durationSecs: 2, steps: [{ ...step, exitCode: 0 }] }],
+      },
+    };
+    expect(verifyRunSignature(TREE_HASH, tampered)).toBeNull();
+  });
+
+  it('should sign and verify through git', () => {
+    vi.mocked(signWithGit).mockReturnValue({ format: 'ssh', signedObject: 'tree 4b82\n\npayload' });
+    vi.mocked(verifyGitSignature).mockReturnValue({ valid: true, signer: 'dev@example.com' });
+
+    const run = { ...createRun(), signature: signRun(TREE_HASH, createRun(), 'git') };
+
+    expect(run.signature).toEqual({ method: 'ssh', value: 'tree 4b82\n\npayload' });
+    expect(verifyRunSignature(TREE_HASH, run)).toBe('ssh');
+    expect(verifyGitSignature).toHaveBeenCalledWith(
+      { format: 'ssh', signedObject: 'tree 4b82\n\npayload' },
+      getRunSignaturePayload(TREE_HASH, run)
+    );
+  });
+
+  it('should apply the trust policy', () => {
+    vi.mocked(verifyGitSignature).mockReturnValue({ valid: true });
+    const unsigned = createRun();
+    const gitSigned = createRun({ signature: { method: 'gpg', value: 'signed commit' } });
+    const ciSigned = signedWithHmac(createRun());
+
+    expect([unsigned, gitSigned, ciSigned].map(run => isTrustedRun(TREE_HASH, run, 'any'))).toEqual([true, true, true]);
+    expect([unsigned, gitSigned, ciSigned].map(run => isTrustedRun(TREE_HASH, run, 'signed'))).toEqual([false, true, true]);
+    expect([unsigned, gitSigned, ciSigned].map(run => isTrustedRun(TREE_HASH, run, 'ci-only'))).toEqual([false, false, true]);
+  });
+
+  it('should verify a run imported from CI by the signature printed with its result', () => {
+    const { result } = createRun();
+    const printed = { ...result, signature: signResult(result, 'hmac') };
+    const imported = createRun({ id: 'ci-1-2', source: 'ci', signature: parseResultSignature(printed.signature) });
+
+    expect(verifyRunSignature(TREE_HASH, imported)).toBe('hmac');
+    expect(isTrustedRun(TREE_HASH, imported, 'ci-only')).toBe(true);
+    expect(verifyRunSignature('other-tree', imported)).toBeNull();
+    expect(verifyRunSignature(TREE_HASH, { ...imported, passed: false })).toBeNull();
+    expect(verifyRunSignature(TREE_HASH, { ...imported, result: { ...result, passed: false }, passed: false })).toBeNull();
+    // Only imported runs are checked against the result alone
+    expect(verifyRunSignature(TREE_HASH, { ...imported, source: 'local' })).toBeNull();
+  });
+
+  it('should not sign a result without a tree hash, nor read a malformed signature', () => {
+    expect(signResult({ passed: true, timestamp: '2026-01-01T00:00:00.000Z' }, 'hmac')).toBeUndefined();
+    expect(parseResultSignature({ method: 'hmac' })).toBeUndefined();
+    expect(parseResultSignature('f00d')).toBeUndefined();
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * Tests for history statistics
+ */
+
+import type { StepResult } from '@vibe-validate/core';
+import { describe, expect, it } from 'vitest';
+
+import { computeHistoryStats, parseStatsPeriod } from '../src/stats.js';
+import type { HistoryNote, ValidationRun } from '../src/types.js';
+
+const NOW = new Date('2026-03-31T00:00:00.000Z');
+const SINCE = new Date('2026-03-01T00:00:00.000Z');
+
+function createRun(timestamp: string, steps: StepResult[], branch = 'main'): ValidationRun {
+  const passed = steps.every(step => step.passed);
+  return {
+    id: `run-${timestamp}`,
+    timestamp,
+    duration: 1000,
+    passed,
+    branch,
+    headCommit: 'def456',
+    uncommittedChanges: false,
+    result: { passed, timestamp, treeHash: 'abc123', phases: [{ name: 'Checks', passed, durationSecs: 1, steps }] },
+  };
+}
+
+function step(name: string, passed: boolean, durationSecs: number, extra: Partial<StepResult> = {}): StepResult {
+  return { name, passed, durationSecs, ...extra };
+}
+
+type Extraction = NonNullable<StepResult['extraction']>;
+
+function extraction(errors: Extraction['errors']): Extraction {
+  return { summary: `${errors.length} error(s)`, totalErrors: errors.length, errors };
+}
+
+function note(...runs: ValidationRun[]): HistoryNote {
+  return { treeHash: 'abc123', runs };
+}
+
+describe('parseStatsPeriod', () => {
+  it('should parse durations back from now and dates', () => {
+    expect(parseStatsPeriod('30d', NOW).toISOString()).toBe('2026-03-01T00:00:00.000Z');
+    expect(parseStatsPeriod('12h', NOW).toISOString()).toBe('2026-03-30T12:00:00.000Z');
+    expect(parseStatsPeriod('2w', NOW).toISOString()).toBe('2026-03-17T00:00:00.000Z');
+    expect(parseStatsPeriod('2026-02-01', NOW).toISOString()).toBe('2026-02-01T00:00:00.000Z');
+  });
+
+  it('should reject anything else', () => {
+    expect(() => parseStatsPeriod('soon', NOW)).toThrow('Invalid period "soon"');
+  });
+});
+
+describe('computeHistoryStats', () => {
+  it('should report pass rate and duration percentiles per step, slowest first', () => {
+    const notes = [
+      note(
+        createRun('2026-03-02T00:00:00.000Z', [step('Lint', true, 2), step('Tests', true, 10)]),
+        createRun('2026-03-03T00:00:00.000Z', [step('Lint', true, 4), step('Tests', false, 30)])
+      ),
+      note(createRun('2026-03-04T00:00:00.000Z', [step('Lint', false, 3), step('Tests', true, 20)])),
+    ];
+
+    const stats = computeHistoryStats(notes, { since: SINCE, until: NOW });
+
+    expect(stats.period).toMatchObject({ runs: 3, passed: 1, passRate: 0.33 });
+    expect(stats.steps).toEqual([
+      { name: 'Tests', runs: 3, passed: 2, passRate: 0.67, p50Secs: 20, p95Secs: 30 },
+      { name: 'Lint', runs: 3, passed: 2, passRate: 0.67, p50Secs: 3, p95Secs: 4 },
+    ]);
+  });
+
+  it('should leave out skipped and cached steps, other branches and runs outside the period', () => {
+    const notes = [
+      note(
+        createRun('2026-03-02T00:00:00.000Z', [
+          step('Lint', true, 2),
+          step('Tests', true, 0, { isCachedResult: true }),
+          step('E2E', true, 0, { skipped: { reason: 'not selected', deterministic: true } }),
+        ]),
+        createRun('2026-03-03T00:00:00.000Z', [step('Lint', false, 9)], 'feature'),
+        createRun('2026-04-02T00:00:00.000Z', [step('Lint', false, 9)])
+      ),
+    ];
+
+    const stats = computeHistoryStats(notes, { since: SINCE, until: NOW, branch: 'main' });
+
+    expect(stats.period.runs).toBe(1);
+    expect(stats.steps).toEqual([{ name: 'Lint', runs: 1, passed: 1, passRate: 1, p50Secs: 2, p95Secs: 2 }]);
+  });
+
+  it('should compare with the previous period of the same length', () => {
+    const notes = [
+      note(
+        createRun('2026-02-10T00:00:00.000Z', [step('Tests', true, 10)]),
+        createRun('2026-02-11T00:00:00.000Z', [step('Tests', true, 10)]),
+        createRun('2026-03-10T00:00:00.000Z', [step('Tests', false, 25), step('Build', true, 5)]),
+        createRun('2026-03-11T00:00:00.000Z', [step('Tests', true, 25), step('Build', true, 5)])
+      ),
+    ];
+
+    const stats = computeHistoryStats(notes, { since: SINCE, until: NOW });
+
+    expect(stats.previousPeriod).toEqual({ since: '2026-01-30T00:00:00.000Z', until: '2026-03-01T00:00:00.000Z', runs: 2 });
+    expect(stats.steps.find(s => s.name === 'Tests')?.trend).toEqual({ passRate: -0.5, p50Secs: 15 });
+    expect(stats.steps.find(s => s.name === 'Build')?.trend).toBeUndefined();
+  });
+
+  it('should group failures by error code, falling back to the message', () => {
+    const typeError = (file: string) => ({ file, line: 1, message: 'Type string is not assignable', code: 'TS2322' });
+    const notes = [
+      note(
+        createRun('2026-03-02T00:00:00.000Z', [
+          step('Typecheck', false, 5, { extraction: extraction([typeError('a.ts'), typeError('b.ts')]) }),
+        ]),
+        createRun('2026-03-03T00:00:00.000Z', [
+          step('Build', false, 5, { extraction: extraction([typeError('c.ts')]) }),
+          step('Tests', false, 5, { extraction: extraction([{ file: 'x.test.ts', message: 'expected 1 to be 2\n  at x.test.ts:3' }]) }),
+        ])
+      ),
+    ];
+
+    const { topFailures } = computeHistoryStats(notes, { since: SINCE, until: NOW });
+
+    expect(topFailures).toEqual([
+      { code: 'TS2322', message: 'Type string is not assignable', count: 3, steps: ['Typecheck', 'Build'], lastSeen: '2026-03-03T00:00:00.000Z' },
+      { message: 'expected 1 to be 2', count: 1, steps: ['Tests'], lastSeen: '2026-03-03T00:00:00.000Z' },
+    ]);
+  });
+});
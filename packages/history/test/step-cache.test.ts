@@ -0,0 +1,207 @@
+/**
+ * Tests for the per-step input cache
+ */
+
+import type { ValidationResult, ValidationStep } from '@vibe-validate/core';
+import { addNote, readNote } from '@vibe-validate/git';
+import { describe, it, expect, afterEach, beforeEach, vi } from 'vitest';
+import { parse as parseYaml, stringify as stringifyYaml } from 'yaml';
+
+import type { StepCacheNote } from '../src/schemas.js';
+import { signStepCacheNote } from '../src/signing.js';
+import { findCachedStepResult, getStepCacheRef, recordStepResults } from '../src/step-cache.js';
+
+vi.mock('@vibe-validate/git', async (importOriginal) => {
+  // eslint-disable-next-line @typescript-eslint/consistent-type-imports -- Dynamic import in mock
+  const actual = await importOriginal<typeof import('@vibe-validate/git')>();
+  return {
+    ...actual,
+    addNote: vi.fn(() => true),
+    readNote: vi.fn(() => null),
+    verifyGitSignature: vi.fn(() => ({ valid: true })),
+  };
+});
+
+const TEST_STEP: ValidationStep = { name: 'Test', command: 'npm test', inputs: ['src/**'] };
+const INPUTS_HASH = 'a1b2c3d4e5f6a1b2c3d4e5f6a1b2c3d4e5f6a1b2';
+
+/**
+ * Build a passing validation result with one step
+ * @param stepOverrides - Fields to override on the step result
+ * @returns Validation result
+ */
+function createResult(stepOverrides: Record<string, unknown> = {}): ValidationResult {
+  return {
+    passed: true,
+    timestamp: '2026-10-01T12:00:00.000Z',
+    treeHash: 'f00d',
+    phases: [
+      {
+        name: 'Testing',
+        passed: true,
+        durationSecs: 42,
+        steps: [
+          {
+            name: 'Test',
+            command: 'npm test',
+            exitCode: 0,
+            durationSecs: 42,
+            passed: true,
+            inputsHash: INPUTS_HASH,
+            ...stepOverrides,
+          },
+        ],
+      },
+    ],
+  };
+}
+
+describe('getStepCacheRef', () => {
+  it('should key the ref by command and working directory', () => {
+    const root = getStepCacheRef({ command: 'npm test' });
+    const cli = getStepCacheRef({ command: 'npm test', cwd: 'packages/cli' });
+
+    expect(root).toMatch(/^vibe-validate\/step\/[0-9a-f]{16}$/);
+    expect(cli).not.toBe(root);
+    expect(getStepCacheRef({ command: 'npm  test' })).toBe(root);
+  });
+
+  it('should key the ref by the step env, in any order', () => {
+    const root = getStepCacheRef({ command: 'npm test' });
+    const testEnv = getStepCacheRef({ command: 'npm test', env: { NODE_ENV: 'test', CI: 'true' } });
+
+    expect(testEnv).not.toBe(root);
+    expect(getStepCacheRef({ command: 'npm test', env: { NODE_ENV: 'production', CI: 'true' } })).not.toBe(testEnv);
+    expect(getStepCacheRef({ command: 'npm test', env: { CI: 'true', NODE_ENV: 'test' } })).toBe(testEnv);
+  });
+});
+
+describe('recordStepResults', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should record passing steps under their input hash', async () => {
+    const recorded = await recordStepResults([TEST_STEP], createResult());
+
+    expect(recorded).toBe(1);
+    expect(addNote).toHaveBeenCalledWith(getStepCacheRef(TEST_STEP), INPUTS_HASH, expect.any(String));
+    const note = parseYaml(vi.mocked(addNote).mock.calls[0][2]);
+    expect(note).toMatchObject({
+      inputsHash: INPUTS_HASH,
+      timestamp: '2026-10-01T12:00:00.000Z',
+      treeHash: 'f00d',
+      result: { name: 'Test', passed: true, durationSecs: 42 },
+    });
+  });
+
+  it.each([
+    ['failed steps', { passed: false, exitCode: 1 }],
+    ['steps reused from the cache', { isCachedResult: true }],
+    ['steps without an input hash', { inputsHash: undefined }],
+  ])('should not record %s', async (_label, overrides) => {
+    expect(await recordStepResults([TEST_STEP], createResult(overrides))).toBe(0);
+    expect(addNote).not.toHaveBeenCalled();
+  });
+});
+
+/**
+ * Build a recorded step cache note
+ * @param signature - How to sign it (unsigned when omitted)
+ * @returns Note as stored
+ */
+function createNote(signature?: 'hmac' | 'gpg'): StepCacheNote {
+  const note: StepCacheNote = {
+    inputsHash: INPUTS_HASH,
+    timestamp: '2026-10-01T12:00:00.000Z',
+    result: { name: 'Test', command: 'npm test', exitCode: 0, durationSecs: 42, passed: true },
+  };
+  if (signature === 'hmac') {
+    note.signature = signStepCacheNote(getStepCacheRef(TEST_STEP), note, 'hmac');
+  } else if (signature === 'gpg') {
+    note.signature = { method: 'gpg', value: 'signed commit' };
+  }
+  return note;
+}
+
+describe('findCachedStepResult', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(readNote).mockReturnValue(null);
+  });
+
+  it('should return the recorded pass for the input hash', async () => {
+    vi.mocked(readNote).mockReturnValue(stringifyYaml({
+      inputsHash: INPUTS_HASH,
+      timestamp: '2026-10-01T12:00:00.000Z',
+      result: { name: 'Test', command: 'npm test', exitCode: 0, durationSecs: 42, passed: true },
+    }));
+
+    const result = await findCachedStepResult(TEST_STEP, INPUTS_HASH);
+
+    expect(readNote).toHaveBeenCalledWith(getStepCacheRef(TEST_STEP), INPUTS_HASH);
+    expect(result).toMatchObject({ name: 'Test', passed: true, durationSecs: 42 });
+  });
+
+  it('should reuse an unsigned pass only with trust: any', async () => {
+    vi.mocked(readNote).mockReturnValue(stringifyYaml(createNote()));
+
+    expect(await findCachedStepResult(TEST_STEP, INPUTS_HASH, 'any')).not.toBeNull();
+    expect(await findCachedStepResult(TEST_STEP, INPUTS_HASH, 'signed')).toBeNull();
+    expect(await findCachedStepResult(TEST_STEP, INPUTS_HASH, 'ci-only')).toBeNull();
+  });
+
+  describe('with signed notes', () => {
+    beforeEach(() => {
+      vi.stubEnv('VV_HISTORY_SIGNING_KEY', 'ci-secret');
+    });
+
+    afterEach(() => {
+      vi.unstubAllEnvs();
+    });
+
+    it('should reuse a git-signed pass with trust: signed but not ci-only', async () => {
+      vi.mocked(readNote).mockReturnValue(stringifyYaml(createNote('gpg')));
+
+      expect(await findCachedStepResult(TEST_STEP, INPUTS_HASH, 'signed')).not.toBeNull();
+      expect(await findCachedStepResult(TEST_STEP, INPUTS_HASH, 'ci-only')).toBeNull();
+    });
+
+    it('should reuse an HMAC-signed pass with trust: ci-only', async () => {
+      vi.mocked(readNote).mockReturnValue(stringifyYaml(createNote('hmac')));
+
+      expect(await findCachedStepResult(TEST_STEP, INPUTS_HASH, 'signed')).not.toBeNull();
+      expect(await findCachedStepResult(TEST_STEP, INPUTS_HASH, 'ci-only')).not.toBeNull();
+    });
+
+    it('should not reuse a signed pass that was changed or moved to another step', async () => {
+      const note = createNote('hmac');
+      vi.mocked(readNote).mockReturnValue(stringifyYaml({ ...note, treeHash: 'other' }));
+      expect(await findCachedStepResult(TEST_STEP, INPUTS_HASH, 'ci-only')).toBeNull();
+
+      vi.mocked(readNote).mockReturnValue(stringifyYaml(note));
+      expect(await findCachedStepResult({ ...TEST_STEP, command: 'npm run lint' }, INPUTS_HASH, 'ci-only')).toBeNull();
+    });
+
+    it('should sign recorded passes with history.sign', async () => {
+      await recordStepResults([TEST_STEP], createResult(), 'hmac');
+
+      const note = parseYaml(vi.mocked(addNote).mock.calls[0][2]);
+      expect(note.signature).toMatchObject({ method: 'hmac' });
+      vi.mocked(readNote).mockReturnValue(vi.mocked(addNote).mock.calls[0][2]);
+      expect(await findCachedStepResult(TEST_STEP, INPUTS_HASH, 'ci-only')).toMatchObject({ name: 'Test', passed: true });
+    });
+  });
+
+  it('should return null when nothing is recorded', async () => {
+    expect(await findCachedStepResult(TEST_STEP, INPUTS_HASH)).toBeNull();
+  });
+
+  it('should treat malformed notes as a miss', async () => {
+    vi.mocked(readNote).mockReturnValue('inputsHash: [unclosed');
+    expect(await findCachedStepResult(TEST_STEP, INPUTS_HASH)).toBeNull();
+
+    vi.mocked(readNote).mockReturnValue(stringifyYaml({ inputsHash: INPUTS_HASH }));
+    expect(await findCachedStepResult(TEST_STEP, INPUTS_HASH)).toBeNull();
+  });
+});
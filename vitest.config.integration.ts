@@ -21,10 +21,14 @@ import { defineConfig } from 'vitest/config';
  *
  * All tests must be cross-platform (Windows + Unix).
  *
- * INCLUDED TESTS (90 total):
+ * INCLUDED TESTS (111 total):
  * - packaging.system.test.ts: npm package integrity (14 tests, ALL SKIPPED - see test file for reason)
  * - subdirectory-behavior.system.test.ts: CLI from subdirectories (26 tests)
  * - tree-hash.integration.test.ts: git tree hash with real repos (11 tests)
+ * - inputs-hash.integration.test.ts: per-step input tree hashes with real repos (6 tests)
+ * - changed-paths.integration.test.ts: changed-path detection for conditional steps (4 tests)
+ * - notes-sync.integration.test.ts: validation history push/pull between clones (8 tests)
+ * - signing.integration.test.ts: payload signing with git's SSH signing (3 tests)
  * - history-recording.test.ts: git notes history tracking (3 tests)
  * - cache-manager.integration.test.ts: real filesystem cache operations (9 tests)
  * - watch-pr-extraction.integration.test.ts: extractor quality validation (6 tests)
@@ -46,6 +50,10 @@ export default defineConfig({
       // Integration tests (component integration)
       'packages/git/test/tree-hash.integration.test.ts',
       'packages/git/test/tree-snapshot.integration.test.ts',
+      'packages/git/test/inputs-hash.integration.test.ts',
+      'packages/git/test/changed-paths.integration.test.ts',
+      'packages/git/test/notes-sync.integration.test.ts',
+      'packages/git/test/signing.integration.test.ts',
       'packages/cli/test/integration/history-recording.test.ts',
       'packages/cli/test/integration/cache-manager.integration.test.ts',
       'packages/cli/test/integration/watch-pr-extraction.integration.test.ts',